@@ -0,0 +1,40 @@
+/**
+ * Service worker for MyStudyHub reminder notifications
+ * Relays snooze actions chosen on a browser notification back to the app
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const data = event.notification.data || {};
+  event.notification.close();
+
+  event.waitUntil((async () => {
+    const clientList = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    // Only the window brought forward handles the action, so several open tabs snooze once
+    const target = clientList.find((client) => client.focused) || clientList[0];
+
+    // Snooze buttons carry the snooze option as their action name
+    if (target && event.action && data.reminderId) {
+      target.postMessage({
+        type: 'reminder-snooze',
+        reminderId: data.reminderId,
+        option: event.action
+      });
+    }
+
+    if (target) {
+      return target.focus();
+    }
+
+    if (data.reminderId) {
+      return self.clients.openWindow(`/dashboard/reminders?highlight=${data.reminderId}`);
+    }
+  })());
+});
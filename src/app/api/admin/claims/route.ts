@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { authorizeUser, syncAdminClaim } from "@/lib/adminServer";
+
+/**
+ * Bring the caller's admin claim in line with their profile role
+ * Called at admin sign-in; the browser refreshes its ID token afterwards to pick up the claim
+ */
+export async function POST(request: Request) {
+  const authorization = await authorizeUser(request);
+  if (!authorization.authorized) {
+    return NextResponse.json({ error: authorization.error }, { status: authorization.status });
+  }
+
+  try {
+    const isAdmin = await syncAdminClaim(authorization.uid);
+    return NextResponse.json({ isAdmin });
+  } catch (error) {
+    console.error("Error syncing admin claim:", error);
+    return NextResponse.json({ error: "Failed to check admin access" }, { status: 500 });
+  }
+}
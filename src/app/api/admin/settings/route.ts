@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { authorizeAdmin, updateAdminSettings } from "@/lib/adminServer";
+import { AdminFileConfig } from "@/types/admin";
+
+/**
+ * Save the app-wide file settings
+ */
+export async function PUT(request: Request) {
+  const authorization = await authorizeAdmin(request);
+  if (!authorization.authorized) {
+    return NextResponse.json({ error: authorization.error }, { status: authorization.status });
+  }
+
+  let fileConfig: AdminFileConfig;
+  try {
+    ({ fileConfig } = await request.json());
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  if (!fileConfig || !Array.isArray(fileConfig.allowedFileTypes)) {
+    return NextResponse.json({ error: "A file configuration is required" }, { status: 400 });
+  }
+
+  try {
+    const errors = await updateAdminSettings(fileConfig, authorization.uid);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors[0], errors }, { status: 400 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error updating admin settings:", error);
+    return NextResponse.json({ error: "Failed to update settings" }, { status: 500 });
+  }
+}
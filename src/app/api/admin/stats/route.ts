@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/adminServer";
+import { getAdminDashboardData } from "@/lib/adminAnalytics";
+
+/**
+ * Admin dashboard statistics across all students
+ */
+export async function GET(request: Request) {
+  const authorization = await authorizeAdmin(request);
+  if (!authorization.authorized) {
+    return NextResponse.json({ error: authorization.error }, { status: authorization.status });
+  }
+
+  try {
+    return NextResponse.json(await getAdminDashboardData());
+  } catch {
+    return NextResponse.json({ error: "Failed to load dashboard statistics" }, { status: 500 });
+  }
+}
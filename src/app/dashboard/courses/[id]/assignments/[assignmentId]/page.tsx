@@ -0,0 +1,136 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { ArrowLeft, ClipboardCheck } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { getCourseById, listenToCourseEnrollments } from "@/lib/courses";
+import {
+  getAssignmentProgress,
+  listenToCourseAssignments,
+  listenToCourseAssignmentTasks
+} from "@/lib/assignments";
+import { listenToCourseSubmissions } from "@/lib/submissions";
+import { Assignment, Course, Enrollment, Submission } from "@/types/course";
+import { Task } from "@/types/task";
+import SubmissionReviewCard from "@/components/course/SubmissionReviewCard";
+
+export default function AssignmentReviewPage() {
+  const { user } = useAuth();
+  const { showSuccessToast } = useToast();
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+  const assignmentId = params.assignmentId as string;
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+
+  useEffect(() => {
+    if (!user?.userId) return;
+    getCourseById(courseId).then(found => {
+      setCourse(found && found.teacherId === user.userId ? found : null);
+      setIsLoading(false);
+    });
+  }, [courseId, user?.userId]);
+
+  useEffect(() => {
+    if (!course) return;
+    const stopEnrollments = listenToCourseEnrollments(course, setEnrollments);
+    const stopAssignments = listenToCourseAssignments(course, setAssignments);
+    const stopTasks = listenToCourseAssignmentTasks(course, setTasks);
+    const stopSubmissions = listenToCourseSubmissions(course, setSubmissions);
+
+    return () => {
+      stopEnrollments();
+      stopAssignments();
+      stopTasks();
+      stopSubmissions();
+    };
+  }, [course]);
+
+  const assignment = assignments.find(a => a.id === assignmentId);
+
+  // Hand-ins waiting for a review first, then reviewed ones, then everyone else
+  const progress = useMemo(() => {
+    if (!assignment) return [];
+    const order = { submitted: 0, reviewed: 1 } as Record<string, number>;
+    return getAssignmentProgress(assignment, enrollments, tasks, submissions)
+      .sort((a, b) => (order[a.status] ?? 2) - (order[b.status] ?? 2));
+  }, [assignment, enrollments, tasks, submissions]);
+
+  const waiting = progress.filter(p => p.status === 'submitted').length;
+  const late = progress.filter(p => p.submission?.isLate).length;
+
+  const handleBack = () => router.push(`/dashboard/courses/${courseId}`);
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <div style={{ fontSize: '18px', color: 'var(--text-2)' }}>Loading hand-ins...</div>
+      </div>
+    );
+  }
+
+  if (!course) {
+    return (
+      <div className="card" style={{ textAlign: 'center', padding: '40px' }}>
+        <div style={{ fontSize: '16px', color: 'var(--text)', marginBottom: '12px' }}>Course not found</div>
+        <button className="btn ghost" onClick={() => router.push('/dashboard/courses')}>
+          <ArrowLeft size={16} />
+          Back to courses
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: '800px', margin: '0 auto' }}>
+      <button className="btn ghost" onClick={handleBack} style={{ marginBottom: '16px' }}>
+        <ArrowLeft size={16} />
+        {course.name}
+      </button>
+
+      {!assignment ? (
+        <div className="card" style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>
+          This assignment no longer exists.
+        </div>
+      ) : (
+        <>
+          <div style={{ marginBottom: '24px' }}>
+            <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 8px', color: 'var(--text)', display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <ClipboardCheck size={24} />
+              {assignment.title}
+            </h1>
+            <p className="small" style={{ color: 'var(--text-2)' }}>
+              Due {assignment.dueDate.toDate().toLocaleString()} · {waiting} waiting for review
+              {late > 0 && ` · ${late} late`}
+            </p>
+          </div>
+
+          {progress.length === 0 ? (
+            <div className="card" style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>
+              No students have joined this course yet.
+            </div>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+              {progress.map(entry => (
+                <SubmissionReviewCard
+                  key={entry.enrollment.id}
+                  progress={entry}
+                  assignmentTitle={assignment.title}
+                  onReviewed={() => showSuccessToast('Review saved', `${entry.enrollment.studentName || 'The student'} has been notified`)}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { ArrowLeft, ClipboardCheck, Copy, Edit, Plus, RefreshCw, Trash2, UserMinus } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  deleteCourse,
+  deleteEnrollment,
+  getCourseById,
+  listenToCourseEnrollments,
+  regenerateJoinCode,
+  updateCourse
+} from "@/lib/courses";
+import {
+  createAssignment,
+  deleteAssignment,
+  getAssignmentProgress,
+  listenToCourseAssignments,
+  listenToCourseAssignmentTasks,
+  updateAssignment
+} from "@/lib/assignments";
+import { listenToCourseSubmissions } from "@/lib/submissions";
+import {
+  Assignment,
+  ASSIGNMENT_PROGRESS_COLORS,
+  ASSIGNMENT_PROGRESS_LABELS,
+  Course,
+  Enrollment,
+  Submission
+} from "@/types/course";
+import { Task, TASK_PRIORITY_CONFIG } from "@/types/task";
+import CourseFormModal from "@/components/course/CourseFormModal";
+import AssignmentFormModal from "@/components/course/AssignmentFormModal";
+import ConfirmModal from "@/components/ui/ConfirmModal";
+
+export default function CoursePage() {
+  const { user } = useAuth();
+  const { showSuccessToast, showErrorToast } = useToast();
+  const router = useRouter();
+  const params = useParams();
+  const courseId = params.id as string;
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [expandedAssignmentId, setExpandedAssignmentId] = useState<string | null>(null);
+
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isAssignmentModalOpen, setIsAssignmentModalOpen] = useState(false);
+  const [editingAssignment, setEditingAssignment] = useState<Assignment | undefined>(undefined);
+  const [deletingAssignment, setDeletingAssignment] = useState<Assignment | null>(null);
+  const [removingEnrollment, setRemovingEnrollment] = useState<Enrollment | null>(null);
+
+  useEffect(() => {
+    if (!user?.userId) return;
+    getCourseById(courseId).then(found => {
+      setCourse(found && found.teacherId === user.userId ? found : null);
+      setIsLoading(false);
+    });
+  }, [courseId, user?.userId]);
+
+  // Re-subscribe only when the course itself changes, not its details
+  const listenedCourseId = course?.id;
+  const listenedTeacherId = course?.teacherId;
+
+  useEffect(() => {
+    if (!listenedCourseId || !listenedTeacherId) return;
+    const listened = { id: listenedCourseId, teacherId: listenedTeacherId };
+    const stopEnrollments = listenToCourseEnrollments(listened, setEnrollments);
+    const stopAssignments = listenToCourseAssignments(listened, setAssignments);
+    const stopTasks = listenToCourseAssignmentTasks(listened, setTasks);
+    const stopSubmissions = listenToCourseSubmissions(listened, setSubmissions);
+
+    return () => {
+      stopEnrollments();
+      stopAssignments();
+      stopTasks();
+      stopSubmissions();
+    };
+  }, [listenedCourseId, listenedTeacherId]);
+
+  const progressByAssignment = useMemo(() => {
+    return new Map(assignments.map(assignment => [
+      assignment.id,
+      getAssignmentProgress(assignment, enrollments, tasks, submissions)
+    ]));
+  }, [assignments, enrollments, tasks, submissions]);
+
+  const handleCopyCode = async () => {
+    if (!course) return;
+    try {
+      await navigator.clipboard.writeText(course.joinCode);
+      showSuccessToast('Join code copied');
+    } catch (error) {
+      showErrorToast('Failed to copy join code');
+    }
+  };
+
+  const handleRegenerateCode = async () => {
+    if (!course) return;
+    try {
+      const joinCode = await regenerateJoinCode(course);
+      setCourse({ ...course, joinCode });
+      showSuccessToast('Join code changed', 'The old code no longer works');
+    } catch (error) {
+      showErrorToast('Failed to change the join code', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleDeleteCourse = async () => {
+    if (!course) return;
+    try {
+      await deleteCourse(course);
+      showSuccessToast('Course deleted');
+      router.push('/dashboard/courses');
+    } catch (error) {
+      showErrorToast('Failed to delete course', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleDeleteAssignment = async () => {
+    if (!deletingAssignment) return;
+    try {
+      await deleteAssignment(deletingAssignment.id);
+      showSuccessToast('Assignment deleted');
+      setDeletingAssignment(null);
+    } catch (error) {
+      showErrorToast('Failed to delete assignment', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleRemoveStudent = async () => {
+    if (!removingEnrollment) return;
+    try {
+      await deleteEnrollment(removingEnrollment.id);
+      showSuccessToast('Student removed');
+      setRemovingEnrollment(null);
+    } catch (error) {
+      showErrorToast('Failed to remove student', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <div style={{ fontSize: '18px', color: 'var(--text-2)' }}>Loading course...</div>
+      </div>
+    );
+  }
+
+  if (!course) {
+    return (
+      <div className="card" style={{ textAlign: 'center', padding: '40px' }}>
+        <div style={{ fontSize: '16px', color: 'var(--text)', marginBottom: '12px' }}>Course not found</div>
+        <button className="btn ghost" onClick={() => router.push('/dashboard/courses')}>
+          <ArrowLeft size={16} />
+          Back to courses
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <button className="btn ghost" onClick={() => router.push('/dashboard/courses')} style={{ marginBottom: '16px' }}>
+        <ArrowLeft size={16} />
+        Courses
+      </button>
+
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '24px', gap: '12px' }}>
+        <div>
+          <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 8px', color: 'var(--text)' }}>
+            {course.name}
+          </h1>
+          <p className="small" style={{ color: 'var(--text-2)' }}>
+            {[course.code, course.description].filter(Boolean).join(' · ') || 'No description'}
+          </p>
+        </div>
+        <div className="row" style={{ gap: '8px' }}>
+          <button className="btn ghost" onClick={() => setIsEditModalOpen(true)}>
+            <Edit size={16} />
+            Edit
+          </button>
+          <button className="btn ghost" onClick={() => setIsDeleteModalOpen(true)} style={{ color: 'var(--danger)' }}>
+            <Trash2 size={16} />
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {/* Join code */}
+      <div className="card" style={{ marginBottom: '24px', borderLeft: `4px solid ${course.color}` }}>
+        <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+          <div>
+            <div className="small" style={{ color: 'var(--text-2)', marginBottom: '4px' }}>Join code</div>
+            <div style={{ fontFamily: 'monospace', fontSize: '28px', fontWeight: 700, letterSpacing: '4px', color: 'var(--brand)' }}>
+              {course.joinCode}
+            </div>
+          </div>
+          <div className="row" style={{ gap: '8px' }}>
+            <button className="btn ghost" onClick={handleCopyCode}>
+              <Copy size={16} />
+              Copy
+            </button>
+            <button className="btn ghost" onClick={handleRegenerateCode} title="Students who already joined stay enrolled">
+              <RefreshCw size={16} />
+              New code
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 2fr) minmax(240px, 1fr)', gap: '24px', alignItems: 'start' }}>
+        {/* Assignments */}
+        <div>
+          <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+            <h2 style={{ fontSize: '18px', margin: 0, color: 'var(--text)' }}>Assignments</h2>
+            <button
+              className="btn"
+              onClick={() => {
+                setEditingAssignment(undefined);
+                setIsAssignmentModalOpen(true);
+              }}
+            >
+              <Plus size={16} />
+              New Assignment
+            </button>
+          </div>
+
+          {assignments.length === 0 ? (
+            <div className="card" style={{ textAlign: 'center', padding: '32px', color: 'var(--text-2)' }}>
+              <div className="small">Assignments you publish show up as tasks for every student in the course.</div>
+            </div>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+              {assignments.map(assignment => {
+                const progress = progressByAssignment.get(assignment.id) || [];
+                const completed = progress.filter(p => p.status === 'completed').length;
+                const handedIn = progress.filter(p => p.submission).length;
+                const isExpanded = expandedAssignmentId === assignment.id;
+
+                return (
+                  <div key={assignment.id} className="card">
+                    <div
+                      className="row"
+                      style={{ justifyContent: 'space-between', alignItems: 'flex-start', gap: '12px', cursor: 'pointer' }}
+                      onClick={() => setExpandedAssignmentId(isExpanded ? null : assignment.id)}
+                    >
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div className="row" style={{ gap: '8px', alignItems: 'center', marginBottom: '4px' }}>
+                          <span
+                            style={{
+                              width: '8px',
+                              height: '8px',
+                              borderRadius: '50%',
+                              background: TASK_PRIORITY_CONFIG[assignment.priority].color
+                            }}
+                          />
+                          <span style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text)' }}>{assignment.title}</span>
+                        </div>
+                        <div className="small" style={{ color: 'var(--text-2)' }}>
+                          Due {assignment.dueDate.toDate().toLocaleString()} · {handedIn}/{enrollments.length} handed in
+                          {completed > 0 && ` · ${completed} done without handing in`}
+                        </div>
+                      </div>
+                      <div className="row" style={{ gap: '4px' }} onClick={(e) => e.stopPropagation()}>
+                        <button
+                          className="btn ghost"
+                          onClick={() => router.push(`/dashboard/courses/${course.id}/assignments/${assignment.id}`)}
+                          title="Review hand-ins"
+                        >
+                          <ClipboardCheck size={16} />
+                        </button>
+                        <button
+                          className="btn ghost"
+                          onClick={() => {
+                            setEditingAssignment(assignment);
+                            setIsAssignmentModalOpen(true);
+                          }}
+                          title="Edit assignment"
+                        >
+                          <Edit size={16} />
+                        </button>
+                        <button className="btn ghost" onClick={() => setDeletingAssignment(assignment)} title="Delete assignment">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </div>
+
+                    {enrollments.length > 0 && (
+                      <div style={{ height: '6px', borderRadius: '3px', background: 'var(--bg-2)', marginTop: '12px', overflow: 'hidden' }}>
+                        <div style={{ width: `${(handedIn / enrollments.length) * 100}%`, height: '100%', background: 'var(--ok)' }} />
+                      </div>
+                    )}
+
+                    {isExpanded && (
+                      <div style={{ marginTop: '12px', borderTop: '1px solid var(--border)', paddingTop: '12px' }}>
+                        {progress.length === 0 ? (
+                          <div className="small" style={{ color: 'var(--text-2)' }}>No students have joined yet.</div>
+                        ) : (
+                          progress.map(({ enrollment, status, submission }) => (
+                            <div
+                              key={enrollment.id}
+                              className="row"
+                              style={{ justifyContent: 'space-between', alignItems: 'center', padding: '6px 0' }}
+                            >
+                              <span style={{ color: 'var(--text)', fontSize: '14px' }}>{enrollment.studentName || enrollment.studentEmail}</span>
+                              <span className="small" style={{ color: ASSIGNMENT_PROGRESS_COLORS[status], fontWeight: 500 }}>
+                                {ASSIGNMENT_PROGRESS_LABELS[status]}
+                                {submission?.isLate && <span style={{ color: 'var(--danger)' }}> · Late</span>}
+                                {submission?.grade && ` · ${submission.grade}`}
+                              </span>
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Roster */}
+        <div className="card">
+          <h2 style={{ fontSize: '18px', margin: '0 0 12px', color: 'var(--text)' }}>
+            Students ({enrollments.length})
+          </h2>
+          {enrollments.length === 0 ? (
+            <div className="small" style={{ color: 'var(--text-2)' }}>Share the join code to add students.</div>
+          ) : (
+            enrollments.map(enrollment => (
+              <div
+                key={enrollment.id}
+                className="row"
+                style={{ justifyContent: 'space-between', alignItems: 'center', padding: '6px 0', gap: '8px' }}
+              >
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ color: 'var(--text)', fontSize: '14px' }}>{enrollment.studentName || 'Student'}</div>
+                  <div className="small" style={{ color: 'var(--text-3)', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                    {enrollment.studentEmail}
+                  </div>
+                </div>
+                <button className="btn ghost" onClick={() => setRemovingEnrollment(enrollment)} title="Remove from course">
+                  <UserMinus size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <CourseFormModal
+        isOpen={isEditModalOpen}
+        onClose={() => setIsEditModalOpen(false)}
+        course={course}
+        onSubmit={async (data) => {
+          await updateCourse(course, data);
+          setCourse({ ...course, ...data });
+          showSuccessToast('Course updated');
+        }}
+      />
+
+      <AssignmentFormModal
+        isOpen={isAssignmentModalOpen}
+        onClose={() => setIsAssignmentModalOpen(false)}
+        assignment={editingAssignment}
+        onSubmit={async (data) => {
+          if (editingAssignment) {
+            await updateAssignment(editingAssignment.id, data);
+            showSuccessToast('Assignment updated');
+          } else {
+            await createAssignment(course, data);
+            showSuccessToast('Assignment published', 'Students receive it as a task');
+          }
+        }}
+      />
+
+      <ConfirmModal
+        isOpen={isDeleteModalOpen}
+        onClose={() => setIsDeleteModalOpen(false)}
+        onConfirm={handleDeleteCourse}
+        title="Delete Course"
+        message={`Delete ${course.name}? Its assignments and roster are removed and the join code stops working. Tasks students already received are kept.`}
+        confirmText="Delete"
+      />
+
+      <ConfirmModal
+        isOpen={!!deletingAssignment}
+        onClose={() => setDeletingAssignment(null)}
+        onConfirm={handleDeleteAssignment}
+        title="Delete Assignment"
+        message={`Delete "${deletingAssignment?.title}"? Tasks students already received are kept.`}
+        confirmText="Delete"
+      />
+
+      <ConfirmModal
+        isOpen={!!removingEnrollment}
+        onClose={() => setRemovingEnrollment(null)}
+        onConfirm={handleRemoveStudent}
+        title="Remove Student"
+        message={`Remove ${removingEnrollment?.studentName || 'this student'} from the course? They stop receiving new assignments.`}
+        confirmText="Remove"
+      />
+    </div>
+  );
+}
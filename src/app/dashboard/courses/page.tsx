@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { GraduationCap, LogOut, Plus, Users } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  createCourse,
+  deleteEnrollment,
+  listenToTeacherCourses,
+  listenToUserEnrollments,
+  updateEnrollmentSubject
+} from "@/lib/courses";
+import { getUserSubjects } from "@/lib/storage";
+import { Course, Enrollment } from "@/types/course";
+import { Subject } from "@/types/subject";
+import CourseFormModal from "@/components/course/CourseFormModal";
+import JoinCourseModal from "@/components/course/JoinCourseModal";
+import ConfirmModal from "@/components/ui/ConfirmModal";
+
+export default function CoursesPage() {
+  const { user } = useAuth();
+
+  if (!user) {
+    return null;
+  }
+
+  return user.role === 'teacher' ? <TeacherCourses /> : <StudentCourses />;
+}
+
+function TeacherCourses() {
+  const { user } = useAuth();
+  const { showSuccessToast } = useToast();
+  const router = useRouter();
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user?.userId) return;
+
+    return listenToTeacherCourses(user.userId, (updated) => {
+      setCourses(updated);
+      setIsLoading(false);
+    });
+  }, [user?.userId]);
+
+  if (!user) return null;
+
+  return (
+    <div>
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '24px', gap: '12px' }}>
+        <div>
+          <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 8px', color: 'var(--text)' }}>
+            Courses
+          </h1>
+          <p className="small" style={{ color: 'var(--text-2)' }}>
+            Share a course&apos;s join code with your class, then publish assignments to everyone at once.
+          </p>
+        </div>
+        <button className="btn" onClick={() => setIsCreateModalOpen(true)}>
+          <Plus size={16} />
+          New Course
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>Loading courses...</div>
+      ) : courses.length === 0 ? (
+        <div className="card" style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>
+          <GraduationCap size={32} style={{ marginBottom: '12px', opacity: 0.5 }} />
+          <div style={{ fontSize: '16px', color: 'var(--text)', marginBottom: '8px' }}>No courses yet</div>
+          <div className="small">Create a course to get a join code for your students.</div>
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: '16px' }}>
+          {courses.map(course => (
+            <div
+              key={course.id}
+              className="card"
+              onClick={() => router.push(`/dashboard/courses/${course.id}`)}
+              style={{ cursor: 'pointer', borderLeft: `4px solid ${course.color}` }}
+            >
+              <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text)', marginBottom: '4px' }}>
+                {course.name}
+              </div>
+              {course.code && (
+                <div className="small" style={{ color: 'var(--text-2)', marginBottom: '12px' }}>{course.code}</div>
+              )}
+              <div className="row" style={{ gap: '8px', alignItems: 'center' }}>
+                <span className="small" style={{ color: 'var(--text-2)' }}>Join code</span>
+                <span style={{ fontFamily: 'monospace', fontWeight: 600, letterSpacing: '2px', color: 'var(--brand)' }}>
+                  {course.joinCode}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CourseFormModal
+        isOpen={isCreateModalOpen}
+        onClose={() => setIsCreateModalOpen(false)}
+        onSubmit={async (data) => {
+          const courseId = await createCourse(user, data);
+          showSuccessToast('Course created', 'Share the join code with your students');
+          router.push(`/dashboard/courses/${courseId}`);
+        }}
+      />
+    </div>
+  );
+}
+
+function StudentCourses() {
+  const { user } = useAuth();
+  const { showSuccessToast, showErrorToast } = useToast();
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoinModalOpen, setIsJoinModalOpen] = useState(false);
+  const [leaving, setLeaving] = useState<Enrollment | null>(null);
+
+  useEffect(() => {
+    if (!user?.userId) return;
+
+    return listenToUserEnrollments(user.userId, (updated) => {
+      setEnrollments(updated);
+      setIsLoading(false);
+    });
+  }, [user?.userId]);
+
+  // Joining can create a subject, so reload them whenever the courses change
+  useEffect(() => {
+    if (!user?.userId) return;
+    getUserSubjects(user.userId).then(setSubjects);
+  }, [user?.userId, enrollments.length]);
+
+  const handleSubjectChange = async (enrollment: Enrollment, subjectId: string) => {
+    try {
+      await updateEnrollmentSubject(enrollment.id, subjectId);
+      showSuccessToast('Subject updated', 'New assignments will be filed there');
+    } catch (error) {
+      showErrorToast('Failed to update course', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!leaving) return;
+    try {
+      await deleteEnrollment(leaving.id);
+      showSuccessToast('Left course', `You will no longer receive assignments from ${leaving.courseName}`);
+      setLeaving(null);
+    } catch (error) {
+      showErrorToast('Failed to leave course', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div>
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '24px', gap: '12px' }}>
+        <div>
+          <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 8px', color: 'var(--text)' }}>
+            Courses
+          </h1>
+          <p className="small" style={{ color: 'var(--text-2)' }}>
+            Join your teachers&apos; courses to get their assignments as tasks.
+          </p>
+        </div>
+        <button className="btn" onClick={() => setIsJoinModalOpen(true)}>
+          <Plus size={16} />
+          Join Course
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>Loading courses...</div>
+      ) : enrollments.length === 0 ? (
+        <div className="card" style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>
+          <Users size={32} style={{ marginBottom: '12px', opacity: 0.5 }} />
+          <div style={{ fontSize: '16px', color: 'var(--text)', marginBottom: '8px' }}>You haven&apos;t joined a course</div>
+          <div className="small">Ask your teacher for the course&apos;s join code.</div>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {enrollments.map(enrollment => (
+            <div key={enrollment.id} className="card">
+              <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+                <div style={{ flex: 1, minWidth: '200px' }}>
+                  <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text)' }}>{enrollment.courseName}</div>
+                  <div className="small" style={{ color: 'var(--text-2)' }}>
+                    {enrollment.teacherName ? `Taught by ${enrollment.teacherName}` : 'Course'}
+                  </div>
+                </div>
+                <div className="row" style={{ gap: '8px', alignItems: 'center' }}>
+                  <label className="small" style={{ color: 'var(--text-2)' }}>Subject</label>
+                  <select
+                    value={enrollment.subjectId}
+                    onChange={(e) => handleSubjectChange(enrollment, e.target.value)}
+                    style={{
+                      padding: '6px 10px',
+                      borderRadius: '8px',
+                      border: '1px solid var(--border)',
+                      background: 'var(--bg)',
+                      color: 'var(--text)',
+                      fontSize: '14px'
+                    }}
+                  >
+                    {!subjects.some(subject => subject.id === enrollment.subjectId) && (
+                      <option value={enrollment.subjectId}>No subject</option>
+                    )}
+                    {subjects.map(subject => (
+                      <option key={subject.id} value={subject.id}>{subject.name}</option>
+                    ))}
+                  </select>
+                  <button className="btn ghost" onClick={() => setLeaving(enrollment)} title="Leave course">
+                    <LogOut size={16} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <JoinCourseModal
+        isOpen={isJoinModalOpen}
+        onClose={() => setIsJoinModalOpen(false)}
+        user={user}
+        onJoined={(invite) => showSuccessToast('Joined course', `Assignments from ${invite.courseName} will appear in your tasks`)}
+      />
+
+      <ConfirmModal
+        isOpen={!!leaving}
+        onClose={() => setLeaving(null)}
+        onConfirm={handleLeave}
+        title="Leave Course"
+        message={`Leave ${leaving?.courseName}? Tasks you already received are kept, but new assignments will no longer arrive.`}
+        confirmText="Leave"
+      />
+    </div>
+  );
+}
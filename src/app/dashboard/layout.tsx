@@ -5,9 +5,13 @@ import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import SidebarNavigation from "@/components/navigation/SidebarNavigation";
 import IntegratedSearch from "@/components/search/IntegratedSearch";
 import NotificationBell from "@/components/notification/NotificationBell";
+import SyncStatusIndicator from "@/components/navigation/SyncStatusIndicator";
 import NotificationCenter from "@/components/notification/NotificationCenter";
 import LogoutButton from "@/components/auth/LogoutButton";
 import { useAuth } from "@/contexts/AuthContext";
+import { startSearchIndexSync } from "@/lib/searchIndex";
+import { startOutboxSync } from "@/lib/outbox";
+import { startAssignmentSync } from "@/lib/assignments";
 
 export default function DashboardLayout({
   children,
@@ -39,6 +43,24 @@ export default function DashboardLayout({
     setIsMobileMenuOpen(false);
   };
 
+  // Keep the search index warm so the first search doesn't wait for Firestore
+  useEffect(() => {
+    if (!user) return;
+    return startSearchIndexSync(user.userId);
+  }, [user]);
+
+  // Send changes made offline as soon as the connection is back
+  useEffect(() => {
+    if (!user) return;
+    return startOutboxSync(user.userId);
+  }, [user]);
+
+  // Turn assignments from joined courses into tasks
+  useEffect(() => {
+    if (!user || user.role === 'teacher') return;
+    return startAssignmentSync(user.userId);
+  }, [user]);
+
   // Handle responsive sidebar behavior
   useEffect(() => {
     const handleResize = () => {
@@ -126,8 +148,11 @@ export default function DashboardLayout({
                 </div>
               )}
 
-              {/* Right Side: Notification + Logout */}
+              {/* Right Side: Sync Status + Notification + Logout */}
               <div className="row" style={{ gap: '8px', alignItems: 'center', flexShrink: 0 }}>
+                {/* Offline / Sync Status */}
+                {user && <SyncStatusIndicator userId={user.userId} />}
+
                 {/* Notification Bell */}
                 <NotificationBell onClick={handleNotificationClick} />
 
@@ -13,9 +13,12 @@ import NotificationPermissionBanner from "@/components/ui/NotificationPermission
 import { Reminder } from "@/types/reminder";
 import { Task, TaskWithSubject, TaskStats } from "@/types/task";
 import { getUpcomingReminders } from "@/lib/reminders";
-import { getTaskStats, getUpcomingTasks, updateOverdueTasks, toggleTaskCompletion } from "@/lib/tasks";
+import { getTaskStats, getUpcomingTasks, updateOverdueTasks } from "@/lib/tasks";
+import { toggleTaskCompletionOrQueue } from "@/lib/outbox";
 import { getUserSubjects, getUserStorageUsage } from "@/lib/storage";
 import { Subject, SubjectWithFileCount } from "@/types/subject";
+import { getUserAssessments, getGradingScales, calculateSemesterGpa } from "@/lib/grades";
+import { SemesterGpa } from "@/types/grade";
 
 export default function DashboardPage() {
   const { user, logout } = useAuth();
@@ -28,10 +31,14 @@ export default function DashboardPage() {
     pending: 0,
     completed: 0,
     overdue: 0,
-    dueThisWeek: 0
+    blocked: 0,
+    dueThisWeek: 0,
+    checklistItemsTotal: 0,
+    checklistItemsCompleted: 0
   });
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [recentFileCount, setRecentFileCount] = useState(0);
+  const [semesterGpas, setSemesterGpas] = useState<SemesterGpa[]>([]);
   const [isReminderModalOpen, setIsReminderModalOpen] = useState(false);
   const [isLoadingReminders, setIsLoadingReminders] = useState(true);
   const [isLoadingTasks, setIsLoadingTasks] = useState(true);
@@ -111,12 +118,15 @@ export default function DashboardPage() {
 
     setIsLoadingData(true);
     try {
-      const [userSubjects, storageUsage] = await Promise.all([
+      const [userSubjects, storageUsage, assessments, scales] = await Promise.all([
         getUserSubjects(user.userId),
-        getUserStorageUsage(user.userId)
+        getUserStorageUsage(user.userId),
+        getUserAssessments(user.userId).catch(() => []),
+        getGradingScales(user.userId)
       ]);
 
       setSubjects(userSubjects);
+      setSemesterGpas(calculateSemesterGpa(userSubjects, assessments, scales));
       setRecentFileCount(storageUsage > 0 ? 1 : 0); // Simplified - just show if any files exist
     } catch (error) {
     } finally {
@@ -141,8 +151,11 @@ export default function DashboardPage() {
   const handleTaskToggleComplete = async (taskId: string) => {
     if (!user?.userId) return;
 
+    const task = upcomingTasks.find(t => t.id === taskId);
+    if (!task) return;
+
     try {
-      const updatedTask = await toggleTaskCompletion(user.userId, taskId);
+      const updatedTask = await toggleTaskCompletionOrQueue(user.userId, task);
       setLocalUpcomingTasks(prev =>
         prev.map(task =>
           task.id === taskId
@@ -429,6 +442,60 @@ export default function DashboardPage() {
             </div>
           )}
         </div>
+
+        {/* Semester GPA */}
+        <div className="card" style={{ gridColumn: 'span 12' }}>
+          <div className="row">
+            <h3 style={{ fontSize: 'var(--fs-h2)', margin: '0 0 14px', color: 'var(--text)' }}>Semester GPA</h3>
+          </div>
+          <div className="hr"></div>
+
+          {isLoadingData ? (
+            <div style={{ textAlign: 'center', padding: '20px', color: 'var(--text-2)' }}>
+              Loading grades...
+            </div>
+          ) : semesterGpas.length > 0 ? (
+            <div style={{ display: 'grid', gap: '16px', gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))' }}>
+              {semesterGpas.map((semester) => (
+                <div key={semester.semester}>
+                  <div className="row" style={{ alignItems: 'baseline', marginBottom: '8px' }}>
+                    <span style={{ fontWeight: '600', color: 'var(--text)' }}>{semester.semester}</span>
+                    <span className="right small" style={{ color: 'var(--text-2)' }}>
+                      {semester.gpa.toFixed(2)} · {semester.credits} credits
+                    </span>
+                  </div>
+                  {semester.subjects.map((entry) => (
+                    <div
+                      key={entry.subjectId}
+                      onClick={() => router.push(`/dashboard/subjects/${entry.subjectId}/grades`)}
+                      className="row"
+                      style={{
+                        cursor: 'pointer',
+                        borderRadius: '8px',
+                        padding: '6px 8px',
+                        margin: '0 -8px',
+                        transition: 'background-color 0.2s'
+                      }}
+                      onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'var(--hover)'}
+                      onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                    >
+                      <span style={{ fontSize: '14px', color: 'var(--text)' }}>{entry.subjectName}</span>
+                      <span className="right small" style={{ color: 'var(--text-2)' }}>
+                        {Math.round(entry.percentage * 10) / 10}% · {entry.band.label}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div style={{ textAlign: 'center', padding: '20px', color: 'var(--text-2)' }}>
+              <div style={{ fontSize: '20px', marginBottom: '8px' }}>🎓</div>
+              <div>No grades yet</div>
+              <div className="small">Open a subject&apos;s grade book to add your assessments</div>
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Reminder Modal */}
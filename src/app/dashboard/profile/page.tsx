@@ -6,6 +6,9 @@ import { useRouter } from "next/navigation";
 import { updateUserProfile } from "@/lib/auth";
 import PasswordChangeForm from "@/components/auth/PasswordChangeForm";
 import AccountDeletionModal from "@/components/auth/AccountDeletionModal";
+import DataExportSection from "@/components/profile/DataExportSection";
+import DataRestoreSection from "@/components/profile/DataRestoreSection";
+import { AccountDeletionReport, ACCOUNT_DELETION_REPORT_KEY } from "@/types/user";
 
 export default function ProfilePage() {
   const { user, refreshUser, logout } = useAuth();
@@ -50,7 +53,9 @@ export default function ProfilePage() {
     }
   };
 
-  const handleAccountDeleted = async () => {
+  const handleAccountDeleted = async (report: AccountDeletionReport) => {
+    // The dashboard unmounts once the account is gone, so the home page shows the report
+    sessionStorage.setItem(ACCOUNT_DELETION_REPORT_KEY, JSON.stringify(report));
     await logout();
     router.push("/");
   };
@@ -154,6 +159,10 @@ export default function ProfilePage() {
 
       <PasswordChangeForm />
 
+      <DataExportSection />
+
+      <DataRestoreSection />
+
       <div className="mt-8 bg-red-50 p-6 rounded-lg border border-red-200">
         <div className="mb-4">
           <h3 className="text-lg font-medium text-red-900">Delete Account</h3>
@@ -5,7 +5,9 @@ import { useRouter } from 'next/navigation';
 import { ArrowLeft, Trash2 } from 'lucide-react';
 import ReminderForm from '@/components/reminder/ReminderForm';
 import { Reminder, ReminderFormData } from '@/types/reminder';
-import { getReminderById, updateReminder, deleteReminder } from '@/lib/reminders';
+import { getReminderById, deleteReminder } from '@/lib/reminders';
+import { updateReminderOrQueue } from '@/lib/outbox';
+import { toRecurrenceFormData } from '@/lib/recurrence';
 import { useAuth } from '@/contexts/AuthContext';
 
 export default function EditReminderPage({ params }: { params: Promise<{ id: string }> }) {
@@ -45,7 +47,8 @@ export default function EditReminderPage({ params }: { params: Promise<{ id: str
     setError(null);
 
     try {
-      await updateReminder(user.userId, reminder.id, data);
+      // Offline the edit is queued and merged with any server changes on reconnect
+      await updateReminderOrQueue(user.userId, reminder, data);
       router.push('/dashboard/reminders');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update reminder');
@@ -93,6 +96,7 @@ export default function EditReminderPage({ params }: { params: Promise<{ id: str
       title: reminder.title,
       description: reminder.description,
       dueDate: `${year}-${month}-${day}T${hours}:${minutes}`,
+      recurrence: reminder.recurrence ? toRecurrenceFormData(reminder.recurrence) : null,
     };
   };
 
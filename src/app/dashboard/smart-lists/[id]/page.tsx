@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { ArrowLeft, Filter, Edit, Pin, PinOff, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { useSavedSearches, useSmartListResults } from "@/hooks/useSearch";
+import { updateSavedSearch, deleteSavedSearch } from "@/lib/savedSearches";
+import { parseSearchQuery } from "@/lib/searchQuery";
+import { SearchResultType, SEARCH_CONFIG } from "@/types/search";
+import SearchResults from "@/components/search/SearchResults";
+import SearchQueryChips from "@/components/search/SearchQueryChips";
+import SaveSearchModal from "@/components/search/SaveSearchModal";
+import ConfirmModal from "@/components/ui/ConfirmModal";
+
+const RESULT_TYPES: SearchResultType[] = ['task', 'file', 'reminder', 'subject'];
+
+export default function SmartListPage() {
+  const { user } = useAuth();
+  const { showSuccessToast, showErrorToast } = useToast();
+  const router = useRouter();
+  const params = useParams();
+  const savedSearchId = params.id as string;
+
+  const { savedSearches, isLoading: isListLoading } = useSavedSearches(user?.userId);
+  const savedSearch = savedSearches.find(s => s.id === savedSearchId);
+  const selectedSearches = useMemo(() => savedSearch ? [savedSearch] : [], [savedSearch]);
+  const { responses, isLoading: isResultsLoading } = useSmartListResults(user?.userId, selectedSearches);
+
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+
+  const response = savedSearch ? responses[savedSearch.id] : undefined;
+  const parsedQuery = useMemo(() => savedSearch ? parseSearchQuery(savedSearch.query) : null, [savedSearch]);
+
+  const handleTogglePin = async () => {
+    if (!savedSearch) return;
+    try {
+      await updateSavedSearch(savedSearch.id, { isPinned: !savedSearch.isPinned });
+      showSuccessToast(savedSearch.isPinned ? 'Unpinned from sidebar' : 'Pinned to sidebar');
+    } catch (error) {
+      showErrorToast('Failed to update smart list', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedSearch) return;
+    try {
+      await deleteSavedSearch(savedSearch.id);
+      showSuccessToast('Smart list deleted');
+      router.push('/dashboard/smart-lists');
+    } catch (error) {
+      showErrorToast('Failed to delete smart list', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  if (isListLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <div style={{ textAlign: 'center', color: 'var(--text-2)' }}>
+          <div style={{ fontSize: '18px', marginBottom: '8px' }}>Loading smart list...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!savedSearch || !user) {
+    return (
+      <div className="card" style={{ textAlign: 'center', padding: '40px' }}>
+        <h2 style={{ margin: '0 0 8px', color: 'var(--text)' }}>Smart list not found</h2>
+        <p className="small" style={{ color: 'var(--text-2)', marginBottom: '16px' }}>
+          It may have been deleted.
+        </p>
+        <button onClick={() => router.push('/dashboard/smart-lists')} className="btn">
+          Back to Smart Lists
+        </button>
+      </div>
+    );
+  }
+
+  const results = response?.results || [];
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="row" style={{ alignItems: 'flex-start', gap: '12px', marginBottom: '24px' }}>
+        <button
+          onClick={() => router.push('/dashboard/smart-lists')}
+          className="btn ghost"
+          style={{ padding: '6px' }}
+          title="All smart lists"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 4px', color: 'var(--text)', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <Filter size={20} />
+            {savedSearch.name}
+          </h1>
+          <p className="small" style={{ color: 'var(--text-2)', marginBottom: '8px' }}>
+            {response
+              ? `${response.hasMore ? `${response.total}+` : response.total} matching item${response.total !== 1 ? 's' : ''} · updates live`
+              : 'Searching...'}
+          </p>
+          <SearchQueryChips parsedQuery={parsedQuery} />
+        </div>
+        <div className="row" style={{ gap: '8px' }}>
+          <button onClick={handleTogglePin} className="btn ghost" title={savedSearch.isPinned ? 'Unpin from sidebar' : 'Pin to sidebar'}>
+            {savedSearch.isPinned ? <PinOff size={16} /> : <Pin size={16} />}
+          </button>
+          <button onClick={() => setIsEditModalOpen(true)} className="btn ghost" title="Edit smart list">
+            <Edit size={16} />
+          </button>
+          <button onClick={() => setIsDeleteModalOpen(true)} className="btn ghost" style={{ color: 'var(--danger)' }} title="Delete smart list">
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Results by type */}
+      {isResultsLoading && !response ? (
+        <SearchResults results={[]} query={savedSearch.query} isLoading={true} />
+      ) : results.length === 0 ? (
+        <div className="card" style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>
+          Nothing matches this smart list right now.
+        </div>
+      ) : (
+        RESULT_TYPES.map(type => {
+          const typeResults = results.filter(result => result.type === type);
+          if (typeResults.length === 0) return null;
+
+          return (
+            <div key={type} className="card" style={{ marginBottom: '16px' }}>
+              <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text)', marginBottom: '8px' }}>
+                {SEARCH_CONFIG.typeLabels[type]}s ({typeResults.length})
+              </div>
+              <SearchResults results={typeResults} query={parsedQuery?.text || ''} />
+            </div>
+          );
+        })
+      )}
+
+      <SaveSearchModal
+        isOpen={isEditModalOpen}
+        onClose={() => setIsEditModalOpen(false)}
+        userId={user.userId}
+        query={savedSearch.query}
+        filters={savedSearch.filters}
+        savedSearch={savedSearch}
+      />
+
+      <ConfirmModal
+        isOpen={isDeleteModalOpen}
+        onClose={() => setIsDeleteModalOpen(false)}
+        onConfirm={handleDelete}
+        title="Delete Smart List"
+        message={`Delete "${savedSearch.name}"? The items it lists are not affected.`}
+        confirmText="Delete"
+      />
+    </div>
+  );
+}
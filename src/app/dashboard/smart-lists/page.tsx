@@ -0,0 +1,105 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Filter, Pin, PinOff, Search } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { useSavedSearches, useSmartListResults } from "@/hooks/useSearch";
+import { updateSavedSearch } from "@/lib/savedSearches";
+import { parseSearchQuery } from "@/lib/searchQuery";
+import { SavedSearch } from "@/types/search";
+import SearchQueryChips from "@/components/search/SearchQueryChips";
+
+export default function SmartListsPage() {
+  const { user } = useAuth();
+  const { showErrorToast } = useToast();
+  const router = useRouter();
+  const { savedSearches, isLoading } = useSavedSearches(user?.userId);
+  const { responses } = useSmartListResults(user?.userId, savedSearches);
+
+  const handleTogglePin = async (savedSearch: SavedSearch) => {
+    try {
+      await updateSavedSearch(savedSearch.id, { isPinned: !savedSearch.isPinned });
+    } catch (error) {
+      showErrorToast('Failed to update smart list', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <div style={{ textAlign: 'center', color: 'var(--text-2)' }}>
+          <div style={{ fontSize: '18px', marginBottom: '8px' }}>Loading smart lists...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div style={{ marginBottom: '24px' }}>
+        <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 8px', color: 'var(--text)' }}>
+          Smart Lists
+        </h1>
+        <p className="small" style={{ color: 'var(--text-2)' }}>
+          Saved searches that stay up to date. Pin the ones you use most to the sidebar.
+        </p>
+      </div>
+
+      {savedSearches.length === 0 ? (
+        <div className="card" style={{ textAlign: 'center', padding: '40px', color: 'var(--text-2)' }}>
+          <Search size={32} style={{ marginBottom: '12px', opacity: 0.5 }} />
+          <div style={{ fontSize: '16px', color: 'var(--text)', marginBottom: '8px' }}>No smart lists yet</div>
+          <div className="small">
+            Search for something like <code>type:task priority:high due:week</code> and choose
+            &quot;Save as smart list&quot;.
+          </div>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {savedSearches.map(savedSearch => {
+            const response = responses[savedSearch.id];
+
+            return (
+              <div
+                key={savedSearch.id}
+                className="card"
+                onClick={() => router.push(`/dashboard/smart-lists/${savedSearch.id}`)}
+                style={{ cursor: 'pointer' }}
+              >
+                <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', gap: '12px' }}>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div className="row" style={{ gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+                      <Filter size={16} color="var(--brand)" />
+                      <span style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text)' }}>
+                        {savedSearch.name}
+                      </span>
+                      {response && (
+                        <span className="small" style={{ color: 'var(--text-2)' }}>
+                          {response.hasMore ? `${response.total}+` : response.total} item{response.total !== 1 ? 's' : ''}
+                        </span>
+                      )}
+                    </div>
+                    <SearchQueryChips parsedQuery={parseSearchQuery(savedSearch.query)} />
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleTogglePin(savedSearch);
+                    }}
+                    className="btn ghost"
+                    style={{ color: savedSearch.isPinned ? 'var(--brand)' : 'var(--text-2)' }}
+                    title={savedSearch.isPinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                  >
+                    {savedSearch.isPinned ? <PinOff size={16} /> : <Pin size={16} />}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,12 @@
 import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import { SUBJECT_COLORS } from "@/types/subject";
+import { SUBJECT_COLORS, Subject, SubjectSchedule } from "@/types/subject";
 import { ArrowLeft, Save, Loader2 } from "lucide-react";
 import { handleAutoCapitalize } from "@/lib/stringUtils";
+import SubjectScheduleEditor from "@/components/subject/SubjectScheduleEditor";
+import { getUserSubjects } from "@/lib/storage";
+import { validateSchedule, cleanSchedule } from "@/lib/timetable";
 
 export default function EditSubjectPage() {
   const { user } = useAuth();
@@ -20,6 +23,7 @@ export default function EditSubjectPage() {
     color: string;
     teacher: string;
     room: string;
+    schedule: SubjectSchedule[];
   }>({
     name: "",
     code: "",
@@ -27,6 +31,7 @@ export default function EditSubjectPage() {
     color: SUBJECT_COLORS[0],
     teacher: "",
     room: "",
+    schedule: [],
   });
 
   const [originalData, setOriginalData] = useState<{
@@ -36,6 +41,7 @@ export default function EditSubjectPage() {
     color: string;
     teacher: string;
     room: string;
+    schedule: SubjectSchedule[];
   }>({
     name: "",
     code: "",
@@ -43,12 +49,20 @@ export default function EditSubjectPage() {
     color: SUBJECT_COLORS[0],
     teacher: "",
     room: "",
+    schedule: [],
   });
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [subjectNotFound, setSubjectNotFound] = useState(false);
+  const [otherSubjects, setOtherSubjects] = useState<Subject[]>([]);
+
+  // Load other subjects to detect timetable clashes
+  useEffect(() => {
+    if (!user?.userId) return;
+    getUserSubjects(user.userId).then(setOtherSubjects);
+  }, [user?.userId]);
 
   useEffect(() => {
     const loadSubject = async () => {
@@ -78,6 +92,7 @@ export default function EditSubjectPage() {
             color: data.color || SUBJECT_COLORS[0],
             teacher: data.teacher || "",
             room: data.room || "",
+            schedule: data.schedule || [],
           };
 
           setFormData(loadedData);
@@ -112,6 +127,10 @@ setSubjectNotFound(true);
       newErrors.description = "Description must be at least 10 characters";
     }
 
+    if (Object.keys(validateSchedule(formData.schedule)).length > 0) {
+      newErrors.schedule = "Please fix the highlighted classes";
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -156,6 +175,9 @@ setSubjectNotFound(true);
       if (formData.room !== originalData.room) {
         updatedData.room = formData.room.trim() || null;
       }
+      if (JSON.stringify(formData.schedule) !== JSON.stringify(originalData.schedule)) {
+        updatedData.schedule = cleanSchedule(formData.schedule);
+      }
 
       // Update in Firebase Firestore
       const db = getDb();
@@ -197,6 +219,14 @@ setErrors({ submit: "Failed to update subject. Please try again." });
     setFormData(prev => ({ ...prev, color }));
   };
 
+  const handleScheduleChange = (schedule: SubjectSchedule[]) => {
+    setFormData(prev => ({ ...prev, schedule }));
+
+    if (errors.schedule) {
+      setErrors(prev => ({ ...prev, schedule: "" }));
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen" style={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -387,6 +417,18 @@ setErrors({ submit: "Failed to update subject. Please try again." });
               </div>
             </div>
 
+            {/* Weekly Schedule */}
+            <SubjectScheduleEditor
+              schedule={formData.schedule}
+              onChange={handleScheduleChange}
+              subjects={otherSubjects}
+              subjectId={subjectId}
+              subjectName={formData.name}
+              defaultRoom={formData.room}
+              error={errors.schedule}
+              disabled={isSubmitting}
+            />
+
             {/* Color Selection */}
             <div>
               <label style={{ display: 'block', marginBottom: '12px', fontWeight: '500', color: 'var(--text)' }}>
@@ -0,0 +1,470 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { ArrowLeft, Plus, Edit, Trash2, GraduationCap, Target, Settings } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { getUserSubjects } from "@/lib/storage";
+import {
+  createAssessment,
+  updateAssessment,
+  deleteAssessment,
+  listenToSubjectAssessments,
+  createGradingScale,
+  updateGradingScale,
+  deleteGradingScale,
+  listenToGradingScales,
+  getSubjectGradingScale,
+  updateSubjectGradeSettings,
+  calculateSubjectGrade,
+  projectRequiredScore
+} from "@/lib/grades";
+import { Subject } from "@/types/subject";
+import {
+  Assessment,
+  AssessmentFormData,
+  GradingScale,
+  GradingScaleFormData,
+  FinalProjection,
+  BUILT_IN_GRADING_SCALES,
+  GRADE_CONFIG
+} from "@/types/grade";
+import AssessmentFormModal from "@/components/grade/AssessmentFormModal";
+import GradingScaleModal from "@/components/grade/GradingScaleModal";
+import ConfirmModal from "@/components/ui/ConfirmModal";
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 10px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '13px',
+  fontWeight: '500',
+  color: 'var(--text-2)'
+};
+
+function formatPercentage(value: number): string {
+  return `${Math.round(value * 10) / 10}%`;
+}
+
+function describeProjection(projection: FinalProjection): { text: string; color: string } {
+  const target = formatPercentage(projection.targetPercentage);
+  switch (projection.status) {
+    case 'no_remaining':
+      return { text: 'Every assessment is graded, so there is nothing left to change.', color: 'var(--text-2)' };
+    case 'secured':
+      return { text: `You already have ${target} even if you score 0% on what is left.`, color: 'var(--ok)' };
+    case 'out_of_reach':
+      return {
+        text: `You would need ${formatPercentage(projection.requiredPercentage!)} on what is left, so ${target} is out of reach.`,
+        color: 'var(--danger)'
+      };
+    default:
+      return {
+        text: `You need an average of ${formatPercentage(projection.requiredPercentage!)} on the remaining assessments to finish on ${target}.`,
+        color: 'var(--text)'
+      };
+  }
+}
+
+export default function SubjectGradesPage() {
+  const { user } = useAuth();
+  const { showSuccessToast, showErrorToast } = useToast();
+  const router = useRouter();
+  const params = useParams();
+  const subjectId = params.id as string;
+
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [scales, setScales] = useState<GradingScale[]>(BUILT_IN_GRADING_SCALES);
+  const [targetPercentage, setTargetPercentage] = useState<string>(String(GRADE_CONFIG.defaultTargetPercentage));
+
+  // Grade settings as typed, saved on demand
+  const [credits, setCredits] = useState('');
+  const [semester, setSemester] = useState('');
+  const [gradingScaleId, setGradingScaleId] = useState<string>(GRADE_CONFIG.defaultScaleId);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+
+  const [isAssessmentModalOpen, setIsAssessmentModalOpen] = useState(false);
+  const [editingAssessment, setEditingAssessment] = useState<Assessment | undefined>(undefined);
+  const [deletingAssessment, setDeletingAssessment] = useState<Assessment | null>(null);
+  const [isScaleModalOpen, setIsScaleModalOpen] = useState(false);
+  const [editingScale, setEditingScale] = useState<GradingScale | undefined>(undefined);
+
+  useEffect(() => {
+    if (!user?.userId) return;
+    getUserSubjects(user.userId).then(subjects => {
+      const found = subjects.find(s => s.id === subjectId) || null;
+      setSubject(found);
+      if (found) {
+        setCredits(found.credits !== null && found.credits !== undefined ? String(found.credits) : '');
+        setSemester(found.semester || '');
+        setGradingScaleId(found.gradingScaleId || GRADE_CONFIG.defaultScaleId);
+      }
+      setIsLoading(false);
+    });
+  }, [subjectId, user?.userId]);
+
+  useEffect(() => {
+    if (!user?.userId || !subject) return;
+    const stopAssessments = listenToSubjectAssessments(user.userId, subject.id, setAssessments);
+    const stopScales = listenToGradingScales(user.userId, setScales);
+
+    return () => {
+      stopAssessments();
+      stopScales();
+    };
+  }, [user?.userId, subject]);
+
+  const scale = getSubjectGradingScale({ gradingScaleId }, scales);
+  const summary = useMemo(() => calculateSubjectGrade(assessments, scale), [assessments, scale]);
+
+  const projection = useMemo(() => {
+    const target = Number(targetPercentage);
+    if (targetPercentage.trim() === '' || !Number.isFinite(target)) return null;
+    return projectRequiredScore(summary, target);
+  }, [summary, targetPercentage]);
+
+  const handleBack = () => router.push('/dashboard/subjects');
+
+  const handleSaveAssessment = async (data: AssessmentFormData) => {
+    if (!user?.userId || !subject) return;
+    if (editingAssessment) {
+      await updateAssessment(editingAssessment.id, data);
+      showSuccessToast('Assessment updated');
+    } else {
+      await createAssessment(user.userId, subject.id, data);
+      showSuccessToast('Assessment added');
+    }
+  };
+
+  const handleDeleteAssessment = async () => {
+    if (!deletingAssessment) return;
+    try {
+      await deleteAssessment(deletingAssessment.id);
+      showSuccessToast('Assessment deleted');
+    } catch (error) {
+      showErrorToast('Failed to delete assessment', error instanceof Error ? error.message : undefined);
+    } finally {
+      setDeletingAssessment(null);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!subject) return;
+    setIsSavingSettings(true);
+    try {
+      await updateSubjectGradeSettings(subject.id, {
+        credits: credits.trim() === '' ? null : Number(credits),
+        semester,
+        gradingScaleId
+      });
+      showSuccessToast('Grade settings saved');
+    } catch (error) {
+      showErrorToast('Failed to save grade settings', error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const handleSaveScale = async (data: GradingScaleFormData) => {
+    if (!user?.userId) return;
+    if (editingScale?.userId) {
+      await updateGradingScale(editingScale.id, data);
+      showSuccessToast('Grading scale updated');
+    } else {
+      const scaleId = await createGradingScale(user.userId, data);
+      setGradingScaleId(scaleId);
+      showSuccessToast('Grading scale created', 'Save the grade settings to use it for this subject');
+    }
+  };
+
+  const handleDeleteScale = async () => {
+    if (!editingScale?.userId) return;
+    await deleteGradingScale(editingScale.id);
+    if (gradingScaleId === editingScale.id) {
+      setGradingScaleId(GRADE_CONFIG.defaultScaleId);
+    }
+    showSuccessToast('Grading scale deleted');
+  };
+
+  const openScaleModal = () => {
+    setEditingScale(scale);
+    setIsScaleModalOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '400px' }}>
+        <div style={{ fontSize: '18px', color: 'var(--text-2)' }}>Loading grade book...</div>
+      </div>
+    );
+  }
+
+  if (!subject) {
+    return (
+      <div className="card" style={{ textAlign: 'center', padding: '40px' }}>
+        <div style={{ fontSize: '16px', color: 'var(--text)', marginBottom: '12px' }}>Subject not found</div>
+        <button className="btn ghost" onClick={handleBack}>
+          <ArrowLeft size={16} />
+          Back to subjects
+        </button>
+      </div>
+    );
+  }
+
+  const projectionMessage = projection ? describeProjection(projection) : null;
+
+  return (
+    <div style={{ maxWidth: '900px', margin: '0 auto' }}>
+      <button className="btn ghost" onClick={handleBack} style={{ marginBottom: '16px' }}>
+        <ArrowLeft size={16} />
+        Subjects
+      </button>
+
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '24px', gap: '12px', flexWrap: 'wrap' }}>
+        <div>
+          <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 8px', color: 'var(--text)', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <GraduationCap size={24} />
+            {subject.name} grade book
+          </h1>
+          <p className="small" style={{ color: 'var(--text-2)' }}>
+            Graded on {scale.name}
+            {subject.semester && ` · ${subject.semester}`}
+          </p>
+        </div>
+        <button
+          className="btn"
+          onClick={() => {
+            setEditingAssessment(undefined);
+            setIsAssessmentModalOpen(true);
+          }}
+          disabled={assessments.length >= GRADE_CONFIG.maxAssessmentsPerSubject}
+        >
+          <Plus size={16} />
+          Add Assessment
+        </button>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))', gap: '16px', marginBottom: '16px' }}>
+        {/* Current grade */}
+        <div className="card">
+          <div className="small" style={{ color: 'var(--text-2)', marginBottom: '8px' }}>Current grade</div>
+          {summary.currentPercentage === null ? (
+            <div style={{ color: 'var(--text-2)' }}>Nothing graded yet</div>
+          ) : (
+            <div className="row" style={{ gap: '12px', alignItems: 'baseline' }}>
+              <span style={{ fontSize: '32px', fontWeight: 700, color: 'var(--text)' }}>
+                {formatPercentage(summary.currentPercentage)}
+              </span>
+              {summary.band && (
+                <span className="badge" style={{ background: 'var(--brand-100)', color: 'var(--brand-700)' }}>
+                  {summary.band.label} · {summary.band.points.toFixed(1)}
+                </span>
+              )}
+            </div>
+          )}
+          <div className="small" style={{ color: 'var(--text-2)', marginTop: '8px' }}>
+            {formatPercentage(summary.gradedWeight)} graded · {formatPercentage(summary.remainingWeight)} to go
+          </div>
+          {assessments.length > 0 && Math.abs(summary.totalWeight - 100) > 0.01 && (
+            <div className="small" style={{ color: 'var(--warn)', marginTop: '8px' }}>
+              Weights add up to {formatPercentage(summary.totalWeight)} instead of 100%.
+            </div>
+          )}
+        </div>
+
+        {/* What do I need */}
+        <div className="card">
+          <div className="small" style={{ color: 'var(--text-2)', marginBottom: '8px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <Target size={14} />
+            What do I need?
+          </div>
+          <div className="row" style={{ gap: '8px', marginBottom: '12px' }}>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              value={targetPercentage}
+              onChange={(e) => setTargetPercentage(e.target.value)}
+              style={{ ...inputStyle, width: '90px' }}
+              aria-label="Target percentage"
+            />
+            <select
+              value=""
+              onChange={(e) => e.target.value && setTargetPercentage(e.target.value)}
+              style={{ ...inputStyle, flex: 1 }}
+              aria-label="Target grade"
+            >
+              <option value="">Pick a grade...</option>
+              {scale.bands.filter(band => band.minPercentage > 0).map(band => (
+                <option key={band.label} value={String(band.minPercentage)}>
+                  {band.label} ({band.minPercentage}%)
+                </option>
+              ))}
+            </select>
+          </div>
+          {projectionMessage && (
+            <div style={{ fontSize: '14px', color: projectionMessage.color, lineHeight: 1.4 }}>
+              {projectionMessage.text}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Grade settings */}
+      <div className="card" style={{ marginBottom: '16px' }}>
+        <div style={{ fontSize: 'var(--fs-h2)', fontWeight: 600, color: 'var(--text)', marginBottom: '12px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <Settings size={18} />
+          Grade settings
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: '12px', alignItems: 'end' }}>
+          <div>
+            <label style={labelStyle}>Credits</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={credits}
+              onChange={(e) => setCredits(e.target.value)}
+              placeholder="1"
+              style={inputStyle}
+              disabled={isSavingSettings}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Semester</label>
+            <input
+              type="text"
+              value={semester}
+              onChange={(e) => setSemester(e.target.value)}
+              placeholder="e.g., Fall 2026"
+              style={inputStyle}
+              disabled={isSavingSettings}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Grading scale</label>
+            <select
+              value={scale.id}
+              onChange={(e) => setGradingScaleId(e.target.value)}
+              style={inputStyle}
+              disabled={isSavingSettings}
+            >
+              {scales.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="row" style={{ gap: '8px' }}>
+            <button className="btn ghost" onClick={openScaleModal} disabled={isSavingSettings}>
+              {scale.userId ? 'Edit scale' : 'Customize'}
+            </button>
+            <button className="btn" onClick={handleSaveSettings} disabled={isSavingSettings}>
+              {isSavingSettings ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Assessments */}
+      <div className="card">
+        <div style={{ fontSize: 'var(--fs-h2)', fontWeight: 600, color: 'var(--text)', marginBottom: '12px' }}>
+          Assessments
+        </div>
+        {assessments.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '24px', color: 'var(--text-2)' }}>
+            Add your exams, projects and quizzes with their weights to track your grade.
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column' }}>
+            {assessments.map(assessment => (
+              <div
+                key={assessment.id}
+                className="row"
+                style={{ justifyContent: 'space-between', alignItems: 'center', padding: '10px 0', borderBottom: '1px solid var(--border)', gap: '12px' }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 500, color: 'var(--text)' }}>{assessment.name}</div>
+                  <div className="small" style={{ color: 'var(--text-2)' }}>
+                    {assessment.date.toDate().toLocaleDateString()} · {formatPercentage(assessment.weight)} of the grade
+                  </div>
+                </div>
+                <div style={{ textAlign: 'right', minWidth: '100px' }}>
+                  {assessment.score === null ? (
+                    <span className="badge">Not graded</span>
+                  ) : (
+                    <>
+                      <div style={{ fontWeight: 600, color: 'var(--text)' }}>
+                        {formatPercentage((assessment.score / assessment.maxScore) * 100)}
+                      </div>
+                      <div className="small" style={{ color: 'var(--text-2)' }}>
+                        {assessment.score} / {assessment.maxScore}
+                      </div>
+                    </>
+                  )}
+                </div>
+                <div className="row" style={{ gap: '4px' }}>
+                  <button
+                    className="btn ghost"
+                    style={{ padding: '8px' }}
+                    onClick={() => {
+                      setEditingAssessment(assessment);
+                      setIsAssessmentModalOpen(true);
+                    }}
+                    title="Edit assessment"
+                  >
+                    <Edit size={16} />
+                  </button>
+                  <button
+                    className="btn ghost"
+                    style={{ padding: '8px' }}
+                    onClick={() => setDeletingAssessment(assessment)}
+                    title="Delete assessment"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AssessmentFormModal
+        isOpen={isAssessmentModalOpen}
+        onClose={() => setIsAssessmentModalOpen(false)}
+        assessment={editingAssessment}
+        onSubmit={handleSaveAssessment}
+      />
+
+      <GradingScaleModal
+        isOpen={isScaleModalOpen}
+        onClose={() => setIsScaleModalOpen(false)}
+        scale={editingScale}
+        onSubmit={handleSaveScale}
+        onDelete={handleDeleteScale}
+      />
+
+      <ConfirmModal
+        isOpen={!!deletingAssessment}
+        onClose={() => setDeletingAssessment(null)}
+        onConfirm={handleDeleteAssessment}
+        title="Delete assessment"
+        message={`Delete "${deletingAssessment?.name}"? Its score will no longer count towards your grade.`}
+        confirmText="Delete"
+      />
+    </div>
+  );
+}
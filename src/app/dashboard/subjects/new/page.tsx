@@ -1,13 +1,16 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import { SUBJECT_COLORS, CreateSubjectFormData } from "@/types/subject";
+import { SUBJECT_COLORS, CreateSubjectFormData, Subject, SubjectSchedule } from "@/types/subject";
 import { ArrowLeft, Save, X, Palette, Upload } from "lucide-react";
 import { handleAutoCapitalize } from "@/lib/stringUtils";
 import SubjectFileUpload from "@/components/subject/SubjectFileUpload";
+import SubjectScheduleEditor from "@/components/subject/SubjectScheduleEditor";
 import { uploadSubjectFiles, updateSubjectFileCount } from "@/lib/subjectFiles";
+import { getUserSubjects, createSubject } from "@/lib/storage";
+import { validateSchedule } from "@/lib/timetable";
 
 export default function NewSubjectPage() {
   const { user } = useAuth();
@@ -20,14 +23,23 @@ export default function NewSubjectPage() {
     color: SUBJECT_COLORS[0],
     teacher: "",
     room: "",
+    schedule: [],
     selectedFiles: [],
   });
 
+  const [existingSubjects, setExistingSubjects] = useState<Subject[]>([]);
+
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isUploadingFiles, setIsUploadingFiles] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Load other subjects to detect timetable clashes
+  useEffect(() => {
+    if (!user?.userId) return;
+    getUserSubjects(user.userId).then(setExistingSubjects);
+  }, [user?.userId]);
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -45,6 +57,10 @@ export default function NewSubjectPage() {
       newErrors.description = "Description must be at least 10 characters";
     }
 
+    if (Object.keys(validateSchedule(formData.schedule || [])).length > 0) {
+      newErrors.schedule = "Please fix the highlighted classes";
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -61,30 +77,8 @@ export default function NewSubjectPage() {
     setUploadProgress(0);
 
     try {
-      // Import Firebase functions
-      const { doc, setDoc, serverTimestamp } = await import('firebase/firestore');
-      const { getDb } = await import('@/lib/firebase');
-
       // Step 1: Create subject first
-      const newSubject = {
-        userId: user?.userId,
-        name: formData.name,
-        code: formData.code,
-        description: formData.description,
-        color: formData.color,
-        teacher: formData.teacher,
-        room: formData.room,
-        isActive: true,
-        fileCount: 0, // Initialize with 0, will be updated if files are uploaded
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      };
-
-      // Save to Firebase Firestore
-      const db = getDb();
-      const subjectId = Date.now().toString();
-      const subjectRef = doc(db, 'subjects', subjectId);
-      await setDoc(subjectRef, newSubject);
+      const subjectId = await createSubject(user?.userId || '', formData);
 
       // Step 2: Upload files if any were selected
       if (formData.selectedFiles && formData.selectedFiles.length > 0) {
@@ -151,6 +145,14 @@ export default function NewSubjectPage() {
     setFormData(prev => ({ ...prev, selectedFiles: files }));
   };
 
+  const handleScheduleChange = (schedule: SubjectSchedule[]) => {
+    setFormData(prev => ({ ...prev, schedule }));
+
+    if (errors.schedule) {
+      setErrors(prev => ({ ...prev, schedule: "" }));
+    }
+  };
+
   return (
     <div style={{ maxWidth: '800px', margin: '0 auto' }}>
       {/* Header */}
@@ -314,6 +316,17 @@ export default function NewSubjectPage() {
               </div>
             </div>
 
+            {/* Weekly Schedule */}
+            <SubjectScheduleEditor
+              schedule={formData.schedule || []}
+              onChange={handleScheduleChange}
+              subjects={existingSubjects}
+              subjectName={formData.name}
+              defaultRoom={formData.room}
+              error={errors.schedule}
+              disabled={isSubmitting}
+            />
+
             {/* Color Selection */}
             <div>
               <label style={{ display: 'block', marginBottom: '12px', fontWeight: '500', color: 'var(--text)' }}>
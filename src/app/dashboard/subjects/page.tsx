@@ -4,7 +4,7 @@ import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { Subject, SubjectWithFileCount } from "@/types/subject";
-import { Plus, BookOpen, Edit, Trash2, Users, Calendar, RefreshCw, FolderOpen } from "lucide-react";
+import { Plus, BookOpen, Edit, Trash2, Users, Calendar, RefreshCw, FolderOpen, GraduationCap } from "lucide-react";
 import SubjectFilesModal from "@/components/subject/SubjectFilesModal";
 import ConfirmModal from "@/components/ui/ConfirmModal";
 
@@ -416,6 +416,14 @@ export default function SubjectsPage() {
                       </span>
                     )}
                   </button>
+                  <button
+                    onClick={() => router.push(`/dashboard/subjects/${subject.id}/grades`)}
+                    className="btn ghost"
+                    style={{ padding: '8px' }}
+                    title="Grade book"
+                  >
+                    <GraduationCap size={16} />
+                  </button>
                   <button
                     onClick={() => openDeleteConfirmModal(subject.id, subject.name)}
                     className="btn ghost"
@@ -5,12 +5,14 @@ import { useRouter, useParams } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNotifications } from "@/contexts/NotificationContext";
 import { Task, TaskFormData, TaskFile } from "@/types/task";
+import { RecurrenceEditScope } from "@/types/recurrence";
 import { Timestamp } from "firebase/firestore";
-import { getTaskById, updateTask } from "@/lib/tasks";
+import { getTaskById, getUserTasks, updateTask, updateTaskSeries } from "@/lib/tasks";
 import { getUserSubjects } from "@/lib/storage";
 import { uploadTaskFiles, updateTaskAttachedFiles } from "@/lib/taskFiles";
 import { Subject } from "@/types/subject";
 import TaskForm from "@/components/task/TaskForm";
+import AssignmentSubmissionPanel from "@/components/course/AssignmentSubmissionPanel";
 import { ArrowLeft, Edit } from "lucide-react";
 
 export default function EditTaskPage() {
@@ -22,6 +24,7 @@ export default function EditTaskPage() {
 
   const [task, setTask] = useState<Task | null>(null);
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [userTasks, setUserTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isPageLoading, setIsPageLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -33,14 +36,16 @@ export default function EditTaskPage() {
       if (!user?.userId || !taskId) return;
 
       try {
-        const [taskData, userSubjects] = await Promise.all([
+        const [taskData, userSubjects, tasks] = await Promise.all([
           getTaskById(user.userId, taskId),
-          getUserSubjects(user.userId)
+          getUserSubjects(user.userId),
+          getUserTasks(user.userId)
         ]);
 
         
         setTask(taskData);
         setSubjects(userSubjects);
+        setUserTasks(tasks);
       } catch (error: any) {
 if (error.message === 'Task not found' || error.message === 'Access denied') {
           setNotFound(true);
@@ -56,7 +61,7 @@ if (error.message === 'Task not found' || error.message === 'Access denied') {
   }, [user, taskId]);
 
   // Handle task update
-  const handleSubmit = async (data: TaskFormData, files: File[], existingFiles: TaskFile[] = []) => {
+  const handleSubmit = async (data: TaskFormData, files: File[], existingFiles: TaskFile[] = [], scope: RecurrenceEditScope = 'occurrence') => {
     if (!user?.userId || !task) return;
 
 
@@ -64,8 +69,12 @@ if (error.message === 'Task not found' || error.message === 'Access denied') {
     setError(null);
 
     try {
-      // Update task details
-      await updateTask(user.userId, taskId, data);
+      // Update task details (for a series, every occurrence when requested)
+      if (scope === 'series' && task.seriesId) {
+        await updateTaskSeries(user.userId, taskId, data);
+      } else {
+        await updateTask(user.userId, taskId, data);
+      }
 
       // Handle file uploads if any
       if (files.length > 0) {
@@ -121,7 +130,9 @@ if (error.message === 'Task not found' || error.message === 'Access denied') {
 
             router.push('/dashboard/tasks');
     } catch (error) {
-            setError('Failed to update task. Please try again.');
+            setError(error instanceof Error && error.message === 'Dependency cycle detected'
+              ? 'These dependencies would create a cycle. Please remove one and try again.'
+              : 'Failed to update task. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -221,6 +232,17 @@ if (error.message === 'Task not found' || error.message === 'Access denied') {
         </div>
       )}
 
+      {/* Hand-in for tasks from a course assignment */}
+      {task?.assignmentId && user && (
+        <AssignmentSubmissionPanel
+          task={task}
+          user={user}
+          onChange={(submittedAt) => setTask(prev => prev && !!prev.submittedAt !== !!submittedAt
+            ? { ...prev, submittedAt }
+            : prev)}
+        />
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="card" style={{
@@ -240,6 +262,7 @@ if (error.message === 'Task not found' || error.message === 'Access denied') {
         <TaskForm
           task={task || undefined}
           subjects={subjects}
+          availableTasks={userTasks}
           onSubmit={handleSubmit}
           onCancel={handleCancel}
           isLoading={isLoading}
@@ -258,6 +281,7 @@ if (error.message === 'Task not found' || error.message === 'Access denied') {
           <li style={{ marginBottom: '6px' }}>Changing the due date will reset the task status to "pending"</li>
           <li style={{ marginBottom: '6px' }}>You can update priority levels to better reflect task importance</li>
           <li style={{ marginBottom: '6px' }}>Link or unlink subjects as your task requirements change</li>
+          <li style={{ marginBottom: '6px' }}>For repeating tasks, choose whether changes apply to this occurrence or the whole series</li>
           <li>Task descriptions can be expanded to provide more context</li>
         </ul>
       </div>
@@ -4,8 +4,8 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNotifications } from "@/contexts/NotificationContext";
-import { TaskFormData } from "@/types/task";
-import { createTask } from "@/lib/tasks";
+import { Task, TaskFormData } from "@/types/task";
+import { createTask, getUserTasks } from "@/lib/tasks";
 import { getUserSubjects } from "@/lib/storage";
 import { uploadTaskFiles, updateTaskAttachedFiles } from "@/lib/taskFiles";
 import { Subject } from "@/types/subject";
@@ -18,6 +18,7 @@ export default function NewTaskPage() {
   const router = useRouter();
 
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [userTasks, setUserTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isPageLoading, setIsPageLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -28,8 +29,12 @@ export default function NewTaskPage() {
       if (!user?.userId) return;
 
       try {
-        const userSubjects = await getUserSubjects(user.userId);
+        const [userSubjects, tasks] = await Promise.all([
+          getUserSubjects(user.userId),
+          getUserTasks(user.userId)
+        ]);
         setSubjects(userSubjects);
+        setUserTasks(tasks);
       } catch (error) {
 } finally {
         setIsPageLoading(false);
@@ -153,6 +158,7 @@ export default function NewTaskPage() {
       <div className="card">
         <TaskForm
           subjects={subjects}
+          availableTasks={userTasks}
           onSubmit={handleSubmit}
           onCancel={handleCancel}
           isLoading={isLoading}
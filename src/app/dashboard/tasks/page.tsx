@@ -8,11 +8,14 @@ import { Task, TaskWithSubject, TaskFilter, TaskStats, TaskSortOption } from "@/
 import {
   getUserTasks,
   getTasksByFilter,
-  toggleTaskCompletion,
   deleteTask,
   updateOverdueTasks,
-  getTaskStats
+  getTaskStats,
+  getTaskById,
+  toggleChecklistItem
 } from "@/lib/tasks";
+import { getBlockingTasks } from "@/lib/taskDependencies";
+import { toggleTaskCompletionOrQueue } from "@/lib/outbox";
 import { getUserSubjects } from "@/lib/storage";
 import { Subject } from "@/types/subject";
 import TaskCard from "@/components/task/TaskCard";
@@ -27,7 +30,8 @@ import {
   BarChart3,
   RefreshCw,
   SortAsc,
-  SortDesc
+  SortDesc,
+  Lock
 } from "lucide-react";
 
 const FILTER_OPTIONS: { value: TaskFilter; label: string; icon: React.ReactNode }[] = [
@@ -50,6 +54,11 @@ const FILTER_OPTIONS: { value: TaskFilter; label: string; icon: React.ReactNode
     value: 'overdue',
     label: 'Overdue',
     icon: <AlertTriangle size={16} />
+  },
+  {
+    value: 'blocked',
+    label: 'Blocked',
+    icon: <Lock size={16} />
   }
 ];
 
@@ -59,6 +68,8 @@ export default function TasksPage() {
   const router = useRouter();
 
   const [tasks, setTasks] = useState<TaskWithSubject[]>([]);
+  // Every task of the user, used to resolve dependencies across filters
+  const [allTasks, setAllTasks] = useState<Task[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [highlightedTaskId, setHighlightedTaskId] = useState<string | null>(null);
   const [stats, setStats] = useState<TaskStats>({
@@ -66,7 +77,10 @@ export default function TasksPage() {
     pending: 0,
     completed: 0,
     overdue: 0,
-    dueThisWeek: 0
+    blocked: 0,
+    dueThisWeek: 0,
+    checklistItemsTotal: 0,
+    checklistItemsCompleted: 0
   });
 
   const [isLoading, setIsLoading] = useState(true);
@@ -89,8 +103,9 @@ export default function TasksPage() {
       // Update overdue tasks first
       await updateOverdueTasks(user.userId);
 
-      const [userTasks, userSubjects, taskStats] = await Promise.all([
+      const [userTasks, everyTask, userSubjects, taskStats] = await Promise.all([
         getTasksByFilter(user.userId, selectedFilter),
+        getUserTasks(user.userId),
         getUserSubjects(user.userId),
         getTaskStats(user.userId)
       ]);
@@ -102,6 +117,7 @@ export default function TasksPage() {
       }));
 
       setTasks(tasksWithSubjects);
+      setAllTasks(everyTask);
       setSubjects(userSubjects);
       setStats(taskStats);
 
@@ -140,8 +156,11 @@ export default function TasksPage() {
     if (!user?.userId) return;
 
     try {
-      const updatedTask = await toggleTaskCompletion(user.userId, taskId);
-      const updatedTasks = setTasks(prev =>
+      const previousTask = tasks.find(task => task.id === taskId);
+      if (!previousTask) return;
+      // Offline the toggle is queued and the expected result shown right away
+      const updatedTask = await toggleTaskCompletionOrQueue(user.userId, previousTask);
+      setTasks(prev =>
         prev.map(task =>
           task.id === taskId
             ? {
@@ -166,6 +185,61 @@ export default function TasksPage() {
         return updated.filter(task => !['completed', 'cancelled'].includes(task.status));
       });
 
+      // Keep dependency resolution in sync so dependents unblock immediately
+      setAllTasks(prev =>
+        prev.map(task =>
+          task.id === taskId
+            ? {
+                ...task,
+                status: updatedTask.status
+              }
+            : task
+        )
+      );
+
+      // Completing a repeating task generates its next occurrence
+      if (updatedTask.nextOccurrenceId && !previousTask?.nextOccurrenceId) {
+        const nextTask = await getTaskById(user.userId, updatedTask.nextOccurrenceId);
+        const nextTaskWithSubject = {
+          ...nextTask,
+          subject: nextTask.subjectId ? subjects.find(s => s.id === nextTask.subjectId) : undefined
+        };
+
+        if (selectedFilter === 'all' || selectedFilter === 'pending') {
+          setTasks(prev => [...prev, nextTaskWithSubject]);
+        }
+        setAllTasks(prev => [...prev, nextTask]);
+        setUpcomingTasks(prev =>
+          [...prev, nextTask]
+            .sort((a, b) => a.dueDate.toDate().getTime() - b.dueDate.toDate().getTime())
+            .slice(0, 10)
+        );
+      }
+
+      // Update stats
+      const newStats = await getTaskStats(user.userId);
+      setStats(newStats);
+    } catch (error) {
+}
+  };
+
+  // Handle checklist item toggle
+  const handleToggleChecklistItem = async (taskId: string, itemId: string) => {
+    if (!user?.userId) return;
+
+    try {
+      const updatedTask = await toggleChecklistItem(user.userId, taskId, itemId);
+      setTasks(prev =>
+        prev.map(task =>
+          task.id === taskId
+            ? {
+                ...task,
+                checklist: updatedTask.checklist
+              }
+            : task
+        )
+      );
+
       // Update stats
       const newStats = await getTaskStats(user.userId);
       setStats(newStats);
@@ -180,6 +254,7 @@ export default function TasksPage() {
     try {
       await deleteTask(user.userId, taskId);
       setTasks(prev => prev.filter(task => task.id !== taskId));
+      setAllTasks(prev => prev.filter(task => task.id !== taskId));
 
       // Update global notification context
       setUpcomingTasks(prev => prev.filter(task => task.id !== taskId));
@@ -273,6 +348,7 @@ export default function TasksPage() {
       case 'pending': return stats.pending;
       case 'completed': return stats.completed;
       case 'overdue': return stats.overdue;
+      case 'blocked': return stats.blocked;
       default: return 0;
     }
   };
@@ -317,7 +393,9 @@ export default function TasksPage() {
             {stats.total}
           </h3>
           <div className="small" style={{ color: 'var(--text-2)' }}>
-            Active tasks
+            {stats.checklistItemsTotal > 0
+              ? `${stats.checklistItemsCompleted}/${stats.checklistItemsTotal} checklist items done`
+              : 'Active tasks'}
           </div>
         </div>
 
@@ -494,6 +572,8 @@ export default function TasksPage() {
               key={task.id}
               task={task}
               onToggleComplete={handleToggleComplete}
+              onToggleChecklistItem={handleToggleChecklistItem}
+              blockingTasks={getBlockingTasks(task, allTasks)}
               onDelete={handleDelete}
               highlighted={task.id === highlightedTaskId}
             />
@@ -0,0 +1,293 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { Subject, DAYS_OF_WEEK, TIME_SLOTS, SCHEDULE_TYPE_CONFIG } from "@/types/subject";
+import { getUserSubjects } from "@/lib/storage";
+import {
+  getTimetableEntries,
+  layoutDayEntries,
+  hasTimetableClash,
+  timeToMinutes
+} from "@/lib/timetable";
+import { CalendarClock, Plus, RefreshCw, AlertTriangle, MapPin } from "lucide-react";
+
+// Height of one 30 minute row in pixels
+const SLOT_HEIGHT = 32;
+const SLOT_MINUTES = 30;
+const WEEKEND_DAYS = ['Saturday', 'Sunday'];
+
+export default function TimetablePage() {
+  const { user } = useAuth();
+  const router = useRouter();
+
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSubjects = async () => {
+    if (!user?.userId) return;
+
+    try {
+      setIsLoading(true);
+      const userSubjects = await getUserSubjects(user.userId);
+      setSubjects(userSubjects);
+    } catch (error) {
+      console.error('Error loading timetable:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSubjects();
+  }, [user?.userId]);
+
+  const entriesByDay = getTimetableEntries(subjects);
+
+  // Only show weekend columns when something is scheduled on them
+  const visibleDays = DAYS_OF_WEEK.filter(day =>
+    !WEEKEND_DAYS.includes(day) || entriesByDay[day].length > 0
+  );
+
+  const allEntries = Object.values(entriesByDay).flat();
+  const clashCount = allEntries.filter(entry => hasTimetableClash(entry, entriesByDay[entry.dayOfWeek])).length;
+  const weeklyMinutes = allEntries.reduce(
+    (total, entry) => total + timeToMinutes(entry.endTime) - timeToMinutes(entry.startTime),
+    0
+  );
+
+  // Extend the grid when classes fall outside the default time slots
+  const gridStart = Math.min(
+    timeToMinutes(TIME_SLOTS[0]),
+    ...allEntries.map(entry => Math.floor(timeToMinutes(entry.startTime) / 60) * 60)
+  );
+  const gridEnd = Math.max(
+    timeToMinutes(TIME_SLOTS[TIME_SLOTS.length - 1]),
+    ...allEntries.map(entry => Math.ceil(timeToMinutes(entry.endTime) / 60) * 60)
+  );
+  const slotCount = (gridEnd - gridStart) / SLOT_MINUTES;
+
+  const formatSlotLabel = (index: number) => {
+    const minutes = gridStart + index * SLOT_MINUTES;
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  };
+
+  const today = new Date().toLocaleDateString('en-US', { weekday: 'long' });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen" style={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <div className="card" style={{ textAlign: 'center', padding: '32px' }}>
+          <div style={{
+            width: '48px',
+            height: '48px',
+            border: '4px solid var(--border)',
+            borderTop: '4px solid var(--brand)',
+            borderRadius: '50%',
+            animation: 'spin 1s linear infinite',
+            margin: '0 auto 16px'
+          }} />
+          <p style={{ color: 'var(--text-2)' }}>Loading timetable...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="row" style={{ marginBottom: '24px', alignItems: 'center' }}>
+        <div style={{ flex: 1 }}>
+          <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 4px', color: 'var(--text)' }}>
+            Weekly Timetable
+          </h1>
+          <p className="small" style={{ color: 'var(--text-2)' }}>
+            {allEntries.length} class{allEntries.length !== 1 ? 'es' : ''} •{' '}
+            {(weeklyMinutes / 60).toFixed(1).replace(/\.0$/, '')} hours per week
+          </p>
+        </div>
+        <div className="row" style={{ gap: '12px' }}>
+          <button
+            onClick={loadSubjects}
+            className="btn ghost"
+            style={{ padding: '10px 14px' }}
+          >
+            <RefreshCw size={16} style={{ marginRight: '8px' }} />
+            Refresh
+          </button>
+          <button
+            onClick={() => router.push("/dashboard/subjects")}
+            className="btn"
+            style={{ minWidth: '140px' }}
+          >
+            <Plus size={16} style={{ marginRight: '8px' }} />
+            Manage Subjects
+          </button>
+        </div>
+      </div>
+
+      {/* Clash warning */}
+      {clashCount > 0 && (
+        <div className="card" style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'color-mix(in srgb, var(--warn) 12%, transparent)',
+          border: '1px solid var(--warn)',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          fontSize: '14px',
+          color: 'var(--text)'
+        }}>
+          <AlertTriangle size={16} style={{ color: 'var(--warn)' }} />
+          {clashCount} class{clashCount !== 1 ? 'es' : ''} overlap another class. Edit the subject to resolve the clash.
+        </div>
+      )}
+
+      {allEntries.length === 0 ? (
+        <div className="card" style={{ textAlign: 'center', padding: '48px' }}>
+          <CalendarClock size={48} style={{ color: 'var(--text-2)', margin: '0 auto 16px' }} />
+          <h3 style={{ color: 'var(--text)', margin: '0 0 8px' }}>
+            No classes scheduled
+          </h3>
+          <p className="small" style={{ color: 'var(--text-2)', marginBottom: '24px' }}>
+            Add a weekly schedule to your subjects to build your timetable
+          </p>
+          <button
+            onClick={() => router.push("/dashboard/subjects")}
+            className="btn"
+          >
+            Go to Subjects
+          </button>
+        </div>
+      ) : (
+        <div className="card" style={{ padding: '16px', overflowX: 'auto' }}>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: `60px repeat(${visibleDays.length}, minmax(120px, 1fr))`,
+            minWidth: `${60 + visibleDays.length * 120}px`
+          }}>
+            {/* Day headers */}
+            <div />
+            {visibleDays.map(day => (
+              <div
+                key={day}
+                style={{
+                  padding: '8px',
+                  textAlign: 'center',
+                  fontSize: '14px',
+                  fontWeight: day === today ? '700' : '600',
+                  color: day === today ? 'var(--brand)' : 'var(--text)',
+                  borderBottom: '1px solid var(--border)'
+                }}
+              >
+                {day}
+              </div>
+            ))}
+
+            {/* Time labels */}
+            <div style={{ position: 'relative', height: `${slotCount * SLOT_HEIGHT}px` }}>
+              {Array.from({ length: slotCount }, (_, index) => index % 2 === 0 && (
+                <div
+                  key={index}
+                  style={{
+                    position: 'absolute',
+                    top: `${index * SLOT_HEIGHT - 7}px`,
+                    right: '8px',
+                    fontSize: '11px',
+                    color: 'var(--text-2)'
+                  }}
+                >
+                  {formatSlotLabel(index)}
+                </div>
+              ))}
+            </div>
+
+            {/* Day columns */}
+            {visibleDays.map(day => (
+              <div
+                key={day}
+                style={{
+                  position: 'relative',
+                  height: `${slotCount * SLOT_HEIGHT}px`,
+                  borderLeft: '1px solid var(--border)',
+                  background: day === today ? 'var(--brand-50)' : 'transparent'
+                }}
+              >
+                {Array.from({ length: slotCount }, (_, index) => (
+                  <div
+                    key={index}
+                    style={{
+                      position: 'absolute',
+                      top: `${index * SLOT_HEIGHT}px`,
+                      left: 0,
+                      right: 0,
+                      borderTop: `1px ${index % 2 === 0 ? 'solid' : 'dashed'} var(--border)`
+                    }}
+                  />
+                ))}
+
+                {layoutDayEntries(entriesByDay[day]).map(({ entry, lane, laneCount }, index) => {
+                  const start = timeToMinutes(entry.startTime);
+                  const end = timeToMinutes(entry.endTime);
+                  const isClash = hasTimetableClash(entry, entriesByDay[day]);
+
+                  return (
+                    <button
+                      key={`${entry.subject.id}-${index}`}
+                      type="button"
+                      onClick={() => router.push(`/dashboard/subjects/${entry.subject.id}/edit`)}
+                      title={`${entry.subject.name} • ${entry.startTime}–${entry.endTime}${entry.room ? ` • Room ${entry.room}` : ''}`}
+                      style={{
+                        position: 'absolute',
+                        top: `${((start - gridStart) / SLOT_MINUTES) * SLOT_HEIGHT + 1}px`,
+                        height: `${((end - start) / SLOT_MINUTES) * SLOT_HEIGHT - 2}px`,
+                        left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                        width: `calc(${100 / laneCount}% - 4px)`,
+                        padding: '4px 6px',
+                        borderRadius: '6px',
+                        borderTop: isClash ? '2px solid var(--warn)' : 'none',
+                        borderRight: isClash ? '2px solid var(--warn)' : 'none',
+                        borderBottom: isClash ? '2px solid var(--warn)' : 'none',
+                        borderLeft: `4px solid ${entry.subject.color}`,
+                        background: `${entry.subject.color}20`,
+                        color: 'var(--text)',
+                        textAlign: 'left',
+                        overflow: 'hidden',
+                        cursor: 'pointer',
+                        fontSize: '12px',
+                        lineHeight: 1.3
+                      }}
+                    >
+                      <div style={{ fontWeight: '600', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                        {entry.subject.code || entry.subject.name}
+                      </div>
+                      <div style={{ color: 'var(--text-2)' }}>
+                        {entry.startTime}–{entry.endTime}
+                        {entry.type && ` • ${SCHEDULE_TYPE_CONFIG[entry.type].label}`}
+                      </div>
+                      {(entry.room || entry.subject.room) && (
+                        <div style={{ color: 'var(--text-2)', display: 'flex', alignItems: 'center', gap: '2px' }}>
+                          <MapPin size={10} />
+                          {entry.room || entry.subject.room}
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <style jsx>{`
+        @keyframes spin {
+          0% { transform: rotate(0deg); }
+          100% { transform: rotate(360deg); }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -2,13 +2,24 @@
 
 import { useAuth } from "@/contexts/AuthContext";
 import { useRouter } from "next/navigation";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Loader2 } from "lucide-react";
 import Image from "next/image";
+import { AccountDeletionReport, ACCOUNT_DELETION_REPORT_KEY } from "@/types/user";
 
 export default function Home() {
   const { user, loading } = useAuth();
   const router = useRouter();
+  const [deletionReport, setDeletionReport] = useState<AccountDeletionReport | null>(null);
+
+  // Left by the profile page after an account is deleted
+  useEffect(() => {
+    const stored = sessionStorage.getItem(ACCOUNT_DELETION_REPORT_KEY);
+    if (stored) {
+      sessionStorage.removeItem(ACCOUNT_DELETION_REPORT_KEY);
+      setDeletionReport(JSON.parse(stored));
+    }
+  }, []);
 
   useEffect(() => {
     if (!loading) {
@@ -64,6 +75,32 @@ export default function Home() {
 
       {/* Hero Section */}
       <main className="container">
+        {deletionReport && (
+          <div className="card" style={{ marginBottom: '32px', padding: '20px', borderColor: 'var(--ok)' }}>
+            <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', gap: '12px' }}>
+              <div>
+                <b style={{ color: 'var(--text)' }}>Your account has been deleted</b>
+                <p className="small" style={{ color: 'var(--text-2)', margin: '4px 0 12px' }}>
+                  Checked {new Date(deletionReport.verifiedAt).toLocaleString()}: none of your data was found afterwards.
+                </p>
+              </div>
+              <button onClick={() => setDeletionReport(null)} className="btn ghost">Dismiss</button>
+            </div>
+            <div style={{ display: 'grid', gap: '4px 24px', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))' }}>
+              {deletionReport.collections.map(entry => (
+                <div key={entry.collection} className="row small" style={{ justifyContent: 'space-between', color: 'var(--text-2)' }}>
+                  <span>{entry.label}</span>
+                  <span>{entry.deleted} deleted</span>
+                </div>
+              ))}
+              <div className="row small" style={{ justifyContent: 'space-between', color: 'var(--text-2)' }}>
+                <span>Uploaded files</span>
+                <span>{deletionReport.storage.deleted} deleted</span>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="text-center">
           <h1 style={{ fontSize: 'var(--fs-hero)', margin: '0 0 16px', color: 'var(--text)', fontWeight: '700' }}>
             Organize Your <span style={{ color: 'var(--brand)' }}>Academic Life</span>
@@ -12,14 +12,12 @@ export default function RegisterPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("student");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const { login } = useAuth();
   const router = useRouter();
 
-  // Default role for all users
-  const defaultRole: UserRole = "student";
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -42,7 +40,7 @@ export default function RegisterPage() {
         password,
         confirmPassword,
         fullName,
-        role: defaultRole
+        role
       });
 
       if (result.success && result.user) {
@@ -99,6 +97,31 @@ export default function RegisterPage() {
           )}
 
           <div className="space-y-4">
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">I am a</span>
+              <div className="grid grid-cols-2 gap-3">
+                {(["student", "teacher"] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setRole(option)}
+                    className={`py-3 px-4 border rounded-lg text-sm font-medium transition-colors ${
+                      role === option
+                        ? "border-blue-600 bg-blue-50 text-blue-700"
+                        : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {option === "student" ? "Student" : "Teacher"}
+                  </button>
+                ))}
+              </div>
+              {role === "teacher" && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Teachers create courses and publish assignments to their students.
+                </p>
+              )}
+            </div>
+
             <div>
               <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-1">
                 Full name
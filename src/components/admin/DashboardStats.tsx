@@ -1,13 +1,18 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { AdminDashboardStats } from "@/types/admin";
-import { getAdminDashboardStats, formatBytes, getFileTypeDistribution } from "@/lib/adminAnalytics";
+import { AdminDashboardStats, FileTypeDistributionEntry } from "@/types/admin";
+import { SearchAnalytics, SearchResultType, SEARCH_CONFIG } from "@/types/search";
+import { fetchAdminDashboard } from "@/lib/adminApi";
+import { formatFileSize } from "@/lib/fileUtils";
 import {
   FaUsers,
   FaFolderOpen,
   FaHdd,
   FaChartBar,
+  FaSearch,
+  FaBolt,
+  FaMousePointer,
   FaSpinner,
   FaExclamationTriangle,
 } from "react-icons/fa";
@@ -48,7 +53,8 @@ function StatsCard({ title, value, icon, color = "blue", description }: StatsCar
 
 export default function DashboardStats() {
   const [stats, setStats] = useState<AdminDashboardStats | null>(null);
-  const [fileDistribution, setFileDistribution] = useState<Array<{ type: string; count: number; size: number }>>([]);
+  const [fileDistribution, setFileDistribution] = useState<FileTypeDistributionEntry[]>([]);
+  const [searchAnalytics, setSearchAnalytics] = useState<SearchAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -61,13 +67,11 @@ export default function DashboardStats() {
       setLoading(true);
       setError(null);
 
-      const [dashboardStats, fileTypes] = await Promise.all([
-        getAdminDashboardStats(),
-        getFileTypeDistribution(),
-      ]);
+      const data = await fetchAdminDashboard();
 
-      setStats(dashboardStats);
-      setFileDistribution(fileTypes);
+      setStats(data.stats);
+      setFileDistribution(data.fileTypeDistribution);
+      setSearchAnalytics(data.searchAnalytics);
     } catch (err) {
       console.error("Error loading dashboard data:", err);
       setError("Failed to load dashboard statistics");
@@ -134,7 +138,7 @@ export default function DashboardStats() {
         />
         <StatsCard
           title="Storage Used"
-          value={formatBytes(stats.totalStorageUsed)}
+          value={formatFileSize(stats.totalStorageUsed)}
           icon={<FaHdd className="h-6 w-6" />}
           color="yellow"
           description="Total storage consumption"
@@ -165,7 +169,7 @@ export default function DashboardStats() {
                 </div>
                 <div className="text-right">
                   <p className="text-sm font-medium text-gray-900">
-                    {formatBytes(user.storageUsed)}
+                    {formatFileSize(user.storageUsed)}
                   </p>
                   <p className="text-xs text-gray-500">
                     {((user.storageUsed / stats.totalStorageUsed) * 100).toFixed(1)}%
@@ -195,7 +199,7 @@ export default function DashboardStats() {
                       {type.type.toUpperCase()}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {formatBytes(type.size)}
+                      {formatFileSize(type.size)}
                     </p>
                   </div>
                 </div>
@@ -216,6 +220,91 @@ export default function DashboardStats() {
         </div>
       </div>
 
+      {/* Search Analytics */}
+      {searchAnalytics && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <StatsCard
+              title="Total Searches"
+              value={searchAnalytics.totalSearches.toLocaleString()}
+              icon={<FaSearch className="h-6 w-6" />}
+              color="blue"
+              description={`${searchAnalytics.averageResults} results on average`}
+            />
+            <StatsCard
+              title="Average Search Time"
+              value={`${searchAnalytics.searchPerformance.averageSearchTime} ms`}
+              icon={<FaBolt className="h-6 w-6" />}
+              color="green"
+              description={`${(searchAnalytics.searchPerformance.cacheHitRate * 100).toFixed(1)}% served from a ready index`}
+            />
+            <StatsCard
+              title="Results Opened"
+              value={Object.values(searchAnalytics.typeDistribution).reduce((total, count) => total + count, 0).toLocaleString()}
+              icon={<FaMousePointer className="h-6 w-6" />}
+              color="yellow"
+              description={(Object.keys(searchAnalytics.typeDistribution) as SearchResultType[])
+                .map(type => `${searchAnalytics.typeDistribution[type]} ${SEARCH_CONFIG.typeLabels[type].toLowerCase()}s`)
+                .join(", ")}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                Popular Searches (Top 10)
+              </h3>
+              {searchAnalytics.popularQueries.length === 0 ? (
+                <p className="text-sm text-gray-500">No searches recorded yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {searchAnalytics.popularQueries.map((popular, index) => (
+                    <div key={popular.query} className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center">
+                          <span className="text-xs font-medium text-blue-600">{index + 1}</span>
+                        </div>
+                        <p className="text-sm font-medium text-gray-900 truncate max-w-xs">
+                          {popular.query}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-medium text-gray-900">
+                          {popular.count.toLocaleString()}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {popular.avgResults} results avg.
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                Searches Without Results
+              </h3>
+              {searchAnalytics.noResultQueries.length === 0 ? (
+                <p className="text-sm text-gray-500">Every recent search found something</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {searchAnalytics.noResultQueries.map((noResultQuery) => (
+                    <span
+                      key={noResultQuery}
+                      className="px-2 py-1 rounded-md bg-red-50 text-red-600 text-xs font-medium"
+                    >
+                      {noResultQuery}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
       {/* Quick Actions */}
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="text-lg font-medium text-gray-900 mb-4">
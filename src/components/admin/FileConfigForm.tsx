@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { getAdminSettings, updateAdminSettings, validateFileConfig } from "@/lib/adminConfig";
+import { getAdminSettings, validateFileConfig } from "@/lib/adminConfig";
+import { saveAdminSettings } from "@/lib/adminApi";
 import { DEFAULT_ADMIN_FILE_CONFIG } from "@/types/admin";
 import { AdminFileConfig } from "@/types/admin";
 import { FileType } from "@/types/subject";
@@ -103,7 +104,7 @@ export default function FileConfigForm({ onSettingsUpdated }: FileConfigFormProp
       setErrors([]);
       setSuccessMessage(null);
 
-      await updateAdminSettings(formData, user.userId);
+      await saveAdminSettings(formData);
 
       setCurrentConfig(formData);
       setSuccessMessage("File configuration updated successfully!");
@@ -113,7 +114,7 @@ export default function FileConfigForm({ onSettingsUpdated }: FileConfigFormProp
       setTimeout(() => setSuccessMessage(null), 3000);
     } catch (error) {
       console.error("Error updating admin settings:", error);
-      setErrors(["Failed to update settings. Please try again."]);
+      setErrors([error instanceof Error ? error.message : "Failed to update settings. Please try again."]);
     } finally {
       setIsSaving(false);
     }
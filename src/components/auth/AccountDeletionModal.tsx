@@ -2,36 +2,42 @@
 
 import { useState } from "react";
 import { deleteUserAccount } from "@/lib/auth";
+import { AccountDeletionProgress, AccountDeletionReport } from "@/types/user";
 
 interface AccountDeletionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess: (report: AccountDeletionReport) => void;
 }
 
 export default function AccountDeletionModal({ isOpen, onClose, onSuccess }: AccountDeletionModalProps) {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [progress, setProgress] = useState<AccountDeletionProgress | null>(null);
+  const [report, setReport] = useState<AccountDeletionReport | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError("");
+    setReport(null);
 
     try {
-      const result = await deleteUserAccount(password);
+      const result = await deleteUserAccount(password, setProgress);
 
-      if (result.success) {
-        onSuccess();
+      if (result.success && result.report) {
+        onSuccess(result.report);
         onClose();
       } else {
         setError(result.error?.message || "Failed to delete account");
+        setReport(result.report || null);
       }
     } catch (error: any) {
       setError(error.message || "Failed to delete account");
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
@@ -39,6 +45,7 @@ export default function AccountDeletionModal({ isOpen, onClose, onSuccess }: Acc
     if (!loading) {
       setPassword("");
       setError("");
+      setReport(null);
       onClose();
     }
   };
@@ -57,7 +64,7 @@ export default function AccountDeletionModal({ isOpen, onClose, onSuccess }: Acc
             <li>Your profile information</li>
             <li>All your subjects and tasks</li>
             <li>All uploaded files</li>
-            <li>All reminders and data</li>
+            <li>All reminders, timer history, notifications and search data</li>
           </ul>
         </div>
 
@@ -68,6 +75,39 @@ export default function AccountDeletionModal({ isOpen, onClose, onSuccess }: Acc
             </div>
           )}
 
+          {report && !report.isComplete && (
+            <div className="text-sm border border-gray-200 rounded-md p-3 space-y-1">
+              <p className="font-medium text-gray-900">Still found after deletion:</p>
+              {report.collections.filter(entry => entry.remaining > 0).map(entry => (
+                <div key={entry.collection} className="flex justify-between text-gray-600">
+                  <span>{entry.label}</span>
+                  <span>{entry.remaining}</span>
+                </div>
+              ))}
+              {report.storage.remaining.length > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>Uploaded files</span>
+                  <span>{report.storage.remaining.length}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>{progress.label}...</span>
+                {progress.total > 1 && <span>{progress.completed} of {progress.total}</span>}
+              </div>
+              <div className="w-full h-2 bg-gray-200 rounded">
+                <div
+                  className="h-2 bg-red-600 rounded transition-all"
+                  style={{ width: `${progress.total > 0 ? Math.round(progress.completed / progress.total * 100) : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           <div>
             <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
               Enter your password to confirm:
@@ -80,6 +120,7 @@ export default function AccountDeletionModal({ isOpen, onClose, onSuccess }: Acc
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
+              disabled={loading}
               placeholder="Enter your password"
             />
           </div>
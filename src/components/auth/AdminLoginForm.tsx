@@ -3,10 +3,10 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import { loginUser } from "@/lib/auth";
 import { getUserProfile } from "@/lib/auth";
+import { refreshAdminClaim } from "@/lib/adminApi";
 import { FaUserShield, FaLock, FaEye, FaEyeSlash } from "react-icons/fa";
-import { signInWithEmailAndPassword } from "firebase/auth";
+import { signInWithEmailAndPassword, signOut } from "firebase/auth";
 import { getAuthInstance } from "@/lib/firebase";
 
 export default function AdminLoginForm() {
@@ -31,12 +31,12 @@ export default function AdminLoginForm() {
       const userCredential = await signInWithEmailAndPassword(auth, email, password);
       console.log("AdminLoginForm - Firebase auth successful, UID:", userCredential.user.uid);
 
-      // Check if user exists in Firestore and has admin role
-      const userProfile = await getUserProfile(userCredential.user.uid);
-      console.log("AdminLoginForm - User profile from Firestore:", userProfile);
+      // Admin access comes from a claim the server grants from the user's role
+      const isAdmin = await refreshAdminClaim();
+      const userProfile = isAdmin ? await getUserProfile(userCredential.user.uid) : null;
 
-      if (userProfile && userProfile.role === 'admin') {
-        console.log("AdminLoginForm - User is admin, proceeding with login");
+      if (userProfile) {
+        console.log("AdminLoginForm - Admin claim granted, proceeding with login");
 
         // Use the login function from AuthContext to update the state
         login(userProfile);
@@ -46,7 +46,8 @@ export default function AdminLoginForm() {
           router.push("/admin/dashboard");
         }, 100);
       } else {
-        console.log("AdminLoginForm - User not found in Firestore or not admin");
+        console.log("AdminLoginForm - User does not have the admin claim");
+        await signOut(auth);
         setError("Access denied. Admin account not found or incorrect permissions.");
       }
     } catch (err: any) {
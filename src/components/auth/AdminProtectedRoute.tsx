@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { hasAdminClaim } from "@/lib/adminApi";
 import { FaUserShield, FaSpinner } from "react-icons/fa";
 
 interface AdminProtectedRouteProps {
@@ -10,44 +11,38 @@ interface AdminProtectedRouteProps {
 }
 
 export default function AdminProtectedRoute({ children }: AdminProtectedRouteProps) {
-  const { user, loading, isAdmin } = useAuth();
+  const { user, loading } = useAuth();
   const router = useRouter();
   const [isVerifying, setIsVerifying] = useState(true);
+  const [hasAccess, setHasAccess] = useState(false);
 
   useEffect(() => {
-    console.log("AdminProtectedRoute - Auth state:", {
-      user: user?.email,
-      role: user?.role,
-      loading,
-      isAdmin
-    });
+    if (loading) return;
 
-    // Add a timeout to prevent infinite loading
-    const timeout = setTimeout(() => {
-      if (isVerifying) {
-        console.log("AdminProtectedRoute - Timeout reached, allowing access");
-        setIsVerifying(false);
-      }
-    }, 5000);
+    if (!user) {
+      // Not logged in, redirect to admin login
+      router.push("/admin/login");
+      return;
+    }
 
-    if (!loading) {
-      if (!user) {
-        // Not logged in, redirect to admin login
-        console.log("AdminProtectedRoute - No user, redirecting to login");
-        router.push("/admin/login");
-      } else if (!isAdmin && user.role !== 'admin') {
-        // Logged in but not admin, redirect to regular dashboard
-        console.log("AdminProtectedRoute - User not admin, redirecting to dashboard");
-        router.push("/dashboard");
-      } else {
-        // User is admin, allow access
-        console.log("AdminProtectedRoute - Admin access granted");
+    // The admin claim is set by the server, so changing the profile in the browser does not grant access
+    let isCurrent = true;
+    hasAdminClaim()
+      .catch(() => false)
+      .then((isAdmin) => {
+        if (!isCurrent) return;
+        setHasAccess(isAdmin);
         setIsVerifying(false);
-      }
-    }
+        if (!isAdmin) {
+          // Logged in but not admin, redirect to regular dashboard
+          router.push("/dashboard");
+        }
+      });
 
-    return () => clearTimeout(timeout);
-  }, [user, loading, isAdmin, router, isVerifying]);
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, loading, router]);
 
   if (loading || isVerifying) {
     return (
@@ -64,7 +59,7 @@ export default function AdminProtectedRoute({ children }: AdminProtectedRoutePro
     );
   }
 
-  if (!user || !isAdmin) {
+  if (!user || !hasAccess) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
@@ -2,9 +2,25 @@
 
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
 import CalendarHeader from "./CalendarHeader";
 import CalendarDay from "./CalendarDay";
-import { getCalendarData, CalendarDay as CalendarDayType } from "@/lib/calendar";
+import CalendarTimeGrid from "./CalendarTimeGrid";
+import CalendarExportModal from "./CalendarExportModal";
+import CalendarImportModal from "./CalendarImportModal";
+import {
+  getCalendarData,
+  getCalendarRange,
+  getDaysInRange,
+  shiftCalendarDate,
+  moveToDay,
+  moveEventInDays,
+  rescheduleCalendarEvent,
+  isEventReschedulable,
+  CalendarDay as CalendarDayType,
+  CalendarEvent,
+  CalendarView
+} from "@/lib/calendar";
 import { RefreshCw } from "lucide-react";
 
 interface CalendarProps {
@@ -13,112 +29,237 @@ interface CalendarProps {
 
 export default function Calendar({ userId }: CalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [view, setView] = useState<CalendarView>('month');
   const [calendarDays, setCalendarDays] = useState<CalendarDayType[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const { showToast, showErrorToast } = useToast();
 
-  const loadCalendarData = async (date: Date) => {
+  const loadCalendarData = async (date: Date, calendarView: CalendarView) => {
     if (!userId) return;
 
+    const range = getCalendarRange(date, calendarView);
+
     setIsLoading(true);
     try {
-      const data = await getCalendarData(userId, date);
+      const data = await getCalendarData(userId, date, range);
       setCalendarDays(data);
     } catch (error) {
-// Set empty calendar days on error
-      const { getCalendarDays } = await import('@/lib/calendar');
-      setCalendarDays(getCalendarDays(date));
+      // Set empty calendar days on error
+      setCalendarDays(getDaysInRange(range, date));
     } finally {
       setIsLoading(false);
     }
   };
 
   useEffect(() => {
-    loadCalendarData(currentDate);
-  }, [userId, currentDate]);
+    loadCalendarData(currentDate, view);
+  }, [userId, currentDate, view]);
+
+  const handlePrevious = () => {
+    setCurrentDate(shiftCalendarDate(currentDate, view, -1));
+  };
+
+  const handleNext = () => {
+    setCurrentDate(shiftCalendarDate(currentDate, view, 1));
+  };
+
+  const handleToday = () => {
+    setCurrentDate(new Date());
+  };
+
+  const handleSelectDay = (date: Date) => {
+    setCurrentDate(date);
+    setView('day');
+  };
+
+  // Move a dragged task or reminder to another day, keeping its time
+  const handleEventDrop = async (dropped: Pick<CalendarEvent, 'id' | 'type'>, date: Date) => {
+    const event = calendarDays
+      .flatMap(day => day.events)
+      .find(e => e.id === dropped.id && e.type === dropped.type);
+    if (!event || !isEventReschedulable(event)) return;
+
+    const originalDate = event.date;
+    const newDate = moveToDay(originalDate, date);
+    if (newDate.getTime() === originalDate.getTime()) return;
+
+    const label = event.type === 'task' ? 'Task' : 'Reminder';
+
+    // Update the grid right away and roll back if saving fails
+    setCalendarDays(prev => moveEventInDays(prev, event.id, newDate));
+
+    try {
+      await rescheduleCalendarEvent(userId, event, newDate);
 
-  const handlePreviousMonth = () => {
-    const newDate = new Date(currentDate);
-    newDate.setMonth(newDate.getMonth() - 1);
-    setCurrentDate(newDate);
+      showToast({
+        type: 'success',
+        title: `${label} rescheduled`,
+        message: `"${event.title}" moved to ${newDate.toLocaleDateString('en-US', {
+          weekday: 'short',
+          month: 'short',
+          day: 'numeric'
+        })}`,
+        duration: 6000,
+        action: {
+          label: 'Undo',
+          onClick: async () => {
+            setCalendarDays(prev => moveEventInDays(prev, event.id, originalDate));
+            try {
+              await rescheduleCalendarEvent(userId, event, originalDate);
+            } catch (error) {
+              showErrorToast('Undo failed', `Could not move "${event.title}" back`);
+              loadCalendarData(currentDate, view);
+            }
+          }
+        }
+      });
+    } catch (error) {
+      setCalendarDays(prev => moveEventInDays(prev, event.id, originalDate));
+      showErrorToast(`Failed to reschedule ${label.toLowerCase()}`, error instanceof Error ? error.message : undefined);
+    }
   };
 
-  const handleNextMonth = () => {
-    const newDate = new Date(currentDate);
-    newDate.setMonth(newDate.getMonth() + 1);
-    setCurrentDate(newDate);
+  // Arrow keys move between periods; M/W/D switch views and T jumps to today
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+        handlePrevious();
+        break;
+      case 'ArrowRight':
+        handleNext();
+        break;
+      case 't':
+      case 'T':
+        handleToday();
+        break;
+      case 'm':
+      case 'M':
+        setView('month');
+        break;
+      case 'w':
+      case 'W':
+        setView('week');
+        break;
+      case 'd':
+      case 'D':
+        setView('day');
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
   };
 
   const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
   return (
-    <div className="card" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
-      <CalendarHeader
-        currentDate={currentDate}
-        onPreviousMonth={handlePreviousMonth}
-        onNextMonth={handleNextMonth}
-      />
+    <>
+      <div
+        className="card"
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        aria-label="Calendar. Use arrow keys to change period, M, W or D to switch view"
+        style={{ display: 'flex', flexDirection: 'column', height: '100%' }}
+      >
+        <CalendarHeader
+          currentDate={currentDate}
+          view={view}
+          onPrevious={handlePrevious}
+          onNext={handleNext}
+          onToday={handleToday}
+          onViewChange={setView}
+          onExport={() => setIsExportModalOpen(true)}
+          onImport={() => setIsImportModalOpen(true)}
+        />
 
-      {isLoading ? (
-        <div
-          style={{
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            justifyContent: 'center',
-            padding: '40px',
-            color: 'var(--text-2)',
-            flex: 1
-          }}
-        >
-          <RefreshCw size={24} className="animate-spin" style={{ marginBottom: '12px' }} />
-          <div>Loading calendar...</div>
-        </div>
-      ) : (
-        <div style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
-          {/* Weekday headers */}
+        {isLoading ? (
           <div
             style={{
-              display: 'grid',
-              gridTemplateColumns: 'repeat(7, 1fr)',
-              gap: '1px',
-              backgroundColor: 'var(--border)',
-              padding: '8px 0'
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '40px',
+              color: 'var(--text-2)',
+              flex: 1
             }}
           >
-            {weekdayLabels.map((day, index) => (
-              <div
-                key={day}
-                style={{
-                  textAlign: 'center',
-                  fontSize: '12px',
-                  fontWeight: '600',
-                  color: index === 0 || index === 6 ? 'var(--text-2)' : 'var(--text)',
-                  backgroundColor: 'var(--bg)',
-                  padding: '4px'
-                }}
-              >
-                {day}
-              </div>
-            ))}
+            <RefreshCw size={24} className="animate-spin" style={{ marginBottom: '12px' }} />
+            <div>Loading calendar...</div>
           </div>
+        ) : view !== 'month' ? (
+          <CalendarTimeGrid days={calendarDays} onSelectDay={handleSelectDay} />
+        ) : (
+          <div style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+            {/* Weekday headers */}
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(7, 1fr)',
+                gap: '1px',
+                backgroundColor: 'var(--border)',
+                padding: '8px 0'
+              }}
+            >
+              {weekdayLabels.map((day, index) => (
+                <div
+                  key={day}
+                  style={{
+                    textAlign: 'center',
+                    fontSize: '12px',
+                    fontWeight: '600',
+                    color: index === 0 || index === 6 ? 'var(--text-2)' : 'var(--text)',
+                    backgroundColor: 'var(--bg)',
+                    padding: '4px'
+                  }}
+                >
+                  {day}
+                </div>
+              ))}
+            </div>
 
-          {/* Calendar grid */}
-          <div
-            style={{
-              display: 'grid',
-              gridTemplateColumns: 'repeat(7, 1fr)',
-              gap: '1px',
-              backgroundColor: 'var(--border)',
-              padding: '8px',
-              flex: 1
-            }}
-          >
-            {calendarDays.map((day, index) => (
-              <CalendarDay key={`${day.date.toISOString()}-${index}`} day={day} />
-            ))}
+            {/* Calendar grid */}
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(7, 1fr)',
+                gap: '1px',
+                backgroundColor: 'var(--border)',
+                padding: '8px',
+                flex: 1
+              }}
+            >
+              {calendarDays.map((day, index) => (
+                <CalendarDay
+                  key={`${day.date.toISOString()}-${index}`}
+                  day={day}
+                  onSelect={handleSelectDay}
+                  onEventDrop={handleEventDrop}
+                />
+              ))}
+            </div>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+
+      <CalendarExportModal
+        isOpen={isExportModalOpen}
+        onClose={() => setIsExportModalOpen(false)}
+        userId={userId}
+      />
+
+      <CalendarImportModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        userId={userId}
+        onImported={() => loadCalendarData(currentDate, view)}
+      />
+    </>
   );
 }
\ No newline at end of file
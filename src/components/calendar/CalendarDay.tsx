@@ -1,32 +1,45 @@
 "use client";
 
-import { CalendarDay as CalendarDayType, CalendarEvent } from "@/lib/calendar";
+import { useState } from "react";
+import {
+  CalendarDay as CalendarDayType,
+  CalendarEvent,
+  getEventColor,
+  getEventTooltip,
+  isEventReschedulable
+} from "@/lib/calendar";
+
+// Drag payload type for task and reminder chips
+const CALENDAR_EVENT_DRAG_TYPE = 'application/x-mystudyhub-event';
 
 interface CalendarDayProps {
   day: CalendarDayType;
+  onSelect?: (date: Date) => void; // Opens the day view
+  onEventDrop?: (event: Pick<CalendarEvent, 'id' | 'type'>, date: Date) => void;
 }
 
-export default function CalendarDay({ day }: CalendarDayProps) {
-  
-  const getEventColor = (event: CalendarEvent) => {
-    if (event.type === 'reminder') {
-      return 'var(--brand)'; // Blue for reminders
-    }
+export default function CalendarDay({ day, onSelect, onEventDrop }: CalendarDayProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
 
-    if (event.isCompleted) {
-      return 'var(--ok)'; // Green for completed
-    }
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, event: CalendarEvent) => {
+    e.dataTransfer.setData(CALENDAR_EVENT_DRAG_TYPE, JSON.stringify({ id: event.id, type: event.type }));
+    e.dataTransfer.effectAllowed = 'move';
+  };
 
-    // Task priority colors
-    switch (event.priority) {
-      case 'high':
-        return 'var(--danger)'; // Red for high priority
-      case 'medium':
-        return 'var(--warn)'; // Orange for medium
-      case 'low':
-      default:
-        return 'var(--text-2)'; // Gray for low
-    }
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!onEventDrop || !e.dataTransfer.types.includes(CALENDAR_EVENT_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setIsDragOver(false);
+    const data = e.dataTransfer.getData(CALENDAR_EVENT_DRAG_TYPE);
+    if (!onEventDrop || !data) return;
+
+    e.preventDefault();
+    onEventDrop(JSON.parse(data), day.date);
   };
 
   const getEventIcon = (event: CalendarEvent) => {
@@ -34,6 +47,9 @@ export default function CalendarDay({ day }: CalendarDayProps) {
     return <div style={{ width: '6px', height: '6px', borderRadius: '50%' }} />;
   };
 
+  // Deadlines drive the count badge; class sessions are shown but not counted
+  const deadlineEvents = day.events.filter(e => e.type !== 'class');
+
   const getEventCountText = (events: CalendarEvent[]) => {
     const completedCount = events.filter(e => e.isCompleted).length;
     const totalCount = events.length;
@@ -51,23 +67,38 @@ export default function CalendarDay({ day }: CalendarDayProps) {
         padding: '4px',
         border: '1px solid var(--border)',
         borderRadius: '4px',
-        backgroundColor: day.isToday
-          ? 'var(--brand-50)'
-          : day.isCurrentMonth
-            ? 'var(--bg)'
-            : 'var(--bg-2)',
+        backgroundColor: isDragOver
+          ? 'var(--brand-100)'
+          : day.isToday
+            ? 'var(--brand-50)'
+            : day.isCurrentMonth
+              ? 'var(--bg)'
+              : 'var(--bg-2)',
+        outline: isDragOver ? '2px dashed var(--brand)' : 'none',
         color: day.isCurrentMonth ? 'var(--text)' : 'var(--text-2)',
         position: 'relative',
         transition: 'background-color 0.2s'
       }}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Ignore leaving the cell for one of its own chips
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setIsDragOver(false);
+        }
+      }}
+      onDrop={handleDrop}
     >
       {/* Day number */}
       <div
+        onClick={onSelect ? () => onSelect(day.date) : undefined}
+        title={onSelect ? 'Open day view' : undefined}
         style={{
           fontSize: '12px',
           fontWeight: day.isToday ? '600' : 'normal',
           color: day.isToday ? 'var(--brand)' : 'inherit',
-          marginBottom: '2px'
+          marginBottom: '2px',
+          cursor: onSelect ? 'pointer' : 'default',
+          display: 'inline-block'
         }}
       >
         {day.date.getDate()}
@@ -89,21 +120,26 @@ export default function CalendarDay({ day }: CalendarDayProps) {
           {day.events.slice(0, 3).map((event, index) => (
             <div
               key={event.id}
+              draggable={!!onEventDrop && isEventReschedulable(event)}
+              onDragStart={(e) => handleDragStart(e, event)}
               style={{
                 display: 'flex',
                 alignItems: 'center',
                 gap: '2px',
                 fontSize: '10px',
                 width: '100%',
-                overflow: 'hidden'
+                overflow: 'hidden',
+                cursor: onEventDrop && isEventReschedulable(event) ? 'grab' : 'default'
               }}
-              title={`${event.type === 'task' ? 'Task' : 'Reminder'}: ${event.title}`}
+              title={onEventDrop && isEventReschedulable(event)
+                ? `${getEventTooltip(event)} (drag to reschedule)`
+                : getEventTooltip(event)}
             >
               <div
                 style={{
                   width: '6px',
                   height: '6px',
-                  borderRadius: '50%',
+                  borderRadius: event.type === 'class' ? '1px' : '50%',
                   backgroundColor: getEventColor(event),
                   flexShrink: 0
                 }}
@@ -139,13 +175,13 @@ export default function CalendarDay({ day }: CalendarDayProps) {
           )}
 
           {/* Event count indicator */}
-          {day.events.length > 0 && (
+          {deadlineEvents.length > 0 && (
             <div
               style={{
                 position: 'absolute',
                 top: '4px',
                 right: '4px',
-                backgroundColor: getEventColor(day.events[0]),
+                backgroundColor: getEventColor(deadlineEvents[0]),
                 color: 'white',
                 fontSize: '9px',
                 fontWeight: '500',
@@ -155,7 +191,7 @@ export default function CalendarDay({ day }: CalendarDayProps) {
                 textAlign: 'center'
               }}
             >
-              {getEventCountText(day.events)}
+              {getEventCountText(deadlineEvents)}
             </div>
           )}
         </div>
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Modal from "@/components/ui/Modal";
+import { Subject } from "@/types/subject";
+import { IcsExportOptions, IcsTaskFormat, DEFAULT_ICS_EXPORT_OPTIONS } from "@/types/ics";
+import { getUserSubjects } from "@/lib/storage";
+import { exportUserCalendar, downloadIcsFile } from "@/lib/ics";
+import { toDateKey } from "@/lib/recurrence";
+import { Download, AlertCircle } from "lucide-react";
+
+interface CalendarExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+const checkboxLabelStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  fontSize: '14px',
+  color: 'var(--text)',
+  cursor: 'pointer'
+};
+
+export default function CalendarExportModal({ isOpen, onClose, userId }: CalendarExportModalProps) {
+  const [options, setOptions] = useState<IcsExportOptions>(DEFAULT_ICS_EXPORT_OPTIONS);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !userId) return;
+    setError(null);
+    getUserSubjects(userId).then(setSubjects);
+  }, [isOpen, userId]);
+
+  const update = (changes: Partial<IcsExportOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleSubject = (subjectId: string) => {
+    const selected = options.subjectIds ?? subjects.map(s => s.id);
+    const next = selected.includes(subjectId)
+      ? selected.filter(id => id !== subjectId)
+      : [...selected, subjectId];
+
+    // Selecting every subject again means "all", which also keeps tasks without a subject
+    update({ subjectIds: next.length === subjects.length ? null : next });
+  };
+
+  const nothingSelected = !options.includeTasks && !options.includeReminders && !options.includeClasses;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const content = await exportUserCalendar(userId, options);
+      downloadIcsFile(content, `mystudyhub-${toDateKey(new Date())}.ics`);
+      onClose();
+    } catch (err) {
+      setError('Failed to export calendar. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Calendar (.ics)">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
+        <p className="small" style={{ color: 'var(--text-2)', margin: 0 }}>
+          Download an iCalendar file to import into Google Calendar, Apple Calendar or Outlook.
+        </p>
+
+        {/* Types */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+          <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text)' }}>Include</div>
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={options.includeTasks}
+              onChange={(e) => update({ includeTasks: e.target.checked })}
+            />
+            Tasks
+          </label>
+          {options.includeTasks && (
+            <div className="row" style={{ gap: '8px', alignItems: 'center', marginLeft: '24px' }}>
+              <span className="small" style={{ color: 'var(--text-2)' }}>Export tasks as</span>
+              <select
+                value={options.taskFormat}
+                onChange={(e) => update({ taskFormat: e.target.value as IcsTaskFormat })}
+                style={{
+                  padding: '6px 8px',
+                  border: '1px solid var(--border)',
+                  borderRadius: '6px',
+                  fontSize: '13px',
+                  color: 'var(--text)',
+                  background: 'var(--bg)'
+                }}
+              >
+                <option value="VTODO">To-dos (VTODO)</option>
+                <option value="VEVENT">Events at due time (VEVENT)</option>
+              </select>
+            </div>
+          )}
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={options.includeReminders}
+              onChange={(e) => update({ includeReminders: e.target.checked })}
+            />
+            Reminders (with alerts)
+          </label>
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={options.includeClasses}
+              onChange={(e) => update({ includeClasses: e.target.checked })}
+            />
+            Weekly classes
+          </label>
+          {options.includeClasses && (
+            <div className="row" style={{ gap: '8px', alignItems: 'center', marginLeft: '24px' }}>
+              <span className="small" style={{ color: 'var(--text-2)' }}>Repeat until</span>
+              <input
+                type="date"
+                value={options.classesUntil || ''}
+                onChange={(e) => update({ classesUntil: e.target.value || null })}
+                style={{
+                  padding: '6px 8px',
+                  border: '1px solid var(--border)',
+                  borderRadius: '6px',
+                  fontSize: '13px',
+                  color: 'var(--text)',
+                  background: 'var(--bg)'
+                }}
+              />
+              <span className="small" style={{ color: 'var(--text-2)' }}>
+                {options.classesUntil ? '' : '(no end date)'}
+              </span>
+            </div>
+          )}
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={options.includeCompleted}
+              onChange={(e) => update({ includeCompleted: e.target.checked })}
+            />
+            Include completed tasks and reminders
+          </label>
+        </div>
+
+        {/* Subjects */}
+        {subjects.length > 0 && (options.includeTasks || options.includeClasses) && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            <div className="row" style={{ alignItems: 'center', justifyContent: 'space-between' }}>
+              <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text)' }}>Subjects</span>
+              <button
+                type="button"
+                className="btn ghost"
+                style={{ padding: '4px 8px', fontSize: '12px' }}
+                onClick={() => update({ subjectIds: options.subjectIds === null ? [] : null })}
+              >
+                {options.subjectIds === null ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))', gap: '8px' }}>
+              {subjects.map(subject => (
+                <label key={subject.id} style={checkboxLabelStyle}>
+                  <input
+                    type="checkbox"
+                    checked={options.subjectIds === null || options.subjectIds.includes(subject.id)}
+                    onChange={() => toggleSubject(subject.id)}
+                  />
+                  <span style={{ width: '10px', height: '10px', borderRadius: '3px', background: subject.color, flexShrink: 0 }} />
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{subject.name}</span>
+                </label>
+              ))}
+            </div>
+            {options.subjectIds !== null && (
+              <div className="small" style={{ color: 'var(--text-2)' }}>
+                Tasks without a subject are only exported when all subjects are selected.
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div style={{ fontSize: '13px', color: 'var(--danger)', display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <AlertCircle size={14} />
+            {error}
+          </div>
+        )}
+
+        <div className="row" style={{ justifyContent: 'flex-end', gap: '12px' }}>
+          <button type="button" className="btn ghost" onClick={onClose} disabled={isExporting}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn"
+            onClick={handleExport}
+            disabled={isExporting || nothingSelected}
+          >
+            <Download size={16} style={{ marginRight: '8px' }} />
+            {isExporting ? 'Exporting...' : 'Download .ics'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
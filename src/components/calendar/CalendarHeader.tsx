@@ -1,17 +1,34 @@
 "use client";
 
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { ChevronLeft, ChevronRight, Download, Upload } from "lucide-react";
+import { CalendarView } from "@/lib/calendar";
 
 interface CalendarHeaderProps {
   currentDate: Date;
-  onPreviousMonth: () => void;
-  onNextMonth: () => void;
+  view: CalendarView;
+  onPrevious: () => void;
+  onNext: () => void;
+  onToday: () => void;
+  onViewChange: (view: CalendarView) => void;
+  onExport?: () => void;
+  onImport?: () => void;
 }
 
+const VIEW_OPTIONS: { value: CalendarView; label: string; shortcut: string }[] = [
+  { value: 'month', label: 'Month', shortcut: 'M' },
+  { value: 'week', label: 'Week', shortcut: 'W' },
+  { value: 'day', label: 'Day', shortcut: 'D' }
+];
+
 export default function CalendarHeader({
   currentDate,
-  onPreviousMonth,
-  onNextMonth
+  view,
+  onPrevious,
+  onNext,
+  onToday,
+  onViewChange,
+  onExport,
+  onImport
 }: CalendarHeaderProps) {
   const monthNames = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -22,32 +39,69 @@ export default function CalendarHeader({
   const month = currentDate.getMonth();
   const monthName = monthNames[month];
 
+  const getTitle = () => {
+    if (view === 'day') {
+      return currentDate.toLocaleDateString('en-US', {
+        weekday: 'long',
+        month: 'long',
+        day: 'numeric',
+        year: 'numeric'
+      });
+    }
+
+    if (view === 'week') {
+      const weekStart = new Date(year, month, currentDate.getDate() - currentDate.getDay());
+      const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6);
+      const startLabel = `${monthNames[weekStart.getMonth()].substring(0, 3)} ${weekStart.getDate()}`;
+      const endLabel = weekStart.getMonth() === weekEnd.getMonth()
+        ? `${weekEnd.getDate()}`
+        : `${monthNames[weekEnd.getMonth()].substring(0, 3)} ${weekEnd.getDate()}`;
+      return `${startLabel} – ${endLabel}, ${weekEnd.getFullYear()}`;
+    }
+
+    return `${monthName} ${year}`;
+  };
+
+  const periodLabel = view === 'month' ? 'month' : view;
+
   return (
     <div
       style={{
         display: 'flex',
         justifyContent: 'space-between',
         alignItems: 'center',
+        gap: '8px',
+        flexWrap: 'wrap',
         padding: '12px 16px',
         borderBottom: '1px solid var(--border)',
         backgroundColor: 'var(--bg)'
       }}
     >
-      <button
-        onClick={onPreviousMonth}
-        className="btn ghost"
-        style={{
-          padding: '6px 8px',
-          borderRadius: '4px',
-          display: 'flex',
-          alignItems: 'center',
-          gap: '4px'
-        }}
-        title="Previous month"
-      >
-        <ChevronLeft size={16} />
-        Previous
-      </button>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <button
+          onClick={onPrevious}
+          className="btn ghost"
+          style={{
+            padding: '6px 8px',
+            borderRadius: '4px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px'
+          }}
+          title={`Previous ${periodLabel} (←)`}
+        >
+          <ChevronLeft size={16} />
+          Previous
+        </button>
+        <button
+          onClick={onToday}
+          className="btn ghost"
+          style={{ padding: '6px 8px', borderRadius: '4px' }}
+          title="Go to today (T)"
+        >
+          Today
+        </button>
+      </div>
 
       <div
         style={{
@@ -57,24 +111,79 @@ export default function CalendarHeader({
           textAlign: 'center'
         }}
       >
-        {monthName} {year}
+        {getTitle()}
       </div>
 
-      <button
-        onClick={onNextMonth}
-        className="btn ghost"
-        style={{
-          padding: '6px 8px',
-          borderRadius: '4px',
-          display: 'flex',
-          alignItems: 'center',
-          gap: '4px'
-        }}
-        title="Next month"
-      >
-        Next
-        <ChevronRight size={16} />
-      </button>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <div
+          role="group"
+          aria-label="Calendar view"
+          style={{
+            display: 'flex',
+            border: '1px solid var(--border)',
+            borderRadius: '6px',
+            overflow: 'hidden'
+          }}
+        >
+          {VIEW_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onViewChange(option.value)}
+              aria-pressed={view === option.value}
+              title={`${option.label} view (${option.shortcut})`}
+              style={{
+                padding: '6px 10px',
+                fontSize: '13px',
+                border: 'none',
+                cursor: 'pointer',
+                fontWeight: view === option.value ? '600' : '500',
+                color: view === option.value ? 'var(--brand)' : 'var(--text-2)',
+                background: view === option.value ? 'var(--brand-100)' : 'transparent'
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {onImport && (
+          <button
+            onClick={onImport}
+            className="btn ghost"
+            style={{ padding: '6px 8px', borderRadius: '4px', display: 'flex', alignItems: 'center' }}
+            title="Import from calendar file (.ics)"
+          >
+            <Upload size={16} />
+          </button>
+        )}
+
+        {onExport && (
+          <button
+            onClick={onExport}
+            className="btn ghost"
+            style={{ padding: '6px 8px', borderRadius: '4px', display: 'flex', alignItems: 'center' }}
+            title="Export to calendar app (.ics)"
+          >
+            <Download size={16} />
+          </button>
+        )}
+
+        <button
+          onClick={onNext}
+          className="btn ghost"
+          style={{
+            padding: '6px 8px',
+            borderRadius: '4px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px'
+          }}
+          title={`Next ${periodLabel} (→)`}
+        >
+          Next
+          <ChevronRight size={16} />
+        </button>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Modal from "@/components/ui/Modal";
+import { Subject } from "@/types/subject";
+import {
+  IcsImportItem,
+  IcsImportAction,
+  IcsImportResult,
+  ICS_IMPORT_ACTION_CONFIG
+} from "@/types/ics";
+import { parseIcsCalendar } from "@/lib/ics";
+import {
+  prepareIcsImport,
+  applyIcsImport,
+  getIcsItemDate,
+  canImportAsClass,
+  toIcsScheduleEntries
+} from "@/lib/icsImport";
+import { useToast } from "@/contexts/ToastContext";
+import { Upload, AlertCircle, RefreshCw } from "lucide-react";
+
+interface CalendarImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  onImported?: (result: IcsImportResult) => void;
+}
+
+const selectStyle = {
+  padding: '4px 6px',
+  border: '1px solid var(--border)',
+  borderRadius: '6px',
+  fontSize: '12px',
+  color: 'var(--text)',
+  background: 'var(--bg)',
+  maxWidth: '100%'
+};
+
+const FREQUENCY_LABELS = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly (first only)'
+};
+
+export default function CalendarImportModal({ isOpen, onClose, userId, onImported }: CalendarImportModalProps) {
+  const { showSuccessToast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [items, setItems] = useState<IcsImportItem[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  // Start over every time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setFileName(null);
+    setItems([]);
+    setError(null);
+    setImportErrors([]);
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setError(null);
+    setImportErrors([]);
+    setIsLoading(true);
+
+    try {
+      const parsed = parseIcsCalendar(await file.text());
+      if (parsed.length === 0) {
+        throw new Error('The file contains no events or to-dos');
+      }
+
+      const preview = await prepareIcsImport(userId, parsed);
+      // Show items in date order, undated ones last
+      preview.items.sort((a, b) =>
+        (getIcsItemDate(a.item)?.getTime() ?? Infinity) - (getIcsItemDate(b.item)?.getTime() ?? Infinity)
+      );
+      setItems(preview.items);
+      setSubjects(preview.subjects);
+    } catch (err) {
+      setItems([]);
+      setError(err instanceof Error ? err.message : 'Failed to read calendar file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<IcsImportItem>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const setAllActions = (action: IcsImportAction) => {
+    setItems(prev => prev.map(item => ({ ...item, action })));
+  };
+
+  const selectedCount = items.filter(item => item.action !== 'skip').length;
+  const missingSubject = items.some(item => item.action === 'class' && !item.subjectId);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const result = await applyIcsImport(userId, items, subjects);
+      onImported?.(result);
+
+      if (result.errors.length > 0) {
+        setImportErrors(result.errors);
+        return;
+      }
+
+      showSuccessToast(
+        'Calendar imported',
+        `${result.created} added, ${result.updated} updated${result.skipped ? `, ${result.skipped} skipped` : ''}`
+      );
+      onClose();
+    } catch (err) {
+      setError('Failed to import calendar. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatWhen = ({ item, action }: IcsImportItem) => {
+    if (action === 'class') {
+      const entries = toIcsScheduleEntries(item);
+      if (entries.length > 0) {
+        return `${entries.map(entry => entry.dayOfWeek.substring(0, 3)).join(', ')} ${entries[0].startTime}–${entries[0].endTime}`;
+      }
+    }
+
+    const date = getIcsItemDate(item);
+    if (!date) return 'No date';
+    return date.toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      ...(!item.isAllDay && { hour: 'numeric', minute: '2-digit' })
+    });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Calendar (.ics)" size="large">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <p className="small" style={{ color: 'var(--text-2)', margin: 0 }}>
+          Import a timetable or deadline calendar exported from your university portal, Google Calendar or Outlook.
+          Importing the same file again updates the items instead of duplicating them.
+        </p>
+
+        <label
+          className="btn ghost"
+          style={{ alignSelf: 'flex-start', display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}
+        >
+          <Upload size={16} />
+          {fileName ? 'Choose another file' : 'Choose .ics file'}
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+            style={{ display: 'none' }}
+          />
+        </label>
+
+        {isLoading && (
+          <div className="small" style={{ color: 'var(--text-2)' }}>Reading {fileName}...</div>
+        )}
+
+        {items.length > 0 && !isLoading && (
+          <>
+            <div className="row" style={{ alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+              <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text)' }}>
+                {items.length} item{items.length === 1 ? '' : 's'} in {fileName}
+              </span>
+              <button type="button" className="btn ghost" style={{ padding: '4px 8px', fontSize: '12px' }} onClick={() => setAllActions('skip')}>
+                Skip all
+              </button>
+            </div>
+
+            <div style={{ maxHeight: '400px', overflowY: 'auto', border: '1px solid var(--border)', borderRadius: '8px' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: 'var(--text-2)', background: 'var(--bg-2)', position: 'sticky', top: 0 }}>
+                    <th style={{ padding: '8px', fontWeight: '600' }}>Item</th>
+                    <th style={{ padding: '8px', fontWeight: '600' }}>When</th>
+                    <th style={{ padding: '8px', fontWeight: '600' }}>Import as</th>
+                    <th style={{ padding: '8px', fontWeight: '600' }}>Subject</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((importItem, index) => {
+                    const { item, action, subjectId, existing } = importItem;
+                    const needsSubject = action === 'class' && !subjectId;
+
+                    return (
+                      <tr
+                        key={item.uid}
+                        style={{ borderTop: '1px solid var(--border)', opacity: action === 'skip' ? 0.5 : 1 }}
+                      >
+                        <td style={{ padding: '8px', verticalAlign: 'top' }}>
+                          <div style={{ fontWeight: '500', color: 'var(--text)' }}>{item.summary}</div>
+                          {item.location && (
+                            <div className="small" style={{ color: 'var(--text-2)' }}>{item.location}</div>
+                          )}
+                          {existing && (
+                            <div className="small" style={{ color: 'var(--brand)', display: 'flex', alignItems: 'center', gap: '4px' }}>
+                              <RefreshCw size={11} />
+                              Already imported, will update
+                            </div>
+                          )}
+                        </td>
+                        <td style={{ padding: '8px', verticalAlign: 'top', color: 'var(--text-2)', whiteSpace: 'nowrap' }}>
+                          <div>{formatWhen(importItem)}</div>
+                          {item.recurrence && action !== 'class' && (
+                            <div className="small">Repeats {FREQUENCY_LABELS[item.recurrence.frequency].toLowerCase()}</div>
+                          )}
+                        </td>
+                        <td style={{ padding: '8px', verticalAlign: 'top' }}>
+                          <select
+                            value={action}
+                            onChange={(e) => updateItem(index, { action: e.target.value as IcsImportAction })}
+                            style={selectStyle}
+                          >
+                            {(Object.keys(ICS_IMPORT_ACTION_CONFIG) as IcsImportAction[])
+                              .filter(option => option !== 'class' || canImportAsClass(item))
+                              .map(option => (
+                                <option key={option} value={option}>
+                                  {ICS_IMPORT_ACTION_CONFIG[option].label}
+                                </option>
+                              ))}
+                          </select>
+                        </td>
+                        <td style={{ padding: '8px', verticalAlign: 'top' }}>
+                          {action === 'class' || action === 'task' ? (
+                            <select
+                              value={subjectId || ''}
+                              onChange={(e) => updateItem(index, { subjectId: e.target.value || null })}
+                              style={{ ...selectStyle, borderColor: needsSubject ? 'var(--danger)' : 'var(--border)' }}
+                            >
+                              <option value="">{action === 'class' ? 'Choose subject' : 'No subject'}</option>
+                              {subjects.map(subject => (
+                                <option key={subject.id} value={subject.id}>
+                                  {subject.code ? `${subject.code} – ${subject.name}` : subject.name}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="small" style={{ color: 'var(--text-2)' }}>—</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {missingSubject && (
+              <div className="small" style={{ color: 'var(--text-2)' }}>
+                Weekly classes are added to a subject&apos;s schedule. Choose a subject for each class or import it as something else.
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div style={{ fontSize: '13px', color: 'var(--danger)', display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <AlertCircle size={14} />
+            {error}
+          </div>
+        )}
+
+        {importErrors.length > 0 && (
+          <div style={{ fontSize: '13px', color: 'var(--danger)' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontWeight: '600' }}>
+              <AlertCircle size={14} />
+              Some items could not be imported
+            </div>
+            <ul style={{ margin: '4px 0 0', paddingLeft: '20px' }}>
+              {importErrors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="row" style={{ justifyContent: 'flex-end', gap: '12px' }}>
+          <button type="button" className="btn ghost" onClick={onClose} disabled={isImporting}>
+            {importErrors.length > 0 ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            type="button"
+            className="btn"
+            onClick={handleImport}
+            disabled={isImporting || isLoading || selectedCount === 0 || missingSubject || importErrors.length > 0}
+          >
+            <Upload size={16} style={{ marginRight: '8px' }} />
+            {isImporting ? 'Importing...' : `Import ${selectedCount} item${selectedCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
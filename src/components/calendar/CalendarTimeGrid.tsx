@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  CalendarDay as CalendarDayType,
+  layoutTimedEvents,
+  getEventColor,
+  getEventTooltip,
+  formatEventTime
+} from "@/lib/calendar";
+
+interface CalendarTimeGridProps {
+  days: CalendarDayType[]; // One day for the day view, seven for the week view
+  onSelectDay?: (date: Date) => void;
+}
+
+// Height of one hour row in pixels
+const HOUR_HEIGHT = 48;
+// Hour the grid scrolls to when opened
+const SCROLL_TO_HOUR = 7;
+
+export default function CalendarTimeGrid({ days, onSelectDay }: CalendarTimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(new Date());
+
+  // Start the grid at the beginning of the school day
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = SCROLL_TO_HOUR * HOUR_HEIGHT;
+    }
+  }, [days.length]);
+
+  // Keep the current time indicator moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const hours = Array.from({ length: 24 }, (_, hour) => hour);
+  const nowTop = ((now.getHours() * 60 + now.getMinutes()) / 60) * HOUR_HEIGHT;
+  const gridColumns = `56px repeat(${days.length}, minmax(0, 1fr))`;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', flex: 1, minHeight: 0 }}>
+      {/* Day headers */}
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: gridColumns,
+          borderBottom: '1px solid var(--border)',
+          backgroundColor: 'var(--bg)'
+        }}
+      >
+        <div />
+        {days.map(day => (
+          <div
+            key={day.date.toISOString()}
+            onClick={onSelectDay && days.length > 1 ? () => onSelectDay(day.date) : undefined}
+            title={onSelectDay && days.length > 1 ? 'Open day view' : undefined}
+            style={{
+              textAlign: 'center',
+              padding: '8px 4px',
+              fontSize: '12px',
+              fontWeight: '600',
+              color: day.isToday ? 'var(--brand)' : 'var(--text)',
+              cursor: onSelectDay && days.length > 1 ? 'pointer' : 'default'
+            }}
+          >
+            {day.date.toLocaleDateString('en-US', { weekday: 'short' })}{' '}
+            <span style={{
+              display: 'inline-block',
+              minWidth: '22px',
+              padding: '1px 4px',
+              borderRadius: '10px',
+              backgroundColor: day.isToday ? 'var(--brand)' : 'transparent',
+              color: day.isToday ? 'white' : 'inherit'
+            }}>
+              {day.date.getDate()}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Hourly grid */}
+      <div ref={scrollRef} style={{ overflowY: 'auto', maxHeight: '560px', flex: 1 }}>
+        <div style={{ display: 'grid', gridTemplateColumns: gridColumns, position: 'relative' }}>
+          {/* Hour labels */}
+          <div style={{ position: 'relative', height: `${24 * HOUR_HEIGHT}px` }}>
+            {hours.map(hour => hour > 0 && (
+              <div
+                key={hour}
+                style={{
+                  position: 'absolute',
+                  top: `${hour * HOUR_HEIGHT - 7}px`,
+                  right: '8px',
+                  fontSize: '11px',
+                  color: 'var(--text-2)'
+                }}
+              >
+                {String(hour).padStart(2, '0')}:00
+              </div>
+            ))}
+          </div>
+
+          {/* Day columns */}
+          {days.map(day => (
+            <div
+              key={day.date.toISOString()}
+              style={{
+                position: 'relative',
+                height: `${24 * HOUR_HEIGHT}px`,
+                borderLeft: '1px solid var(--border)',
+                backgroundColor: day.isToday ? 'var(--brand-50)' : 'var(--bg)'
+              }}
+            >
+              {hours.map(hour => (
+                <div
+                  key={hour}
+                  style={{
+                    position: 'absolute',
+                    top: `${hour * HOUR_HEIGHT}px`,
+                    left: 0,
+                    right: 0,
+                    borderTop: '1px solid var(--border)'
+                  }}
+                />
+              ))}
+
+              {layoutTimedEvents(day.events).map(({ event, startMinutes, durationMinutes, lane, laneCount }) => {
+                const color = getEventColor(event);
+                const isClass = event.type === 'class';
+
+                return (
+                  <div
+                    key={event.id}
+                    title={getEventTooltip(event)}
+                    style={{
+                      position: 'absolute',
+                      top: `${(startMinutes / 60) * HOUR_HEIGHT + 1}px`,
+                      height: `${(durationMinutes / 60) * HOUR_HEIGHT - 2}px`,
+                      left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                      width: `calc(${100 / laneCount}% - 4px)`,
+                      padding: '2px 6px',
+                      borderRadius: '4px',
+                      borderLeft: `3px solid ${color}`,
+                      backgroundColor: isClass ? `${color}20` : 'var(--card)',
+                      boxShadow: isClass ? 'none' : 'var(--shadow-sm)',
+                      fontSize: '11px',
+                      lineHeight: 1.3,
+                      overflow: 'hidden',
+                      color: 'var(--text)',
+                      opacity: event.isCompleted ? 0.6 : 1,
+                      textDecoration: event.isCompleted ? 'line-through' : 'none'
+                    }}
+                  >
+                    <div style={{ fontWeight: '600', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                      {event.title}
+                    </div>
+                    <div style={{ color: 'var(--text-2)', whiteSpace: 'nowrap' }}>
+                      {formatEventTime(event.date)}
+                      {event.endDate && `–${formatEventTime(event.endDate)}`}
+                      {isClass && event.room && ` • ${event.room}`}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Current time indicator */}
+              {day.isToday && (
+                <div
+                  style={{
+                    position: 'absolute',
+                    top: `${nowTop}px`,
+                    left: 0,
+                    right: 0,
+                    borderTop: '2px solid var(--danger)',
+                    zIndex: 1,
+                    pointerEvents: 'none'
+                  }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
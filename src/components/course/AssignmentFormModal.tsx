@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Modal from '@/components/ui/Modal';
+import { Assignment, AssignmentFormData } from '@/types/course';
+import { TASK_PRIORITY_CONFIG, TaskPriority } from '@/types/task';
+
+interface AssignmentFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assignment?: Assignment; // Edit this assignment instead of publishing one
+  onSubmit: (data: AssignmentFormData) => Promise<void>;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '14px',
+  fontWeight: '500',
+  color: 'var(--text)'
+};
+
+// Local time, as datetime-local inputs expect
+function toDateTimeLocal(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${year}-${month}-${day}T${hours}:${minutes}`;
+}
+
+/**
+ * Publishes an assignment to a course, or edits one
+ */
+export default function AssignmentFormModal({ isOpen, onClose, assignment, onSubmit }: AssignmentFormModalProps) {
+  const [formData, setFormData] = useState<AssignmentFormData>({ title: '', description: '', dueDate: '', priority: 'medium' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData({
+      title: assignment?.title || '',
+      description: assignment?.description || '',
+      dueDate: assignment ? toDateTimeLocal(assignment.dueDate.toDate()) : '',
+      priority: assignment?.priority || 'medium'
+    });
+    setError(null);
+  }, [isOpen, assignment]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSubmit(formData);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save assignment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={assignment ? 'Edit Assignment' : 'New Assignment'} size="small">
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div>
+          <label style={labelStyle}>Title *</label>
+          <input
+            type="text"
+            value={formData.title}
+            onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="e.g., Essay on chapter 3"
+            style={inputStyle}
+            disabled={isSaving}
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <label style={labelStyle}>Instructions</label>
+          <textarea
+            value={formData.description}
+            onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+            rows={4}
+            style={{ ...inputStyle, resize: 'vertical' }}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div className="row" style={{ gap: '12px' }}>
+          <div style={{ flex: 2 }}>
+            <label style={labelStyle}>Due *</label>
+            <input
+              type="datetime-local"
+              value={formData.dueDate}
+              onChange={(e) => setFormData(prev => ({ ...prev, dueDate: e.target.value }))}
+              min={assignment ? undefined : toDateTimeLocal(new Date())}
+              style={inputStyle}
+              disabled={isSaving}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>Priority</label>
+            <select
+              value={formData.priority}
+              onChange={(e) => setFormData(prev => ({ ...prev, priority: e.target.value as TaskPriority }))}
+              style={inputStyle}
+              disabled={isSaving}
+            >
+              {Object.entries(TASK_PRIORITY_CONFIG).map(([key, config]) => (
+                <option key={key} value={key}>
+                  {config.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {assignment && (
+          <div className="small" style={{ color: 'var(--text-2)' }}>
+            Students&apos; tasks pick up the changes; their progress is kept.
+          </div>
+        )}
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            borderRadius: '8px',
+            background: 'var(--danger-100)',
+            color: 'var(--danger)',
+            fontSize: '14px',
+            border: '1px solid var(--danger-200)'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+          <button type="button" onClick={handleClose} className="btn ghost" disabled={isSaving} style={{ minWidth: '80px' }}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="btn"
+            disabled={isSaving || !formData.title.trim() || !formData.dueDate}
+            style={{ minWidth: '80px' }}
+          >
+            {isSaving ? 'Saving...' : assignment ? 'Save Changes' : 'Publish'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
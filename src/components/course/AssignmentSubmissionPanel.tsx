@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, useEffect, useRef } from 'react';
+import { CheckCircle, FileText, GraduationCap, Send, Undo2 } from 'lucide-react';
+import { useToast } from '@/contexts/ToastContext';
+import { listenToTaskSubmission, submitAssignment, unsubmitAssignment } from '@/lib/submissions';
+import { formatFileSize } from '@/lib/fileUtils';
+import { Submission } from '@/types/course';
+import { Task } from '@/types/task';
+import { User } from '@/types/user';
+
+interface AssignmentSubmissionPanelProps {
+  task: Task;
+  user: User;
+  onChange?: (submittedAt: Task['submittedAt']) => void; // Lets the page lock or unlock attachments
+}
+
+/**
+ * Hand in a task received from a course assignment, and see the teacher's review
+ */
+export default function AssignmentSubmissionPanel({ task, user, onChange }: AssignmentSubmissionPanelProps) {
+  const { showSuccessToast, showErrorToast } = useToast();
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Latest callback, so a new one from the page does not re-subscribe
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // Keep the page's copy of the task in step with the hand-in
+  useEffect(() => {
+    return listenToTaskSubmission(task.id, (updated) => {
+      setSubmission(updated);
+      setIsLoading(false);
+      onChangeRef.current?.(updated?.submittedAt || null);
+    });
+  }, [task.id]);
+
+  const handleSubmit = async () => {
+    setIsWorking(true);
+    try {
+      await submitAssignment(user, task);
+      showSuccessToast('Assignment handed in', task.attachedFiles.length > 0
+        ? `${task.attachedFiles.length} attachment${task.attachedFiles.length !== 1 ? 's' : ''} sent to your teacher`
+        : undefined);
+    } catch (error) {
+      showErrorToast('Failed to hand in assignment', error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUnsubmit = async () => {
+    if (!submission) return;
+    setIsWorking(true);
+    try {
+      await unsubmitAssignment(submission);
+      showSuccessToast('Assignment taken back', 'You can change it and hand it in again');
+    } catch (error) {
+      showErrorToast('Failed to take back assignment', error instanceof Error ? error.message : undefined);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  const isLate = submission ? submission.isLate : Date.now() > task.dueDate.toMillis();
+
+  return (
+    <div className="card" style={{ marginBottom: '20px' }}>
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', gap: '12px', flexWrap: 'wrap' }}>
+        <div style={{ flex: 1, minWidth: '200px' }}>
+          <h3 style={{ fontSize: '16px', margin: '0 0 4px', color: 'var(--text)', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <GraduationCap size={16} />
+            Course assignment
+          </h3>
+          <div className="small" style={{ color: 'var(--text-2)' }}>
+            {!submission && (isLate
+              ? 'The due date has passed; handing in now is marked late.'
+              : 'Attach your work and save the task, then hand it in here.')}
+            {submission && (
+              <>
+                Handed in {submission.submittedAt.toDate().toLocaleString()}
+                {submission.isLate && <span style={{ color: 'var(--danger)', fontWeight: 500 }}> · Late</span>}
+              </>
+            )}
+          </div>
+        </div>
+
+        {!submission && (
+          <button className="btn" onClick={handleSubmit} disabled={isWorking}>
+            <Send size={16} />
+            {isWorking ? 'Handing in...' : 'Hand in'}
+          </button>
+        )}
+        {submission?.status === 'submitted' && (
+          <button className="btn ghost" onClick={handleUnsubmit} disabled={isWorking}>
+            <Undo2 size={16} />
+            {isWorking ? 'Taking back...' : 'Take back'}
+          </button>
+        )}
+      </div>
+
+      {submission && submission.files.length > 0 && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {submission.files.map(file => (
+            <a
+              key={file.id}
+              href={file.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="row small"
+              style={{ gap: '6px', alignItems: 'center', color: 'var(--text)', textDecoration: 'none' }}
+            >
+              <FileText size={14} color="var(--text-2)" />
+              {file.originalName}
+              <span style={{ color: 'var(--text-3)' }}>{formatFileSize(file.size)}</span>
+            </a>
+          ))}
+        </div>
+      )}
+
+      {submission?.status === 'reviewed' && (
+        <div style={{
+          marginTop: '12px',
+          padding: '12px',
+          borderRadius: '8px',
+          background: 'var(--bg-2)',
+          border: '1px solid var(--border)'
+        }}>
+          <div className="row" style={{ gap: '8px', alignItems: 'center', marginBottom: submission.feedback ? '6px' : 0 }}>
+            <CheckCircle size={16} color="var(--ok)" />
+            <span style={{ fontWeight: 600, color: 'var(--text)' }}>Grade: {submission.grade}</span>
+          </div>
+          {submission.feedback && (
+            <div style={{ fontSize: '14px', color: 'var(--text-2)', whiteSpace: 'pre-wrap' }}>{submission.feedback}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
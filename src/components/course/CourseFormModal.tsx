@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Modal from '@/components/ui/Modal';
+import { Course, CourseFormData } from '@/types/course';
+import { SUBJECT_COLORS } from '@/types/subject';
+
+interface CourseFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  course?: Course; // Edit this course instead of creating one
+  onSubmit: (data: CourseFormData) => Promise<void>;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '14px',
+  fontWeight: '500',
+  color: 'var(--text)'
+};
+
+/**
+ * Creates a course, or edits its details
+ */
+export default function CourseFormModal({ isOpen, onClose, course, onSubmit }: CourseFormModalProps) {
+  const [formData, setFormData] = useState<CourseFormData>({ name: '', code: '', description: '', color: SUBJECT_COLORS[0] });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData({
+      name: course?.name || '',
+      code: course?.code || '',
+      description: course?.description || '',
+      color: course?.color || SUBJECT_COLORS[0]
+    });
+    setError(null);
+  }, [isOpen, course]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSubmit(formData);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save course');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={course ? 'Edit Course' : 'New Course'} size="small">
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div>
+          <label style={labelStyle}>Course name *</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g., Introduction to Programming"
+            style={inputStyle}
+            disabled={isSaving}
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <label style={labelStyle}>Course code</label>
+          <input
+            type="text"
+            value={formData.code}
+            onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value }))}
+            placeholder="e.g., CS101"
+            style={inputStyle}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div>
+          <label style={labelStyle}>Description</label>
+          <textarea
+            value={formData.description}
+            onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+            rows={3}
+            style={{ ...inputStyle, resize: 'vertical' }}
+            disabled={isSaving}
+          />
+        </div>
+
+        <div>
+          <label style={labelStyle}>Color</label>
+          <div className="small" style={{ color: 'var(--text-2)', marginBottom: '8px' }}>
+            Suggested for the subject students file this course under
+          </div>
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+            {SUBJECT_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, color }))}
+                style={{
+                  width: '32px',
+                  height: '32px',
+                  borderRadius: '8px',
+                  border: formData.color === color ? '3px solid var(--text)' : '2px solid var(--border)',
+                  background: color,
+                  cursor: isSaving ? 'not-allowed' : 'pointer'
+                }}
+                disabled={isSaving}
+                aria-label={`Color ${color}`}
+              />
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            borderRadius: '8px',
+            background: 'var(--danger-100)',
+            color: 'var(--danger)',
+            fontSize: '14px',
+            border: '1px solid var(--danger-200)'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+          <button type="button" onClick={handleClose} className="btn ghost" disabled={isSaving} style={{ minWidth: '80px' }}>
+            Cancel
+          </button>
+          <button type="submit" className="btn" disabled={isSaving || !formData.name.trim()} style={{ minWidth: '80px' }}>
+            {isSaving ? 'Saving...' : course ? 'Save Changes' : 'Create Course'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Modal from '@/components/ui/Modal';
+import { findCourseByJoinCode, joinCourse } from '@/lib/courses';
+import { createSubject, getUserSubjects } from '@/lib/storage';
+import { CourseInvite } from '@/types/course';
+import { Subject } from '@/types/subject';
+import { User } from '@/types/user';
+
+interface JoinCourseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: User;
+  onJoined?: (invite: CourseInvite) => void;
+}
+
+// Select value for filing the course under a new subject named after it
+const NEW_SUBJECT = '__new__';
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '14px',
+  fontWeight: '500',
+  color: 'var(--text)'
+};
+
+/**
+ * Joins a course by its code and picks the subject its assignments are filed under
+ */
+export default function JoinCourseModal({ isOpen, onClose, user, onJoined }: JoinCourseModalProps) {
+  const [joinCode, setJoinCode] = useState('');
+  const [invite, setInvite] = useState<CourseInvite | null>(null);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjectId, setSubjectId] = useState(NEW_SUBJECT);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setJoinCode('');
+    setInvite(null);
+    setSubjectId(NEW_SUBJECT);
+    setError(null);
+    getUserSubjects(user.userId).then(setSubjects);
+  }, [isOpen, user.userId]);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const found = await findCourseByJoinCode(joinCode);
+      if (!found) {
+        setError('No course uses this code. Check it with your teacher.');
+        return;
+      }
+      setInvite(found);
+      // Suggest a subject that already looks like the course
+      const match = subjects.find(subject =>
+        subject.name.toLowerCase() === found.courseName.toLowerCase() ||
+        (!!found.courseCode && subject.code?.toLowerCase() === found.courseCode.toLowerCase())
+      );
+      setSubjectId(match?.id || NEW_SUBJECT);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up the join code');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!invite) return;
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      const targetSubjectId = subjectId === NEW_SUBJECT
+        ? await createSubject(user.userId, {
+            name: invite.courseName,
+            code: invite.courseCode,
+            color: invite.color,
+            teacher: invite.teacherName
+          })
+        : subjectId;
+
+      await joinCourse(user, invite, targetSubjectId);
+      onJoined?.(invite);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join course');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isWorking) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Join a Course" size="small">
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        {!invite ? (
+          <form onSubmit={handleLookup} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            <div>
+              <label style={labelStyle}>Join code</label>
+              <input
+                type="text"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                placeholder="e.g., K7QX2M"
+                style={{ ...inputStyle, fontFamily: 'monospace', letterSpacing: '2px', fontSize: '18px' }}
+                disabled={isWorking}
+                autoFocus
+              />
+              <div className="small" style={{ color: 'var(--text-2)', marginTop: '6px' }}>
+                Your teacher shares this code with the class
+              </div>
+            </div>
+
+            {error && <ErrorBox message={error} />}
+
+            <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+              <button type="button" onClick={handleClose} className="btn ghost" disabled={isWorking} style={{ minWidth: '80px' }}>
+                Cancel
+              </button>
+              <button type="submit" className="btn" disabled={isWorking || !joinCode.trim()} style={{ minWidth: '80px' }}>
+                {isWorking ? 'Looking up...' : 'Continue'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div style={{
+              padding: '12px 16px',
+              borderRadius: '8px',
+              border: '1px solid var(--border)',
+              borderLeft: `4px solid ${invite.color}`,
+              background: 'var(--bg-2)'
+            }}>
+              <div style={{ fontWeight: 600, color: 'var(--text)' }}>
+                {invite.courseName}
+                {invite.courseCode && <span style={{ color: 'var(--text-2)', fontWeight: 400 }}> · {invite.courseCode}</span>}
+              </div>
+              <div className="small" style={{ color: 'var(--text-2)', marginTop: '4px' }}>
+                Taught by {invite.teacherName || 'your teacher'}
+              </div>
+            </div>
+
+            <div>
+              <label style={labelStyle}>File assignments under</label>
+              <select
+                value={subjectId}
+                onChange={(e) => setSubjectId(e.target.value)}
+                style={inputStyle}
+                disabled={isWorking}
+              >
+                <option value={NEW_SUBJECT}>New subject: {invite.courseName}</option>
+                {subjects.map(subject => (
+                  <option key={subject.id} value={subject.id}>{subject.name}</option>
+                ))}
+              </select>
+              <div className="small" style={{ color: 'var(--text-2)', marginTop: '6px' }}>
+                Assignments from this course show up as tasks in this subject
+              </div>
+            </div>
+
+            {error && <ErrorBox message={error} />}
+
+            <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+              <button type="button" onClick={() => setInvite(null)} className="btn ghost" disabled={isWorking} style={{ minWidth: '80px' }}>
+                Back
+              </button>
+              <button type="button" onClick={handleJoin} className="btn" disabled={isWorking} style={{ minWidth: '80px' }}>
+                {isWorking ? 'Joining...' : 'Join Course'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+function ErrorBox({ message }: { message: string }) {
+  return (
+    <div style={{
+      padding: '12px',
+      borderRadius: '8px',
+      background: 'var(--danger-100)',
+      color: 'var(--danger)',
+      fontSize: '14px',
+      border: '1px solid var(--danger-200)'
+    }}>
+      {message}
+    </div>
+  );
+}
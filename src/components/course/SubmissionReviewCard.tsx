@@ -0,0 +1,142 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { FileText } from 'lucide-react';
+import { reviewSubmission } from '@/lib/submissions';
+import { formatFileSize } from '@/lib/fileUtils';
+import { AssignmentProgress, ASSIGNMENT_PROGRESS_COLORS, ASSIGNMENT_PROGRESS_LABELS, COURSE_CONFIG } from '@/types/course';
+
+interface SubmissionReviewCardProps {
+  progress: AssignmentProgress;
+  assignmentTitle: string;
+  onReviewed?: () => void;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+/**
+ * One student's hand-in for an assignment, with the teacher's grade and feedback
+ */
+export default function SubmissionReviewCard({ progress, assignmentTitle, onReviewed }: SubmissionReviewCardProps) {
+  const { enrollment, status, submission } = progress;
+  const [grade, setGrade] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setGrade(submission?.grade || '');
+    setFeedback(submission?.feedback || '');
+  }, [submission?.grade, submission?.feedback]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!submission) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await reviewSubmission(submission, assignmentTitle, { grade, feedback });
+      onReviewed?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isUnchanged = submission?.status === 'reviewed' &&
+    grade.trim() === (submission.grade || '') &&
+    feedback.trim() === (submission.feedback || '');
+
+  return (
+    <div className="card">
+      <div className="row" style={{ justifyContent: 'space-between', alignItems: 'flex-start', gap: '12px' }}>
+        <div style={{ minWidth: 0 }}>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text)' }}>
+            {enrollment.studentName || enrollment.studentEmail}
+          </div>
+          {submission && (
+            <div className="small" style={{ color: 'var(--text-2)' }}>
+              Handed in {submission.submittedAt.toDate().toLocaleString()}
+              {submission.isLate && <span style={{ color: 'var(--danger)', fontWeight: 500 }}> · Late</span>}
+            </div>
+          )}
+        </div>
+        <span className="small" style={{ color: ASSIGNMENT_PROGRESS_COLORS[status], fontWeight: 500, whiteSpace: 'nowrap' }}>
+          {ASSIGNMENT_PROGRESS_LABELS[status]}
+        </span>
+      </div>
+
+      {submission && (
+        <>
+          <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {submission.files.length === 0 ? (
+              <div className="small" style={{ color: 'var(--text-3)' }}>Handed in without attachments</div>
+            ) : (
+              submission.files.map(file => (
+                <a
+                  key={file.id}
+                  href={file.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="row small"
+                  style={{ gap: '6px', alignItems: 'center', color: 'var(--text)', textDecoration: 'none' }}
+                >
+                  <FileText size={14} color="var(--text-2)" />
+                  {file.originalName}
+                  <span style={{ color: 'var(--text-3)' }}>{formatFileSize(file.size)}</span>
+                </a>
+              ))
+            )}
+          </div>
+
+          <form
+            onSubmit={handleSave}
+            style={{ marginTop: '12px', paddingTop: '12px', borderTop: '1px solid var(--border)', display: 'flex', flexDirection: 'column', gap: '8px' }}
+          >
+            <div className="row" style={{ gap: '8px', alignItems: 'center' }}>
+              <label className="small" style={{ color: 'var(--text-2)', minWidth: '60px' }}>Grade</label>
+              <input
+                type="text"
+                value={grade}
+                onChange={(e) => setGrade(e.target.value)}
+                maxLength={COURSE_CONFIG.maxGradeLength}
+                placeholder="e.g., A-, 18/20, Pass"
+                style={{ ...inputStyle, maxWidth: '200px' }}
+                disabled={isSaving}
+              />
+            </div>
+            <textarea
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              maxLength={COURSE_CONFIG.maxFeedbackLength}
+              placeholder="Feedback for the student (optional)"
+              rows={3}
+              style={{ ...inputStyle, resize: 'vertical' }}
+              disabled={isSaving}
+            />
+
+            {error && (
+              <div className="small" style={{ color: 'var(--danger)' }}>{error}</div>
+            )}
+
+            <div className="row" style={{ justifyContent: 'flex-end' }}>
+              <button type="submit" className="btn" disabled={isSaving || !grade.trim() || isUnchanged}>
+                {isSaving ? 'Saving...' : submission.status === 'reviewed' ? 'Update Review' : 'Return to Student'}
+              </button>
+            </div>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Modal from '@/components/ui/Modal';
+import { Assessment, AssessmentFormData } from '@/types/grade';
+
+interface AssessmentFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  assessment?: Assessment; // Edit this assessment instead of adding one
+  onSubmit: (data: AssessmentFormData) => Promise<void>;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '14px',
+  fontWeight: '500',
+  color: 'var(--text)'
+};
+
+// Local date, as date inputs expect
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Adds an assessment to a subject's grade book, or edits one
+ * Numbers are kept as typed until saving so fields can be cleared while editing
+ */
+export default function AssessmentFormModal({ isOpen, onClose, assessment, onSubmit }: AssessmentFormModalProps) {
+  const [name, setName] = useState('');
+  const [weight, setWeight] = useState('');
+  const [maxScore, setMaxScore] = useState('100');
+  const [score, setScore] = useState('');
+  const [date, setDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(assessment?.name || '');
+    setWeight(assessment ? String(assessment.weight) : '');
+    setMaxScore(assessment ? String(assessment.maxScore) : '100');
+    setScore(assessment?.score !== null && assessment?.score !== undefined ? String(assessment.score) : '');
+    setDate(toDateInput(assessment ? assessment.date.toDate() : new Date()));
+    setError(null);
+  }, [isOpen, assessment]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSubmit({
+        name,
+        weight: Number(weight),
+        maxScore: Number(maxScore),
+        score: score.trim() === '' ? null : Number(score),
+        date
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save assessment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={assessment ? 'Edit Assessment' : 'Add Assessment'} size="small">
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div>
+          <label style={labelStyle}>Name *</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Midterm exam"
+            style={inputStyle}
+            disabled={isSaving}
+            autoFocus
+          />
+        </div>
+
+        <div className="row" style={{ gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>Weight (%) *</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              value={weight}
+              onChange={(e) => setWeight(e.target.value)}
+              placeholder="e.g., 30"
+              style={inputStyle}
+              disabled={isSaving}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>Date *</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              style={inputStyle}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+
+        <div className="row" style={{ gap: '12px' }}>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>Score</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={score}
+              onChange={(e) => setScore(e.target.value)}
+              placeholder="Not graded yet"
+              style={inputStyle}
+              disabled={isSaving}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>Out of *</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={maxScore}
+              onChange={(e) => setMaxScore(e.target.value)}
+              style={inputStyle}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+
+        <div className="small" style={{ color: 'var(--text-2)' }}>
+          Leave the score empty for upcoming assessments; they count towards what you still need.
+        </div>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            borderRadius: '8px',
+            background: 'var(--danger-100)',
+            color: 'var(--danger)',
+            fontSize: '14px',
+            border: '1px solid var(--danger-200)'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+          <button type="button" onClick={handleClose} className="btn ghost" disabled={isSaving} style={{ minWidth: '80px' }}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="btn"
+            disabled={isSaving || !name.trim() || weight === '' || maxScore === ''}
+            style={{ minWidth: '80px' }}
+          >
+            {isSaving ? 'Saving...' : assessment ? 'Save Changes' : 'Add Assessment'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import Modal from '@/components/ui/Modal';
+import { GradingScale, GradingScaleFormData, GRADE_CONFIG } from '@/types/grade';
+
+interface GradingScaleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scale?: GradingScale; // Edit this scale; a built-in scale is copied into a new one
+  onSubmit: (data: GradingScaleFormData) => Promise<void>;
+  onDelete?: () => Promise<void>;
+}
+
+// Band fields as typed, so numbers can be cleared while editing
+interface BandDraft {
+  label: string;
+  minPercentage: string;
+  points: string;
+}
+
+const inputStyle = {
+  width: '100%',
+  padding: '8px 10px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '14px',
+  fontWeight: '500',
+  color: 'var(--text)'
+};
+
+/**
+ * Creates or edits a custom grading scale: the percentage each grade starts at and its GPA points
+ */
+export default function GradingScaleModal({ isOpen, onClose, scale, onSubmit, onDelete }: GradingScaleModalProps) {
+  const [name, setName] = useState('');
+  const [bands, setBands] = useState<BandDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCustom = !!scale?.userId;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(scale ? (isCustom ? scale.name : `${scale.name} (copy)`) : '');
+    setBands((scale?.bands || [{ label: 'Pass', minPercentage: 50, points: 4 }, { label: 'Fail', minPercentage: 0, points: 0 }])
+      .map(band => ({ label: band.label, minPercentage: String(band.minPercentage), points: String(band.points) })));
+    setError(null);
+  }, [isOpen, scale, isCustom]);
+
+  const updateBand = (index: number, changes: Partial<BandDraft>) => {
+    setBands(prev => prev.map((band, i) => i === index ? { ...band, ...changes } : band));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSubmit({
+        name,
+        bands: bands.map(band => ({
+          label: band.label,
+          minPercentage: band.minPercentage.trim() === '' ? NaN : Number(band.minPercentage),
+          points: band.points.trim() === '' ? NaN : Number(band.points)
+        }))
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save grading scale');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onDelete();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete grading scale');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={isCustom ? 'Edit Grading Scale' : 'New Grading Scale'} size="medium">
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div>
+          <label style={labelStyle}>Name *</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., My university's scale"
+            style={inputStyle}
+            disabled={isSaving}
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <div className="row" style={{ gap: '8px', marginBottom: '6px' }}>
+            <span className="small" style={{ flex: 2, color: 'var(--text-2)' }}>Grade</span>
+            <span className="small" style={{ flex: 1, color: 'var(--text-2)' }}>From (%)</span>
+            <span className="small" style={{ flex: 1, color: 'var(--text-2)' }}>GPA points</span>
+            <span style={{ width: '34px' }} />
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {bands.map((band, index) => (
+              <div key={index} className="row" style={{ gap: '8px', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  value={band.label}
+                  onChange={(e) => updateBand(index, { label: e.target.value })}
+                  style={{ ...inputStyle, flex: 2 }}
+                  disabled={isSaving}
+                  aria-label="Grade"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="any"
+                  value={band.minPercentage}
+                  onChange={(e) => updateBand(index, { minPercentage: e.target.value })}
+                  style={{ ...inputStyle, flex: 1 }}
+                  disabled={isSaving}
+                  aria-label="Minimum percentage"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={band.points}
+                  onChange={(e) => updateBand(index, { points: e.target.value })}
+                  style={{ ...inputStyle, flex: 1 }}
+                  disabled={isSaving}
+                  aria-label="GPA points"
+                />
+                <button
+                  type="button"
+                  className="btn ghost"
+                  onClick={() => setBands(prev => prev.filter((_, i) => i !== index))}
+                  disabled={isSaving || bands.length <= 1}
+                  style={{ padding: '8px' }}
+                  title="Remove grade"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            className="btn ghost"
+            onClick={() => setBands(prev => [...prev, { label: '', minPercentage: '', points: '' }])}
+            disabled={isSaving || bands.length >= GRADE_CONFIG.maxBandsPerScale}
+            style={{ marginTop: '8px' }}
+          >
+            <Plus size={14} />
+            Add grade
+          </button>
+          <div className="small" style={{ color: 'var(--text-2)', marginTop: '6px' }}>
+            Each grade applies from its percentage up to the next grade. The lowest must start at 0%.
+          </div>
+        </div>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            borderRadius: '8px',
+            background: 'var(--danger-100)',
+            color: 'var(--danger)',
+            fontSize: '14px',
+            border: '1px solid var(--danger-200)'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+          {isCustom && onDelete && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="btn ghost"
+              disabled={isSaving}
+              style={{ marginRight: 'auto', color: 'var(--danger)' }}
+            >
+              Delete
+            </button>
+          )}
+          <button type="button" onClick={handleClose} className="btn ghost" disabled={isSaving} style={{ minWidth: '80px' }}>
+            Cancel
+          </button>
+          <button type="submit" className="btn" disabled={isSaving || !name.trim()} style={{ minWidth: '80px' }}>
+            {isSaving ? 'Saving...' : 'Save Scale'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
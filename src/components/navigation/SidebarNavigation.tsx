@@ -2,6 +2,8 @@
 
 import { usePathname, useRouter } from "next/navigation";
 import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSavedSearches, useSmartListResults } from "@/hooks/useSearch";
 
 interface NavItem {
   href: string;
@@ -42,6 +44,29 @@ const navItems: NavItem[] = [
       </svg>
     )
   },
+  {
+    href: "/dashboard/courses",
+    label: "Courses",
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M22 10L12 5 2 10l10 5 10-5z"></path>
+        <path d="M6 12v5c3 3 9 3 12 0v-5"></path>
+      </svg>
+    )
+  },
+  {
+    href: "/dashboard/timetable",
+    label: "Timetable",
+    icon: (
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="4" width="18" height="18" rx="2" ry="2"></rect>
+        <line x1="16" y1="2" x2="16" y2="6"></line>
+        <line x1="8" y1="2" x2="8" y2="6"></line>
+        <line x1="3" y1="10" x2="21" y2="10"></line>
+        <line x1="9" y1="10" x2="9" y2="22"></line>
+      </svg>
+    )
+  },
   {
     href: "/dashboard/reminders",
     label: "Reminders",
@@ -74,6 +99,12 @@ const navItems: NavItem[] = [
   }
 ];
 
+const smartListIcon = (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polygon points="22 3 2 3 10 12.46 10 19 14 21 14 12.46 22 3"></polygon>
+  </svg>
+);
+
 interface SidebarNavigationProps {
   isCollapsed?: boolean;
   onToggle?: () => void;
@@ -82,6 +113,9 @@ interface SidebarNavigationProps {
 export default function SidebarNavigation({ isCollapsed = false, onToggle }: SidebarNavigationProps) {
   const pathname = usePathname();
   const router = useRouter();
+  const { user } = useAuth();
+  const { pinnedSearches } = useSavedSearches(user?.userId);
+  const { responses: smartListResponses } = useSmartListResults(user?.userId, pinnedSearches);
 
   const isActive = (href: string) => {
     if (href === "/dashboard") {
@@ -118,7 +152,8 @@ export default function SidebarNavigation({ isCollapsed = false, onToggle }: Sid
           padding: '24px 12px',
           display: 'flex',
           flexDirection: 'column',
-          gap: '4px'
+          gap: '4px',
+          overflowY: 'auto'
         }}
       >
         {navItems.map((item) => (
@@ -165,6 +200,85 @@ export default function SidebarNavigation({ isCollapsed = false, onToggle }: Sid
             )}
           </button>
         ))}
+
+        {/* Pinned Smart Lists */}
+        {pinnedSearches.length > 0 && (
+          <>
+            {!isCollapsed ? (
+              <div
+                onClick={() => handleNavClick("/dashboard/smart-lists")}
+                style={{
+                  padding: '16px 16px 4px',
+                  fontSize: '11px',
+                  fontWeight: '600',
+                  letterSpacing: '0.5px',
+                  textTransform: 'uppercase',
+                  color: 'var(--text-3)',
+                  cursor: 'pointer'
+                }}
+                title="Manage smart lists"
+              >
+                Smart Lists
+              </div>
+            ) : (
+              <div style={{ margin: '12px 8px', borderTop: '1px solid var(--border)' }} />
+            )}
+
+            {pinnedSearches.map((savedSearch) => {
+              const href = `/dashboard/smart-lists/${savedSearch.id}`;
+              const count = smartListResponses[savedSearch.id]?.total;
+
+              return (
+                <button
+                  key={savedSearch.id}
+                  onClick={() => handleNavClick(href)}
+                  className={isActive(href) ? 'active' : ''}
+                  style={{
+                    width: '100%',
+                    padding: isCollapsed ? '12px 8px' : '10px 16px',
+                    borderRadius: '8px',
+                    fontSize: '14px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: isCollapsed ? '0' : '12px',
+                    fontWeight: isActive(href) ? '600' : '500',
+                    color: isActive(href) ? 'var(--brand)' : 'var(--text-2)',
+                    backgroundColor: isActive(href) ? 'var(--brand-container)' : 'transparent',
+                    border: 'none',
+                    cursor: 'pointer',
+                    transition: 'all 0.2s ease',
+                    justifyContent: isCollapsed ? 'center' : 'flex-start',
+                    position: 'relative'
+                  }}
+                  title={isCollapsed ? `${savedSearch.name}${count !== undefined ? ` (${count})` : ''}` : undefined}
+                >
+                  {smartListIcon}
+                  {!isCollapsed && (
+                    <>
+                      <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', textAlign: 'left' }}>
+                        {savedSearch.name}
+                      </span>
+                      {count !== undefined && (
+                        <span
+                          style={{
+                            fontSize: '12px',
+                            padding: '1px 8px',
+                            borderRadius: '10px',
+                            background: 'var(--bg-2)',
+                            color: 'var(--text-2)',
+                            fontWeight: '500'
+                          }}
+                        >
+                          {smartListResponses[savedSearch.id]?.hasMore ? `${count}+` : count}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </button>
+              );
+            })}
+          </>
+        )}
       </nav>
 
       {/* Toggle Button (optional) */}
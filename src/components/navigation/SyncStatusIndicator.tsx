@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useToast } from '@/contexts/ToastContext';
+import { ConflictResolution, OutboxEntry } from '@/types/offline';
+import Modal from '@/components/ui/Modal';
+
+interface SyncStatusIndicatorProps {
+  userId: string;
+}
+
+export default function SyncStatusIndicator({ userId }: SyncStatusIndicatorProps) {
+  const { isOnline, isSyncing, pending, conflicts, lastSyncedAt, lastError, syncNow, resolveConflict } = useOutbox(userId);
+  const { showErrorToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const handleResolve = async (entry: OutboxEntry, resolution: ConflictResolution) => {
+    setResolvingId(entry.id);
+    try {
+      await resolveConflict(entry.id, resolution);
+    } catch (error) {
+      showErrorToast('Failed to apply your change', error instanceof Error ? error.message : undefined);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  // Most urgent state first
+  const status = conflicts.length > 0
+    ? { icon: <AlertTriangle size={16} />, color: 'var(--warn)', text: `${conflicts.length} to review` }
+    : !isOnline
+      ? { icon: <CloudOff size={16} />, color: 'var(--text-2)', text: pending.length > 0 ? `Offline · ${pending.length} waiting` : 'Offline' }
+      : isSyncing
+        ? { icon: <RefreshCw size={16} className="animate-spin" />, color: 'var(--brand)', text: `Syncing ${pending.length}` }
+        : pending.length > 0
+          ? { icon: <RefreshCw size={16} />, color: 'var(--warn)', text: `${pending.length} waiting` }
+          : { icon: <Cloud size={16} />, color: 'var(--ok)', text: '' };
+
+  const title = status.text || (lastSyncedAt ? `All changes saved · synced ${new Date(lastSyncedAt).toLocaleTimeString()}` : 'All changes saved');
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="btn ghost"
+        style={{ padding: '8px 12px', borderRadius: '8px', gap: '6px', color: status.color }}
+        title={title}
+        aria-label={`Sync status: ${title}`}
+      >
+        {status.icon}
+        {status.text && <span className="small" style={{ color: status.color }}>{status.text}</span>}
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Sync Status" size="medium">
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <p className="small" style={{ color: 'var(--text-2)', margin: 0 }}>
+            {!isOnline
+              ? 'You are offline. Pages show your saved data, and task and reminder changes are sent when you reconnect.'
+              : lastError
+                ? `${lastError}. Waiting changes will be retried shortly.`
+                : pending.length > 0
+                  ? 'These changes were made offline and are being sent.'
+                  : 'Everything is saved.'}
+          </p>
+
+          {conflicts.length > 0 && (
+            <div>
+              <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text)', marginBottom: '8px' }}>
+                Needs your decision
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {conflicts.map(entry => (
+                  <div key={entry.id} className="card" style={{ padding: '12px', borderColor: 'var(--warn)' }}>
+                    <div style={{ fontWeight: '600', color: 'var(--text)' }}>{entry.label}</div>
+                    <div className="small" style={{ color: 'var(--text-2)', marginBottom: '8px' }}>{entry.conflict?.reason}</div>
+
+                    {entry.conflict && entry.conflict.fields.length > 0 && (
+                      <table className="small" style={{ width: '100%', marginBottom: '8px', color: 'var(--text-2)' }}>
+                        <thead>
+                          <tr style={{ textAlign: 'left' }}>
+                            <th></th>
+                            <th>Your change</th>
+                            <th>On the server</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {entry.conflict.fields.map(field => (
+                            <tr key={field.field}>
+                              <td style={{ paddingRight: '8px' }}>{field.field}</td>
+                              <td style={{ color: 'var(--text)' }}>{field.local}</td>
+                              <td>{field.server}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+
+                    <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+                      {entry.conflict?.canKeepLocal && (
+                        <button
+                          onClick={() => handleResolve(entry, 'local')}
+                          disabled={resolvingId === entry.id || !isOnline}
+                          className="btn"
+                        >
+                          Keep mine
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleResolve(entry, 'server')}
+                        disabled={resolvingId === entry.id}
+                        className="btn ghost"
+                      >
+                        {entry.conflict?.canKeepLocal ? 'Keep server version' : 'Dismiss'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {pending.length > 0 && (
+            <div>
+              <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text)', marginBottom: '8px' }}>
+                Waiting to sync ({pending.length})
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                {pending.map(entry => (
+                  <div key={entry.id} className="row small" style={{ justifyContent: 'space-between', color: 'var(--text-2)' }}>
+                    <span style={{ color: 'var(--text)' }}>{entry.label}</span>
+                    <span>{new Date(entry.queuedAt).toLocaleTimeString()}</span>
+                  </div>
+                ))}
+              </div>
+              {isOnline && (
+                <button onClick={syncNow} disabled={isSyncing} className="btn" style={{ marginTop: '12px' }}>
+                  {isSyncing ? 'Syncing...' : 'Sync now'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </Modal>
+    </>
+  );
+}
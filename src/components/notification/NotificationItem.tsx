@@ -9,6 +9,7 @@ import {
   Calendar,
   Clock,
   FileText,
+  GraduationCap,
   Info,
   X,
   ExternalLink,
@@ -62,6 +63,8 @@ export default function NotificationItem({
         return <FileText size={20} />;
       case 'timer_complete':
         return <Clock size={20} />;
+      case 'assignment_reviewed':
+        return <GraduationCap size={20} />;
       case 'system':
         return <Info size={20} />;
       default:
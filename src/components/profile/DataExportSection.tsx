@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { exportUserData, downloadExport } from "@/lib/dataExport";
+import {
+  DataExportOptions,
+  DataExportProgress,
+  DEFAULT_DATA_EXPORT_OPTIONS,
+  EXPORT_ENTITIES,
+  EXPORT_ENTITY_LABELS,
+  ExportEntity
+} from "@/types/export";
+
+const STAGE_LABELS: Record<DataExportProgress['stage'], string> = {
+  collecting: 'Collecting your data',
+  downloading: 'Downloading files',
+  packaging: 'Creating ZIP'
+};
+
+export default function DataExportSection() {
+  const { user } = useAuth();
+  const [options, setOptions] = useState<DataExportOptions>(DEFAULT_DATA_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<DataExportProgress | null>(null);
+  const [counts, setCounts] = useState<Record<ExportEntity, number> | null>(null);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    if (!user) return;
+
+    setError("");
+    setMessage("");
+    setCounts(null);
+    setProgress({ stage: 'collecting', completed: 0, total: 1 });
+
+    try {
+      const result = await exportUserData(user, options, setProgress);
+      downloadExport(result);
+      setCounts(result.counts);
+      setMessage(result.missingFiles > 0
+        ? `Export downloaded. ${result.missingFiles} file${result.missingFiles !== 1 ? 's' : ''} could not be downloaded and ${result.missingFiles !== 1 ? 'are' : 'is'} marked in the manifest.`
+        : "Export downloaded.");
+    } catch (error: any) {
+      setError(error.message || "Failed to export your data");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const format = options.includeCsv || options.includeFiles ? 'ZIP' : 'JSON';
+
+  return (
+    <div className="mt-8 pt-8 border-t">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Export Your Data</h3>
+
+      <div className="bg-white p-6 rounded-lg shadow space-y-6">
+        <p className="text-sm text-gray-600">
+          Download a backup of your subjects, class schedules, tasks, reminders, timer sessions and settings,
+          notifications, and grade book as a versioned JSON file.
+        </p>
+
+        {message && (
+          <div className="bg-green-50 border border-green-500 text-green-700 px-4 py-3 rounded">
+            {message}
+          </div>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-500 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <label className="flex items-start gap-3 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={options.includeCsv}
+              disabled={isExporting}
+              onChange={(e) => setOptions(prev => ({ ...prev, includeCsv: e.target.checked }))}
+            />
+            <span>
+              <span className="font-medium">Include CSV files</span>
+              <span className="block text-gray-500">One spreadsheet per kind of data, for Excel or Google Sheets.</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-3 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={options.includeFiles}
+              disabled={isExporting}
+              onChange={(e) => setOptions(prev => ({ ...prev, includeFiles: e.target.checked }))}
+            />
+            <span>
+              <span className="font-medium">Include uploaded files</span>
+              <span className="block text-gray-500">
+                All subject files and task attachments, with a manifest linking each file to its subject or task.
+                This can take a while.
+              </span>
+            </span>
+          </label>
+        </div>
+
+        {progress && (
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{STAGE_LABELS[progress.stage]}...</span>
+              {progress.stage !== 'collecting' && (
+                <span>
+                  {progress.stage === 'downloading'
+                    ? `${progress.completed} of ${progress.total}`
+                    : `${progress.completed}%`}
+                </span>
+              )}
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded">
+              <div
+                className="h-2 bg-blue-600 rounded transition-all"
+                style={{ width: `${progress.total > 0 ? Math.round(progress.completed / progress.total * 100) : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {counts && (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {EXPORT_ENTITIES.map(entity => (
+              <div key={entity} className="flex justify-between">
+                <span className="text-gray-500">{EXPORT_ENTITY_LABELS[entity]}:</span>
+                <span className="text-gray-900">{counts[entity]}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isExporting || !user}
+          className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? "Exporting..." : `Download ${format} Export`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { loadRestoreFile, prepareRestore, applyRestore } from "@/lib/dataRestore";
+import {
+  EXPORT_ENTITIES,
+  EXPORT_ENTITY_LABELS,
+  RESTORE_STATUS_LABELS,
+  RestoreItem,
+  RestoreProgress,
+  RestoreResult,
+  RestoreSource,
+  RestoreStatus
+} from "@/types/export";
+
+const STATUS_CLASSES: Record<RestoreStatus, string> = {
+  new: 'bg-green-100 text-green-800',
+  conflict: 'bg-yellow-100 text-yellow-800',
+  skipped: 'bg-gray-100 text-gray-600'
+};
+
+const STATUSES: RestoreStatus[] = ['new', 'conflict', 'skipped'];
+
+export default function DataRestoreSection() {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [source, setSource] = useState<RestoreSource | null>(null);
+  const [items, setItems] = useState<RestoreItem[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [progress, setProgress] = useState<RestoreProgress | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  const isRestoring = progress !== null;
+  const selectedCount = items.filter(item => item.restore && item.status !== 'skipped').length;
+
+  const reset = () => {
+    setFileName("");
+    setSource(null);
+    setItems([]);
+    setErrors([]);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !user) return;
+
+    reset();
+    setResult(null);
+    setFileName(file.name);
+    setIsPreparing(true);
+
+    try {
+      const loaded = await loadRestoreFile(file);
+      if (!loaded.source) {
+        setErrors(loaded.errors);
+        return;
+      }
+
+      setSource(loaded.source);
+      setItems(await prepareRestore(user.userId, loaded.source));
+    } catch (error: any) {
+      setErrors([error.message || "Failed to read the backup"]);
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const toggleItem = (target: RestoreItem) => {
+    setItems(prev => prev.map(item => item === target ? { ...item, restore: !item.restore } : item));
+  };
+
+  const handleRestore = async () => {
+    if (!user || !source) return;
+
+    setProgress({ entity: 'subjects', completed: 0, total: selectedCount });
+    try {
+      setResult(await applyRestore(user.userId, source, items, setProgress));
+      reset();
+    } catch (error: any) {
+      setErrors([error.message || "Failed to restore your data"]);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-8 border-t">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Restore From Backup</h3>
+
+      <div className="bg-white p-6 rounded-lg shadow space-y-6">
+        <p className="text-sm text-gray-600">
+          Upload a JSON or ZIP export to bring its data back into your account. Nothing is changed until you
+          review the preview and choose Restore. Files are only restored from a ZIP export made with uploaded files.
+        </p>
+
+        {result && (
+          <div className="bg-green-50 border border-green-500 text-green-700 px-4 py-3 rounded">
+            <p>Restored {result.created} item{result.created !== 1 ? 's' : ''}, skipped {result.skipped}.</p>
+            {result.errors.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-red-700 text-sm">
+                {result.errors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+        {errors.length > 0 && (
+          <div className="bg-red-50 border border-red-500 text-red-700 px-4 py-3 rounded">
+            <p className="font-medium">{fileName ? `${fileName} can't be restored:` : "Restore failed:"}</p>
+            <ul className="mt-1 list-disc list-inside text-sm">
+              {errors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Backup file</label>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            onChange={handleFileChange}
+            disabled={isPreparing || isRestoring || !user}
+            className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+          {isPreparing && <p className="mt-2 text-sm text-gray-500">Checking the backup against your account...</p>}
+        </div>
+
+        {source && items.length > 0 && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Backup from {new Date(source.backup.exportedAt).toLocaleString()}
+              {source.backup.user?.email ? ` (${source.backup.user.email})` : ''}.
+              Items that already exist are left out unless you select them, and anything that refers to them
+              is linked to your existing copy.
+            </p>
+
+            {EXPORT_ENTITIES.map(entity => {
+              const entityItems = items.filter(item => item.entity === entity);
+              if (entityItems.length === 0) return null;
+
+              return (
+                <details key={entity} className="border border-gray-200 rounded-md">
+                  <summary className="flex justify-between items-center px-4 py-2 cursor-pointer text-sm">
+                    <span className="font-medium text-gray-900">{EXPORT_ENTITY_LABELS[entity]}</span>
+                    <span className="flex gap-2">
+                      {STATUSES.map(status => {
+                        const count = entityItems.filter(item => item.status === status).length;
+                        return count > 0 && (
+                          <span key={status} className={`px-2 py-0.5 rounded text-xs ${STATUS_CLASSES[status]}`}>
+                            {count} {RESTORE_STATUS_LABELS[status].toLowerCase()}
+                          </span>
+                        );
+                      })}
+                    </span>
+                  </summary>
+                  <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                    {entityItems.map(item => (
+                      <li key={item.record.id} className="flex items-start gap-3 px-4 py-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="mt-1"
+                          checked={item.restore && item.status !== 'skipped'}
+                          disabled={item.status === 'skipped' || isRestoring}
+                          onChange={() => toggleItem(item)}
+                        />
+                        <span className="flex-1 min-w-0">
+                          <span className="block text-gray-900 truncate">{item.label}</span>
+                          {item.reason && <span className="block text-gray-500">{item.reason}</span>}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded text-xs ${STATUS_CLASSES[item.status]}`}>
+                          {RESTORE_STATUS_LABELS[item.status]}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              );
+            })}
+
+            {progress && (
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>Restoring {EXPORT_ENTITY_LABELS[progress.entity].toLowerCase()}...</span>
+                  <span>{progress.completed} of {progress.total}</span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded">
+                  <div
+                    className="h-2 bg-blue-600 rounded transition-all"
+                    style={{ width: `${progress.total > 0 ? Math.round(progress.completed / progress.total * 100) : 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={reset}
+                disabled={isRestoring}
+                className="flex-1 py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleRestore}
+                disabled={isRestoring || selectedCount === 0}
+                className="flex-1 flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRestoring ? "Restoring..." : `Restore ${selectedCount} Item${selectedCount !== 1 ? 's' : ''}`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
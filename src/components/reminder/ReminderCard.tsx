@@ -1,9 +1,11 @@
 "use client";
 
 import { useState } from 'react';
-import { Check, X, Edit, Clock, AlertCircle } from 'lucide-react';
-import { Reminder } from '@/types/reminder';
-import { toggleReminderCompletion, deleteReminder } from '@/lib/reminders';
+import { Check, X, Edit, Clock, AlertCircle, Repeat, AlarmClock } from 'lucide-react';
+import { Reminder, ReminderSnoozeOption, REMINDER_SNOOZE_OPTIONS } from '@/types/reminder';
+import { deleteReminder, snoozeReminder } from '@/lib/reminders';
+import { toggleReminderCompletionOrQueue } from '@/lib/outbox';
+import { formatRecurrence } from '@/lib/recurrence';
 import { useAuth } from '@/contexts/AuthContext';
 import ConfirmModal from '@/components/ui/ConfirmModal';
 
@@ -27,13 +29,28 @@ export default function ReminderCard({
   const { user } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showSnoozeMenu, setShowSnoozeMenu] = useState(false);
 
   const handleToggleComplete = async () => {
     if (!user || isLoading) return;
 
     setIsLoading(true);
     try {
-      const updatedReminder = await toggleReminderCompletion(user.userId, reminder.id);
+      const updatedReminder = await toggleReminderCompletionOrQueue(user.userId, reminder);
+      onUpdate?.(updatedReminder);
+    } catch (error) {
+} finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSnooze = async (option: ReminderSnoozeOption) => {
+    if (!user || isLoading) return;
+
+    setShowSnoozeMenu(false);
+    setIsLoading(true);
+    try {
+      const updatedReminder = await snoozeReminder(user.userId, reminder.id, option);
       onUpdate?.(updatedReminder);
     } catch (error) {
 } finally {
@@ -226,15 +243,77 @@ export default function ReminderCard({
             </p>
           )}
 
-          <div className="row" style={{ gap: '8px', alignItems: 'center', fontSize: '12px', color: 'var(--text-2)' }}>
+          <div className="row" style={{ gap: '8px', alignItems: 'center', fontSize: '12px', color: 'var(--text-2)', flexWrap: 'wrap' }}>
             <Clock size={12} />
             <span>{dateText} • {timeText}</span>
+            {reminder.snoozedUntil && !reminder.isCompleted && (
+              <span className="row" style={{ gap: '4px', alignItems: 'center', color: 'var(--warn)' }}>
+                <AlarmClock size={12} />
+                Snoozed
+              </span>
+            )}
+            {reminder.recurrence && (
+              <span className="row" style={{ gap: '4px', alignItems: 'center' }} title={formatRecurrence(reminder.recurrence)}>
+                <Repeat size={12} />
+                {!compact && formatRecurrence(reminder.recurrence)}
+              </span>
+            )}
           </div>
         </div>
 
         {/* Actions */}
         {showActions && !compact && (
           <div className="row" style={{ gap: '4px', flexShrink: 0 }}>
+            {!reminder.isCompleted && (
+              <div style={{ position: 'relative' }}>
+                <button
+                  onClick={() => setShowSnoozeMenu(prev => !prev)}
+                  disabled={isLoading}
+                  className="btn ghost"
+                  style={{
+                    padding: '6px',
+                    borderRadius: '6px',
+                    fontSize: '12px',
+                    minWidth: 'auto'
+                  }}
+                  title="Snooze reminder"
+                >
+                  <AlarmClock size={14} />
+                </button>
+                {showSnoozeMenu && (
+                  <div style={{
+                    position: 'absolute',
+                    top: '100%',
+                    right: 0,
+                    marginTop: '4px',
+                    background: 'var(--bg)',
+                    border: '1px solid var(--border)',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                    zIndex: 10,
+                    minWidth: '160px',
+                    padding: '4px'
+                  }}>
+                    {REMINDER_SNOOZE_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => handleSnooze(option.value)}
+                        className="btn ghost"
+                        style={{
+                          width: '100%',
+                          justifyContent: 'flex-start',
+                          padding: '6px 10px',
+                          fontSize: '13px',
+                          border: 'none'
+                        }}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
             <button
               onClick={() => window.location.href = `/dashboard/reminders/${reminder.id}/edit`}
               className="btn ghost"
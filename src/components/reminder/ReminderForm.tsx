@@ -2,6 +2,9 @@
 
 import { useState } from 'react';
 import { ReminderFormData } from '@/types/reminder';
+import { RecurrenceFormData } from '@/types/recurrence';
+import { validateRecurrence } from '@/lib/recurrence';
+import RecurrenceEditor from '@/components/ui/RecurrenceEditor';
 
 interface ReminderFormProps {
   initialData?: Partial<ReminderFormData>;
@@ -22,6 +25,7 @@ export default function ReminderForm({
     title: initialData?.title || '',
     description: initialData?.description || '',
     dueDate: initialData?.dueDate || '',
+    recurrence: initialData?.recurrence ?? null,
   });
 
   const [error, setError] = useState<string | null>(null);
@@ -47,6 +51,14 @@ export default function ReminderForm({
       return;
     }
 
+    if (formData.recurrence) {
+      const recurrenceError = validateRecurrence(formData.recurrence, formData.dueDate);
+      if (recurrenceError) {
+        setError(recurrenceError);
+        return;
+      }
+    }
+
     onSubmit(formData);
   };
 
@@ -57,6 +69,13 @@ export default function ReminderForm({
     }));
   };
 
+  const handleRecurrenceChange = (value: RecurrenceFormData | null) => {
+    setFormData(prev => ({
+      ...prev,
+      recurrence: value
+    }));
+  };
+
   
   return (
     <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
@@ -161,7 +180,14 @@ export default function ReminderForm({
         />
       </div>
 
-      
+      {/* Repeat */}
+      <RecurrenceEditor
+        value={formData.recurrence ?? null}
+        onChange={handleRecurrenceChange}
+        defaultWeekday={formData.dueDate ? new Date(formData.dueDate).getDay() : undefined}
+        disabled={isLoading}
+      />
+
       {/* Actions */}
       <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
         {onCancel && (
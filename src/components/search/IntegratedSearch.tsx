@@ -2,8 +2,14 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import SearchResults from "./SearchResults";
+import SearchQueryChips, { SearchSyntaxHelp } from "./SearchQueryChips";
+import SaveSearchModal from "./SaveSearchModal";
 import { universalSearch } from "@/lib/search";
-import { SearchResult } from "@/types/search";
+import { hasSearchSyntax } from "@/lib/searchQuery";
+import { recordSearchClick } from "@/lib/searchHistory";
+import { SearchResult, SearchFilters, ParsedSearchQuery } from "@/types/search";
+
+const ALL_TYPES_FILTER: SearchFilters = { types: ['task', 'subject', 'reminder', 'file'] };
 
 interface IntegratedSearchProps {
   userId: string;
@@ -14,6 +20,8 @@ export default function IntegratedSearch({ userId }: IntegratedSearchProps) {
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [parsedQuery, setParsedQuery] = useState<ParsedSearchQuery | null>(null);
+  const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
@@ -56,16 +64,13 @@ export default function IntegratedSearch({ userId }: IntegratedSearchProps) {
 
     setIsLoading(true);
     try {
-      const searchResponse = await universalSearch(
-        userId,
-        query.trim(),
-        { types: ['task', 'subject', 'reminder', 'file'] }
-      );
+      const searchResponse = await universalSearch(userId, query.trim(), ALL_TYPES_FILTER);
 
       // Limit results for dropdown
       searchResponse.results = searchResponse.results.slice(0, 8);
 
       setResults(searchResponse.results);
+      setParsedQuery(searchResponse.query || null);
       setShowResults(true);
     } catch (error) {
       console.error('Search error:', error);
@@ -104,13 +109,15 @@ export default function IntegratedSearch({ userId }: IntegratedSearchProps) {
 
   const handleClear = () => {
     setSearchQuery("");
+    setParsedQuery(null);
     setResults([]);
     setShowResults(false);
     inputRef.current?.focus();
   };
 
   // Auto-hide search results when navigation happens
-  const handleResultClick = () => {
+  const handleResultClick = (result: SearchResult) => {
+    recordSearchClick(userId, searchQuery, result);
     setShowResults(false);
     setSearchQuery("");
     setResults([]);
@@ -183,7 +190,7 @@ export default function IntegratedSearch({ userId }: IntegratedSearchProps) {
             color: 'var(--text)',
             transition: 'all 0.2s ease'
           }}
-          title="Search (Ctrl+/)"
+          title="Search (Ctrl+/). Narrow results with type:, subject:, priority:, due: and is:"
         />
 
         {/* Clear Button */}
@@ -249,7 +256,27 @@ export default function IntegratedSearch({ userId }: IntegratedSearchProps) {
           ) : results.length > 0 ? (
             <div>
               <div style={{ padding: '8px 16px', fontSize: '12px', color: 'var(--text-2)', borderBottom: '1px solid var(--border)' }}>
-                Found {results.length} result{results.length !== 1 ? 's' : ''}
+                <div className="row" style={{ justifyContent: 'space-between', alignItems: 'center' }}>
+                  <span>Found {results.length} result{results.length !== 1 ? 's' : ''}</span>
+                  <button
+                    onClick={() => setIsSaveModalOpen(true)}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      color: 'var(--brand)',
+                      cursor: 'pointer',
+                      fontSize: '12px',
+                      fontWeight: '500',
+                      padding: 0
+                    }}
+                    title="Save this search as a smart list"
+                  >
+                    Save as smart list
+                  </button>
+                </div>
+                <div style={{ marginTop: parsedQuery && hasSearchSyntax(parsedQuery) ? '6px' : 0 }}>
+                  <SearchQueryChips parsedQuery={parsedQuery} />
+                </div>
               </div>
               <div style={{ maxHeight: '320px', overflowY: 'auto' }}>
                 <SearchResults
@@ -261,14 +288,27 @@ export default function IntegratedSearch({ userId }: IntegratedSearchProps) {
               </div>
             </div>
           ) : searchQuery.trim() ? (
-            <div style={{ padding: '16px', textAlign: 'center', color: 'var(--text-2)' }}>
-              <div style={{ fontSize: '14px' }}>No results found for "{searchQuery}"</div>
-              <div style={{ fontSize: '12px', marginTop: '4px' }}>Try different keywords</div>
+            <div style={{ padding: '16px', color: 'var(--text-2)' }}>
+              <div style={{ fontSize: '14px', textAlign: 'center' }}>No results found for "{searchQuery}"</div>
+              <div style={{ margin: '8px 0 12px' }}>
+                <SearchQueryChips parsedQuery={parsedQuery} />
+              </div>
+              <div style={{ fontSize: '12px', marginBottom: '6px' }}>Try different keywords, or narrow your search:</div>
+              <SearchSyntaxHelp />
             </div>
           ) : null}
         </div>
       )}
 
+      <SaveSearchModal
+        isOpen={isSaveModalOpen}
+        onClose={() => setIsSaveModalOpen(false)}
+        userId={userId}
+        query={searchQuery}
+        filters={ALL_TYPES_FILTER}
+        onSaved={() => setShowResults(false)}
+      />
+
       <style jsx>{`
         input:focus {
           outline: none;
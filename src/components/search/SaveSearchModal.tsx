@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, useEffect, useMemo } from 'react';
+import { Pin } from 'lucide-react';
+import Modal from '@/components/ui/Modal';
+import SearchQueryChips from './SearchQueryChips';
+import { SavedSearch, SearchFilters, SEARCH_CONFIG } from '@/types/search';
+import { createSavedSearch, updateSavedSearch } from '@/lib/savedSearches';
+import { parseSearchQuery } from '@/lib/searchQuery';
+
+interface SaveSearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  query: string;
+  filters: SearchFilters;
+  savedSearch?: SavedSearch; // Edit this smart list instead of creating one
+  onSaved?: (savedSearchId: string) => void;
+}
+
+const ALL_TYPES_COUNT = Object.keys(SEARCH_CONFIG.typeLabels).length;
+
+const inputStyle = {
+  width: '100%',
+  padding: '10px 12px',
+  borderRadius: '8px',
+  border: '1px solid var(--border)',
+  fontSize: '14px',
+  background: 'var(--bg)',
+  color: 'var(--text)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '14px',
+  fontWeight: '500',
+  color: 'var(--text)'
+};
+
+/**
+ * Saves a search and its filters as a smart list, or edits one
+ */
+export default function SaveSearchModal({
+  isOpen,
+  onClose,
+  userId,
+  query,
+  filters,
+  savedSearch,
+  onSaved
+}: SaveSearchModalProps) {
+  const [name, setName] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isPinned, setIsPinned] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the search being saved each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(savedSearch?.name || query.trim());
+    setSearchQuery(savedSearch?.query ?? query.trim());
+    setIsPinned(savedSearch?.isPinned ?? true);
+    setError(null);
+  }, [isOpen, savedSearch, query]);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const searchFilters = savedSearch?.filters || filters;
+
+  // Filters chosen outside the query, e.g. in the search panel
+  const filterLabels = [
+    searchFilters.types.length < ALL_TYPES_COUNT &&
+      `Only: ${searchFilters.types.map(type => SEARCH_CONFIG.typeLabels[type]).join(', ')}`,
+    searchFilters.fileSources?.length &&
+      `Files from: ${searchFilters.fileSources.map(source => SEARCH_CONFIG.fileSourceLabels[source]).join(', ')}`
+  ].filter((label): label is string => !!label);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (parsedQuery.errors.length > 0) {
+      setError(parsedQuery.errors[0]);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const data = { name, query: searchQuery, filters: searchFilters, isPinned };
+      if (savedSearch) {
+        await updateSavedSearch(savedSearch.id, data);
+        onSaved?.(savedSearch.id);
+      } else {
+        onSaved?.(await createSavedSearch(userId, data));
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save smart list');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={savedSearch ? 'Edit Smart List' : 'Save as Smart List'}
+      size="small"
+    >
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div>
+          <label style={labelStyle}>Name *</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., High priority CS this week"
+            style={inputStyle}
+            disabled={isSaving}
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <label style={labelStyle}>Search</label>
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="type:task priority:high subject:CS due:week"
+            style={inputStyle}
+            disabled={isSaving}
+          />
+          <div style={{ marginTop: '8px' }}>
+            <SearchQueryChips parsedQuery={parsedQuery} />
+          </div>
+          {filterLabels.length > 0 && (
+            <div className="small" style={{ marginTop: '6px', color: 'var(--text-2)' }}>
+              {filterLabels.join(' · ')}
+            </div>
+          )}
+          <div className="small" style={{ marginTop: '6px', color: 'var(--text-3)' }}>
+            Dates such as due:week and is:overdue are worked out each time the list is opened.
+          </div>
+        </div>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: isSaving ? 'not-allowed' : 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={isPinned}
+            onChange={(e) => setIsPinned(e.target.checked)}
+            disabled={isSaving}
+            style={{ width: '16px', height: '16px' }}
+          />
+          <Pin size={16} style={{ color: 'var(--text-2)' }} />
+          <span style={{ fontSize: '14px', fontWeight: '500', color: 'var(--text)' }}>
+            Pin to sidebar
+          </span>
+        </label>
+
+        {error && (
+          <div style={{
+            padding: '12px',
+            borderRadius: '8px',
+            background: 'var(--danger-100)',
+            color: 'var(--danger)',
+            fontSize: '14px',
+            border: '1px solid var(--danger-200)'
+          }}>
+            {error}
+          </div>
+        )}
+
+        <div className="row" style={{ gap: '8px', justifyContent: 'flex-end' }}>
+          <button
+            type="button"
+            onClick={handleClose}
+            className="btn ghost"
+            disabled={isSaving}
+            style={{ minWidth: '80px' }}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="btn"
+            disabled={isSaving || !name.trim()}
+            style={{ minWidth: '80px' }}
+          >
+            {isSaving ? 'Saving...' : savedSearch ? 'Save Changes' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
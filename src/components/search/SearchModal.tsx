@@ -1,11 +1,25 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Search, X, Filter, Clock } from 'lucide-react';
+import { Search, X, Filter, Clock, TrendingUp, CornerDownLeft, BookmarkPlus } from 'lucide-react';
 import Modal from '@/components/ui/Modal';
 import SearchResults from './SearchResults';
-import { SearchState, SearchFilters, SearchResultType, SEARCH_CONFIG, SearchResult } from '@/types/search';
+import SearchQueryChips, { SearchSyntaxHelp } from './SearchQueryChips';
+import SaveSearchModal from './SaveSearchModal';
+import {
+  SearchState,
+  SearchFilters,
+  SearchResultType,
+  SEARCH_CONFIG,
+  SearchResult,
+  SearchSuggestion,
+  SearchResponse,
+  SearchFileSource,
+  ParsedSearchQuery
+} from '@/types/search';
 import { universalSearch } from '@/lib/search';
+import { recordSearchClick, clearSearchHistory } from '@/lib/searchHistory';
+import { useSearchSuggestions } from '@/hooks/useSearch';
 
 interface SearchModalProps {
   isOpen: boolean;
@@ -32,7 +46,10 @@ export default function SearchModal({
   });
 
   const [showFilters, setShowFilters] = useState(false);
-  const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [parsedQuery, setParsedQuery] = useState<ParsedSearchQuery | null>(null);
+  const [fileSourceFacets, setFileSourceFacets] = useState<SearchResponse['facets']['fileSources']>([]);
+  const { suggestions, getSuggestions } = useSearchSuggestions(userId);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -45,39 +62,23 @@ export default function SearchModal({
     }
   }, [isOpen]);
 
-  // Load search history from localStorage
+  // Latest query, so suggestions load when the modal opens rather than on every keystroke
+  const queryRef = useRef(searchState.query);
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      try {
-        const saved = localStorage.getItem('search-history');
-        if (saved) {
-          setSearchHistory(JSON.parse(saved));
-        }
-      } catch (error) {
-        // Silent error handling following existing patterns
-      }
-    }
-  }, []);
-
-  // Save search history to localStorage
-  const saveToHistory = useCallback((query: string) => {
-    if (!query.trim()) return;
+    queryRef.current = searchState.query;
+  }, [searchState.query]);
 
-    const newHistory = [query, ...searchHistory.filter(h => h !== query)].slice(0, 10);
-    setSearchHistory(newHistory);
-
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.setItem('search-history', JSON.stringify(newHistory));
-      } catch (error) {
-        // Silent error handling
-      }
+  // Suggest recent and popular searches when the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      getSuggestions(queryRef.current);
     }
-  }, [searchHistory]);
+  }, [isOpen, getSuggestions]);
 
   // Debounced search function
-  const performSearch = useCallback(async (query: string) => {
+  const performSearch = useCallback(async (query: string, filters: SearchFilters = searchState.filters) => {
     if (!query.trim()) {
+      setParsedQuery(null);
       setSearchState(prev => ({
         ...prev,
         query,
@@ -99,7 +100,9 @@ export default function SearchModal({
     }));
 
     try {
-      const response = await universalSearch(userId, query, searchState.filters);
+      const response = await universalSearch(userId, query, filters);
+      setParsedQuery(response.query || null);
+      setFileSourceFacets(response.facets.fileSources);
 
       setSearchState(prev => ({
         ...prev,
@@ -110,8 +113,6 @@ export default function SearchModal({
         hasError: false,
         errorMessage: undefined
       }));
-
-      saveToHistory(query);
     } catch (error) {
       setSearchState(prev => ({
         ...prev,
@@ -122,13 +123,14 @@ export default function SearchModal({
         errorMessage: 'Search failed. Please try again.'
       }));
     }
-  }, [userId, searchState.filters, saveToHistory]);
+  }, [userId, searchState.filters]);
 
   // Handle input change with debouncing
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const query = e.target.value;
 
     setSearchState(prev => ({ ...prev, query }));
+    getSuggestions(query);
 
     // Clear existing timeout
     if (searchTimeoutRef.current) {
@@ -154,12 +156,14 @@ export default function SearchModal({
 
     // Re-run search with new filters
     if (searchState.query.trim()) {
-      performSearch(searchState.query);
+      performSearch(searchState.query, newFilters);
     }
   };
 
   // Handle result click
-  const handleResultClick = (result: SearchResult) => {
+  const handleResultClick = async (result: SearchResult) => {
+    await recordSearchClick(userId, searchState.query, result);
+
     // Navigate based on result type
     let navigationUrl = '';
     switch (result.type) {
@@ -173,6 +177,10 @@ export default function SearchModal({
         navigationUrl = `/dashboard/reminders?highlight=${result.id}`;
         break;
       case 'file':
+        if (result.metadata.source === 'task') {
+          navigationUrl = `/dashboard/tasks?highlight=${result.metadata.taskId}`;
+          break;
+        }
         const subjectId = result.metadata.subjectId as string;
         navigationUrl = `/dashboard/subjects?highlight=${subjectId}&tab=files&file=${result.id}`;
         break;
@@ -187,6 +195,8 @@ export default function SearchModal({
 
   // Clear search
   const handleClearSearch = () => {
+    setParsedQuery(null);
+    getSuggestions('');
     setSearchState(prev => ({
       ...prev,
       query: '',
@@ -223,214 +233,336 @@ export default function SearchModal({
     };
   }, []);
 
-  const getRecentSearches = () => {
-    return searchHistory.filter(query => query.toLowerCase().includes(searchState.query.toLowerCase()));
+  const handleSuggestionClick = (suggestion: SearchSuggestion) => {
+    setSearchState(prev => ({ ...prev, query: suggestion.text }));
+    getSuggestions(suggestion.text);
+    performSearch(suggestion.text);
+    searchInputRef.current?.focus();
   };
 
-  const handleHistoryClick = (query: string) => {
-    setSearchState(prev => ({ ...prev, query }));
-    performSearch(query);
+  const handleClearHistory = async () => {
+    try {
+      await clearSearchHistory(userId);
+    } catch (error) {
+      console.error('Error clearing search history:', error);
+    }
+    getSuggestions('');
   };
 
+  const historySuggestions = suggestions.filter(suggestion => suggestion.type !== 'completion');
+
   return (
-    <Modal
-      isOpen={isOpen}
-      onClose={onClose}
-      title="Search Everything"
-      size="large"
-      closeOnEscape={true}
-    >
-      <div style={{ display: 'flex', flexDirection: 'column', height: '100%', maxHeight: '70vh' }}>
-        {/* Search Input */}
-        <form onSubmit={handleSearchSubmit} style={{ marginBottom: '16px' }}>
-          <div className="row" style={{ gap: '8px' }}>
-            <div style={{ flex: 1, position: 'relative' }}>
-              <Search
-                size={20}
-                style={{
-                  position: 'absolute',
-                  left: '14px',
-                  top: '50%',
-                  transform: 'translateY(-50%)',
-                  color: 'var(--text-2)',
-                  pointerEvents: 'none'
-                }}
-              />
-              <input
-                ref={searchInputRef}
-                type="text"
-                value={searchState.query}
-                onChange={handleInputChange}
-                onKeyDown={handleKeyDown}
-                placeholder="Search tasks, subjects, reminders, files..."
-                style={{
-                  width: '100%',
-                  padding: '12px 16px 12px 48px',
-                  border: `1px solid ${searchState.hasError ? 'var(--danger)' : 'var(--border)'}`,
-                  borderRadius: '10px',
-                  fontSize: '15px',
-                  color: 'var(--text)',
-                  background: 'var(--bg)',
-                  outline: 'none'
-                }}
-              />
-              {searchState.query && (
-                <button
-                  type="button"
-                  onClick={handleClearSearch}
-                  className="btn ghost"
+    <>
+      <Modal
+        isOpen={isOpen}
+        onClose={onClose}
+        title="Search Everything"
+        size="large"
+        closeOnEscape={true}
+      >
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%', maxHeight: '70vh' }}>
+          {/* Search Input */}
+          <form onSubmit={handleSearchSubmit} style={{ marginBottom: '16px' }}>
+            <div className="row" style={{ gap: '8px' }}>
+              <div style={{ flex: 1, position: 'relative' }}>
+                <Search
+                  size={20}
                   style={{
                     position: 'absolute',
-                    right: '8px',
+                    left: '14px',
                     top: '50%',
                     transform: 'translateY(-50%)',
-                    padding: '4px',
-                    borderRadius: '6px'
+                    color: 'var(--text-2)',
+                    pointerEvents: 'none'
                   }}
-                  title="Clear search"
-                >
-                  <X size={16} />
-                </button>
-              )}
-            </div>
-
-            <button
-              type="button"
-              onClick={() => setShowFilters(!showFilters)}
-              className={`btn ${showFilters ? '' : 'ghost'}`}
-              style={{ padding: '12px 16px', borderRadius: '10px' }}
-              title="Toggle filters"
-            >
-              <Filter size={18} />
-            </button>
-          </div>
-
-          {searchState.hasError && (
-            <div style={{
-              marginTop: '8px',
-              padding: '8px 12px',
-              background: 'var(--danger-100)',
-              border: '1px solid var(--danger-200)',
-              borderRadius: '6px',
-              fontSize: '13px',
-              color: 'var(--danger)'
-            }}>
-              {searchState.errorMessage}
-            </div>
-          )}
-        </form>
-
-        {/* Filters */}
-        {showFilters && (
-          <div className="card" style={{ marginBottom: '16px', padding: '12px' }}>
-            <div style={{ marginBottom: '12px', fontSize: '14px', fontWeight: '600', color: 'var(--text)' }}>
-              Filter by type:
-            </div>
-            <div className="row" style={{ gap: '8px', flexWrap: 'wrap' }}>
-              {(['task', 'subject', 'reminder', 'file'] as SearchResultType[]).map(type => (
-                <button
-                  key={type}
-                  onClick={() => {
-                    const newTypes = searchState.filters.types.includes(type)
-                      ? searchState.filters.types.filter(t => t !== type)
-                      : [...searchState.filters.types, type];
-                    handleFilterChange({ types: newTypes });
-                  }}
-                  className={searchState.filters.types.includes(type) ? 'btn' : 'btn ghost'}
+                />
+                <input
+                  ref={searchInputRef}
+                  type="text"
+                  value={searchState.query}
+                  onChange={handleInputChange}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Search tasks, subjects, reminders, files..."
                   style={{
-                    padding: '6px 12px',
-                    fontSize: '13px',
-                    borderRadius: '6px',
-                    background: searchState.filters.types.includes(type)
-                      ? 'var(--brand-100)'
-                      : 'transparent',
-                    color: searchState.filters.types.includes(type)
-                      ? 'var(--brand)'
-                      : 'var(--text-2)',
-                    border: `1px solid ${searchState.filters.types.includes(type)
-                      ? 'var(--brand-200)'
-                      : 'var(--border)'}`
+                    width: '100%',
+                    padding: '12px 16px 12px 48px',
+                    border: `1px solid ${searchState.hasError ? 'var(--danger)' : 'var(--border)'}`,
+                    borderRadius: '10px',
+                    fontSize: '15px',
+                    color: 'var(--text)',
+                    background: 'var(--bg)',
+                    outline: 'none'
                   }}
-                >
-                  {SEARCH_CONFIG.typeLabels[type]}
-                </button>
-              ))}
+                />
+                {searchState.query && (
+                  <button
+                    type="button"
+                    onClick={handleClearSearch}
+                    className="btn ghost"
+                    style={{
+                      position: 'absolute',
+                      right: '8px',
+                      top: '50%',
+                      transform: 'translateY(-50%)',
+                      padding: '4px',
+                      borderRadius: '6px'
+                    }}
+                    title="Clear search"
+                  >
+                    <X size={16} />
+                  </button>
+                )}
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setShowFilters(!showFilters)}
+                className={`btn ${showFilters ? '' : 'ghost'}`}
+                style={{ padding: '12px 16px', borderRadius: '10px' }}
+                title="Toggle filters"
+              >
+                <Filter size={18} />
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setIsSaveModalOpen(true)}
+                className="btn ghost"
+                style={{ padding: '12px 16px', borderRadius: '10px' }}
+                title="Save as smart list"
+                disabled={!searchState.query.trim()}
+              >
+                <BookmarkPlus size={18} />
+              </button>
             </div>
-          </div>
-        )}
-
-        {/* Search Info */}
-        {searchState.query && (
-          <div className="row" style={{
-            justifyContent: 'space-between',
-            alignItems: 'center',
-            marginBottom: '12px',
-            fontSize: '13px',
-            color: 'var(--text-2)'
-          }}>
-            <span>
-              {searchState.isLoading
-                ? 'Searching...'
-                : searchState.totalResults > 0
-                  ? `${searchState.totalResults} result${searchState.totalResults !== 1 ? 's' : ''}`
-                  : 'No results'
-              }
-              {searchState.searchTime > 0 && !searchState.isLoading && (
-                <span style={{ marginLeft: '8px' }}>
-                  ({searchState.searchTime}ms)
-                </span>
-              )}
-            </span>
-          </div>
-        )}
-
-        {/* Content Area */}
-        <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
-          {/* Recent Searches */}
-          {!searchState.query && searchHistory.length > 0 && (
-            <div style={{ marginBottom: '20px' }}>
-              <div className="row" style={{
-                alignItems: 'center',
-                gap: '6px',
-                marginBottom: '12px',
+
+            {searchState.hasError && (
+              <div style={{
+                marginTop: '8px',
+                padding: '8px 12px',
+                background: 'var(--danger-100)',
+                border: '1px solid var(--danger-200)',
+                borderRadius: '6px',
                 fontSize: '13px',
-                fontWeight: '600',
-                color: 'var(--text)'
+                color: 'var(--danger)'
               }}>
-                <Clock size={14} />
-                Recent Searches
+                {searchState.errorMessage}
               </div>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
-                {getRecentSearches().slice(0, 5).map((query, index) => (
+            )}
+
+            {searchState.query && (
+              <div style={{ marginTop: '8px' }}>
+                <SearchQueryChips parsedQuery={parsedQuery} />
+              </div>
+            )}
+
+            {/* Suggestions while typing */}
+            {searchState.query && suggestions.length > 0 && (
+              <div className="row" style={{ gap: '6px', flexWrap: 'wrap', marginTop: '8px' }}>
+                {suggestions.map(suggestion => (
                   <button
-                    key={index}
-                    onClick={() => handleHistoryClick(query)}
+                    key={`${suggestion.type}-${suggestion.text}`}
+                    type="button"
+                    onClick={() => handleSuggestionClick(suggestion)}
                     className="btn ghost"
+                    title={suggestion.category}
                     style={{
-                      justifyContent: 'flex-start',
-                      padding: '8px 12px',
-                      fontSize: '13px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '4px',
+                      padding: '4px 10px',
+                      fontSize: '12px',
+                      borderRadius: '12px',
                       color: 'var(--text-2)',
-                      textAlign: 'left',
-                      borderRadius: '6px'
+                      border: '1px solid var(--border)'
+                    }}
+                  >
+                    {suggestion.type === 'recent' && <Clock size={11} />}
+                    {suggestion.type === 'popular' && <TrendingUp size={11} />}
+                    {suggestion.type === 'completion' && <CornerDownLeft size={11} />}
+                    {suggestion.text}
+                  </button>
+                ))}
+              </div>
+            )}
+          </form>
+
+          {/* Filters */}
+          {showFilters && (
+            <div className="card" style={{ marginBottom: '16px', padding: '12px' }}>
+              <div style={{ marginBottom: '12px', fontSize: '14px', fontWeight: '600', color: 'var(--text)' }}>
+                Filter by type:
+              </div>
+              <div className="row" style={{ gap: '8px', flexWrap: 'wrap' }}>
+                {(['task', 'subject', 'reminder', 'file'] as SearchResultType[]).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => {
+                      const newTypes = searchState.filters.types.includes(type)
+                        ? searchState.filters.types.filter(t => t !== type)
+                        : [...searchState.filters.types, type];
+                      handleFilterChange({ types: newTypes });
+                    }}
+                    className={searchState.filters.types.includes(type) ? 'btn' : 'btn ghost'}
+                    style={{
+                      padding: '6px 12px',
+                      fontSize: '13px',
+                      borderRadius: '6px',
+                      background: searchState.filters.types.includes(type)
+                        ? 'var(--brand-100)'
+                        : 'transparent',
+                      color: searchState.filters.types.includes(type)
+                        ? 'var(--brand)'
+                        : 'var(--text-2)',
+                      border: `1px solid ${searchState.filters.types.includes(type)
+                        ? 'var(--brand-200)'
+                        : 'var(--border)'}`
                     }}
                   >
-                    {query}
+                    {SEARCH_CONFIG.typeLabels[type]}
                   </button>
                 ))}
               </div>
+              <div style={{ margin: '12px 0', fontSize: '14px', fontWeight: '600', color: 'var(--text)' }}>
+                Files from:
+              </div>
+              <div className="row" style={{ gap: '8px', flexWrap: 'wrap' }}>
+                {(['subject', 'task'] as SearchFileSource[]).map(source => {
+                  const selectedSources = searchState.filters.fileSources || [];
+                  const isSelected = selectedSources.includes(source);
+                  const count = fileSourceFacets.find(facet => facet.source === source)?.count;
+
+                  return (
+                    <button
+                      key={source}
+                      onClick={() => {
+                        const newSources = isSelected
+                          ? selectedSources.filter(s => s !== source)
+                          : [...selectedSources, source];
+                        handleFilterChange({ fileSources: newSources.length > 0 ? newSources : undefined });
+                      }}
+                      className={isSelected ? 'btn' : 'btn ghost'}
+                      style={{
+                        padding: '6px 12px',
+                        fontSize: '13px',
+                        borderRadius: '6px',
+                        background: isSelected ? 'var(--brand-100)' : 'transparent',
+                        color: isSelected ? 'var(--brand)' : 'var(--text-2)',
+                        border: `1px solid ${isSelected ? 'var(--brand-200)' : 'var(--border)'}`
+                      }}
+                    >
+                      {SEARCH_CONFIG.fileSourceLabels[source]}
+                      {count !== undefined && ` (${count})`}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Search Info */}
+          {searchState.query && (
+            <div className="row" style={{
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: '12px',
+              fontSize: '13px',
+              color: 'var(--text-2)'
+            }}>
+              <span>
+                {searchState.isLoading
+                  ? 'Searching...'
+                  : searchState.totalResults > 0
+                    ? `${searchState.totalResults} result${searchState.totalResults !== 1 ? 's' : ''}`
+                    : 'No results'
+                }
+                {searchState.searchTime > 0 && !searchState.isLoading && (
+                  <span style={{ marginLeft: '8px' }}>
+                    ({searchState.searchTime}ms)
+                  </span>
+                )}
+              </span>
             </div>
           )}
 
-          {/* Search Results */}
-          <SearchResults
-            results={searchState.results}
-            query={searchState.query}
-            isLoading={searchState.isLoading}
-            onResultClick={handleResultClick}
-          />
+          {/* Content Area */}
+          <div style={{ flex: 1, overflow: 'auto', minHeight: 0 }}>
+            {/* Recent Searches */}
+            {!searchState.query && historySuggestions.length > 0 && (
+              <div style={{ marginBottom: '20px' }}>
+                <div className="row" style={{
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  marginBottom: '12px',
+                  fontSize: '13px',
+                  fontWeight: '600',
+                  color: 'var(--text)'
+                }}>
+                  <span className="row" style={{ alignItems: 'center', gap: '6px' }}>
+                    <Clock size={14} />
+                    Recent Searches
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleClearHistory}
+                    className="btn ghost"
+                    style={{ padding: '2px 8px', fontSize: '12px', color: 'var(--text-2)' }}
+                  >
+                    Clear history
+                  </button>
+                </div>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                  {historySuggestions.map(suggestion => (
+                    <button
+                      key={`${suggestion.type}-${suggestion.text}`}
+                      onClick={() => handleSuggestionClick(suggestion)}
+                      className="btn ghost"
+                      style={{
+                        justifyContent: 'flex-start',
+                        gap: '8px',
+                        padding: '8px 12px',
+                        fontSize: '13px',
+                        color: 'var(--text-2)',
+                        textAlign: 'left',
+                        borderRadius: '6px'
+                      }}
+                    >
+                      {suggestion.type === 'popular' ? <TrendingUp size={13} /> : <Clock size={13} />}
+                      {suggestion.text}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Query syntax */}
+            {!searchState.query && (
+              <div style={{ marginBottom: '20px' }}>
+                <div style={{ marginBottom: '8px', fontSize: '13px', fontWeight: '600', color: 'var(--text)' }}>
+                  Search Syntax
+                </div>
+                <SearchSyntaxHelp />
+              </div>
+            )}
+
+            {/* Search Results */}
+            <SearchResults
+              results={searchState.results}
+              query={searchState.query}
+              isLoading={searchState.isLoading}
+              onResultClick={handleResultClick}
+            />
+          </div>
         </div>
-      </div>
-    </Modal>
+      </Modal>
+
+      <SaveSearchModal
+        isOpen={isSaveModalOpen}
+        onClose={() => setIsSaveModalOpen(false)}
+        userId={userId}
+        query={searchState.query}
+        filters={searchState.filters}
+      />
+    </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { AlertCircle } from 'lucide-react';
+import { ParsedSearchQuery, SEARCH_SYNTAX_HELP } from '@/types/search';
+import { describeSearchQuery } from '@/lib/searchQuery';
+
+interface SearchQueryChipsProps {
+  parsedQuery: ParsedSearchQuery | null;
+}
+
+/**
+ * Shows the filters understood from a query and any operator errors
+ */
+export default function SearchQueryChips({ parsedQuery }: SearchQueryChipsProps) {
+  if (!parsedQuery) return null;
+
+  const labels = describeSearchQuery(parsedQuery);
+  if (labels.length === 0 && parsedQuery.errors.length === 0) return null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+      {labels.length > 0 && (
+        <div className="row" style={{ gap: '6px', flexWrap: 'wrap' }}>
+          {labels.map(label => (
+            <span
+              key={label}
+              style={{
+                fontSize: '11px',
+                padding: '2px 8px',
+                borderRadius: '10px',
+                background: 'var(--brand-100)',
+                color: 'var(--brand)',
+                fontWeight: '500'
+              }}
+            >
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+      {parsedQuery.errors.map(error => (
+        <div key={error} className="row" style={{ gap: '6px', fontSize: '12px', color: 'var(--danger)' }}>
+          <AlertCircle size={12} />
+          {error}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Lists the operators of the search query language
+ */
+export function SearchSyntaxHelp() {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '4px 12px', fontSize: '12px' }}>
+      {SEARCH_SYNTAX_HELP.map(({ example, description }) => (
+        <div key={example} style={{ display: 'contents' }}>
+          <code style={{ color: 'var(--brand)', fontFamily: 'monospace' }}>{example}</code>
+          <span style={{ color: 'var(--text-2)' }}>{description}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useRouter } from 'next/navigation';
-import { SearchResult, SearchResultType, SEARCH_CONFIG } from '@/types/search';
+import { SearchResult, SearchResultType, SearchContentMatch, SEARCH_CONFIG } from '@/types/search';
+import { SubjectFile } from '@/types/subject';
 import {
   CheckCircle,
   BookOpen,
@@ -51,13 +52,40 @@ export default function SearchResults({
         router.push(`/dashboard/reminders?highlight=${result.id}`);
         break;
       case 'file':
-        // Navigate to subject page with file tab and highlight
+        // Task attachments open their task; subject files the subject's file tab
+        if (result.metadata.source === 'task') {
+          router.push(`/dashboard/tasks?highlight=${result.metadata.taskId}`);
+          break;
+        }
         const subjectId = result.metadata.subjectId as string;
         router.push(`/dashboard/subjects?highlight=${subjectId}&tab=files&file=${result.id}`);
         break;
     }
   };
 
+  // Wrap the matched words of a file passage in <mark>
+  const renderSnippet = ({ snippet, highlights }: SearchContentMatch) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+
+    highlights.forEach(({ start, end }) => {
+      if (start > position) parts.push(snippet.substring(position, start));
+      parts.push(
+        <mark
+          key={start}
+          className={SEARCH_CONFIG.highlightClassName}
+          style={{ background: 'var(--brand-100)', color: 'var(--brand)', borderRadius: '2px', padding: '0 1px' }}
+        >
+          {snippet.substring(start, end)}
+        </mark>
+      );
+      position = end;
+    });
+    parts.push(snippet.substring(position));
+
+    return <span>{parts}</span>;
+  };
+
   const getTypeIcon = (type: SearchResultType) => {
     const iconMap = {
       task: CheckCircle,
@@ -236,6 +264,14 @@ export default function SearchResults({
         break;
 
       case 'file':
+        if (result.metadata.taskTitle) {
+          metadata.push(
+            <div key="task" className="row" style={{ gap: '4px', color: 'var(--text-2)', fontSize: '12px' }}>
+              <CheckCircle size={12} />
+              <span>{result.metadata.taskTitle}</span>
+            </div>
+          );
+        }
         if (result.metadata.size) {
           metadata.push(
             <span key="size" style={{ fontSize: '12px', color: 'var(--text-2)' }}>
@@ -299,7 +335,7 @@ export default function SearchResults({
           {query ? `No results for "${query}"` : 'Try searching for tasks, subjects, reminders, or files'}
         </p>
         <div style={{ fontSize: '12px', color: 'var(--text-3)' }}>
-          Tips: Search by title, description, subject name, or file name
+          Tips: Search by title, description, subject name, file name, or text inside files
         </div>
       </div>
     );
@@ -393,6 +429,38 @@ export default function SearchResults({
                   </p>
                 )}
 
+                {/* Matching text inside the file */}
+                {result.contentMatch && (
+                  <div style={{
+                    margin: '0 0 12px 0',
+                    padding: '8px 10px',
+                    borderRadius: '6px',
+                    background: 'var(--bg-2)',
+                    fontSize: '12px',
+                    color: 'var(--text-2)',
+                    lineHeight: '1.5'
+                  }}>
+                    {result.contentMatch.pageLabel && (
+                      <div className="row" style={{ gap: '6px', alignItems: 'center', marginBottom: '4px', fontWeight: '600' }}>
+                        <span>{result.contentMatch.pageLabel}</span>
+                        {(result.data as SubjectFile).type === 'pdf' && (
+                          <a
+                            href={`${(result.data as SubjectFile).url}#page=${result.contentMatch.page}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            title="Open the file at this page"
+                            style={{ color: 'var(--brand)', display: 'flex', alignItems: 'center' }}
+                          >
+                            <ExternalLink size={12} />
+                          </a>
+                        )}
+                      </div>
+                    )}
+                    {renderSnippet(result.contentMatch)}
+                  </div>
+                )}
+
                 {/* Metadata */}
                 <div className="row" style={{ gap: '16px', alignItems: 'center', flexWrap: 'wrap' }}>
                   {getMetadata(result)}
@@ -407,10 +475,10 @@ export default function SearchResults({
                     fontSize: '11px',
                     color: 'var(--text-3)'
                   }}>
-                    {result.breadcrumbs.slice(0, 2).map((crumb, index) => (
+                    {result.breadcrumbs.slice(1).map((crumb, index) => (
                       <div key={index} className="row" style={{ gap: '4px', alignItems: 'center' }}>
                         <span>{crumb.label}</span>
-                        {index < result.breadcrumbs.slice(0, 2).length - 1 && (
+                        {index < result.breadcrumbs.length - 2 && (
                           <span style={{ opacity: 0.5 }}>›</span>
                         )}
                       </div>
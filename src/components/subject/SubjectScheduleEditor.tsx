@@ -0,0 +1,224 @@
+"use client";
+
+import {
+  Subject,
+  SubjectSchedule,
+  SubjectScheduleType,
+  DAYS_OF_WEEK,
+  TIME_SLOTS,
+  SCHEDULE_TYPE_CONFIG
+} from "@/types/subject";
+import { findScheduleClashes, formatScheduleClash, validateSchedule } from "@/lib/timetable";
+import { CalendarClock, Plus, Trash2, AlertTriangle, AlertCircle } from "lucide-react";
+
+interface SubjectScheduleEditorProps {
+  schedule: SubjectSchedule[];
+  onChange: (schedule: SubjectSchedule[]) => void;
+  subjects: Subject[]; // Other subjects to check for clashes
+  subjectId?: string; // Set when editing so the saved schedule is not compared with itself
+  subjectName?: string;
+  defaultRoom?: string;
+  error?: string;
+  disabled?: boolean;
+}
+
+const inputStyle = {
+  padding: '8px 10px',
+  border: '1px solid var(--border)',
+  borderRadius: '8px',
+  fontSize: '14px',
+  color: 'var(--text)',
+  background: 'var(--card)'
+};
+
+/**
+ * Time slots plus an imported time that falls between them (e.g. 09:15)
+ */
+function getTimeOptions(current: string): string[] {
+  const slots: string[] = [...TIME_SLOTS];
+  return slots.includes(current) ? slots : [...slots, current].sort();
+}
+
+export default function SubjectScheduleEditor({
+  schedule,
+  onChange,
+  subjects,
+  subjectId,
+  subjectName,
+  defaultRoom = '',
+  error,
+  disabled = false
+}: SubjectScheduleEditorProps) {
+  const entryErrors = validateSchedule(schedule);
+  const clashes = findScheduleClashes(
+    schedule.filter((_, index) => !entryErrors[index]),
+    subjects,
+    subjectId
+  );
+
+  const handleAddEntry = () => {
+    // Start the new class where the previous one ends when possible
+    const last = schedule[schedule.length - 1];
+    const lastEndIndex = last ? TIME_SLOTS.indexOf(last.endTime as typeof TIME_SLOTS[number]) : -1;
+    const startIndex = lastEndIndex >= 0 && lastEndIndex + 2 < TIME_SLOTS.length ? lastEndIndex : 2;
+
+    onChange([
+      ...schedule,
+      {
+        dayOfWeek: last?.dayOfWeek || DAYS_OF_WEEK[0],
+        startTime: TIME_SLOTS[startIndex],
+        endTime: TIME_SLOTS[startIndex + 2],
+        room: defaultRoom,
+        type: 'lecture'
+      }
+    ]);
+  };
+
+  const handleUpdateEntry = (index: number, changes: Partial<SubjectSchedule>) => {
+    onChange(schedule.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const handleRemoveEntry = (index: number) => {
+    onChange(schedule.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '12px', fontWeight: '500', color: 'var(--text)' }}>
+        <CalendarClock size={16} />
+        Weekly Schedule (Optional)
+      </label>
+
+      {schedule.length === 0 ? (
+        <div style={{ fontSize: '13px', color: 'var(--text-2)', marginBottom: '12px' }}>
+          Add your lectures, labs and tutorials to see them in the timetable.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
+          {schedule.map((entry, index) => (
+            <div key={index}>
+              <div
+                className="row"
+                style={{
+                  gap: '8px',
+                  alignItems: 'center',
+                  flexWrap: 'wrap',
+                  padding: '8px',
+                  background: 'var(--bg-2)',
+                  border: `1px solid ${entryErrors[index] ? 'var(--danger)' : 'var(--border)'}`,
+                  borderRadius: '8px'
+                }}
+              >
+                <select
+                  value={entry.dayOfWeek}
+                  onChange={(e) => handleUpdateEntry(index, { dayOfWeek: e.target.value })}
+                  disabled={disabled}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                >
+                  {DAYS_OF_WEEK.map(day => (
+                    <option key={day} value={day}>{day}</option>
+                  ))}
+                </select>
+                <select
+                  value={entry.startTime}
+                  onChange={(e) => handleUpdateEntry(index, { startTime: e.target.value })}
+                  disabled={disabled}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                  title="Start time"
+                >
+                  {getTimeOptions(entry.startTime).map(time => (
+                    <option key={time} value={time}>{time}</option>
+                  ))}
+                </select>
+                <span style={{ fontSize: '14px', color: 'var(--text-2)' }}>to</span>
+                <select
+                  value={entry.endTime}
+                  onChange={(e) => handleUpdateEntry(index, { endTime: e.target.value })}
+                  disabled={disabled}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                  title="End time"
+                >
+                  {getTimeOptions(entry.endTime).map(time => (
+                    <option key={time} value={time}>{time}</option>
+                  ))}
+                </select>
+                <select
+                  value={entry.type || 'lecture'}
+                  onChange={(e) => handleUpdateEntry(index, { type: e.target.value as SubjectScheduleType })}
+                  disabled={disabled}
+                  style={{ ...inputStyle, cursor: 'pointer' }}
+                >
+                  {Object.entries(SCHEDULE_TYPE_CONFIG).map(([key, config]) => (
+                    <option key={key} value={key}>{config.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={entry.room || ''}
+                  onChange={(e) => handleUpdateEntry(index, { room: e.target.value })}
+                  placeholder="Room"
+                  disabled={disabled}
+                  maxLength={30}
+                  style={{ ...inputStyle, width: '100px' }}
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemoveEntry(index)}
+                  disabled={disabled}
+                  className="btn ghost"
+                  style={{ padding: '6px', marginLeft: 'auto' }}
+                  title="Remove class"
+                >
+                  <Trash2 size={14} style={{ color: 'var(--danger)' }} />
+                </button>
+              </div>
+              {entryErrors[index] && (
+                <div className="small" style={{ color: 'var(--danger)', marginTop: '4px' }}>
+                  {entryErrors[index]}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleAddEntry}
+        disabled={disabled}
+        className="btn ghost"
+        style={{ padding: '8px 12px' }}
+      >
+        <Plus size={16} />
+        Add Class
+      </button>
+
+      {clashes.length > 0 && (
+        <div style={{
+          marginTop: '12px',
+          padding: '12px',
+          background: 'color-mix(in srgb, var(--warn) 12%, transparent)',
+          border: '1px solid var(--warn)',
+          borderRadius: '8px'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', fontWeight: '500', color: 'var(--text)', marginBottom: '6px' }}>
+            <AlertTriangle size={16} style={{ color: 'var(--warn)' }} />
+            Timetable clash{clashes.length > 1 ? 'es' : ''}
+          </div>
+          <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px', color: 'var(--text-2)' }}>
+            {clashes.map((clash, index) => (
+              <li key={index}>{formatScheduleClash(clash, subjectName || 'this subject')}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <div style={{ marginTop: '4px', fontSize: '12px', color: 'var(--danger)', display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <AlertCircle size={12} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,15 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { Task, TaskWithSubject, TASK_PRIORITY_CONFIG, TASK_STATUS_CONFIG } from "@/types/task";
+import {
+  Task,
+  TaskWithSubject,
+  TASK_PRIORITY_CONFIG,
+  TASK_STATUS_CONFIG,
+  getChecklistProgress,
+  isChecklistComplete
+} from "@/types/task";
+import { formatRecurrence } from "@/lib/recurrence";
 import {
   CheckCircle2,
   Circle,
@@ -15,7 +23,12 @@ import {
   Tag,
   BookOpen,
   Download,
-  ExternalLink
+  ExternalLink,
+  Repeat,
+  ListChecks,
+  CheckSquare,
+  Square,
+  Lock
 } from "lucide-react";
 import ConfirmModal from "@/components/ui/ConfirmModal";
 
@@ -24,6 +37,8 @@ interface TaskCardProps {
   onToggleComplete?: (taskId: string) => void;
   onDelete?: (taskId: string) => void;
   onEdit?: (taskId: string) => void;
+  onToggleChecklistItem?: (taskId: string, itemId: string) => Promise<void> | void;
+  blockingTasks?: Task[]; // Unfinished tasks this one depends on
   showActions?: boolean;
   compact?: boolean;
   highlighted?: boolean;
@@ -34,6 +49,8 @@ export default function TaskCard({
   onToggleComplete,
   onDelete,
   onEdit,
+  onToggleChecklistItem,
+  blockingTasks = [],
   showActions = true,
   compact = false,
   highlighted = false
@@ -42,11 +59,20 @@ export default function TaskCard({
   const [isLoading, setIsLoading] = useState(false);
   const [showFiles, setShowFiles] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showChecklist, setShowChecklist] = useState(false);
+  const [pendingItemId, setPendingItemId] = useState<string | null>(null);
+  const [completionOfferDismissed, setCompletionOfferDismissed] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
 
   const isOverdue = task.dueDate.toDate() < new Date() && task.status !== 'completed';
-  const statusConfig = TASK_STATUS_CONFIG[task.status];
+  const isBlocked = blockingTasks.length > 0 && task.status !== 'completed';
+  const statusConfig = TASK_STATUS_CONFIG[isBlocked && !isOverdue ? 'blocked' : task.status];
   const priorityConfig = TASK_PRIORITY_CONFIG[task.priority];
+  const checklistProgress = getChecklistProgress(task);
+  const showCompletionOffer = isChecklistComplete(task) &&
+    task.status !== 'completed' &&
+    !!onToggleComplete &&
+    !completionOfferDismissed;
 
   // Scroll to highlighted task
   useEffect(() => {
@@ -70,6 +96,18 @@ export default function TaskCard({
     }
   };
 
+  const handleToggleChecklistItem = async (itemId: string) => {
+    if (onToggleChecklistItem && !pendingItemId) {
+      setPendingItemId(itemId);
+      try {
+        await onToggleChecklistItem(task.id, itemId);
+        setCompletionOfferDismissed(false);
+      } finally {
+        setPendingItemId(null);
+      }
+    }
+  };
+
   const handleEdit = () => {
     if (onEdit) {
       onEdit(task.id);
@@ -201,6 +239,30 @@ export default function TaskCard({
             </h4>
 
             <div className="row" style={{ gap: '6px', alignItems: 'center' }}>
+              {/* Checklist Progress Badge */}
+              {checklistProgress.total > 0 && (
+                <span
+                  className="badge"
+                  style={{
+                    background: checklistProgress.completed === checklistProgress.total ? 'var(--ok-100)' : 'var(--bg-2)',
+                    color: checklistProgress.completed === checklistProgress.total ? 'var(--ok)' : 'var(--text-2)',
+                    border: '1px solid var(--border)',
+                    fontSize: '11px',
+                    padding: '2px 6px',
+                    borderRadius: '4px',
+                    fontWeight: '500',
+                    whiteSpace: 'nowrap',
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: '4px'
+                  }}
+                  title={`${checklistProgress.completed} of ${checklistProgress.total} checklist items done`}
+                >
+                  <ListChecks size={12} />
+                  {checklistProgress.completed}/{checklistProgress.total}
+                </span>
+              )}
+
               {/* Files Badge */}
               {task.attachedFiles && task.attachedFiles.length > 0 && (
                 <span
@@ -255,6 +317,79 @@ export default function TaskCard({
             </p>
           )}
 
+          {/* Checklist */}
+          {checklistProgress.total > 0 && !compact && (
+            <div style={{ margin: '0 0 8px 0' }}>
+              <div
+                className="row"
+                style={{ gap: '8px', alignItems: 'center', cursor: 'pointer' }}
+                onClick={() => setShowChecklist(!showChecklist)}
+              >
+                <div style={{
+                  flex: 1,
+                  height: '6px',
+                  background: 'var(--bg-2)',
+                  borderRadius: '3px',
+                  overflow: 'hidden'
+                }}>
+                  <div style={{
+                    width: `${checklistProgress.percentage}%`,
+                    height: '100%',
+                    background: 'var(--ok)',
+                    transition: 'width 0.2s'
+                  }} />
+                </div>
+                <span style={{ fontSize: '12px', color: 'var(--text-2)', whiteSpace: 'nowrap' }}>
+                  {showChecklist ? 'Hide' : 'Show'} checklist
+                </span>
+              </div>
+
+              {showChecklist && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '8px' }}>
+                  {task.checklist!.map(item => {
+                    const itemOverdue = !item.isCompleted && item.dueDate && item.dueDate.toDate() < new Date();
+                    return (
+                      <button
+                        key={item.id}
+                        type="button"
+                        onClick={() => handleToggleChecklistItem(item.id)}
+                        disabled={!onToggleChecklistItem || pendingItemId !== null}
+                        style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '8px',
+                          padding: '4px 6px',
+                          background: 'none',
+                          border: 'none',
+                          borderRadius: '4px',
+                          textAlign: 'left',
+                          cursor: onToggleChecklistItem ? 'pointer' : 'default',
+                          fontSize: '13px',
+                          color: item.isCompleted ? 'var(--text-2)' : 'var(--text)',
+                          opacity: pendingItemId === item.id ? 0.5 : 1
+                        }}
+                      >
+                        {item.isCompleted ? (
+                          <CheckSquare size={14} style={{ color: 'var(--ok)', flexShrink: 0 }} />
+                        ) : (
+                          <Square size={14} style={{ color: 'var(--text-2)', flexShrink: 0 }} />
+                        )}
+                        <span style={{ flex: 1, textDecoration: item.isCompleted ? 'line-through' : 'none' }}>
+                          {item.title}
+                        </span>
+                        {item.dueDate && (
+                          <span style={{ fontSize: '11px', color: itemOverdue ? 'var(--danger)' : 'var(--text-2)' }}>
+                            {item.dueDate.toDate().toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                          </span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Metadata */}
           <div className="row" style={{ gap: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
             {/* Due Date */}
@@ -263,6 +398,18 @@ export default function TaskCard({
               <span>{formatDueDate()}</span>
             </div>
 
+            {/* Recurrence */}
+            {task.recurrence && (
+              <div
+                className="row"
+                style={{ gap: '4px', color: 'var(--text-2)', fontSize: '12px' }}
+                title={formatRecurrence(task.recurrence)}
+              >
+                <Repeat size={14} />
+                {!compact && <span>{formatRecurrence(task.recurrence)}</span>}
+              </div>
+            )}
+
             {/* Subject */}
             {(task as TaskWithSubject).subject && !compact && (
               <div className="row" style={{ gap: '4px', color: 'var(--text-2)', fontSize: '12px' }}>
@@ -355,6 +502,73 @@ export default function TaskCard({
         )}
       </div>
 
+      {/* Offer to complete the task once every checklist item is done */}
+      {showCompletionOffer && !compact && (
+        <div
+          style={{
+            marginTop: '12px',
+            padding: '8px 12px',
+            background: 'var(--ok-100)',
+            border: '1px solid var(--border)',
+            borderRadius: '6px',
+            fontSize: '12px',
+            color: 'var(--ok)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px'
+          }}
+        >
+          <CheckCircle2 size={14} />
+          <span style={{ flex: 1 }}>All checklist items are done. Mark this task as complete?</span>
+          <button
+            onClick={handleToggleComplete}
+            disabled={isLoading}
+            className="btn"
+            style={{ padding: '4px 10px', fontSize: '12px' }}
+          >
+            Complete task
+          </button>
+          <button
+            onClick={() => setCompletionOfferDismissed(true)}
+            className="btn ghost"
+            style={{ padding: '4px 10px', fontSize: '12px' }}
+          >
+            Not yet
+          </button>
+        </div>
+      )}
+
+      {/* Blocked Indicator */}
+      {isBlocked && !compact && (
+        <div
+          style={{
+            marginTop: '12px',
+            padding: '8px 12px',
+            background: TASK_STATUS_CONFIG.blocked.bg,
+            border: `1px solid ${TASK_STATUS_CONFIG.blocked.color}20`,
+            borderRadius: '6px',
+            fontSize: '12px',
+            color: TASK_STATUS_CONFIG.blocked.color,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            flexWrap: 'wrap'
+          }}
+        >
+          <Lock size={14} />
+          <span>Blocked by:</span>
+          {blockingTasks.map((blocker, index) => (
+            <a
+              key={blocker.id}
+              href={`/dashboard/tasks?highlight=${blocker.id}`}
+              style={{ color: TASK_STATUS_CONFIG.blocked.color, fontWeight: '500' }}
+            >
+              {blocker.title}{index < blockingTasks.length - 1 ? ',' : ''}
+            </a>
+          ))}
+        </div>
+      )}
+
       {/* Overdue Indicator */}
       {isOverdue && !compact && (
         <div
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { TaskChecklistItemFormData } from "@/types/task";
+import { generateChecklistItemId } from "@/lib/tasks";
+import { ListChecks, Plus, Trash2, ChevronUp, ChevronDown } from "lucide-react";
+
+interface TaskChecklistEditorProps {
+  items: TaskChecklistItemFormData[];
+  onChange: (items: TaskChecklistItemFormData[]) => void;
+  disabled?: boolean;
+}
+
+export default function TaskChecklistEditor({
+  items,
+  onChange,
+  disabled = false
+}: TaskChecklistEditorProps) {
+  const [newItemTitle, setNewItemTitle] = useState('');
+
+  const handleAddItem = () => {
+    if (!newItemTitle.trim()) return;
+
+    onChange([
+      ...items,
+      {
+        id: generateChecklistItemId(),
+        title: newItemTitle.trim(),
+        isCompleted: false,
+        dueDate: ''
+      }
+    ]);
+    setNewItemTitle('');
+  };
+
+  const handleUpdateItem = (id: string, changes: Partial<TaskChecklistItemFormData>) => {
+    onChange(items.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const handleRemoveItem = (id: string) => {
+    onChange(items.filter(item => item.id !== id));
+  };
+
+  const handleMoveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const completedCount = items.filter(item => item.isCompleted).length;
+
+  return (
+    <div>
+      <label style={{ fontSize: '14px', fontWeight: '500', color: 'var(--text)', display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '12px' }}>
+        <ListChecks size={16} />
+        Checklist (Optional)
+        {items.length > 0 && (
+          <span style={{ fontSize: '12px', fontWeight: '400', color: 'var(--text-2)' }}>
+            {completedCount}/{items.length} done
+          </span>
+        )}
+      </label>
+
+      {items.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '8px' }}>
+          {items.map((item, index) => (
+            <div
+              key={item.id}
+              className="row"
+              style={{
+                gap: '8px',
+                alignItems: 'center',
+                padding: '6px 8px',
+                background: 'var(--bg-2)',
+                border: '1px solid var(--border)',
+                borderRadius: '6px'
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={item.isCompleted}
+                onChange={(e) => handleUpdateItem(item.id, { isCompleted: e.target.checked })}
+                disabled={disabled}
+                style={{ width: '16px', height: '16px' }}
+              />
+              <input
+                type="text"
+                value={item.title}
+                onChange={(e) => handleUpdateItem(item.id, { title: e.target.value })}
+                disabled={disabled}
+                maxLength={100}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  border: 'none',
+                  outline: 'none',
+                  background: 'transparent',
+                  fontSize: '14px',
+                  color: item.isCompleted ? 'var(--text-2)' : 'var(--text)',
+                  textDecoration: item.isCompleted ? 'line-through' : 'none'
+                }}
+              />
+              <input
+                type="date"
+                value={item.dueDate}
+                onChange={(e) => handleUpdateItem(item.id, { dueDate: e.target.value })}
+                disabled={disabled}
+                title="Optional due date"
+                style={{
+                  padding: '4px 6px',
+                  border: '1px solid var(--border)',
+                  borderRadius: '6px',
+                  fontSize: '12px',
+                  color: 'var(--text)',
+                  background: 'var(--bg)'
+                }}
+              />
+              <button
+                type="button"
+                onClick={() => handleMoveItem(index, -1)}
+                disabled={disabled || index === 0}
+                className="btn ghost"
+                style={{ padding: '4px' }}
+                title="Move up"
+              >
+                <ChevronUp size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMoveItem(index, 1)}
+                disabled={disabled || index === items.length - 1}
+                className="btn ghost"
+                style={{ padding: '4px' }}
+                title="Move down"
+              >
+                <ChevronDown size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemoveItem(item.id)}
+                disabled={disabled}
+                className="btn ghost"
+                style={{ padding: '4px' }}
+                title="Remove item"
+              >
+                <Trash2 size={14} style={{ color: 'var(--danger)' }} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="row" style={{ gap: '8px' }}>
+        <input
+          type="text"
+          value={newItemTitle}
+          onChange={(e) => setNewItemTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddItem();
+            }
+          }}
+          placeholder="Add a step..."
+          disabled={disabled}
+          maxLength={100}
+          style={{
+            flex: 1,
+            padding: '8px 12px',
+            border: '1px solid var(--border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            color: 'var(--text)',
+            background: 'var(--bg)'
+          }}
+        />
+        <button
+          type="button"
+          onClick={handleAddItem}
+          disabled={disabled || !newItemTitle.trim()}
+          className="btn ghost"
+          style={{ padding: '8px 12px' }}
+        >
+          <Plus size={16} />
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -437,6 +437,7 @@ export default function TaskFileUpload({
                   }}
                   className="btn ghost"
                   style={{ padding: '4px', borderRadius: '4px' }}
+                  disabled={disabled}
                   title="Delete file"
                 >
                   <Trash2 size={14} style={{ color: 'var(--danger)' }} />
@@ -1,9 +1,12 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Task, TaskFormData, TaskPriority, TaskFile } from "@/types/task";
+import { Task, TaskFormData, TaskPriority, TaskFile, TaskChecklistItemFormData } from "@/types/task";
 import { Subject } from "@/types/subject";
 import { TASK_PRIORITY_CONFIG } from "@/types/task";
+import { RecurrenceFormData, RecurrenceEditScope } from "@/types/recurrence";
+import { toRecurrenceFormData, validateRecurrence, formatRecurrence } from "@/lib/recurrence";
+import { findDependencyCycle, formatDependencyCycle } from "@/lib/taskDependencies";
 import {
   Calendar,
   Clock,
@@ -12,14 +15,19 @@ import {
   BookOpen,
   FileText,
   X,
-  Paperclip
+  Paperclip,
+  Repeat,
+  Link2
 } from "lucide-react";
 import TaskFileUpload from "@/components/task/TaskFileUpload";
+import TaskChecklistEditor from "@/components/task/TaskChecklistEditor";
+import RecurrenceEditor from "@/components/ui/RecurrenceEditor";
 
 interface TaskFormProps {
   task?: Task;
   subjects: Subject[];
-  onSubmit: (data: TaskFormData, files: File[], existingFiles: TaskFile[]) => Promise<void>;
+  availableTasks?: Task[]; // Candidate prerequisites for dependsOn
+  onSubmit: (data: TaskFormData, files: File[], existingFiles: TaskFile[], scope: RecurrenceEditScope) => Promise<void>;
   onCancel: () => void;
   isLoading?: boolean;
   taskId?: string;
@@ -29,6 +37,7 @@ interface TaskFormProps {
 export default function TaskForm({
   task,
   subjects,
+  availableTasks = [],
   onSubmit,
   onCancel,
   isLoading = false,
@@ -49,13 +58,27 @@ export default function TaskForm({
       return `${year}-${month}-${day}T${hours}:${minutes}`;
     })() : '',
     priority: task?.priority || 'medium',
-    subjectId: task?.subjectId || ''
+    subjectId: task?.subjectId || '',
+    recurrence: task?.recurrence ? toRecurrenceFormData(task.recurrence) : null,
+    checklist: (task?.checklist || []).map(item => ({
+      id: item.id,
+      title: item.title,
+      isCompleted: item.isCompleted,
+      dueDate: item.dueDate ? (() => {
+        const date = item.dueDate.toDate();
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+      })() : ''
+    })),
+    dependsOn: task?.dependsOn || []
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [currentTaskFiles, setCurrentTaskFiles] = useState<TaskFile[]>(task?.attachedFiles || []);
+  // Occurrences of a series default to editing only this occurrence
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>('occurrence');
+  const isSeriesOccurrence = !!task?.seriesId && !!task?.recurrence;
 
   // Validate form data
   const validateForm = (): boolean => {
@@ -83,6 +106,20 @@ export default function TaskForm({
       newErrors.description = 'Description must be less than 500 characters';
     }
 
+    if (task && formData.dependsOn && formData.dependsOn.length > 0) {
+      const cycle = findDependencyCycle(task.id, formData.dependsOn, availableTasks);
+      if (cycle) {
+        newErrors.dependsOn = `Circular dependency: ${formatDependencyCycle(cycle, availableTasks, formData.title || 'This task')}`;
+      }
+    }
+
+    if (formData.recurrence && (!isSeriesOccurrence || editScope === 'series')) {
+      const recurrenceError = validateRecurrence(formData.recurrence, formData.dueDate);
+      if (recurrenceError) {
+        newErrors.recurrence = recurrenceError;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -98,6 +135,38 @@ export default function TaskForm({
     }
   };
 
+  // Handle recurrence changes
+  const handleRecurrenceChange = (value: RecurrenceFormData | null) => {
+    setFormData(prev => ({ ...prev, recurrence: value }));
+    setTouched(prev => ({ ...prev, recurrence: true }));
+
+    if (errors.recurrence) {
+      setErrors(prev => ({ ...prev, recurrence: '' }));
+    }
+  };
+
+  // Handle checklist changes
+  const handleChecklistChange = (items: TaskChecklistItemFormData[]) => {
+    setFormData(prev => ({ ...prev, checklist: items }));
+  };
+
+  // Handle dependency changes
+  const handleDependsOnChange = (dependsOn: string[]) => {
+    setFormData(prev => ({ ...prev, dependsOn }));
+    setTouched(prev => ({ ...prev, dependsOn: true }));
+
+    if (errors.dependsOn) {
+      setErrors(prev => ({ ...prev, dependsOn: '' }));
+    }
+  };
+
+  // Tasks that can still be picked as prerequisites
+  const dependencyOptions = availableTasks.filter(t =>
+    t.id !== task?.id &&
+    t.status !== 'completed' &&
+    !(formData.dependsOn || []).includes(t.id)
+  );
+
   // Handle file deletion from task
   const handleFileDelete = (fileId: string) => {
     setCurrentTaskFiles(prev => prev.filter(file => file.id !== fileId));
@@ -113,12 +182,18 @@ export default function TaskForm({
       description: true,
       dueDate: true,
       priority: true,
-      subjectId: true
+      subjectId: true,
+      recurrence: true,
+      dependsOn: true
     });
 
     if (validateForm()) {
             try {
-        await onSubmit(formData, selectedFiles, currentTaskFiles);
+        // The repeat rule belongs to the series, so a single occurrence edit leaves it untouched
+        const data = isSeriesOccurrence && editScope === 'occurrence'
+          ? { ...formData, recurrence: undefined }
+          : formData;
+        await onSubmit(data, selectedFiles, currentTaskFiles, isSeriesOccurrence ? editScope : 'series');
               } catch (error) {
               }
     } else {
@@ -359,6 +434,137 @@ export default function TaskForm({
         )}
       </div>
 
+      {/* Dependencies */}
+      <div>
+        <label style={{ fontSize: '14px', fontWeight: '500', color: 'var(--text)', display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+          <Link2 size={16} />
+          Depends On (Optional)
+        </label>
+        {(formData.dependsOn || []).length > 0 && (
+          <div className="row" style={{ gap: '6px', flexWrap: 'wrap', marginBottom: '8px' }}>
+            {(formData.dependsOn || []).map(dependencyId => {
+              const dependency = availableTasks.find(t => t.id === dependencyId);
+              return (
+                <span
+                  key={dependencyId}
+                  className="badge"
+                  style={{
+                    background: dependency?.status === 'completed' ? 'var(--ok-100)' : 'var(--bg-2)',
+                    color: 'var(--text)',
+                    border: '1px solid var(--border)',
+                    fontSize: '12px',
+                    padding: '4px 8px',
+                    borderRadius: '4px',
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: '6px'
+                  }}
+                >
+                  {dependency?.title || 'Deleted task'}
+                  <button
+                    type="button"
+                    onClick={() => handleDependsOnChange((formData.dependsOn || []).filter(id => id !== dependencyId))}
+                    disabled={isLoading}
+                    style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: 'var(--text-2)', display: 'flex' }}
+                    title="Remove dependency"
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+        )}
+        <select
+          value=""
+          onChange={(e) => e.target.value && handleDependsOnChange([...(formData.dependsOn || []), e.target.value])}
+          style={{
+            width: '100%',
+            padding: '10px 12px',
+            border: `1px solid ${errors.dependsOn && touched.dependsOn ? 'var(--danger)' : 'var(--border)'}`,
+            borderRadius: '8px',
+            fontSize: '14px',
+            color: 'var(--text)',
+            background: 'var(--bg)',
+            cursor: 'pointer'
+          }}
+          disabled={isLoading || dependencyOptions.length === 0}
+        >
+          <option value="">
+            {dependencyOptions.length === 0 ? 'No other open tasks' : 'Add a task that must be finished first...'}
+          </option>
+          {dependencyOptions.map(t => (
+            <option key={t.id} value={t.id}>
+              {t.title}
+            </option>
+          ))}
+        </select>
+        {errors.dependsOn && touched.dependsOn && (
+          <div style={{ marginTop: '4px', fontSize: '12px', color: 'var(--danger)', display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <AlertCircle size={12} />
+            {errors.dependsOn}
+          </div>
+        )}
+      </div>
+
+      {/* Checklist */}
+      <TaskChecklistEditor
+        items={formData.checklist || []}
+        onChange={handleChecklistChange}
+        disabled={isLoading}
+      />
+
+      {/* Recurrence */}
+      <div>
+        {isSeriesOccurrence && (
+          <div style={{
+            marginBottom: '12px',
+            padding: '12px 16px',
+            background: 'var(--info-100)',
+            border: '1px solid var(--info-200)',
+            borderRadius: '8px'
+          }}>
+            <div className="row" style={{ gap: '8px', alignItems: 'center', marginBottom: '8px', fontSize: '14px', color: 'var(--text)' }}>
+              <Repeat size={16} />
+              <span>
+                Occurrence {task?.occurrenceIndex || 1} of a repeating task
+                {task?.recurrence && ` (${formatRecurrence(task.recurrence)})`}
+              </span>
+            </div>
+            <div className="row" style={{ gap: '16px', flexWrap: 'wrap' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: 'var(--text)', cursor: 'pointer' }}>
+                <input
+                  type="radio"
+                  name="editScope"
+                  checked={editScope === 'occurrence'}
+                  onChange={() => setEditScope('occurrence')}
+                  disabled={isLoading}
+                />
+                This occurrence only
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: 'var(--text)', cursor: 'pointer' }}>
+                <input
+                  type="radio"
+                  name="editScope"
+                  checked={editScope === 'series'}
+                  onChange={() => setEditScope('series')}
+                  disabled={isLoading}
+                />
+                The whole series
+              </label>
+            </div>
+          </div>
+        )}
+
+        <RecurrenceEditor
+          value={formData.recurrence ?? null}
+          onChange={handleRecurrenceChange}
+          defaultWeekday={formData.dueDate ? new Date(formData.dueDate).getDay() : undefined}
+          error={touched.recurrence ? errors.recurrence : undefined}
+          disabled={isLoading || (isSeriesOccurrence && editScope === 'occurrence')}
+        />
+      </div>
+
       {/* File Attachments */}
       <div>
         <label style={{ fontSize: '14px', fontWeight: '500', color: 'var(--text)', display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '12px' }}>
@@ -374,8 +580,13 @@ export default function TaskForm({
                         setSelectedFiles(files);
           }}
           onFileDelete={handleFileDelete}
-          disabled={isLoading}
+          disabled={isLoading || !!task?.submittedAt}
         />
+        {task?.submittedAt && (
+          <div className="small" style={{ color: 'var(--text-2)', marginTop: '8px' }}>
+            Attachments are locked while the assignment is handed in.
+          </div>
+        )}
       </div>
 
       {/* Priority Preview */}
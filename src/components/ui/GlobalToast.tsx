@@ -1,9 +1,10 @@
 "use client";
 
 import { useNotifications } from '@/contexts/NotificationContext';
+import { REMINDER_SNOOZE_OPTIONS } from '@/types/reminder';
 
 export default function GlobalToast() {
-  const { toastNotifications, removeToastNotification } = useNotifications();
+  const { toastNotifications, removeToastNotification, snoozeReminderNotification } = useNotifications();
 
   if (toastNotifications.length === 0) {
     return null;
@@ -45,6 +46,27 @@ export default function GlobalToast() {
           <div style={{ fontSize: '14px', opacity: 0.9 }}>
             {toast.body}
           </div>
+          {toast.reminderId && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '10px' }}>
+              {REMINDER_SNOOZE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => snoozeReminderNotification(toast.reminderId!, option.value)}
+                  style={{
+                    background: 'rgba(255,255,255,0.15)',
+                    border: '1px solid rgba(255,255,255,0.3)',
+                    color: 'white',
+                    fontSize: '12px',
+                    padding: '4px 8px',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
           <button
             onClick={() => removeToastNotification(toast.id)}
             style={{
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import {
+  RecurrenceFormData,
+  RecurrenceFrequency,
+  RecurrenceEndType,
+  RECURRENCE_FREQUENCY_CONFIG,
+  RECURRENCE_WEEKDAYS,
+  DEFAULT_RECURRENCE_FORM_DATA
+} from "@/types/recurrence";
+import { Repeat, AlertCircle, X } from "lucide-react";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceFormData | null;
+  onChange: (value: RecurrenceFormData | null) => void;
+  defaultWeekday?: number; // Preselected weekday when weekly repetition is switched on
+  error?: string;
+  disabled?: boolean;
+}
+
+const inputStyle = {
+  padding: '8px 10px',
+  border: '1px solid var(--border)',
+  borderRadius: '8px',
+  fontSize: '14px',
+  color: 'var(--text)',
+  background: 'var(--bg)'
+};
+
+export default function RecurrenceEditor({
+  value,
+  onChange,
+  defaultWeekday,
+  error,
+  disabled = false
+}: RecurrenceEditorProps) {
+  const [exceptionDate, setExceptionDate] = useState('');
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      ...DEFAULT_RECURRENCE_FORM_DATA,
+      byWeekday: defaultWeekday !== undefined ? [defaultWeekday] : []
+    });
+  };
+
+  const update = (changes: Partial<RecurrenceFormData>) => {
+    if (value) {
+      onChange({ ...value, ...changes });
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    update({
+      byWeekday: value.byWeekday.includes(day)
+        ? value.byWeekday.filter(d => d !== day)
+        : [...value.byWeekday, day]
+    });
+  };
+
+  const addException = () => {
+    if (!value || !exceptionDate || value.exceptions.includes(exceptionDate)) return;
+    update({ exceptions: [...value.exceptions, exceptionDate].sort() });
+    setExceptionDate('');
+  };
+
+  return (
+    <div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: disabled ? 'not-allowed' : 'pointer' }}>
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => handleToggle(e.target.checked)}
+          disabled={disabled}
+          style={{ width: '16px', height: '16px' }}
+        />
+        <Repeat size={16} style={{ color: 'var(--text-2)' }} />
+        <span style={{ fontSize: '14px', fontWeight: '500', color: 'var(--text)' }}>
+          Repeat
+        </span>
+      </label>
+
+      {value && (
+        <div style={{
+          marginTop: '12px',
+          padding: '16px',
+          background: 'var(--bg-2)',
+          border: '1px solid var(--border)',
+          borderRadius: '8px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '14px'
+        }}>
+          {/* Frequency and interval */}
+          <div className="row" style={{ gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+            <span style={{ fontSize: '14px', color: 'var(--text-2)' }}>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(e) => update({ interval: parseInt(e.target.value, 10) || 1 })}
+              disabled={disabled}
+              style={{ ...inputStyle, width: '70px' }}
+            />
+            <select
+              value={value.frequency}
+              onChange={(e) => update({ frequency: e.target.value as RecurrenceFrequency })}
+              disabled={disabled}
+              style={{ ...inputStyle, cursor: 'pointer' }}
+            >
+              {Object.entries(RECURRENCE_FREQUENCY_CONFIG).map(([key, config]) => (
+                <option key={key} value={key}>
+                  {config.unit}{value.interval !== 1 ? 's' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Weekdays */}
+          {value.frequency === 'weekly' && (
+            <div className="row" style={{ gap: '6px', flexWrap: 'wrap' }}>
+              {RECURRENCE_WEEKDAYS.map((label, day) => {
+                const isSelected = value.byWeekday.includes(day);
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    disabled={disabled}
+                    className="btn ghost"
+                    style={{
+                      padding: '6px 10px',
+                      fontSize: '13px',
+                      borderRadius: '6px',
+                      background: isSelected ? 'var(--brand-100)' : 'transparent',
+                      color: isSelected ? 'var(--brand)' : 'var(--text-2)',
+                      border: isSelected ? '1px solid var(--brand-200)' : '1px solid var(--border)'
+                    }}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* End condition */}
+          <div className="row" style={{ gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+            <span style={{ fontSize: '14px', color: 'var(--text-2)' }}>Ends</span>
+            <select
+              value={value.endType}
+              onChange={(e) => update({ endType: e.target.value as RecurrenceEndType })}
+              disabled={disabled}
+              style={{ ...inputStyle, cursor: 'pointer' }}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {value.endType === 'until' && (
+              <input
+                type="date"
+                value={value.until}
+                onChange={(e) => update({ until: e.target.value })}
+                disabled={disabled}
+                style={inputStyle}
+              />
+            )}
+            {value.endType === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={value.count}
+                  onChange={(e) => update({ count: parseInt(e.target.value, 10) || 1 })}
+                  disabled={disabled}
+                  style={{ ...inputStyle, width: '80px' }}
+                />
+                <span style={{ fontSize: '14px', color: 'var(--text-2)' }}>occurrences</span>
+              </>
+            )}
+          </div>
+
+          {/* Exceptions */}
+          <div>
+            <div className="row" style={{ gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+              <span style={{ fontSize: '14px', color: 'var(--text-2)' }}>Skip dates</span>
+              <input
+                type="date"
+                value={exceptionDate}
+                onChange={(e) => setExceptionDate(e.target.value)}
+                disabled={disabled}
+                style={inputStyle}
+              />
+              <button
+                type="button"
+                onClick={addException}
+                disabled={disabled || !exceptionDate}
+                className="btn ghost"
+                style={{ padding: '6px 12px', fontSize: '13px' }}
+              >
+                Add
+              </button>
+            </div>
+            {value.exceptions.length > 0 && (
+              <div className="row" style={{ gap: '6px', flexWrap: 'wrap', marginTop: '8px' }}>
+                {value.exceptions.map(date => (
+                  <span
+                    key={date}
+                    className="badge"
+                    style={{
+                      background: 'var(--bg)',
+                      color: 'var(--text-2)',
+                      border: '1px solid var(--border)',
+                      fontSize: '12px',
+                      padding: '2px 6px',
+                      borderRadius: '4px',
+                      display: 'inline-flex',
+                      alignItems: 'center',
+                      gap: '4px'
+                    }}
+                  >
+                    {date}
+                    <button
+                      type="button"
+                      onClick={() => update({ exceptions: value.exceptions.filter(d => d !== date) })}
+                      disabled={disabled}
+                      style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: 'var(--text-2)', display: 'flex' }}
+                      title="Remove skipped date"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div style={{ marginTop: '4px', fontSize: '12px', color: 'var(--danger)', display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <AlertCircle size={12} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
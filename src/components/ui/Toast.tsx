@@ -8,10 +8,16 @@ export interface ToastProps {
   title: string;
   message?: string;
   duration?: number;
+  action?: ToastAction;
   onClose: () => void;
 }
 
-export default function Toast({ type, title, message, duration = 4000, onClose }: ToastProps) {
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export default function Toast({ type, title, message, duration = 4000, action, onClose }: ToastProps) {
   React.useEffect(() => {
     const timer = setTimeout(onClose, duration);
     return () => clearTimeout(timer);
@@ -106,6 +112,27 @@ export default function Toast({ type, title, message, duration = 4000, onClose }
             {message}
           </div>
         )}
+        {action && (
+          <button
+            onClick={() => {
+              action.onClick();
+              onClose();
+            }}
+            style={{
+              marginTop: '8px',
+              background: 'none',
+              border: `1px solid ${config.color}`,
+              color: config.color,
+              cursor: 'pointer',
+              padding: '4px 10px',
+              borderRadius: '4px',
+              fontSize: '13px',
+              fontWeight: '600'
+            }}
+          >
+            {action.label}
+          </button>
+        )}
       </div>
 
       <button
@@ -2,7 +2,7 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { Task } from '@/types/task';
-import { Reminder } from '@/types/reminder';
+import { Reminder, ReminderSnoozeOption, REMINDER_SNOOZE_OPTIONS } from '@/types/reminder';
 import {
   PersistentNotification,
   LocalNotification,
@@ -18,6 +18,7 @@ import {
   listenToUnreadCount,
   cleanupOldNotifications as cleanupOldNotificationsService
 } from '@/lib/notificationServices';
+import { snoozeReminder } from '@/lib/reminders';
 import { useAuth } from './AuthContext';
 import notificationConfig from '@/lib/notification-config.json';
 
@@ -26,8 +27,12 @@ interface ToastNotification {
   title: string;
   body: string;
   timestamp: number;
+  reminderId?: string; // Set for reminder toasts so they can offer snooze actions
 }
 
+// Snooze actions offered on browser notifications (browsers show at most two)
+const BROWSER_SNOOZE_ACTIONS: ReminderSnoozeOption[] = ['15m', 'tomorrow'];
+
 interface NotificationContextType {
   // Existing toast functionality
   toastNotifications: ToastNotification[];
@@ -37,6 +42,7 @@ interface NotificationContextType {
   setUpcomingTasks: (tasks: Task[] | ((prev: Task[]) => Task[])) => void;
   upcomingReminders: Reminder[];
   setUpcomingReminders: (reminders: Reminder[] | ((prev: Reminder[]) => Reminder[])) => void;
+  snoozeReminderNotification: (reminderId: string, option: ReminderSnoozeOption) => Promise<void>;
 
   // New persistent notification functionality
   notifications: PersistentNotification[];
@@ -392,7 +398,8 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
 
       const dueDate = reminder.dueDate.toDate();
       const notificationTime = new Date(dueDate.getTime() - notificationTiming * 60000);
-      const notificationKey = `reminder-${reminder.id}`;
+      // Keyed by due time so a snoozed or repeating reminder notifies again
+      const notificationKey = `reminder-${reminder.id}-${dueDate.getTime()}`;
       const timeDiff = Math.abs(now.getTime() - notificationTime.getTime());
       const isInNotificationWindow = timeDiff < 60000;
 
@@ -411,20 +418,18 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
           id: notificationKey,
           title: 'Reminder Due Soon!',
           body: `${reminder.title} is due in ${notificationTiming} minute${notificationTiming !== 1 ? 's' : ''}`,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          reminderId: reminder.id
         });
 
         // Send browser notification
         if (canSendBrowserNotifications) {
-          try {
-            new Notification('Reminder Due Soon!', {
-              body: `${reminder.title} is due in ${notificationTiming} minute${notificationTiming !== 1 ? 's' : ''}`,
-              icon: '/favicon.ico',
-              tag: notificationKey
-            });
-          } catch (error) {
-            console.error('Browser notification failed:', error);
-          }
+          showReminderBrowserNotification(
+            'Reminder Due Soon!',
+            `${reminder.title} is due in ${notificationTiming} minute${notificationTiming !== 1 ? 's' : ''}`,
+            notificationKey,
+            reminder.id
+          );
         }
 
         setSentNotifications(prev => new Set([...prev, notificationKey]));
@@ -509,6 +514,69 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     });
   };
 
+  // Show a browser notification for a reminder, with snooze actions when the service worker is available
+  const showReminderBrowserNotification = async (title: string, body: string, tag: string, reminderId: string) => {
+    try {
+      const registration = 'serviceWorker' in navigator
+        ? await navigator.serviceWorker.getRegistration('/reminder-sw.js')
+        : undefined;
+
+      if (registration) {
+        await registration.showNotification(title, {
+          body,
+          icon: '/favicon.ico',
+          tag,
+          data: { reminderId },
+          actions: BROWSER_SNOOZE_ACTIONS.map(option => ({
+            action: option,
+            title: `Snooze ${REMINDER_SNOOZE_OPTIONS.find(o => o.value === option)?.label.toLowerCase()}`
+          }))
+        } as NotificationOptions);
+      } else {
+        new Notification(title, { body, icon: '/favicon.ico', tag });
+      }
+    } catch (error) {
+      console.error('Browser notification failed:', error);
+    }
+  };
+
+  // Snooze a reminder from its toast or browser notification
+  const snoozeReminderNotification = async (reminderId: string, option: ReminderSnoozeOption) => {
+    if (!user) return;
+
+    try {
+      const updatedReminder = await snoozeReminder(user.userId, reminderId, option);
+      updateUpcomingReminders(prev => {
+        const others = prev.filter(r => r.id !== reminderId);
+        return [...others, updatedReminder]
+          .sort((a, b) => a.dueDate.toDate().getTime() - b.dueDate.toDate().getTime());
+      });
+      setToastNotifications(prev => prev.filter(toast => toast.reminderId !== reminderId));
+    } catch (error) {
+      console.error('Error snoozing reminder:', error);
+    }
+  };
+
+  // Register the reminder service worker and handle snooze actions it relays
+  useEffect(() => {
+    if (!user || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/reminder-sw.js').catch(error => {
+      console.error('Reminder service worker registration failed:', error);
+    });
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'reminder-snooze' && event.data.reminderId) {
+        snoozeReminderNotification(event.data.reminderId, event.data.option as ReminderSnoozeOption);
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+    };
+  }, [user]);
+
   // Replace existing checkAndSendNotifications with enhanced version
   useEffect(() => {
     if (!user) return;
@@ -542,6 +610,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ chil
     setUpcomingTasks,
     upcomingReminders,
     setUpcomingReminders: updateUpcomingReminders,
+    snoozeReminderNotification,
 
     // New persistent notification functionality
     notifications,
@@ -17,15 +17,14 @@ import {
 import {
   createTimerSession,
   updateTimerSession,
-  completeTimerSession,
   pauseTimerSession,
   resumeTimerSession,
-  stopTimerSession,
   getActiveTimerSession,
   getTimerStats,
   getUserTimerSettings,
   updateUserTimerSettings
 } from '@/lib/timers';
+import { completeTimerSessionOrQueue } from '@/lib/outbox';
 
 interface TimerContextType extends TimerState {
   // Timer control functions
@@ -146,9 +145,9 @@ function TimerProviderInner({ children }: { children: React.ReactNode }) {
           if (newTimeRemaining <= 0) {
             // Session completed
             if (prev.currentSession) {
-              completeTimerSession(
-                prev.currentSession.id,
+              completeTimerSessionOrQueue(
                 prev.currentSession.userId,
+                prev.currentSession,
                 prev.currentSession.duration
               ).catch(console.error);
             }
@@ -310,7 +309,7 @@ function TimerProviderInner({ children }: { children: React.ReactNode }) {
 
     try {
       const actualDuration = timerState.currentSession.duration - timerState.timeRemaining;
-      await stopTimerSession(timerState.currentSession.id, user.userId, actualDuration);
+      await completeTimerSessionOrQueue(user.userId, timerState.currentSession, actualDuration);
 
       await refreshStats();
 
@@ -335,7 +334,7 @@ function TimerProviderInner({ children }: { children: React.ReactNode }) {
     try {
       // Complete current session
       const actualDuration = timerState.currentSession.duration - timerState.timeRemaining;
-      await completeTimerSession(timerState.currentSession.id, user.userId, actualDuration);
+      await completeTimerSessionOrQueue(user.userId, timerState.currentSession, actualDuration);
 
       // Determine next session type
       const nextType = getNextSessionType(
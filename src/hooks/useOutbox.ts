@@ -0,0 +1,42 @@
+/**
+ * Offline outbox hook for MyStudyHub
+ * Keeps the sync status indicator up to date with queued and conflicting changes
+ */
+
+import { useEffect, useState } from 'react';
+import { subscribeToOutbox, syncOutbox, resolveOutboxConflict } from '@/lib/outbox';
+import { SyncState, ConflictResolution } from '@/types/offline';
+
+const EMPTY_SYNC_STATE: SyncState = {
+  isOnline: true,
+  isSyncing: false,
+  pending: [],
+  conflicts: [],
+  lastSyncedAt: null,
+  lastError: null
+};
+
+/**
+ * Follow a user's sync state
+ */
+export function useOutbox(userId: string | undefined) {
+  const [syncState, setSyncState] = useState<SyncState>(EMPTY_SYNC_STATE);
+
+  useEffect(() => {
+    if (!userId) {
+      setSyncState(EMPTY_SYNC_STATE);
+      return;
+    }
+    return subscribeToOutbox(userId, setSyncState);
+  }, [userId]);
+
+  const syncNow = async () => {
+    if (userId) await syncOutbox(userId);
+  };
+
+  const resolveConflict = async (entryId: string, resolution: ConflictResolution) => {
+    if (userId) await resolveOutboxConflict(userId, entryId, resolution);
+  };
+
+  return { ...syncState, syncNow, resolveConflict };
+}
@@ -4,8 +4,25 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { SearchState, SearchResult, SearchFilters, SearchResultType } from '@/types/search';
-import { universalSearch } from '@/lib/search';
+import {
+  SearchState,
+  SearchResult,
+  SearchFilters,
+  SearchResultType,
+  SearchSuggestion,
+  SearchResponse,
+  SavedSearch,
+  SEARCH_CONFIG
+} from '@/types/search';
+import { universalSearch, getSearchSuggestions } from '@/lib/search';
+import { subscribeToSearchIndex } from '@/lib/searchIndex';
+import { listenToSavedSearches, runSavedSearch } from '@/lib/savedSearches';
+import {
+  getUserSearchHistory,
+  recordSearchClick,
+  deleteSearchHistoryEntry,
+  clearSearchHistory
+} from '@/lib/searchHistory';
 
 interface UseSearchOptions {
   userId: string;
@@ -265,107 +282,160 @@ export function useSearch({
 
 /**
  * Hook for search history management
+ * Searches are recorded by universalSearch; this exposes the user's recent queries
  */
-export function useSearchHistory(maxHistory: number = 10) {
+export function useSearchHistory(userId: string, maxHistory: number = 10) {
   const [history, setHistory] = useState<string[]>([]);
 
-  // Load history from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      try {
-        const saved = localStorage.getItem('search-history');
-        if (saved) {
-          setHistory(JSON.parse(saved));
-        }
-      } catch (error) {
-        // Silent error handling
-      }
-    }
-  }, []);
+  const loadHistory = useCallback(async () => {
+    const entries = await getUserSearchHistory(userId);
+    setHistory(entries.slice(0, maxHistory).map(entry => entry.query));
+  }, [userId, maxHistory]);
 
-  // Add to history
-  const addToHistory = useCallback((query: string) => {
-    if (!query.trim()) return;
-
-    const newHistory = [query.trim(), ...history.filter(h => h !== query.trim())].slice(0, maxHistory);
-    setHistory(newHistory);
+  // Load history when the user changes
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
 
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.setItem('search-history', JSON.stringify(newHistory));
-      } catch (error) {
-        // Silent error handling
-      }
-    }
-  }, [history, maxHistory]);
+  // Record that a result of a query was opened
+  const recordClick = useCallback(async (query: string, result: SearchResult) => {
+    await recordSearchClick(userId, query, result);
+    await loadHistory();
+  }, [userId, loadHistory]);
 
   // Remove from history
-  const removeFromHistory = useCallback((query: string) => {
-    const newHistory = history.filter(h => h !== query);
-    setHistory(newHistory);
-
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.setItem('search-history', JSON.stringify(newHistory));
-      } catch (error) {
-        // Silent error handling
-      }
+  const removeFromHistory = useCallback(async (query: string) => {
+    try {
+      await deleteSearchHistoryEntry(userId, query);
+      setHistory(prev => prev.filter(h => h !== query));
+    } catch (error) {
+      console.error('Error removing search history entry:', error);
     }
-  }, [history]);
+  }, [userId]);
 
   // Clear history
-  const clearHistory = useCallback(() => {
-    setHistory([]);
-
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.removeItem('search-history');
-      } catch (error) {
-        // Silent error handling
-      }
+  const clearHistory = useCallback(async () => {
+    try {
+      await clearSearchHistory(userId);
+      setHistory([]);
+    } catch (error) {
+      console.error('Error clearing search history:', error);
     }
-  }, []);
+  }, [userId]);
 
   return {
     history,
-    addToHistory,
+    recordClick,
     removeFromHistory,
-    clearHistory
+    clearHistory,
+    refreshHistory: loadHistory
   };
 }
 
 /**
  * Hook for search suggestions and autocomplete
+ * An empty query suggests recent and popular searches
  */
 export function useSearchSuggestions(userId: string) {
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const requestRef = useRef(0);
 
   const getSuggestions = useCallback(async (partialQuery: string) => {
-    if (!partialQuery.trim()) {
-      setSuggestions([]);
-      return;
-    }
-
+    const request = ++requestRef.current;
     setIsLoading(true);
     try {
-      // For now, return basic suggestions
-      // This could be enhanced with search history, popular queries, etc.
-      const basicSuggestions: string[] = [];
-
-      // TODO: Implement actual suggestion logic
-      setSuggestions(basicSuggestions.slice(0, 8));
+      const nextSuggestions = await getSearchSuggestions(userId, partialQuery);
+      // Ignore answers to queries typed over since
+      if (request === requestRef.current) {
+        setSuggestions(nextSuggestions);
+      }
     } catch (error) {
       console.error('Suggestions error:', error);
       setSuggestions([]);
     } finally {
-      setIsLoading(false);
+      if (request === requestRef.current) {
+        setIsLoading(false);
+      }
     }
-  }, []);
+  }, [userId]);
 
   return {
     suggestions,
     isLoading,
     getSuggestions
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Hook for a user's smart lists, kept current by a Firestore listener
+ */
+export function useSavedSearches(userId: string | undefined) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return listenToSavedSearches(userId, nextSavedSearches => {
+      setSavedSearches(nextSavedSearches);
+      setIsLoading(false);
+    });
+  }, [userId]);
+
+  return {
+    savedSearches,
+    pinnedSearches: savedSearches.filter(savedSearch => savedSearch.isPinned),
+    isLoading
+  };
+}
+
+/**
+ * Hook for the live results of smart lists, keyed by saved search ID
+ * Results are re-run whenever the search index changes and as time passes
+ */
+export function useSmartListResults(userId: string | undefined, savedSearches: SavedSearch[]) {
+  const [responses, setResponses] = useState<Record<string, SearchResponse>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const requestRef = useRef(0);
+
+  // Latest lists, read by runs the index or the clock start
+  const savedSearchesRef = useRef(savedSearches);
+  useEffect(() => {
+    savedSearchesRef.current = savedSearches;
+  }, [savedSearches]);
+
+  // Re-run when what is searched changes, not when a list is only renamed or pinned
+  const searchKey = JSON.stringify(savedSearches.map(savedSearch => [savedSearch.id, savedSearch.query, savedSearch.filters]));
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const runSearches = async () => {
+      const request = ++requestRef.current;
+      const entries = await Promise.all(savedSearchesRef.current.map(async savedSearch =>
+        [savedSearch.id, await runSavedSearch(userId, savedSearch)] as const
+      ));
+
+      // Ignore runs overtaken by newer data
+      if (request === requestRef.current) {
+        setResponses(Object.fromEntries(entries));
+        setIsLoading(false);
+      }
+    };
+
+    runSearches();
+    const unsubscribe = subscribeToSearchIndex(userId, runSearches);
+    const interval = setInterval(runSearches, SEARCH_CONFIG.smartListRefreshMs);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [userId, searchKey]);
+
+  return {
+    responses,
+    isLoading
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Account data erasure for MyStudyHub
+ * Removes everything a user owns when their account is deleted, then checks that nothing is left
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  writeBatch,
+  DocumentReference
+} from 'firebase/firestore';
+import { ref, listAll, deleteObject, StorageReference } from 'firebase/storage';
+import { getDb, getStorageInstance } from './firebase';
+import { clearSearchIndex } from './searchIndex';
+import { clearSearchHistory } from './searchHistory';
+import { deleteCourse } from './courses';
+import {
+  AccountDeletionProgress,
+  AccountDeletionReport,
+  AccountDeletionReportEntry
+} from '@/types/user';
+import { Course } from '@/types/course';
+
+// Collections holding a user's documents, found by their userId field
+// Tasks come first: the files of a handed-in task can only be removed once the task is gone
+const USER_COLLECTIONS = [
+  { collection: 'tasks', label: 'Tasks', field: 'userId' },
+  // After tasks: a reviewed hand-in can only be removed once its task is gone
+  { collection: 'submissions', label: 'Handed-in assignments', field: 'userId' },
+  { collection: 'subjectFiles', label: 'Files', field: 'userId' },
+  { collection: 'fileContents', label: 'File text', field: 'userId' },
+  { collection: 'reminders', label: 'Reminders', field: 'userId' },
+  { collection: 'subjects', label: 'Subjects', field: 'userId' },
+  { collection: 'timer-sessions', label: 'Timer sessions', field: 'userId' },
+  { collection: 'notifications', label: 'Notifications', field: 'userId' },
+  { collection: 'savedSearches', label: 'Smart lists', field: 'userId' },
+  { collection: 'searchHistory', label: 'Search history', field: 'userId' },
+  { collection: 'assessments', label: 'Assessments', field: 'userId' },
+  { collection: 'gradingScales', label: 'Grading scales', field: 'userId' },
+  { collection: 'enrollments', label: 'Joined courses', field: 'userId' }
+];
+
+// What a teacher runs, found by their teacherId field
+// Courses are deleted first together with their assignments, join codes and students' enrollments;
+// whatever is left afterwards is swept up, and hand-ins go last, once their courses are gone
+const TEACHER_COLLECTIONS = [
+  { collection: 'courses', label: 'Courses you teach', field: 'teacherId' },
+  { collection: 'assignments', label: 'Published assignments', field: 'teacherId' },
+  { collection: 'joinCodes', label: 'Course join codes', field: 'teacherId' },
+  { collection: 'enrollments', label: 'Students in your courses', field: 'teacherId' },
+  { collection: 'submissions', label: 'Hand-ins to your courses', field: 'teacherId' }
+];
+
+// Documents keyed by the user's ID; the profile in 'users' is deleted with the account itself
+const USER_DOCUMENTS = [
+  { collection: 'timer-settings', label: 'Timer settings' }
+];
+
+// Firestore allows 500 writes per batch
+const MAX_BATCH_SIZE = 450;
+
+/**
+ * Get references to every document of a user in a collection
+ */
+async function getUserDocRefs(collectionName: string, userId: string, field: string = 'userId'): Promise<DocumentReference[]> {
+  const snapshot = await getDocs(query(collection(getDb(), collectionName), where(field, '==', userId)));
+  return snapshot.docs.map(docSnapshot => docSnapshot.ref);
+}
+
+/**
+ * Delete documents in batches
+ */
+async function deleteInBatches(refs: DocumentReference[]): Promise<void> {
+  for (let start = 0; start < refs.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(getDb());
+    refs.slice(start, start + MAX_BATCH_SIZE).forEach(docRef => batch.delete(docRef));
+    await batch.commit();
+  }
+}
+
+/**
+ * Delete the courses a teacher runs through deleteCourse, so students' enrollments go with them
+ * Returns how many documents were removed from each collection
+ */
+async function deleteTaughtCourses(teacherId: string): Promise<Record<string, number>> {
+  const snapshot = await getDocs(query(collection(getDb(), 'courses'), where('teacherId', '==', teacherId)));
+  const removed: Record<string, number> = { courses: 0, assignments: 0, joinCodes: 0, enrollments: 0 };
+
+  for (const courseSnapshot of snapshot.docs) {
+    const course = { id: courseSnapshot.id, ...courseSnapshot.data() } as Course;
+    const { assignments, enrollments } = await deleteCourse(course);
+    removed.courses++;
+    removed.joinCodes++;
+    removed.assignments += assignments;
+    removed.enrollments += enrollments;
+  }
+  return removed;
+}
+
+/**
+ * List every object under a storage folder, including sub-folders
+ * Folders that cannot be listed are treated as empty
+ */
+async function listStorageFolder(folder: StorageReference): Promise<StorageReference[]> {
+  try {
+    const result = await listAll(folder);
+    const nested = await Promise.all(result.prefixes.map(listStorageFolder));
+    return [...result.items, ...nested.flat()];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Storage folders only the user writes to: their profile folder, task attachments,
+ * and the folders of their subjects
+ */
+function getUserStorageFolders(userId: string, subjectIds: string[]): StorageReference[] {
+  const storage = getStorageInstance();
+  return [
+    `users/${userId}`,
+    `tasks/${userId}`,
+    ...subjectIds.map(subjectId => `subjects/${subjectId}`)
+  ].map(path => ref(storage, path));
+}
+
+async function listUserStoragePaths(userId: string, subjectIds: string[]): Promise<string[]> {
+  const objects = await Promise.all(getUserStorageFolders(userId, subjectIds).map(listStorageFolder));
+  return objects.flat().map(object => object.fullPath);
+}
+
+/**
+ * Delete all of a user's uploaded files and data, reporting progress as it goes,
+ * and verify afterwards that nothing is left
+ * Failures are not thrown; whatever could not be deleted shows up in the report
+ */
+export async function eraseUserData(
+  userId: string,
+  onProgress?: (progress: AccountDeletionProgress) => void
+): Promise<AccountDeletionReport> {
+  const storage = getStorageInstance();
+
+  // Uploaded files, by the path recorded on each file plus anything left in the user's folders
+  onProgress?.({ stage: 'files', label: 'Finding your files', completed: 0, total: 1 });
+  const [fileSnapshot, subjectRefs] = await Promise.all([
+    getDocs(query(collection(getDb(), 'subjectFiles'), where('userId', '==', userId))),
+    getUserDocRefs('subjects', userId)
+  ]);
+  const subjectIds = subjectRefs.map(subjectRef => subjectRef.id);
+  const recordedPaths = fileSnapshot.docs
+    .map(docSnapshot => docSnapshot.data().storagePath)
+    .filter((path): path is string => typeof path === 'string' && path.length > 0);
+  const storagePaths = Array.from(new Set([...recordedPaths, ...await listUserStoragePaths(userId, subjectIds)]));
+
+  const deleteStorageObjects = async (paths: string[], label: string): Promise<number> => {
+    let deleted = 0;
+    for (let index = 0; index < paths.length; index++) {
+      onProgress?.({ stage: 'files', label, completed: index, total: paths.length });
+      try {
+        await deleteObject(ref(storage, paths[index]));
+        deleted++;
+      } catch (error) {
+        // Already gone is as good as deleted
+        if ((error as { code?: string }).code === 'storage/object-not-found') {
+          deleted++;
+        } else {
+          console.warn(`Failed to delete ${paths[index]}:`, error);
+        }
+      }
+    }
+    return deleted;
+  };
+
+  // Task attachments wait until the tasks are deleted, as a handed-in task's files are locked;
+  // subject files go now, while the subjects they are stored under still exist
+  const taskFolder = `tasks/${userId}/`;
+  const taskPaths = storagePaths.filter(path => path.startsWith(taskFolder));
+  let deletedFiles = await deleteStorageObjects(
+    storagePaths.filter(path => !path.startsWith(taskFolder)),
+    'Deleting uploaded files'
+  );
+  // Subject folders can only be listed while their subjects exist, so they are checked now
+  const remainingSubjectPaths = (await listUserStoragePaths(userId, subjectIds))
+    .filter(path => path.startsWith('subjects/'));
+
+  // Firestore documents
+  const entries: AccountDeletionReportEntry[] = [];
+  const collections = [...USER_COLLECTIONS, ...TEACHER_COLLECTIONS];
+  const steps = collections.length + USER_DOCUMENTS.length;
+
+  // Counted under the teacher's collections below
+  let removedWithCourses: Record<string, number> = {};
+
+  for (const { collection: collectionName, label, field } of collections) {
+    onProgress?.({ stage: 'data', label: `Deleting ${label.toLowerCase()}`, completed: entries.length, total: steps });
+    const isTeacherCollection = field === 'teacherId';
+    let deleted = 0;
+    try {
+      if (isTeacherCollection && collectionName === 'courses') {
+        removedWithCourses = await deleteTaughtCourses(userId);
+      }
+      const refs = await getUserDocRefs(collectionName, userId, field);
+      await deleteInBatches(refs);
+      deleted = refs.length;
+    } catch (error) {
+      console.warn(`Failed to delete ${collectionName}:`, error);
+    }
+    if (isTeacherCollection) {
+      deleted += removedWithCourses[collectionName] ?? 0;
+    }
+    entries.push({ collection: collectionName, label, deleted, remaining: 0 });
+  }
+
+  deletedFiles += await deleteStorageObjects(taskPaths, 'Deleting task attachments');
+
+  for (const { collection: collectionName, label } of USER_DOCUMENTS) {
+    onProgress?.({ stage: 'data', label: `Deleting ${label.toLowerCase()}`, completed: entries.length, total: steps });
+    let deleted = 0;
+    try {
+      const docRef = doc(getDb(), collectionName, userId);
+      if ((await getDoc(docRef)).exists()) {
+        await deleteDoc(docRef);
+        deleted = 1;
+      }
+    } catch (error) {
+      console.warn(`Failed to delete ${collectionName}:`, error);
+    }
+    entries.push({ collection: collectionName, label, deleted, remaining: 0 });
+  }
+
+  // Also drops the cached history and the search index kept in this browser
+  try {
+    await clearSearchHistory(userId);
+    await clearSearchIndex(userId);
+  } catch (error) {
+    console.warn('Failed to clear search data:', error);
+  }
+
+  // Verification: look for anything that is still there
+  onProgress?.({ stage: 'verifying', label: 'Checking that everything was deleted', completed: 0, total: entries.length + 1 });
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    try {
+      // Entries follow the collections, then the documents keyed by the user's ID
+      const userCollection = collections[index];
+      entry.remaining = !userCollection
+        ? (await getDoc(doc(getDb(), entry.collection, userId))).exists() ? 1 : 0
+        : (await getUserDocRefs(entry.collection, userId, userCollection.field)).length;
+    } catch {
+      // A collection that cannot be read cannot be verified as empty
+      entry.remaining = Math.max(entry.remaining, 1);
+    }
+    onProgress?.({ stage: 'verifying', label: 'Checking that everything was deleted', completed: index + 1, total: entries.length + 1 });
+  }
+
+  const remainingPaths = [...remainingSubjectPaths, ...await listUserStoragePaths(userId, [])];
+
+  return {
+    collections: entries,
+    storage: {
+      deleted: deletedFiles,
+      remaining: remainingPaths
+    },
+    isComplete: remainingPaths.length === 0 && entries.every(entry => entry.remaining === 0),
+    verifiedAt: new Date().toISOString()
+  };
+}
@@ -1,207 +1,163 @@
-import {
-  collection,
-  query,
-  where,
-  getDocs,
-  getDoc,
-  doc,
-  sum,
-  orderBy,
-  limit
-} from "firebase/firestore";
-import { getDb } from "./firebase";
-import { AdminDashboardStats } from "@/types/admin";
+/**
+ * Admin dashboard statistics for MyStudyHub
+ * Runs on the server only: it reads every student's documents with the service account,
+ * which the browser is never allowed to do
+ */
+
+import { listDocuments, ServerDocument } from "./firebaseServer";
+import { AdminDashboardData, AdminDashboardStats, FileTypeDistributionEntry } from "@/types/admin";
+import { SearchAnalytics, SearchResultType } from "@/types/search";
 
 /**
- * Get the total number of registered students
+ * Get the total storage used by all files
  */
-export async function getTotalStudentCount(): Promise<number> {
-  try {
-    const db = getDb();
-    const studentsQuery = query(
-      collection(db, "users"),
-      where("role", "==", "student")
-    );
-    const snapshot = await getDocs(studentsQuery);
-    return snapshot.size;
-  } catch (error) {
-    console.error("Error getting student count:", error);
-    throw error;
-  }
+function getTotalStorageUsed(files: ServerDocument[]): number {
+  return files.reduce((total, file) => total + (Number(file.data.size) || 0), 0);
 }
 
 /**
- * Get the total number of files uploaded across all students
+ * Get storage usage breakdown by user
  */
-export async function getTotalFileCount(): Promise<number> {
-  try {
-    const db = getDb();
-    const filesSnapshot = await getDocs(collection(db, "subjectFiles"));
-    return filesSnapshot.size;
-  } catch (error) {
-    console.error("Error getting total file count:", error);
-    throw error;
-  }
+function getStorageUsageByUser(
+  files: ServerDocument[],
+  users: ServerDocument[]
+): AdminDashboardStats["storageUsedByUser"] {
+  const userStorageMap = new Map<string, { storageUsed: number; fileCount: number }>();
+
+  // Aggregate storage by user
+  files.forEach((file) => {
+    const userId = String(file.data.userId);
+    const current = userStorageMap.get(userId) || { storageUsed: 0, fileCount: 0 };
+    current.storageUsed += Number(file.data.size) || 0;
+    current.fileCount += 1;
+    userStorageMap.set(userId, current);
+  });
+
+  const emails = new Map(users.map(user => [user.id, String(user.data.email || "")]));
+  const storageData = Array.from(userStorageMap.entries()).map(([userId, storage]) => ({
+    userId,
+    userEmail: emails.get(userId) || "Unknown User",
+    storageUsed: storage.storageUsed,
+    fileCount: storage.fileCount,
+  }));
+
+  // Sort by storage used (descending)
+  storageData.sort((a, b) => b.storageUsed - a.storageUsed);
+
+  return storageData;
 }
 
 /**
- * Get the total storage used by all files
+ * Get file type distribution statistics
  */
-export async function getTotalStorageUsed(): Promise<number> {
-  try {
-    const db = getDb();
-    const filesSnapshot = await getDocs(collection(db, "subjectFiles"));
-    let totalSize = 0;
-
-    filesSnapshot.forEach((doc) => {
-      const data = doc.data();
-      totalSize += data.size || 0;
-    });
-
-    return totalSize;
-  } catch (error) {
-    console.error("Error getting total storage used:", error);
-    throw error;
-  }
+function getFileTypeDistribution(files: ServerDocument[]): FileTypeDistributionEntry[] {
+  const typeMap = new Map<string, { count: number; size: number }>();
+
+  files.forEach((file) => {
+    const fileType = String(file.data.type || "unknown");
+    const current = typeMap.get(fileType) || { count: 0, size: 0 };
+    current.count += 1;
+    current.size += Number(file.data.size) || 0;
+    typeMap.set(fileType, current);
+  });
+
+  const distribution = Array.from(typeMap.entries()).map(([type, stats]) => ({
+    type,
+    count: stats.count,
+    size: stats.size,
+  }));
+
+  // Sort by count (descending)
+  distribution.sort((a, b) => b.count - a.count);
+
+  return distribution;
 }
 
 /**
- * Get storage usage breakdown by user
+ * Get search usage statistics from every user's search history
  */
-export async function getStorageUsageByUser(): Promise<Array<{
-  userId: string;
-  userEmail: string;
-  storageUsed: number;
-  fileCount: number;
-}>> {
-  try {
-    const db = getDb();
-    // Get all subject files
-    const filesSnapshot = await getDocs(collection(db, "subjectFiles"));
-    const userStorageMap = new Map<string, { storageUsed: number; fileCount: number }>();
-
-    // Aggregate storage by user
-    filesSnapshot.forEach((doc) => {
-      const data = doc.data();
-      const userId = data.userId;
-      const fileSize = data.size || 0;
-
-      if (!userStorageMap.has(userId)) {
-        userStorageMap.set(userId, { storageUsed: 0, fileCount: 0 });
+function getSearchAnalytics(history: ServerDocument[]): SearchAnalytics {
+  const queryMap = new Map<string, { query: string; count: number; totalResults: number }>();
+  const typeDistribution: Record<SearchResultType, number> = { task: 0, subject: 0, reminder: 0, file: 0 };
+  const noResultQueries = new Set<string>();
+  let totalSearches = 0;
+  let totalResults = 0;
+  let totalSearchTime = 0;
+  let cacheHits = 0;
+
+  history.forEach(({ data }) => {
+    const searchCount = Number(data.searchCount) || 0;
+    const normalizedQuery = String(data.normalizedQuery || "");
+
+    totalSearches += searchCount;
+    totalResults += Number(data.totalResults) || 0;
+    totalSearchTime += Number(data.totalSearchTime) || 0;
+    cacheHits += Number(data.cacheHits) || 0;
+
+    // The same query from different students counts as one popular query
+    if (searchCount > 0) {
+      const current = queryMap.get(normalizedQuery) || { query: String(data.query), count: 0, totalResults: 0 };
+      current.count += searchCount;
+      current.totalResults += Number(data.totalResults) || 0;
+      queryMap.set(normalizedQuery, current);
+
+      if (data.lastResultCount === 0) {
+        noResultQueries.add(normalizedQuery);
       }
+    }
 
-      const current = userStorageMap.get(userId)!;
-      current.storageUsed += fileSize;
-      current.fileCount += 1;
+    Object.entries((data.clickedTypes as Record<string, unknown>) || {}).forEach(([type, count]) => {
+      if (type in typeDistribution) {
+        typeDistribution[type as SearchResultType] += Number(count) || 0;
+      }
     });
+  });
+
+  const popularQueries = Array.from(queryMap.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10)
+    .map(({ query, count, totalResults }) => ({
+      query,
+      count,
+      avgResults: Math.round((totalResults / count) * 10) / 10,
+    }));
 
-    // Get user emails for the storage data
-    const storageData = await Promise.all(
-      Array.from(userStorageMap.entries()).map(async ([userId, storage]) => {
-        try {
-          const userDoc = await getDoc(doc(db, "users", userId));
-          const userEmail = userDoc.exists() ? userDoc.data().email : "Unknown User";
-
-          return {
-            userId,
-            userEmail,
-            storageUsed: storage.storageUsed,
-            fileCount: storage.fileCount,
-          };
-        } catch (error) {
-          console.error(`Error getting user data for ${userId}:`, error);
-          return {
-            userId,
-            userEmail: "Unknown User",
-            storageUsed: storage.storageUsed,
-            fileCount: storage.fileCount,
-          };
-        }
-      })
-    );
-
-    // Sort by storage used (descending)
-    storageData.sort((a, b) => b.storageUsed - a.storageUsed);
-
-    return storageData;
-  } catch (error) {
-    console.error("Error getting storage usage by user:", error);
-    throw error;
-  }
+  return {
+    totalSearches,
+    averageResults: totalSearches > 0 ? Math.round((totalResults / totalSearches) * 10) / 10 : 0,
+    popularQueries,
+    typeDistribution,
+    noResultQueries: Array.from(noResultQueries).slice(0, 20),
+    searchPerformance: {
+      averageSearchTime: totalSearches > 0 ? Math.round(totalSearchTime / totalSearches) : 0,
+      cacheHitRate: totalSearches > 0 ? cacheHits / totalSearches : 0,
+    },
+  };
 }
 
 /**
- * Get comprehensive admin dashboard statistics
+ * Get everything the admin dashboard shows, reading each collection once
  */
-export async function getAdminDashboardStats(): Promise<AdminDashboardStats> {
+export async function getAdminDashboardData(): Promise<AdminDashboardData> {
   try {
-    const [totalStudents, totalFiles, totalStorageUsed, storageUsedByUser] = await Promise.all([
-      getTotalStudentCount(),
-      getTotalFileCount(),
-      getTotalStorageUsed(),
-      getStorageUsageByUser(),
+    const [users, files, history] = await Promise.all([
+      listDocuments("users"),
+      listDocuments("subjectFiles"),
+      listDocuments("searchHistory"),
     ]);
 
     return {
-      totalStudents,
-      totalFiles,
-      totalStorageUsed,
-      storageUsedByUser,
+      stats: {
+        totalStudents: users.filter(user => user.data.role === "student").length,
+        totalFiles: files.length,
+        totalStorageUsed: getTotalStorageUsed(files),
+        storageUsedByUser: getStorageUsageByUser(files, users),
+      },
+      fileTypeDistribution: getFileTypeDistribution(files),
+      searchAnalytics: getSearchAnalytics(history),
     };
   } catch (error) {
     console.error("Error getting admin dashboard stats:", error);
     throw error;
   }
 }
-
-/**
- * Format bytes to human readable format
- */
-export function formatBytes(bytes: number): string {
-  if (bytes === 0) return "0 Bytes";
-
-  const k = 1024;
-  const sizes = ["Bytes", "KB", "MB", "GB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-}
-
-/**
- * Get file type distribution statistics
- */
-export async function getFileTypeDistribution(): Promise<Array<{ type: string; count: number; size: number }>> {
-  try {
-    const db = getDb();
-    const filesSnapshot = await getDocs(collection(db, "subjectFiles"));
-    const typeMap = new Map<string, { count: number; size: number }>();
-
-    filesSnapshot.forEach((doc) => {
-      const data = doc.data();
-      const fileType = data.type || "unknown";
-      const fileSize = data.size || 0;
-
-      if (!typeMap.has(fileType)) {
-        typeMap.set(fileType, { count: 0, size: 0 });
-      }
-
-      const current = typeMap.get(fileType)!;
-      current.count += 1;
-      current.size += fileSize;
-    });
-
-    const distribution = Array.from(typeMap.entries()).map(([type, stats]) => ({
-      type,
-      count: stats.count,
-      size: stats.size,
-    }));
-
-    // Sort by count (descending)
-    distribution.sort((a, b) => b.count - a.count);
-
-    return distribution;
-  } catch (error) {
-    console.error("Error getting file type distribution:", error);
-    throw error;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * Browser side of the admin area
+ * Calls the admin route handlers with the signed-in user's ID token; the server decides access
+ */
+
+import { getAuthInstance } from "./firebase";
+import { ADMIN_CLAIM, AdminDashboardData, AdminFileConfig } from "@/types/admin";
+
+/**
+ * Call an admin route handler as the signed-in user
+ */
+async function adminRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const currentUser = getAuthInstance().currentUser;
+  if (!currentUser) {
+    throw new Error("Sign in to continue");
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...init.headers,
+      Authorization: `Bearer ${await currentUser.getIdToken()}`,
+      "Content-Type": "application/json",
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+  return body as T;
+}
+
+/**
+ * Whether the signed-in user's ID token carries the admin claim
+ */
+export async function hasAdminClaim(): Promise<boolean> {
+  const currentUser = getAuthInstance().currentUser;
+  if (!currentUser) {
+    return false;
+  }
+
+  const { claims } = await currentUser.getIdTokenResult();
+  return claims[ADMIN_CLAIM] === true;
+}
+
+/**
+ * Ask the server to grant or remove the admin claim from the user's role,
+ * then refresh the ID token so the result takes effect straight away
+ */
+export async function refreshAdminClaim(): Promise<boolean> {
+  await adminRequest<{ isAdmin: boolean }>("/api/admin/claims", { method: "POST" });
+  await getAuthInstance().currentUser?.getIdToken(true);
+  return hasAdminClaim();
+}
+
+/**
+ * Get the admin dashboard statistics
+ */
+export async function fetchAdminDashboard(): Promise<AdminDashboardData> {
+  return adminRequest<AdminDashboardData>("/api/admin/stats");
+}
+
+/**
+ * Save the app-wide file settings
+ */
+export async function saveAdminSettings(fileConfig: AdminFileConfig): Promise<void> {
+  await adminRequest("/api/admin/settings", {
+    method: "PUT",
+    body: JSON.stringify({ fileConfig }),
+  });
+}
@@ -2,9 +2,7 @@ import {
   collection,
   doc,
   getDoc,
-  setDoc,
-  updateDoc,
-  serverTimestamp,
+  Timestamp,
   query,
   limit,
   orderBy,
@@ -31,16 +29,13 @@ export async function getAdminSettings(): Promise<AdminSettings> {
         ...settingsDoc.data(),
       } as AdminSettings;
     } else {
-      // If no settings exist, create default settings
-      const defaultSettings: AdminSettings = {
+      // Until an admin saves settings the defaults apply; only admins may write this document
+      return {
         id: DEFAULT_SETTINGS_ID,
         fileConfig: DEFAULT_ADMIN_FILE_CONFIG,
         updatedBy: "system",
-        updatedAt: serverTimestamp() as any,
+        updatedAt: Timestamp.now(),
       };
-
-      await setDoc(doc(db, ADMIN_SETTINGS_COLLECTION, DEFAULT_SETTINGS_ID), defaultSettings);
-      return defaultSettings;
     }
   } catch (error) {
     console.error("Error getting admin settings:", error);
@@ -48,28 +43,6 @@ export async function getAdminSettings(): Promise<AdminSettings> {
   }
 }
 
-/**
- * Update admin settings
- */
-export async function updateAdminSettings(
-  fileConfig: AdminFileConfig,
-  updatedBy: string
-): Promise<void> {
-  try {
-    const db = getDb();
-    const settingsRef = doc(db, ADMIN_SETTINGS_COLLECTION, DEFAULT_SETTINGS_ID);
-
-    await updateDoc(settingsRef, {
-      fileConfig,
-      updatedBy,
-      updatedAt: serverTimestamp(),
-    });
-  } catch (error) {
-    console.error("Error updating admin settings:", error);
-    throw error;
-  }
-}
-
 /**
  * Get file validation rules for use throughout the application
  */
@@ -0,0 +1,91 @@
+/**
+ * Admin authorization for MyStudyHub route handlers
+ * The admin area is granted by a custom auth claim that only the server sets,
+ * so it cannot be reached by changing anything in the browser
+ */
+
+import { getDocument, mergeDocument, updateCustomClaims, verifyIdToken } from './firebaseServer';
+import { validateFileConfig } from './adminConfig';
+import { ADMIN_CLAIM, AdminAuthorization, AdminFileConfig } from '@/types/admin';
+import { VerifiedIdToken } from '@/types/user';
+
+const ADMIN_SETTINGS_COLLECTION = 'adminSettings';
+const DEFAULT_SETTINGS_ID = 'global';
+
+/**
+ * Verify the ID token in a request's Authorization header
+ */
+async function getRequestToken(request: Request): Promise<VerifiedIdToken | null> {
+  const header = request.headers.get('authorization') || '';
+  const idToken = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!idToken) {
+    return null;
+  }
+
+  try {
+    return await verifyIdToken(idToken);
+  } catch (error) {
+    console.warn('Rejected ID token:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Check that a request comes from a signed-in user
+ */
+export async function authorizeUser(request: Request): Promise<AdminAuthorization> {
+  const token = await getRequestToken(request);
+  if (!token) {
+    return { authorized: false, status: 401, error: 'Sign in to continue' };
+  }
+  return { authorized: true, uid: token.uid, email: token.email };
+}
+
+/**
+ * Check that a request comes from a user holding the admin claim
+ */
+export async function authorizeAdmin(request: Request): Promise<AdminAuthorization> {
+  const token = await getRequestToken(request);
+  if (!token) {
+    return { authorized: false, status: 401, error: 'Sign in to continue' };
+  }
+  if (token.claims[ADMIN_CLAIM] !== true) {
+    return { authorized: false, status: 403, error: 'Admin access required' };
+  }
+  return { authorized: true, uid: token.uid, email: token.email };
+}
+
+/**
+ * Give or take away a user's admin claim to match the role in their profile
+ * Roles can only be changed by admins or in the Firebase Console, so the profile is trusted here
+ */
+export async function syncAdminClaim(uid: string): Promise<boolean> {
+  const profile = await getDocument('users', uid);
+  const isAdmin = profile?.data.role === 'admin' && profile.data.accountStatus !== 'suspended';
+
+  await updateCustomClaims(uid, { [ADMIN_CLAIM]: isAdmin ? true : null });
+  return isAdmin;
+}
+
+/**
+ * Save the app-wide file settings
+ * Returns the validation errors instead of saving when the configuration is not allowed
+ */
+export async function updateAdminSettings(fileConfig: AdminFileConfig, updatedBy: string): Promise<string[]> {
+  const errors = validateFileConfig(fileConfig);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  await mergeDocument(ADMIN_SETTINGS_COLLECTION, DEFAULT_SETTINGS_ID, {
+    fileConfig: {
+      allowedFileTypes: fileConfig.allowedFileTypes,
+      maxFileSizeBytes: fileConfig.maxFileSizeBytes,
+      maxFileNameLength: fileConfig.maxFileNameLength,
+      maxFilesPerSubject: fileConfig.maxFilesPerSubject
+    },
+    updatedBy,
+    updatedAt: new Date()
+  });
+  return [];
+}
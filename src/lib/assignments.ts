@@ -0,0 +1,300 @@
+/**
+ * Course assignments for MyStudyHub
+ * Teachers publish assignments to a course; each enrolled student's hub turns them into tasks
+ * under the subject the student linked the course to, and the teacher follows completion
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot,
+  arrayUnion,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import { listenToUserEnrollments } from './courses';
+import { Assignment, AssignmentFormData, AssignmentProgress, Course, Enrollment, Submission } from '@/types/course';
+import { Task, TaskStatus } from '@/types/task';
+
+const ASSIGNMENTS_COLLECTION = 'assignments';
+const ENROLLMENTS_COLLECTION = 'enrollments';
+const TASKS_COLLECTION = 'tasks';
+
+/**
+ * A student's task for an assignment has a fixed ID, so it is only ever created once
+ */
+export function getAssignmentTaskId(assignmentId: string, userId: string): string {
+  return `${assignmentId}_${userId}`;
+}
+
+function toAssignment(id: string, data: Record<string, any>): Assignment {
+  return {
+    id,
+    courseId: data.courseId,
+    teacherId: data.teacherId,
+    title: data.title,
+    description: data.description || undefined,
+    dueDate: data.dueDate,
+    priority: data.priority || 'medium',
+    createdAt: data.createdAt || Timestamp.now(),
+    updatedAt: data.updatedAt || Timestamp.now()
+  };
+}
+
+function validateAssignment(data: AssignmentFormData): void {
+  if (!data.title.trim()) {
+    throw new Error('Assignment title is required');
+  }
+  if (!data.dueDate || isNaN(new Date(data.dueDate).getTime())) {
+    throw new Error('Assignment due date is required');
+  }
+}
+
+function toStoredAssignment(data: AssignmentFormData) {
+  return {
+    title: data.title.trim(),
+    description: data.description?.trim() || '',
+    dueDate: Timestamp.fromDate(new Date(data.dueDate)),
+    priority: data.priority
+  };
+}
+
+/**
+ * Publish an assignment to a course
+ */
+export async function createAssignment(course: Pick<Course, 'id' | 'teacherId'>, data: AssignmentFormData): Promise<string> {
+  validateAssignment(data);
+
+  try {
+    const docRef = await addDoc(collection(getDb(), ASSIGNMENTS_COLLECTION), {
+      courseId: course.id,
+      teacherId: course.teacherId,
+      ...toStoredAssignment(data),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    throw new Error('Failed to publish assignment');
+  }
+}
+
+/**
+ * Change an assignment; students' tasks follow the next time their hub syncs
+ */
+export async function updateAssignment(assignmentId: string, data: AssignmentFormData): Promise<void> {
+  validateAssignment(data);
+
+  try {
+    await updateDoc(doc(getDb(), ASSIGNMENTS_COLLECTION, assignmentId), {
+      ...toStoredAssignment(data),
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    throw new Error('Failed to update assignment');
+  }
+}
+
+/**
+ * Withdraw an assignment
+ * Tasks students already received are theirs and are kept
+ */
+export async function deleteAssignment(assignmentId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(getDb(), ASSIGNMENTS_COLLECTION, assignmentId));
+  } catch (error) {
+    throw new Error('Failed to delete assignment');
+  }
+}
+
+/**
+ * Real-time listener for a course's assignments as its teacher, by due date
+ */
+export function listenToCourseAssignments(
+  course: Pick<Course, 'id' | 'teacherId'>,
+  callback: (assignments: Assignment[]) => void
+): () => void {
+  const q = query(
+    collection(getDb(), ASSIGNMENTS_COLLECTION),
+    where('courseId', '==', course.id),
+    where('teacherId', '==', course.teacherId)
+  );
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs
+      .map(docSnapshot => toAssignment(docSnapshot.id, docSnapshot.data()))
+      .sort((a, b) => a.dueDate.toMillis() - b.dueDate.toMillis()));
+  }, (error) => {
+    console.error('Error in assignments listener:', error);
+  });
+}
+
+/**
+ * Real-time listener for the tasks students received from a course, for its teacher
+ */
+export function listenToCourseAssignmentTasks(
+  course: Pick<Course, 'id' | 'teacherId'>,
+  callback: (tasks: Task[]) => void
+): () => void {
+  const q = query(
+    collection(getDb(), TASKS_COLLECTION),
+    where('teacherId', '==', course.teacherId),
+    where('courseId', '==', course.id)
+  );
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs.map(docSnapshot => ({ id: docSnapshot.id, ...docSnapshot.data() }) as Task));
+  }, (error) => {
+    console.error('Error in assignment tasks listener:', error);
+  });
+}
+
+/**
+ * Where each student of a course is with an assignment
+ */
+export function getAssignmentProgress(
+  assignment: Assignment,
+  enrollments: Enrollment[],
+  tasks: Task[],
+  submissions: Submission[] = []
+): AssignmentProgress[] {
+  const now = Date.now();
+
+  return enrollments.map(enrollment => {
+    const taskId = getAssignmentTaskId(assignment.id, enrollment.userId);
+    const task = tasks.find(t => t.id === taskId);
+    // A hand-in outlives the task it came from
+    const submission = submissions.find(s => s.id === taskId) || null;
+
+    if (submission) {
+      return { enrollment, status: submission.status, taskId: task ? task.id : null, submission };
+    }
+
+    if (!task) {
+      return {
+        enrollment,
+        status: enrollment.receivedAssignmentIds.includes(assignment.id) ? 'removed' : 'not_received',
+        taskId: null,
+        submission: null
+      };
+    }
+
+    return {
+      enrollment,
+      status: task.status === 'completed'
+        ? 'completed'
+        : task.dueDate.toMillis() < now ? 'overdue' : 'pending',
+      taskId: task.id,
+      submission: null
+    };
+  });
+}
+
+/**
+ * Bring a student's task for an assignment in line with the assignment
+ * Creates the task the first time; afterwards only follows changes the teacher makes
+ */
+async function syncAssignmentTask(userId: string, enrollment: Enrollment, assignment: Assignment): Promise<void> {
+  const db = getDb();
+  const taskRef = doc(db, TASKS_COLLECTION, getAssignmentTaskId(assignment.id, userId));
+  const taskSnapshot = await getDoc(taskRef);
+
+  if (!taskSnapshot.exists()) {
+    // A task the student deleted stays deleted
+    if (enrollment.receivedAssignmentIds.includes(assignment.id)) return;
+
+    await setDoc(taskRef, {
+      userId,
+      title: assignment.title,
+      description: assignment.description || '',
+      dueDate: assignment.dueDate,
+      priority: assignment.priority,
+      status: 'pending' as TaskStatus,
+      subjectId: enrollment.subjectId || null,
+      attachedFiles: [],
+      checklist: [],
+      dependsOn: [],
+      assignmentId: assignment.id,
+      courseId: assignment.courseId,
+      teacherId: assignment.teacherId,
+      assignmentUpdatedAt: assignment.updatedAt,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    await updateDoc(doc(db, ENROLLMENTS_COLLECTION, enrollment.id), {
+      receivedAssignmentIds: arrayUnion(assignment.id)
+    });
+    return;
+  }
+
+  const task = taskSnapshot.data() as Task;
+  if (task.assignmentUpdatedAt && task.assignmentUpdatedAt.toMillis() >= assignment.updatedAt.toMillis()) return;
+
+  await updateDoc(taskRef, {
+    title: assignment.title,
+    description: assignment.description || '',
+    dueDate: assignment.dueDate,
+    priority: assignment.priority,
+    assignmentUpdatedAt: assignment.updatedAt,
+    updatedAt: serverTimestamp()
+  });
+}
+
+/**
+ * Keep a student's tasks in line with the assignments of every course they joined
+ * Returns a cleanup function that stops listening
+ */
+export function startAssignmentSync(userId: string): () => void {
+  const courseListeners = new Map<string, () => void>();
+  const enrollmentsById = new Map<string, Enrollment>();
+
+  const stopEnrollments = listenToUserEnrollments(userId, (enrollments) => {
+    enrollments.forEach(enrollment => enrollmentsById.set(enrollment.id, enrollment));
+
+    // Stop following courses the student left
+    courseListeners.forEach((stop, enrollmentId) => {
+      if (!enrollments.some(enrollment => enrollment.id === enrollmentId)) {
+        stop();
+        courseListeners.delete(enrollmentId);
+        enrollmentsById.delete(enrollmentId);
+      }
+    });
+
+    enrollments
+      .filter(enrollment => !courseListeners.has(enrollment.id))
+      .forEach(enrollment => {
+        const q = query(collection(getDb(), ASSIGNMENTS_COLLECTION), where('courseId', '==', enrollment.courseId));
+
+        courseListeners.set(enrollment.id, onSnapshot(q, async (querySnapshot) => {
+          // Pending writes have no server timestamp yet; the confirmed snapshot follows
+          if (querySnapshot.metadata.hasPendingWrites) return;
+
+          for (const docSnapshot of querySnapshot.docs) {
+            const current = enrollmentsById.get(enrollment.id);
+            if (!current) return;
+            try {
+              await syncAssignmentTask(userId, current, toAssignment(docSnapshot.id, docSnapshot.data()));
+            } catch (error) {
+              console.error(`Failed to sync assignment ${docSnapshot.id}:`, error);
+            }
+          }
+        }, (error) => {
+          console.error('Error in course assignments listener:', error);
+        }));
+      });
+  });
+
+  return () => {
+    stopEnrollments();
+    courseListeners.forEach(stop => stop());
+    courseListeners.clear();
+  };
+}
@@ -24,8 +24,9 @@ import {
   Timestamp
 } from 'firebase/firestore';
 
-import { getAuthInstance, getDb, getStorageInstance } from './firebase';
-import { ref, listAll, deleteObject } from 'firebase/storage';
+import { getAuthInstance, getDb } from './firebase';
+import { eraseUserData } from './accountDeletion';
+import { clearSearchIndex } from './searchIndex';
 import type {
   RegistrationFormData,
   LoginFormData,
@@ -34,7 +35,9 @@ import type {
   RegistrationResponse,
   LoginResponse,
   User,
-  AuthError
+  AuthError,
+  AccountDeletionProgress,
+  AccountDeletionResponse
 } from '@/types/user';
 import { AUTH_ERROR_CODES } from '@/types/user';
 
@@ -198,6 +201,14 @@ return {
  */
 export async function logoutUser(): Promise<void> {
   try {
+    // The search index keeps the user's data, file text included, in this browser
+    const currentUser = getAuthInstance().currentUser;
+    if (currentUser) {
+      await clearSearchIndex(currentUser.uid).catch(error => {
+        console.warn('Failed to clear the search index:', error);
+      });
+    }
+
     await signOut(getAuthInstance());
   } catch (error) {
 throw error;
@@ -375,10 +386,13 @@ export async function changeUserPassword(
 
 /**
  * Delete user account and all associated data
+ * The sign-in is only removed once verification finds none of the user's data left,
+ * so a partly failed deletion can be retried
  */
 export async function deleteUserAccount(
-  currentPassword: string
-): Promise<{ success: boolean; error?: AuthError }> {
+  currentPassword: string,
+  onProgress?: (progress: AccountDeletionProgress) => void
+): Promise<AccountDeletionResponse> {
   try {
     const auth = getAuthInstance();
     const currentUser = auth.currentUser;
@@ -394,23 +408,24 @@ export async function deleteUserAccount(
     }
 
     // Reauthenticate user first (required for security-sensitive operations)
+    onProgress?.({ stage: 'authenticating', label: 'Confirming your password', completed: 0, total: 1 });
     const credential = EmailAuthProvider.credential(currentUser.email, currentPassword);
     await reauthenticateWithCredential(currentUser, credential);
 
-    // Delete user's files from Firebase Storage
-    try {
-      const storage = getStorageInstance();
-      const userFilesRef = ref(storage, `users/${currentUser.uid}/`);
-      const filesList = await listAll(userFilesRef);
-
-      // Delete all files in user's directory
-      const deletePromises = filesList.items.map(fileRef => deleteObject(fileRef));
-      await Promise.all(deletePromises);
-    } catch (storageError) {
-      // Continue with deletion even if file cleanup fails
-      console.warn('Failed to delete user files:', storageError);
+    const report = await eraseUserData(currentUser.uid, onProgress);
+    if (!report.isComplete) {
+      return {
+        success: false,
+        report,
+        error: {
+          code: 'data-remaining',
+          message: 'Some of your data could not be deleted, so your account was kept. Please try again.'
+        }
+      };
     }
 
+    onProgress?.({ stage: 'account', label: 'Deleting your account', completed: 0, total: 1 });
+
     // Delete user document from Firestore
     try {
       await deleteDoc(doc(getDb(), 'users', currentUser.uid));
@@ -421,7 +436,7 @@ export async function deleteUserAccount(
     // Delete user from Firebase Auth
     await deleteUser(currentUser);
 
-    return { success: true };
+    return { success: true, report };
 
   } catch (error: unknown) {
     const errorCode = (error as { code?: string }).code || 'unknown-error';
@@ -15,14 +15,22 @@ import {
 import { getDb } from './firebase';
 import { Task } from '@/types/task';
 import { Reminder } from '@/types/reminder';
-import { Subject } from '@/types/subject';
+import { Subject, SubjectScheduleType } from '@/types/subject';
 import { getUserSubjects } from './storage';
+import { timeToMinutes } from './timetable';
+import { updateTask } from './tasks';
+import { updateReminder } from './reminders';
+
+export type CalendarEventType = 'task' | 'reminder' | 'class';
 
 export interface CalendarEvent {
   id: string;
   title: string;
   date: Date;
-  type: 'task' | 'reminder';
+  endDate?: Date; // Only set for class sessions
+  type: CalendarEventType;
+  room?: string;
+  classType?: SubjectScheduleType;
   priority?: string;
   status?: string;
   isCompleted?: boolean;
@@ -37,6 +45,25 @@ export interface CalendarDay {
   isToday: boolean;
 }
 
+export type CalendarView = 'month' | 'week' | 'day';
+
+export interface CalendarRange {
+  start: Date; // Local midnight of the first day
+  end: Date; // End of the last day
+}
+
+// A timed event placed in the hourly grid of the week and day views
+export interface PositionedCalendarEvent {
+  event: CalendarEvent;
+  startMinutes: number;
+  durationMinutes: number;
+  lane: number;
+  laneCount: number;
+}
+
+// Tasks and reminders have no duration, so they take up this much of the grid
+export const POINT_EVENT_MINUTES = 30;
+
 /**
  * Get the first day of the month for a given date
  */
@@ -61,6 +88,90 @@ export function getWeekStart(date: Date): Date {
   return new Date(d.setDate(diff));
 }
 
+/**
+ * Get the date range covered by a calendar view
+ * The month view includes the padding days of adjacent months
+ */
+export function getCalendarRange(date: Date, view: CalendarView): CalendarRange {
+  let start: Date;
+  let days: number;
+
+  switch (view) {
+    case 'day':
+      start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      days = 1;
+      break;
+    case 'week': {
+      const weekStart = getWeekStart(date);
+      start = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate());
+      days = 7;
+      break;
+    }
+    case 'month':
+    default: {
+      const calendarStart = getWeekStart(getMonthStart(date));
+      const calendarEnd = getWeekStart(getMonthEnd(date));
+      start = new Date(calendarStart.getFullYear(), calendarStart.getMonth(), calendarStart.getDate());
+      days = Math.round((new Date(calendarEnd.getFullYear(), calendarEnd.getMonth(), calendarEnd.getDate()).getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 7;
+      break;
+    }
+  }
+
+  return {
+    start,
+    end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + days - 1, 23, 59, 59, 999)
+  };
+}
+
+/**
+ * Move a date forward or backward by one period of a view
+ */
+export function shiftCalendarDate(date: Date, view: CalendarView, direction: -1 | 1): Date {
+  const d = new Date(date);
+  switch (view) {
+    case 'day':
+      d.setDate(d.getDate() + direction);
+      break;
+    case 'week':
+      d.setDate(d.getDate() + 7 * direction);
+      break;
+    case 'month':
+    default:
+      // Anchor to the first of the month so e.g. Jan 31 doesn't skip February
+      d.setDate(1);
+      d.setMonth(d.getMonth() + direction);
+      break;
+  }
+  return d;
+}
+
+/**
+ * Get all days in a date range
+ * isCurrentMonth is relative to the month of the reference date
+ */
+export function getDaysInRange(range: CalendarRange, referenceDate: Date = range.start): CalendarDay[] {
+  const days: CalendarDay[] = [];
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const current = new Date(range.start.getFullYear(), range.start.getMonth(), range.start.getDate());
+  while (current <= range.end) {
+    const currentCopy = new Date(current);
+
+    days.push({
+      date: currentCopy,
+      events: [],
+      isCurrentMonth: currentCopy.getMonth() === referenceDate.getMonth() &&
+        currentCopy.getFullYear() === referenceDate.getFullYear(),
+      isToday: currentCopy.getTime() === today.getTime()
+    });
+
+    current.setDate(current.getDate() + 1);
+  }
+
+  return days;
+}
+
 /**
  * Get all days for a calendar month view (including padding days)
  */
@@ -94,45 +205,37 @@ export function getCalendarDays(date: Date): CalendarDay[] {
 }
 
 /**
- * Fetch all tasks for a given month
+ * Fetch all tasks due within a date range
  */
-export async function getTasksForMonth(userId: string, date: Date): Promise<Task[]> {
+export async function getTasksInRange(userId: string, start: Date, end: Date): Promise<Task[]> {
   const db = getDb();
-  const monthStart = getMonthStart(date);
-  const monthEnd = getMonthEnd(date);
 
-  
   const q = query(
     collection(db, 'tasks'),
     where('userId', '==', userId),
-    where('dueDate', '>=', Timestamp.fromDate(monthStart)),
-    where('dueDate', '<=', Timestamp.fromDate(monthEnd)),
+    where('dueDate', '>=', Timestamp.fromDate(start)),
+    where('dueDate', '<=', Timestamp.fromDate(end)),
     orderBy('dueDate', 'asc')
   );
 
   const querySnapshot = await getDocs(q);
-  const tasks = querySnapshot.docs.map(doc => ({
+  return querySnapshot.docs.map(doc => ({
     id: doc.id,
     ...doc.data()
   })) as Task[];
-
-  
-  return tasks;
 }
 
 /**
- * Fetch all reminders for a given month
+ * Fetch all reminders due within a date range
  */
-export async function getRemindersForMonth(userId: string, date: Date): Promise<Reminder[]> {
+export async function getRemindersInRange(userId: string, start: Date, end: Date): Promise<Reminder[]> {
   const db = getDb();
-  const monthStart = getMonthStart(date);
-  const monthEnd = getMonthEnd(date);
 
   const q = query(
     collection(db, 'reminders'),
     where('userId', '==', userId),
-    where('dueDate', '>=', Timestamp.fromDate(monthStart)),
-    where('dueDate', '<=', Timestamp.fromDate(monthEnd)),
+    where('dueDate', '>=', Timestamp.fromDate(start)),
+    where('dueDate', '<=', Timestamp.fromDate(end)),
     orderBy('dueDate', 'asc')
   );
 
@@ -144,12 +247,74 @@ export async function getRemindersForMonth(userId: string, date: Date): Promise<
 }
 
 /**
- * Convert tasks and reminders to calendar events
+ * Fetch all tasks for a given month
+ */
+export async function getTasksForMonth(userId: string, date: Date): Promise<Task[]> {
+  return getTasksInRange(userId, getMonthStart(date), getMonthEnd(date));
+}
+
+/**
+ * Fetch all reminders for a given month
+ */
+export async function getRemindersForMonth(userId: string, date: Date): Promise<Reminder[]> {
+  return getRemindersInRange(userId, getMonthStart(date), getMonthEnd(date));
+}
+
+// Weekday names indexed by Date.getDay()
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Build a date on the given day at a 'HH:mm' time
+ */
+function atTime(day: Date, time: string): Date {
+  const minutes = timeToMinutes(time);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+}
+
+/**
+ * Expand the weekly schedule of active subjects into class sessions within a date range
+ */
+export function getClassEvents(subjects: Subject[], rangeStart: Date, rangeEnd: Date): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  const activeSubjects = subjects.filter(subject => subject.isActive && subject.schedule?.length);
+
+  const current = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate());
+  while (current <= rangeEnd) {
+    const dayName = WEEKDAY_NAMES[current.getDay()];
+
+    activeSubjects.forEach(subject => {
+      subject.schedule!
+        .filter(entry => entry.dayOfWeek === dayName)
+        .forEach(entry => {
+          const date = atTime(current, entry.startTime);
+          events.push({
+            id: `class-${subject.id}-${date.getTime()}`,
+            title: subject.name,
+            date,
+            endDate: atTime(current, entry.endTime),
+            type: 'class',
+            room: entry.room || subject.room,
+            classType: entry.type,
+            subjectId: subject.id,
+            subject
+          });
+        });
+    });
+
+    current.setDate(current.getDate() + 1);
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Convert tasks, reminders and (when a range is given) class sessions to calendar events
  */
 export function createCalendarEvents(
   tasks: Task[],
   reminders: Reminder[],
-  subjects: Subject[]
+  subjects: Subject[],
+  range?: { start: Date; end: Date }
 ): CalendarEvent[] {
   const events: CalendarEvent[] = [];
 
@@ -179,9 +344,61 @@ export function createCalendarEvents(
     });
   });
 
+  // Add class sessions after deadlines so they don't crowd them out of small cells
+  if (range) {
+    events.push(...getClassEvents(subjects, range.start, range.end));
+  }
+
   return events;
 }
 
+/**
+ * Get the display color of an event
+ */
+export function getEventColor(event: CalendarEvent): string {
+  if (event.type === 'class') {
+    return event.subject?.color || 'var(--accent)';
+  }
+
+  if (event.type === 'reminder') {
+    return 'var(--brand)'; // Blue for reminders
+  }
+
+  if (event.isCompleted) {
+    return 'var(--ok)'; // Green for completed
+  }
+
+  // Task priority colors
+  switch (event.priority) {
+    case 'high':
+      return 'var(--danger)'; // Red for high priority
+    case 'medium':
+      return 'var(--warn)'; // Orange for medium
+    case 'low':
+    default:
+      return 'var(--text-2)'; // Gray for low
+  }
+}
+
+/**
+ * Format a time as 24-hour 'HH:mm'
+ */
+export function formatEventTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+/**
+ * Get the hover text of an event
+ */
+export function getEventTooltip(event: CalendarEvent): string {
+  if (event.type === 'class') {
+    return `Class: ${event.title} ${formatEventTime(event.date)}–${event.endDate ? formatEventTime(event.endDate) : ''}` +
+      (event.room ? ` • Room ${event.room}` : '');
+  }
+
+  return `${event.type === 'task' ? 'Task' : 'Reminder'}: ${event.title}`;
+}
+
 /**
  * Group events by calendar day
  */
@@ -204,30 +421,143 @@ export function groupEventsByDays(
 }
 
 /**
- * Get calendar data for a specific month
+ * Check if an event can be dragged to another day
+ * Class sessions follow the timetable and finished items stay where they were completed
+ */
+export function isEventReschedulable(event: CalendarEvent): boolean {
+  return event.type !== 'class' && !event.isCompleted;
+}
+
+/**
+ * Move a date to another day, keeping its time of day
+ */
+export function moveToDay(date: Date, day: Date): Date {
+  return new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  );
+}
+
+/**
+ * Move an event between calendar days without refetching
+ */
+export function moveEventInDays(days: CalendarDay[], eventId: string, newDate: Date): CalendarDay[] {
+  const event = days.flatMap(day => day.events).find(e => e.id === eventId);
+  if (!event) return days;
+
+  const movedEvent = { ...event, date: newDate };
+  const newDay = new Date(newDate);
+  newDay.setHours(0, 0, 0, 0);
+
+  return days.map(day => {
+    const events = day.events.filter(e => e.id !== eventId);
+    if (day.date.getTime() === newDay.getTime()) {
+      // Keep deadlines ahead of class sessions, as createCalendarEvents does
+      const classIndex = events.findIndex(e => e.type === 'class');
+      events.splice(classIndex === -1 ? events.length : classIndex, 0, movedEvent);
+    }
+    return { ...day, events };
+  });
+}
+
+/**
+ * Persist a new due date for a task or reminder event
+ */
+export async function rescheduleCalendarEvent(userId: string, event: CalendarEvent, newDate: Date): Promise<void> {
+  if (event.type === 'task') {
+    await updateTask(userId, event.id, { dueDate: newDate.toISOString() });
+  } else if (event.type === 'reminder') {
+    await updateReminder(userId, event.id, { dueDate: newDate.toISOString() });
+  } else {
+    throw new Error('Class sessions cannot be rescheduled');
+  }
+}
+
+/**
+ * Lay out the timed events of one day for the hourly grid
+ * Overlapping events are placed side by side in lanes
+ */
+export function layoutTimedEvents(events: CalendarEvent[]): PositionedCalendarEvent[] {
+  const items = events
+    .map(event => {
+      const startMinutes = event.date.getHours() * 60 + event.date.getMinutes();
+      const endMinutes = event.endDate
+        ? event.endDate.getHours() * 60 + event.endDate.getMinutes()
+        : startMinutes + POINT_EVENT_MINUTES;
+      return {
+        event,
+        // Keep point events that are due just before midnight inside the grid
+        startMinutes: Math.min(startMinutes, 24 * 60 - POINT_EVENT_MINUTES),
+        durationMinutes: Math.max(endMinutes - startMinutes, POINT_EVENT_MINUTES),
+        lane: 0,
+        laneCount: 1
+      };
+    })
+    .sort((a, b) => a.startMinutes - b.startMinutes);
+
+  let group: PositionedCalendarEvent[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach(item => {
+      item.laneCount = laneEnds.length;
+    });
+    group = [];
+    laneEnds = [];
+  };
+
+  items.forEach(item => {
+    const end = item.startMinutes + item.durationMinutes;
+    if (item.startMinutes >= groupEnd) {
+      closeGroup();
+    }
+
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= item.startMinutes);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+
+    item.lane = lane;
+    group.push(item);
+    groupEnd = Math.max(groupEnd, end);
+  });
+  closeGroup();
+
+  return items;
+}
+
+/**
+ * Get calendar data for a date range (defaults to the month grid of the date)
  */
 export async function getCalendarData(
   userId: string,
-  date: Date
+  date: Date,
+  range: CalendarRange = getCalendarRange(date, 'month')
 ): Promise<CalendarDay[]> {
+  const calendarDays = getDaysInRange(range, date);
+
   try {
-    
     // Fetch tasks, reminders, and subjects
     const [tasks, reminders, subjects] = await Promise.all([
-      getTasksForMonth(userId, date),
-      getRemindersForMonth(userId, date),
+      getTasksInRange(userId, range.start, range.end),
+      getRemindersInRange(userId, range.start, range.end),
       getUserSubjects(userId)
     ]);
 
     // Convert to calendar events
-    const events = createCalendarEvents(tasks, reminders, subjects);
-
-    // Get calendar days and group events
-    const calendarDays = getCalendarDays(date);
-    const result = groupEventsByDays(calendarDays, events);
+    const events = createCalendarEvents(tasks, reminders, subjects, range);
 
-    return result;
+    // Group events by day
+    return groupEventsByDays(calendarDays, events);
   } catch (error) {
-        return getCalendarDays(date); // Return empty calendar days on error
+    return calendarDays; // Return empty calendar days on error
   }
 }
\ No newline at end of file
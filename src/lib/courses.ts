@@ -0,0 +1,384 @@
+/**
+ * Courses for MyStudyHub
+ * Teachers create courses and share a join code; students join with the code and
+ * link the course to one of their subjects
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  onSnapshot,
+  writeBatch,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import { Course, CourseFormData, CourseInvite, Enrollment, COURSE_CONFIG } from '@/types/course';
+import { User } from '@/types/user';
+
+const COURSES_COLLECTION = 'courses';
+const INVITES_COLLECTION = 'joinCodes';
+const ENROLLMENTS_COLLECTION = 'enrollments';
+const ASSIGNMENTS_COLLECTION = 'assignments';
+
+// Firestore allows 500 writes per batch
+const MAX_BATCH_SIZE = 450;
+
+// Attempts at finding an unused join code before giving up
+const MAX_JOIN_CODE_ATTEMPTS = 5;
+
+/**
+ * Enrollments are keyed by course and student so a student can only join a course once
+ */
+export function getEnrollmentId(courseId: string, userId: string): string {
+  return `${courseId}_${userId}`;
+}
+
+/**
+ * Normalize a join code as typed by a student
+ */
+export function normalizeJoinCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+function generateJoinCode(): string {
+  const { joinCodeAlphabet, joinCodeLength } = COURSE_CONFIG;
+  return Array.from({ length: joinCodeLength }, () =>
+    joinCodeAlphabet[Math.floor(Math.random() * joinCodeAlphabet.length)]
+  ).join('');
+}
+
+/**
+ * Find a join code that no other course uses
+ */
+async function generateUnusedJoinCode(): Promise<string> {
+  for (let attempt = 0; attempt < MAX_JOIN_CODE_ATTEMPTS; attempt++) {
+    const joinCode = generateJoinCode();
+    if (!(await getDoc(doc(getDb(), INVITES_COLLECTION, joinCode))).exists()) {
+      return joinCode;
+    }
+  }
+  throw new Error('Failed to create a join code, please try again');
+}
+
+function toCourse(id: string, data: Record<string, any>): Course {
+  return {
+    id,
+    teacherId: data.teacherId,
+    teacherName: data.teacherName || '',
+    name: data.name,
+    code: data.code || undefined,
+    description: data.description || undefined,
+    color: data.color || '#3B82F6',
+    joinCode: data.joinCode,
+    createdAt: data.createdAt || Timestamp.now(),
+    updatedAt: data.updatedAt || Timestamp.now()
+  };
+}
+
+function toEnrollment(id: string, data: Record<string, any>): Enrollment {
+  return {
+    id,
+    courseId: data.courseId,
+    userId: data.userId,
+    teacherId: data.teacherId,
+    teacherName: data.teacherName || '',
+    courseName: data.courseName || '',
+    studentName: data.studentName || '',
+    studentEmail: data.studentEmail || '',
+    subjectId: data.subjectId,
+    joinCode: data.joinCode,
+    receivedAssignmentIds: data.receivedAssignmentIds || [],
+    joinedAt: data.joinedAt || Timestamp.now()
+  };
+}
+
+/**
+ * The part of a course a join code shows to students
+ */
+function toInvite(course: Pick<Course, 'teacherId' | 'teacherName' | 'name' | 'code' | 'color' | 'joinCode'>, courseId: string): CourseInvite {
+  return {
+    joinCode: course.joinCode,
+    courseId,
+    teacherId: course.teacherId,
+    teacherName: course.teacherName,
+    courseName: course.name,
+    ...(course.code && { courseCode: course.code }),
+    color: course.color
+  };
+}
+
+function validateCourse(data: Partial<CourseFormData>): void {
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error('Course name is required');
+  }
+}
+
+/**
+ * Create a course with a fresh join code
+ */
+export async function createCourse(teacher: User, data: CourseFormData): Promise<string> {
+  validateCourse(data);
+  const joinCode = await generateUnusedJoinCode();
+
+  try {
+    const db = getDb();
+    const courseRef = doc(collection(db, COURSES_COLLECTION));
+    const course = {
+      teacherId: teacher.userId,
+      teacherName: teacher.displayName,
+      name: data.name.trim(),
+      code: data.code?.trim() || '',
+      description: data.description?.trim() || '',
+      color: data.color,
+      joinCode
+    };
+
+    const batch = writeBatch(db);
+    batch.set(courseRef, { ...course, createdAt: serverTimestamp(), updatedAt: serverTimestamp() });
+    batch.set(doc(db, INVITES_COLLECTION, joinCode), toInvite(course, courseRef.id));
+    await batch.commit();
+    return courseRef.id;
+  } catch (error) {
+    throw error instanceof Error ? error : new Error('Failed to create course');
+  }
+}
+
+/**
+ * Update a course's details; the join code keeps showing the new name
+ */
+export async function updateCourse(course: Course, data: CourseFormData): Promise<void> {
+  validateCourse(data);
+
+  try {
+    const db = getDb();
+    const updated = {
+      ...course,
+      name: data.name.trim(),
+      code: data.code?.trim() || '',
+      description: data.description?.trim() || '',
+      color: data.color
+    };
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, COURSES_COLLECTION, course.id), {
+      name: updated.name,
+      code: updated.code,
+      description: updated.description,
+      color: updated.color,
+      updatedAt: serverTimestamp()
+    });
+    batch.set(doc(db, INVITES_COLLECTION, course.joinCode), toInvite(updated, course.id));
+    await batch.commit();
+  } catch (error) {
+    throw error instanceof Error ? error : new Error('Failed to update course');
+  }
+}
+
+/**
+ * Replace a course's join code, e.g. after it was shared too widely
+ * Students who already joined stay enrolled
+ */
+export async function regenerateJoinCode(course: Course): Promise<string> {
+  const joinCode = await generateUnusedJoinCode();
+
+  try {
+    const db = getDb();
+    const batch = writeBatch(db);
+    batch.delete(doc(db, INVITES_COLLECTION, course.joinCode));
+    batch.set(doc(db, INVITES_COLLECTION, joinCode), toInvite({ ...course, joinCode }, course.id));
+    batch.update(doc(db, COURSES_COLLECTION, course.id), { joinCode, updatedAt: serverTimestamp() });
+    await batch.commit();
+    return joinCode;
+  } catch (error) {
+    throw error instanceof Error ? error : new Error('Failed to change the join code');
+  }
+}
+
+/**
+ * Delete a course with its assignments and enrollments, returning how many of each were removed
+ * Tasks already in students' hubs are theirs and are kept
+ */
+export async function deleteCourse(course: Course): Promise<{ assignments: number; enrollments: number }> {
+  try {
+    const db = getDb();
+    const [assignments, enrollments] = await Promise.all([
+      getDocs(query(
+        collection(db, ASSIGNMENTS_COLLECTION),
+        where('courseId', '==', course.id),
+        where('teacherId', '==', course.teacherId)
+      )),
+      getDocs(query(
+        collection(db, ENROLLMENTS_COLLECTION),
+        where('courseId', '==', course.id),
+        where('teacherId', '==', course.teacherId)
+      ))
+    ]);
+
+    // The course goes last so a failure part way leaves it in place to delete again
+    const refs = [
+      ...assignments.docs.map(docSnapshot => docSnapshot.ref),
+      ...enrollments.docs.map(docSnapshot => docSnapshot.ref),
+      doc(db, INVITES_COLLECTION, course.joinCode),
+      doc(db, COURSES_COLLECTION, course.id)
+    ];
+    for (let start = 0; start < refs.length; start += MAX_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      refs.slice(start, start + MAX_BATCH_SIZE).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
+    return { assignments: assignments.size, enrollments: enrollments.size };
+  } catch (error) {
+    throw error instanceof Error ? error : new Error('Failed to delete course');
+  }
+}
+
+/**
+ * Get a course by ID, or null when it does not exist or is not the user's to see
+ */
+export async function getCourseById(courseId: string): Promise<Course | null> {
+  try {
+    const docSnapshot = await getDoc(doc(getDb(), COURSES_COLLECTION, courseId));
+    return docSnapshot.exists() ? toCourse(docSnapshot.id, docSnapshot.data()) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Real-time listener for the courses a teacher runs, newest first
+ */
+export function listenToTeacherCourses(
+  teacherId: string,
+  callback: (courses: Course[]) => void
+): () => void {
+  const q = query(collection(getDb(), COURSES_COLLECTION), where('teacherId', '==', teacherId));
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs
+      .map(docSnapshot => toCourse(docSnapshot.id, docSnapshot.data()))
+      .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis()));
+  }, (error) => {
+    console.error('Error in courses listener:', error);
+  });
+}
+
+/**
+ * Real-time listener for the students of a course, by name
+ */
+export function listenToCourseEnrollments(
+  course: Pick<Course, 'id' | 'teacherId'>,
+  callback: (enrollments: Enrollment[]) => void
+): () => void {
+  const q = query(
+    collection(getDb(), ENROLLMENTS_COLLECTION),
+    where('courseId', '==', course.id),
+    where('teacherId', '==', course.teacherId)
+  );
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs
+      .map(docSnapshot => toEnrollment(docSnapshot.id, docSnapshot.data()))
+      .sort((a, b) => a.studentName.localeCompare(b.studentName)));
+  }, (error) => {
+    console.error('Error in course roster listener:', error);
+  });
+}
+
+/**
+ * Real-time listener for the courses a student joined
+ */
+export function listenToUserEnrollments(
+  userId: string,
+  callback: (enrollments: Enrollment[]) => void
+): () => void {
+  const q = query(collection(getDb(), ENROLLMENTS_COLLECTION), where('userId', '==', userId));
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs
+      .map(docSnapshot => toEnrollment(docSnapshot.id, docSnapshot.data()))
+      .sort((a, b) => a.courseName.localeCompare(b.courseName)));
+  }, (error) => {
+    console.error('Error in enrollments listener:', error);
+  });
+}
+
+/**
+ * Look up the course a join code belongs to
+ */
+export async function findCourseByJoinCode(code: string): Promise<CourseInvite | null> {
+  const joinCode = normalizeJoinCode(code);
+  if (joinCode.length !== COURSE_CONFIG.joinCodeLength) {
+    return null;
+  }
+
+  try {
+    const docSnapshot = await getDoc(doc(getDb(), INVITES_COLLECTION, joinCode));
+    return docSnapshot.exists() ? docSnapshot.data() as CourseInvite : null;
+  } catch (error) {
+    throw new Error('Failed to look up the join code');
+  }
+}
+
+/**
+ * Join a course, filing its assignments under one of the student's subjects
+ */
+export async function joinCourse(student: User, invite: CourseInvite, subjectId: string): Promise<void> {
+  if (invite.teacherId === student.userId) {
+    throw new Error('You teach this course');
+  }
+
+  const enrollmentRef = doc(getDb(), ENROLLMENTS_COLLECTION, getEnrollmentId(invite.courseId, student.userId));
+  if ((await getDoc(enrollmentRef)).exists()) {
+    throw new Error('You have already joined this course');
+  }
+
+  try {
+    await setDoc(enrollmentRef, {
+      courseId: invite.courseId,
+      userId: student.userId,
+      teacherId: invite.teacherId,
+      teacherName: invite.teacherName,
+      courseName: invite.courseName,
+      studentName: student.displayName,
+      studentEmail: student.email,
+      subjectId,
+      joinCode: invite.joinCode,
+      receivedAssignmentIds: [],
+      joinedAt: serverTimestamp()
+    });
+  } catch (error) {
+    throw error instanceof Error ? error : new Error('Failed to join course');
+  }
+}
+
+/**
+ * Change the subject a course's assignments are filed under
+ * Only new assignments go to the new subject
+ */
+export async function updateEnrollmentSubject(enrollmentId: string, subjectId: string): Promise<void> {
+  try {
+    await updateDoc(doc(getDb(), ENROLLMENTS_COLLECTION, enrollmentId), { subjectId });
+  } catch (error) {
+    throw new Error('Failed to update course');
+  }
+}
+
+/**
+ * Leave a course, or remove a student from it as its teacher
+ * Tasks the student already received are kept
+ */
+export async function deleteEnrollment(enrollmentId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(getDb(), ENROLLMENTS_COLLECTION, enrollmentId));
+  } catch (error) {
+    throw new Error('Failed to leave course');
+  }
+}
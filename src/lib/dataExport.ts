@@ -0,0 +1,314 @@
+/**
+ * Data export for MyStudyHub
+ * Backs up a user's study hub as versioned JSON, CSV per entity,
+ * and optionally a ZIP of their uploaded files with a manifest
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { ref, getBlob } from 'firebase/storage';
+import type JSZip from 'jszip';
+import { getDb, getStorageInstance } from './firebase';
+import { toDateKey } from './recurrence';
+import { getFileSource } from '@/types/search';
+import { SubjectFile } from '@/types/subject';
+import { TaskFile } from '@/types/task';
+import { User } from '@/types/user';
+import {
+  EXPORT_FORMAT,
+  EXPORT_FORMAT_VERSION,
+  EXPORT_JSON_FILENAME,
+  EXPORT_MANIFEST_FILENAME,
+  EXPORT_ENTITIES,
+  ExportEntity,
+  ExportRecord,
+  ExportScheduleRecord,
+  ExportManifest,
+  ExportManifestEntry,
+  StudyHubExport,
+  DataExportOptions,
+  DataExportProgress,
+  DataExportResult
+} from '@/types/export';
+
+// Collections holding a user's documents, found by their userId field
+const USER_COLLECTIONS = {
+  subjects: 'subjects',
+  tasks: 'tasks',
+  reminders: 'reminders',
+  timerSessions: 'timer-sessions',
+  notifications: 'notifications',
+  gradingScales: 'gradingScales',
+  assessments: 'assessments',
+  files: 'subjectFiles'
+} as const;
+
+// Timer settings are a single document keyed by user ID
+const TIMER_SETTINGS_COLLECTION = 'timer-settings';
+
+/**
+ * Convert Firestore values to JSON, marking Timestamps so they can be restored
+ */
+export function encodeExportValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return { __timestamp: value.toDate().toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeExportValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, encodeExportValue(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Get every document of a user in a collection
+ */
+async function getUserRecords(collectionName: string, userId: string): Promise<ExportRecord[]> {
+  const snapshot = await getDocs(query(collection(getDb(), collectionName), where('userId', '==', userId)));
+  return snapshot.docs.map(docSnapshot => encodeExportValue({ ...docSnapshot.data(), id: docSnapshot.id }) as ExportRecord);
+}
+
+/**
+ * Read a user's data from Firestore into the export document
+ * Schedules are split out of their subjects so each has its own CSV
+ */
+export async function collectUserData(user: Pick<User, 'userId' | 'email' | 'displayName'>): Promise<StudyHubExport> {
+  const { userId } = user;
+
+  const [
+    subjects,
+    tasks,
+    reminders,
+    timerSessions,
+    notifications,
+    gradingScales,
+    assessments,
+    files,
+    settingsDoc
+  ] = await Promise.all([
+    getUserRecords(USER_COLLECTIONS.subjects, userId),
+    getUserRecords(USER_COLLECTIONS.tasks, userId),
+    getUserRecords(USER_COLLECTIONS.reminders, userId),
+    getUserRecords(USER_COLLECTIONS.timerSessions, userId),
+    getUserRecords(USER_COLLECTIONS.notifications, userId),
+    getUserRecords(USER_COLLECTIONS.gradingScales, userId),
+    getUserRecords(USER_COLLECTIONS.assessments, userId),
+    getUserRecords(USER_COLLECTIONS.files, userId),
+    getDoc(doc(getDb(), TIMER_SETTINGS_COLLECTION, userId))
+  ]);
+
+  const schedules: ExportScheduleRecord[] = [];
+  const subjectsWithoutSchedule = subjects.map(({ schedule, ...subject }) => {
+    (Array.isArray(schedule) ? schedule : []).forEach((entry, index) => {
+      schedules.push({ ...(entry as Record<string, unknown>), id: `${subject.id}_${index}`, subjectId: subject.id, index });
+    });
+    return subject as ExportRecord;
+  });
+
+  const timerSettings = settingsDoc.exists()
+    ? [encodeExportValue({ ...settingsDoc.data(), id: settingsDoc.id }) as ExportRecord]
+    : [];
+
+  const data: Record<ExportEntity, ExportRecord[]> = {
+    subjects: subjectsWithoutSchedule,
+    schedules,
+    tasks,
+    reminders,
+    timerSessions,
+    timerSettings,
+    notifications,
+    gradingScales,
+    assessments,
+    files
+  };
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: {
+      userId,
+      email: user.email,
+      displayName: user.displayName
+    },
+    counts: Object.fromEntries(EXPORT_ENTITIES.map(entity => [entity, data[entity].length])) as Record<ExportEntity, number>,
+    data
+  };
+}
+
+/**
+ * Format one CSV cell; nested values are written as JSON and Timestamps as ISO dates
+ */
+function toCsvCell(value: unknown): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (typeof value === 'object' && '__timestamp' in value) {
+    text = String((value as { __timestamp: string }).__timestamp);
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write records as CSV, with a column for every field any record has
+ */
+export function toCsv(records: ExportRecord[]): string {
+  const columns = ['id'];
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+
+  const rows = records.map(record => columns.map(column => toCsvCell(record[column])).join(','));
+  // The byte order mark makes Excel read the file as UTF-8
+  return '\uFEFF' + [columns.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Make a file name safe to use inside a ZIP on every platform
+ */
+function toSafeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').substring(0, 150) || 'file';
+}
+
+/**
+ * Download a user's uploaded files into the ZIP and list them in a manifest
+ * Files that cannot be downloaded are listed without a ZIP path
+ */
+async function addFilesToZip(
+  zip: JSZip,
+  records: ExportRecord[],
+  onProgress?: (progress: DataExportProgress) => void
+): Promise<ExportManifestEntry[]> {
+  const storage = getStorageInstance();
+  const entries: ExportManifestEntry[] = [];
+
+  for (let index = 0; index < records.length; index++) {
+    onProgress?.({ stage: 'downloading', completed: index, total: records.length });
+
+    const file = records[index] as unknown as SubjectFile | TaskFile;
+    const source = getFileSource(file);
+    const ownerId = source === 'task' ? (file as TaskFile).taskId : (file as SubjectFile).subjectId;
+    const zipPath = `files/${source === 'task' ? 'tasks' : 'subjects'}/${ownerId}/${file.id}-${toSafeFileName(file.originalName || file.name)}`;
+
+    const entry: ExportManifestEntry = {
+      fileId: file.id,
+      source,
+      subjectId: source === 'subject' ? (file as SubjectFile).subjectId : null,
+      taskId: source === 'task' ? (file as TaskFile).taskId : null,
+      name: file.originalName || file.name,
+      type: file.type,
+      size: file.size,
+      storagePath: file.storagePath,
+      zipPath: null
+    };
+
+    try {
+      const blob = await getBlob(ref(storage, file.storagePath));
+      zip.file(zipPath, blob);
+      entry.zipPath = zipPath;
+    } catch (error) {
+      console.error(`Failed to download ${file.storagePath} for export:`, error);
+      entry.error = error instanceof Error ? error.message : 'Download failed';
+    }
+
+    entries.push(entry);
+  }
+
+  onProgress?.({ stage: 'downloading', completed: records.length, total: records.length });
+  return entries;
+}
+
+/**
+ * Export a user's study hub
+ * Without CSV or files the result is the JSON document; otherwise a ZIP containing it
+ */
+export async function exportUserData(
+  user: Pick<User, 'userId' | 'email' | 'displayName'>,
+  options: DataExportOptions,
+  onProgress?: (progress: DataExportProgress) => void
+): Promise<DataExportResult> {
+  onProgress?.({ stage: 'collecting', completed: 0, total: 1 });
+  const exportData = await collectUserData(user);
+  const json = JSON.stringify(exportData, null, 2);
+  const dateKey = toDateKey(new Date());
+
+  if (!options.includeCsv && !options.includeFiles) {
+    return {
+      blob: new Blob([json], { type: 'application/json' }),
+      filename: `mystudyhub-export-${dateKey}.json`,
+      counts: exportData.counts,
+      missingFiles: 0
+    };
+  }
+
+  const { default: JSZipLoader } = await import('jszip');
+  const zip = new JSZipLoader();
+  zip.file(EXPORT_JSON_FILENAME, json);
+
+  if (options.includeCsv) {
+    EXPORT_ENTITIES.forEach(entity => {
+      zip.file(`csv/${entity}.csv`, toCsv(exportData.data[entity]));
+    });
+  }
+
+  let missingFiles = 0;
+  if (options.includeFiles) {
+    const files = await addFilesToZip(zip, exportData.data.files, onProgress);
+    missingFiles = files.filter(file => !file.zipPath).length;
+
+    const manifest: ExportManifest = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: exportData.exportedAt,
+      files
+    };
+    zip.file(EXPORT_MANIFEST_FILENAME, JSON.stringify(manifest, null, 2));
+  }
+
+  onProgress?.({ stage: 'packaging', completed: 0, total: 100 });
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }, metadata => {
+    onProgress?.({ stage: 'packaging', completed: Math.round(metadata.percent), total: 100 });
+  });
+
+  return {
+    blob,
+    filename: `mystudyhub-export-${dateKey}.zip`,
+    counts: exportData.counts,
+    missingFiles
+  };
+}
+
+/**
+ * Save an export through the browser's downloads
+ */
+export function downloadExport(result: DataExportResult): void {
+  const url = URL.createObjectURL(result.blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = result.filename;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,781 @@
+/**
+ * Data restore for MyStudyHub
+ * Reads a backup made by the data export, previews how it compares with the account,
+ * and writes the selected records back with new IDs so references between them survive
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import { createSubject, getUserSubjects } from './storage';
+import { createTask, getUserTasks, updateTask, updateTaskStatus, toggleTaskCompletion } from './tasks';
+import { createReminder, getUserReminders, toggleReminderCompletion } from './reminders';
+import { getTimerSessions, getUserTimerSettings, importTimerSession, updateUserTimerSettings } from './timers';
+import { uploadSubjectFile, updateSubjectFileCount } from './subjectFiles';
+import { uploadTaskFile, getTaskFiles, updateTaskAttachedFiles } from './taskFiles';
+import { toDateKey, toRecurrenceFormData } from './recurrence';
+import {
+  createAssessment,
+  createGradingScale,
+  getGradingScales,
+  getUserAssessments,
+  updateSubjectGradeSettings
+} from './grades';
+import { cleanSchedule } from './timetable';
+import { getFileSource } from '@/types/search';
+import { Subject, SubjectFile, SubjectSchedule, FileType, FILE_TYPE_CONFIG } from '@/types/subject';
+import { Task, TaskFile, TaskChecklistItem, TaskChecklistItemFormData } from '@/types/task';
+import { Reminder } from '@/types/reminder';
+import { RecurrenceRule, RecurrenceFormData } from '@/types/recurrence';
+import { TimerSession, TimerSettings, DEFAULT_TIMER_SETTINGS, TIMER_SESSION_CONFIG } from '@/types/timer';
+import { Assessment, GradingScale, BUILT_IN_GRADING_SCALES, GRADE_CONFIG } from '@/types/grade';
+import {
+  EXPORT_FORMAT,
+  EXPORT_FORMAT_VERSION,
+  EXPORT_JSON_FILENAME,
+  EXPORT_MANIFEST_FILENAME,
+  EXPORT_ENTITIES,
+  EXPORT_ENTITY_LABELS,
+  EXPORT_ENTITY_SINCE_VERSION,
+  ExportEntity,
+  ExportManifest,
+  ExportRecord,
+  StudyHubExport,
+  RestoreSource,
+  RestoreItem,
+  RestoreStatus,
+  RestoreProgress,
+  RestoreResult
+} from '@/types/export';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'timestamp' | 'array';
+
+// Fields a record needs for it to be restored; other fields are optional
+const RECORD_SCHEMAS: Record<ExportEntity, Record<string, FieldType>> = {
+  subjects: { name: 'string', color: 'string' },
+  schedules: { subjectId: 'string', dayOfWeek: 'string', startTime: 'string', endTime: 'string' },
+  tasks: { title: 'string', dueDate: 'timestamp', priority: 'string', status: 'string' },
+  reminders: { title: 'string', dueDate: 'timestamp', isCompleted: 'boolean' },
+  timerSessions: { type: 'string', duration: 'number', startTime: 'timestamp', status: 'string' },
+  timerSettings: {
+    focusDuration: 'number',
+    shortBreakDuration: 'number',
+    longBreakDuration: 'number',
+    longBreakInterval: 'number'
+  },
+  notifications: {},
+  gradingScales: { name: 'string', bands: 'array' },
+  assessments: { subjectId: 'string', name: 'string', weight: 'number', maxScore: 'number', date: 'timestamp' },
+  files: { originalName: 'string', size: 'number' }
+};
+
+// Stop listing problems after this many; the backup is rejected either way
+const MAX_VALIDATION_ERRORS = 20;
+
+/**
+ * Check whether a value is a Timestamp as written by the export
+ */
+function isEncodedTimestamp(value: unknown): value is { __timestamp: string } {
+  return Boolean(value) && typeof value === 'object' &&
+    typeof (value as { __timestamp?: unknown }).__timestamp === 'string' &&
+    !isNaN(new Date((value as { __timestamp: string }).__timestamp).getTime());
+}
+
+/**
+ * Turn exported JSON values back into Firestore values
+ */
+export function decodeExportValue(value: unknown): unknown {
+  if (isEncodedTimestamp(value)) {
+    return Timestamp.fromDate(new Date(value.__timestamp));
+  }
+  if (Array.isArray(value)) {
+    return value.map(decodeExportValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, decodeExportValue(entry)])
+    );
+  }
+  return value;
+}
+
+function decodeRecord<T>(record: ExportRecord): T {
+  return decodeExportValue(record) as T;
+}
+
+function hasFieldType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'timestamp':
+      return isEncodedTimestamp(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check a parsed backup against the export format
+ * Returns the problems found; an empty list means the backup can be restored
+ */
+export function validateExport(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || (value as StudyHubExport).format !== EXPORT_FORMAT) {
+    return ['This file is not a MyStudyHub backup'];
+  }
+
+  const backup = value as StudyHubExport;
+  if (typeof backup.version !== 'number' || backup.version > EXPORT_FORMAT_VERSION) {
+    return ['This backup was made by a newer version of MyStudyHub'];
+  }
+  if (!backup.data || typeof backup.data !== 'object') {
+    return ['The backup has no data'];
+  }
+
+  const errors: string[] = [];
+  for (const entity of EXPORT_ENTITIES) {
+    const records = backup.data[entity];
+    const label = EXPORT_ENTITY_LABELS[entity];
+
+    if (!Array.isArray(records)) {
+      // Backups from before an entity was exported are restored without it
+      if (backup.version >= (EXPORT_ENTITY_SINCE_VERSION[entity] || 1)) {
+        errors.push(`${label} are missing`);
+      }
+      continue;
+    }
+
+    const ids = new Set<string>();
+    records.forEach((record, index) => {
+      if (!record || typeof record !== 'object' || typeof record.id !== 'string' || !record.id) {
+        errors.push(`${label} #${index + 1} has no ID`);
+        return;
+      }
+      if (ids.has(record.id)) {
+        errors.push(`${label} #${index + 1} has the same ID as another record`);
+      }
+      ids.add(record.id);
+
+      Object.entries(RECORD_SCHEMAS[entity]).forEach(([field, type]) => {
+        if (!hasFieldType(record[field], type)) {
+          errors.push(`${label} #${index + 1}: "${field}" should be a ${type}`);
+        }
+      });
+    });
+  }
+
+  return errors.slice(0, MAX_VALIDATION_ERRORS);
+}
+
+/**
+ * Give a valid backup an empty list for every entity added after it was made
+ */
+function normalizeExport(backup: StudyHubExport): StudyHubExport {
+  const data = { ...backup.data };
+  for (const entity of EXPORT_ENTITIES) {
+    if (!Array.isArray(data[entity])) {
+      data[entity] = [];
+    }
+  }
+  return { ...backup, data };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a backup from a JSON export or a ZIP export
+ * Files are only available from a ZIP made with uploaded files included
+ */
+export async function loadRestoreFile(file: File): Promise<{ source: RestoreSource | null; errors: string[] }> {
+  const isZip = file.name.toLowerCase().endsWith('.zip') || file.type.includes('zip');
+
+  if (!isZip) {
+    const backup = parseJson(await file.text());
+    const errors = backup === null ? ['This file is not valid JSON'] : validateExport(backup);
+    return errors.length > 0
+      ? { source: null, errors }
+      : { source: { backup: normalizeExport(backup as StudyHubExport), fileIds: [], readFile: async () => null }, errors };
+  }
+
+  const { default: JSZipLoader } = await import('jszip');
+  let zip;
+  try {
+    zip = await JSZipLoader.loadAsync(file);
+  } catch {
+    return { source: null, errors: ['This file is not a valid ZIP archive'] };
+  }
+
+  const jsonFile = zip.file(EXPORT_JSON_FILENAME);
+  if (!jsonFile) {
+    return { source: null, errors: [`The ZIP does not contain ${EXPORT_JSON_FILENAME}`] };
+  }
+
+  const backup = parseJson(await jsonFile.async('string'));
+  const errors = backup === null ? [`${EXPORT_JSON_FILENAME} is not valid JSON`] : validateExport(backup);
+  if (errors.length > 0) {
+    return { source: null, errors };
+  }
+
+  // Without a manifest the backup is restored without files
+  const manifestFile = zip.file(EXPORT_MANIFEST_FILENAME);
+  const manifest = manifestFile ? parseJson(await manifestFile.async('string')) as ExportManifest | null : null;
+  const zipPaths = new Map<string, string>();
+  (Array.isArray(manifest?.files) ? manifest!.files : []).forEach(entry => {
+    if (entry && typeof entry.fileId === 'string' && typeof entry.zipPath === 'string' && zip.file(entry.zipPath)) {
+      zipPaths.set(entry.fileId, entry.zipPath);
+    }
+  });
+
+  return {
+    source: {
+      backup: normalizeExport(backup as StudyHubExport),
+      fileIds: Array.from(zipPaths.keys()),
+      readFile: async (fileId: string) => {
+        const zipPath = zipPaths.get(fileId);
+        return zipPath ? zip.file(zipPath)?.async('blob') || null : null;
+      }
+    },
+    errors: []
+  };
+}
+
+function sameText(a: unknown, b: unknown): boolean {
+  return typeof a === 'string' && typeof b === 'string' && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function toMillis(value: unknown): number | null {
+  return isEncodedTimestamp(value) ? new Date(value.__timestamp).getTime() : null;
+}
+
+function sameClass(a: SubjectSchedule, b: SubjectSchedule): boolean {
+  return a.dayOfWeek === b.dayOfWeek && a.startTime === b.startTime && a.endTime === b.endTime;
+}
+
+function createItem(
+  entity: ExportEntity,
+  record: ExportRecord,
+  label: string,
+  status: RestoreStatus,
+  reason: string | null = null,
+  existingId: string | null = null
+): RestoreItem {
+  return { entity, record, label, status, reason, existingId, restore: status === 'new' };
+}
+
+/**
+ * Get every file document of a user, both subject files and task attachments
+ */
+async function getUserFiles(userId: string): Promise<(SubjectFile | TaskFile)[]> {
+  const snapshot = await getDocs(query(collection(getDb(), 'subjectFiles'), where('userId', '==', userId)));
+  return snapshot.docs.map(docSnapshot => ({ ...docSnapshot.data(), id: docSnapshot.id }) as SubjectFile | TaskFile);
+}
+
+/**
+ * Compare a backup with the user's account and prepare the restore preview
+ * Subjects match by name or code, tasks and reminders by title and due date,
+ * timer sessions by start time, grading scales by name, assessments by name and date
+ * within a matching subject, and files by name and size within a matching subject or task
+ */
+export async function prepareRestore(userId: string, source: RestoreSource): Promise<RestoreItem[]> {
+  const { data } = source.backup;
+  const [subjects, tasks, reminders, sessions, settings, files, scales, assessments] = await Promise.all([
+    getUserSubjects(userId),
+    getUserTasks(userId),
+    getUserReminders(userId),
+    getTimerSessions(userId),
+    getUserTimerSettings(userId),
+    getUserFiles(userId),
+    getGradingScales(userId),
+    getUserAssessments(userId)
+  ]);
+
+  const items: RestoreItem[] = [];
+  const subjectMatches = new Map<string, Subject>();
+  const taskMatches = new Map<string, Task>();
+
+  data.subjects.forEach(record => {
+    const match = subjects.find(subject =>
+      sameText(subject.name, record.name) || (Boolean(record.code) && sameText(subject.code, record.code))
+    );
+    const label = record.code ? `${record.name} (${record.code})` : String(record.name);
+
+    if (match) {
+      subjectMatches.set(record.id, match);
+      items.push(createItem('subjects', record, label, 'conflict', `Matches your subject "${match.name}"`, match.id));
+    } else {
+      items.push(createItem('subjects', record, label, 'new'));
+    }
+  });
+
+  data.schedules.forEach(record => {
+    const parent = data.subjects.find(subject => subject.id === record.subjectId);
+    const entry = record as unknown as SubjectSchedule;
+    const label = `${parent?.name || 'Unknown subject'}: ${entry.dayOfWeek} ${entry.startTime}–${entry.endTime}`;
+    const match = subjectMatches.get(String(record.subjectId));
+
+    if (!parent) {
+      items.push(createItem('schedules', record, label, 'skipped', 'Its subject is not in the backup'));
+    } else if (match && (match.schedule || []).some(existing => sameClass(existing, entry))) {
+      items.push(createItem('schedules', record, label, 'conflict', `Already in ${match.name}`, match.id));
+    } else {
+      items.push(createItem('schedules', record, label, 'new'));
+    }
+  });
+
+  data.tasks.forEach(record => {
+    const dueTime = toMillis(record.dueDate);
+    const match = tasks.find(task => sameText(task.title, record.title) && task.dueDate.toMillis() === dueTime);
+
+    if (match) {
+      taskMatches.set(record.id, match);
+      items.push(createItem('tasks', record, String(record.title), 'conflict', 'A task with this title and due date exists', match.id));
+    } else {
+      items.push(createItem('tasks', record, String(record.title), 'new'));
+    }
+  });
+
+  data.reminders.forEach(record => {
+    const dueTime = toMillis(record.dueDate);
+    const match = reminders.find(reminder => sameText(reminder.title, record.title) && reminder.dueDate.toMillis() === dueTime);
+
+    items.push(match
+      ? createItem('reminders', record, String(record.title), 'conflict', 'A reminder with this title and due date exists', match.id)
+      : createItem('reminders', record, String(record.title), 'new'));
+  });
+
+  data.timerSessions.forEach(record => {
+    const startTime = toMillis(record.startTime);
+    const typeLabel = TIMER_SESSION_CONFIG[record.type as TimerSession['type']]?.label || String(record.type);
+    const label = `${typeLabel}, ${new Date(startTime || 0).toLocaleString()}`;
+    const match = sessions.find(session => session.type === record.type && session.startTime?.toMillis() === startTime);
+
+    if (record.status !== 'completed') {
+      items.push(createItem('timerSessions', record, label, 'skipped', 'Unfinished sessions are not restored'));
+    } else if (match) {
+      items.push(createItem('timerSessions', record, label, 'conflict', 'This session is already in your history', match.id));
+    } else {
+      items.push(createItem('timerSessions', record, label, 'new'));
+    }
+  });
+
+  data.timerSettings.forEach(record => {
+    const keys = Object.keys(DEFAULT_TIMER_SETTINGS) as (keyof TimerSettings)[];
+    const isSame = keys.every(key => record[key] === undefined || record[key] === settings[key]);
+
+    items.push(isSame
+      ? createItem('timerSettings', record, 'Timer settings', 'skipped', 'Same as your current settings')
+      : createItem('timerSettings', record, 'Timer settings', 'conflict', 'Replaces your current timer settings', userId));
+  });
+
+  data.notifications.forEach(record => {
+    items.push(createItem('notifications', record, String(record.title || 'Notification'), 'skipped', 'Notifications are not restored'));
+  });
+
+  data.gradingScales.forEach(record => {
+    const match = scales.find(scale => scale.userId && sameText(scale.name, record.name));
+
+    items.push(match
+      ? createItem('gradingScales', record, String(record.name), 'conflict', `Matches your scale "${match.name}"`, match.id)
+      : createItem('gradingScales', record, String(record.name), 'new'));
+  });
+
+  data.assessments.forEach(record => {
+    const parent = data.subjects.find(subject => subject.id === record.subjectId);
+    const label = `${parent?.name || 'Unknown subject'}: ${record.name}`;
+    const match = subjectMatches.get(String(record.subjectId));
+    const date = toMillis(record.date);
+    const existing = match && assessments.find(assessment =>
+      assessment.subjectId === match.id && sameText(assessment.name, record.name) && assessment.date.toMillis() === date
+    );
+
+    if (!parent) {
+      items.push(createItem('assessments', record, label, 'skipped', 'Its subject is not in the backup'));
+    } else if (existing) {
+      items.push(createItem('assessments', record, label, 'conflict', `Already in ${match.name}`, existing.id));
+    } else {
+      items.push(createItem('assessments', record, label, 'new'));
+    }
+  });
+
+  data.files.forEach(record => {
+    const file = record as unknown as SubjectFile | TaskFile;
+    const label = file.originalName;
+
+    if (getFileSource(file) === 'task') {
+      const taskId = (file as TaskFile).taskId;
+      const match = taskMatches.get(taskId);
+      const existing = match && files.find(f =>
+        (f as TaskFile).taskId === match.id && f.originalName === file.originalName && f.size === file.size
+      );
+
+      if (!source.fileIds.includes(file.id)) {
+        items.push(createItem('files', record, label, 'skipped', 'File content is not in the backup'));
+      } else if (!data.tasks.some(task => task.id === taskId)) {
+        items.push(createItem('files', record, label, 'skipped', 'Its task is not in the backup'));
+      } else if (existing) {
+        items.push(createItem('files', record, label, 'conflict', `Already attached to "${match.title}"`, existing.id));
+      } else {
+        items.push(createItem('files', record, label, 'new'));
+      }
+    } else {
+      const subjectId = (file as SubjectFile).subjectId;
+      const match = subjectMatches.get(subjectId);
+      const existing = match && files.find(f =>
+        (f as SubjectFile).subjectId === match.id && f.originalName === file.originalName && f.size === file.size
+      );
+
+      if (!source.fileIds.includes(file.id)) {
+        items.push(createItem('files', record, label, 'skipped', 'File content is not in the backup'));
+      } else if (!data.subjects.some(subject => subject.id === subjectId)) {
+        items.push(createItem('files', record, label, 'skipped', 'Its subject is not in the backup'));
+      } else if (existing) {
+        items.push(createItem('files', record, label, 'conflict', `Already in ${match.name}`, existing.id));
+      } else {
+        items.push(createItem('files', record, label, 'new'));
+      }
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Recurrence of a restored item, continuing the series from the occurrence it was on
+ */
+function toRestoredRecurrence(rule: RecurrenceRule | null | undefined, occurrenceIndex: number = 1): RecurrenceFormData | null {
+  if (!rule) return null;
+
+  const formData = toRecurrenceFormData(rule);
+  // The restored item starts a new series, so only the remaining occurrences are counted
+  if (formData.endType === 'count') {
+    formData.count = Math.max(1, formData.count - (occurrenceIndex - 1));
+  }
+  return formData;
+}
+
+function toChecklistFormData(checklist: TaskChecklistItem[] = []): TaskChecklistItemFormData[] {
+  return checklist.map(item => ({
+    id: item.id,
+    title: item.title,
+    isCompleted: item.isCompleted,
+    dueDate: item.dueDate ? toDateKey(item.dueDate.toDate()) : ''
+  }));
+}
+
+function toScheduleEntry(record: ExportRecord): SubjectSchedule {
+  const { id, subjectId, index, ...entry } = record;
+  return entry as unknown as SubjectSchedule;
+}
+
+/**
+ * Write the selected preview items to the user's account
+ * New IDs are recorded as records are created so tasks keep their subject, sessions their task,
+ * subjects their grading scale, assessments their subject and files their subject or task;
+ * conflicts that are left out map to the matching record
+ */
+export async function applyRestore(
+  userId: string,
+  source: RestoreSource,
+  items: RestoreItem[],
+  onProgress?: (progress: RestoreProgress) => void
+): Promise<RestoreResult> {
+  const result: RestoreResult = { created: 0, skipped: 0, errors: [] };
+  const subjectIds = new Map<string, string>();
+  const taskIds = new Map<string, string>();
+  const scaleIds = new Map<string, string>();
+
+  items.forEach(item => {
+    if (item.restore || !item.existingId) return;
+    if (item.entity === 'subjects') subjectIds.set(item.record.id, item.existingId);
+    if (item.entity === 'tasks') taskIds.set(item.record.id, item.existingId);
+    if (item.entity === 'gradingScales') scaleIds.set(item.record.id, item.existingId);
+  });
+
+  const selected = items.filter(item => item.restore && item.status !== 'skipped');
+  result.skipped = items.length - selected.length;
+
+  const getSelected = (entity: ExportEntity) => selected.filter(item => item.entity === entity);
+  const fail = (item: RestoreItem, error: unknown) => {
+    result.errors.push(`${item.label}: ${error instanceof Error ? error.message : 'Failed to restore'}`);
+  };
+
+  let completed = 0;
+  const report = (entity: ExportEntity) => onProgress?.({ entity, completed: completed++, total: selected.length });
+
+  // Grading scales come first so restored subjects can be graded on them
+  for (const item of getSelected('gradingScales')) {
+    report('gradingScales');
+    const scale = decodeRecord<GradingScale>(item.record);
+
+    try {
+      const scaleId = await createGradingScale(userId, { name: scale.name, bands: scale.bands });
+      scaleIds.set(item.record.id, scaleId);
+      result.created++;
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+
+  // Subjects, with the classes restored alongside them
+  const schedules = getSelected('schedules');
+  const scheduledWithSubject = new Set<RestoreItem>();
+  for (const item of getSelected('subjects')) {
+    report('subjects');
+    const subject = decodeRecord<Subject>(item.record);
+    const classes = schedules.filter(schedule => schedule.record.subjectId === item.record.id);
+    classes.forEach(schedule => scheduledWithSubject.add(schedule));
+
+    try {
+      const subjectId = await createSubject(userId, {
+        name: subject.name,
+        code: subject.code,
+        description: subject.description,
+        color: subject.color,
+        teacher: subject.teacher,
+        room: subject.room,
+        schedule: classes.map(schedule => toScheduleEntry(schedule.record))
+      });
+      subjectIds.set(item.record.id, subjectId);
+      result.created += 1 + classes.length;
+
+      if (subject.credits !== undefined || subject.semester || subject.gradingScaleId) {
+        // Built-in scales keep their ID; a custom scale that was not restored falls back to the default
+        const isBuiltIn = BUILT_IN_GRADING_SCALES.some(scale => scale.id === subject.gradingScaleId);
+        await updateSubjectGradeSettings(subjectId, {
+          credits: subject.credits ?? null,
+          semester: subject.semester || '',
+          gradingScaleId: (isBuiltIn ? subject.gradingScaleId : scaleIds.get(subject.gradingScaleId || ''))
+            || GRADE_CONFIG.defaultScaleId
+        });
+      }
+    } catch (error) {
+      fail(item, error);
+    }
+    classes.forEach(() => completed++);
+  }
+
+  // Classes of subjects that were already in the account
+  const existingSubjects = await getUserSubjects(userId);
+  const addedClasses = new Map<string, RestoreItem[]>();
+  for (const item of schedules) {
+    if (scheduledWithSubject.has(item)) continue;
+    report('schedules');
+
+    const subjectId = subjectIds.get(String(item.record.subjectId));
+    if (!subjectId || !existingSubjects.some(subject => subject.id === subjectId)) {
+      result.skipped++;
+      continue;
+    }
+    addedClasses.set(subjectId, [...(addedClasses.get(subjectId) || []), item]);
+  }
+  for (const [subjectId, classes] of Array.from(addedClasses.entries())) {
+    const subject = existingSubjects.find(s => s.id === subjectId)!;
+    try {
+      await updateDoc(doc(getDb(), 'subjects', subjectId), {
+        schedule: cleanSchedule([...(subject.schedule || []), ...classes.map(item => toScheduleEntry(item.record))]),
+        updatedAt: serverTimestamp()
+      });
+      result.created += classes.length;
+    } catch (error) {
+      classes.forEach(item => fail(item, error));
+    }
+  }
+
+  // Tasks; dependencies are linked once every task has its new ID
+  const restoredTasks: { item: RestoreItem; task: Task; taskId: string }[] = [];
+  for (const item of getSelected('tasks')) {
+    report('tasks');
+    const task = decodeRecord<Task>(item.record);
+
+    try {
+      const created = await createTask(userId, {
+        title: task.title,
+        description: task.description,
+        dueDate: task.dueDate.toDate().toISOString(),
+        priority: task.priority,
+        subjectId: task.subjectId ? subjectIds.get(task.subjectId) : undefined,
+        checklist: toChecklistFormData(task.checklist),
+        // Later occurrences of a series are already generated, so only the latest one repeats
+        recurrence: task.nextOccurrenceId ? null : toRestoredRecurrence(task.recurrence, task.occurrenceIndex)
+      });
+      // Tasks are created pending, so any other stored status is set afterwards; completing goes
+      // through the toggle so the latest occurrence of a series schedules the next one
+      if (task.status === 'completed') {
+        await toggleTaskCompletion(userId, created.id);
+      } else if (task.status === 'overdue') {
+        await updateTaskStatus(userId, created.id, task.status);
+      }
+      taskIds.set(item.record.id, created.id);
+      restoredTasks.push({ item, task, taskId: created.id });
+      result.created++;
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+  for (const { item, task, taskId } of restoredTasks) {
+    const dependsOn = (task.dependsOn || [])
+      .map(id => taskIds.get(id))
+      .filter((id): id is string => Boolean(id));
+    if (dependsOn.length === 0) continue;
+
+    try {
+      await updateTask(userId, taskId, { dependsOn });
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+
+  for (const item of getSelected('reminders')) {
+    report('reminders');
+    const reminder = decodeRecord<Reminder>(item.record);
+
+    try {
+      const created = await createReminder(userId, {
+        title: reminder.title,
+        description: reminder.description,
+        dueDate: reminder.dueDate.toDate().toISOString(),
+        // A completed series has ended, so it comes back as a single completed reminder
+        recurrence: reminder.isCompleted ? null : toRestoredRecurrence(reminder.recurrence, reminder.occurrenceIndex)
+      });
+      if (reminder.isCompleted) {
+        await toggleReminderCompletion(userId, created.id);
+      }
+      result.created++;
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+
+  for (const item of getSelected('timerSessions')) {
+    report('timerSessions');
+    const session = decodeRecord<TimerSession>(item.record);
+
+    try {
+      await importTimerSession(userId, {
+        type: session.type,
+        duration: session.duration,
+        actualDuration: session.actualDuration || 0,
+        taskId: session.taskId ? taskIds.get(session.taskId) : null,
+        startTime: session.startTime,
+        endTime: session.endTime || null,
+        status: session.status,
+        sessionNumber: session.sessionNumber || 1,
+        completedSessions: session.completedSessions || 0
+      });
+      result.created++;
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+
+  for (const item of getSelected('timerSettings')) {
+    report('timerSettings');
+    const keys = Object.keys(DEFAULT_TIMER_SETTINGS) as (keyof TimerSettings)[];
+    const settings = Object.fromEntries(
+      keys
+        .filter(key => typeof item.record[key] === typeof DEFAULT_TIMER_SETTINGS[key])
+        .map(key => [key, item.record[key]])
+    ) as Partial<TimerSettings>;
+
+    try {
+      await updateUserTimerSettings(userId, settings);
+      result.created++;
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+
+  for (const item of getSelected('assessments')) {
+    report('assessments');
+    const assessment = decodeRecord<Assessment>(item.record);
+    const subjectId = subjectIds.get(assessment.subjectId);
+
+    if (!subjectId) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      await createAssessment(userId, subjectId, {
+        name: assessment.name,
+        weight: assessment.weight,
+        maxScore: assessment.maxScore,
+        score: typeof assessment.score === 'number' ? assessment.score : null,
+        date: toDateKey(assessment.date.toDate())
+      });
+      result.created++;
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+
+  // Files are uploaded again; subjects and tasks are updated once all their files are in
+  const filedSubjects = new Set<string>();
+  const filedTasks = new Set<string>();
+  for (const item of getSelected('files')) {
+    report('files');
+    const record = item.record as unknown as SubjectFile | TaskFile;
+    const isTaskFile = getFileSource(record) === 'task';
+    const ownerId = isTaskFile
+      ? taskIds.get((record as TaskFile).taskId)
+      : subjectIds.get((record as SubjectFile).subjectId);
+
+    if (!ownerId) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const blob = await source.readFile(record.id);
+      if (!blob) {
+        throw new Error('File content is not in the backup');
+      }
+
+      const name = record.originalName || record.name;
+      const file = new File([blob], name, { type: FILE_TYPE_CONFIG[record.type as FileType]?.mime[0] || blob.type });
+
+      if (isTaskFile) {
+        await uploadTaskFile(file, ownerId, userId);
+        filedTasks.add(ownerId);
+      } else {
+        await uploadSubjectFile(file, ownerId, userId);
+        filedSubjects.add(ownerId);
+      }
+      result.created++;
+    } catch (error) {
+      fail(item, error);
+    }
+  }
+  for (const subjectId of Array.from(filedSubjects)) {
+    try {
+      await updateSubjectFileCount(subjectId);
+    } catch (error) {
+      result.errors.push(`Subject files: ${error instanceof Error ? error.message : 'Failed to update the file count'}`);
+    }
+  }
+  for (const taskId of Array.from(filedTasks)) {
+    try {
+      await updateTaskAttachedFiles(userId, taskId, await getTaskFiles(taskId, userId));
+    } catch (error) {
+      result.errors.push(`Task files: ${error instanceof Error ? error.message : 'Failed to attach files'}`);
+    }
+  }
+
+  onProgress?.({ entity: 'files', completed: selected.length, total: selected.length });
+  return result;
+}
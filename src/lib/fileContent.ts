@@ -0,0 +1,278 @@
+/**
+ * File content extraction for MyStudyHub
+ * Extracts the text of uploaded PDF, TXT, Markdown, DOCX and PPTX files
+ * and stores it in chunks so search can match inside files
+ */
+
+import {
+  collection,
+  doc,
+  query,
+  where,
+  getDocs,
+  writeBatch
+} from 'firebase/firestore';
+import type JSZip from 'jszip';
+import { getDb } from './firebase';
+import { getFileExtension } from './fileUtils';
+import {
+  ExtractedTextPage,
+  FileContentChunk,
+  FileContentExtraction,
+  FileType,
+  TEXT_EXTRACTABLE_TYPES
+} from '@/types/subject';
+import { SEARCH_CONFIG } from '@/types/search';
+
+const FILE_CONTENTS_COLLECTION = 'fileContents';
+
+// Firestore allows 500 writes per batch
+const MAX_BATCH_SIZE = 450;
+
+/**
+ * Decode the character references of XML text
+ */
+function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.substring(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.substring(1), 10));
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[lower] || match;
+  });
+}
+
+/**
+ * Extract the text of each page of a PDF
+ */
+async function extractPdfText(data: ArrayBuffer): Promise<ExtractedTextPage[]> {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const pages: ExtractedTextPage[] = [];
+  let totalLength = 0;
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && totalLength < SEARCH_CONFIG.maxContentLength; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('');
+
+      pages.push({ page: pageNumber, text });
+      totalLength += text.length;
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+}
+
+/**
+ * Extract the text of a DOCX document
+ * Word records where pages broke when it last laid out the document; those give page numbers
+ */
+async function extractDocxText(data: ArrayBuffer): Promise<ExtractedTextPage[]> {
+  const { default: JSZipLoader } = await import('jszip');
+  const zip = await JSZipLoader.loadAsync(data);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) return [];
+
+  const hasRenderedBreaks = xml.includes('<w:lastRenderedPageBreak/>');
+  const hasManualBreaks = /<w:br\b[^>]*w:type="page"/.test(xml);
+  const hasPages = hasRenderedBreaks || hasManualBreaks;
+
+  const pages: ExtractedTextPage[] = [];
+  let pageNumber = 1;
+  let current = '';
+
+  const endPage = () => {
+    if (current.trim()) pages.push({ page: hasPages ? pageNumber : null, text: current });
+    current = '';
+    pageNumber++;
+  };
+
+  const pattern = /<w:lastRenderedPageBreak\/>|<w:br\b([^>]*)\/>|<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<\/w:p>/g;
+  for (const [token, breakAttributes, text] of xml.matchAll(pattern)) {
+    if (token === '<w:lastRenderedPageBreak/>') {
+      endPage();
+    } else if (breakAttributes !== undefined) {
+      // Rendered breaks already include manual page breaks
+      if (!hasRenderedBreaks && breakAttributes.includes('w:type="page"')) endPage();
+      else current += '\n';
+    } else if (text !== undefined) {
+      current += decodeXmlText(text);
+    } else {
+      current += token === '<w:tab/>' ? ' ' : '\n';
+    }
+  }
+  endPage();
+
+  return pages;
+}
+
+/**
+ * Get the slide files of a PPTX presentation in slide order
+ */
+async function getPptxSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+  const relationships = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string');
+
+  if (presentation && relationships) {
+    const targets = new Map<string, string>();
+    for (const [relationship] of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+      const id = relationship.match(/\bId="([^"]+)"/)?.[1];
+      const target = relationship.match(/\bTarget="([^"]+)"/)?.[1];
+      if (id && target) {
+        targets.set(id, target.startsWith('/') ? target.substring(1) : `ppt/${target}`);
+      }
+    }
+
+    const ordered = Array.from(presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g))
+      .map(([, id]) => targets.get(id))
+      .filter((path): path is string => !!path && !!zip.file(path));
+    if (ordered.length > 0) return ordered;
+  }
+
+  // Fall back to the file names, which PowerPoint numbers in order
+  return Object.keys(zip.files)
+    .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => Number(a.match(/\d+/g)!.pop()) - Number(b.match(/\d+/g)!.pop()));
+}
+
+/**
+ * Extract the text of each slide of a PPTX presentation
+ */
+async function extractPptxText(data: ArrayBuffer): Promise<ExtractedTextPage[]> {
+  const { default: JSZipLoader } = await import('jszip');
+  const zip = await JSZipLoader.loadAsync(data);
+  const slidePaths = await getPptxSlidePaths(zip);
+  const pages: ExtractedTextPage[] = [];
+
+  for (let index = 0; index < slidePaths.length; index++) {
+    const xml = await zip.file(slidePaths[index])!.async('string');
+    const text = xml
+      .split('</a:p>')
+      .map(paragraph => Array.from(paragraph.matchAll(/<a:t>([^<]*)<\/a:t>/g), ([, run]) => decodeXmlText(run)).join(''))
+      .filter(line => line.trim())
+      .join('\n');
+
+    pages.push({ page: index + 1, text });
+  }
+
+  return pages;
+}
+
+/**
+ * Split page texts into chunks of about SEARCH_CONFIG.contentChunkLength characters
+ * Chunks end at whitespace where possible and never span two pages
+ */
+export function chunkExtractedText(pages: ExtractedTextPage[]): ExtractedTextPage[] {
+  const chunks: ExtractedTextPage[] = [];
+  const chunkLength = SEARCH_CONFIG.contentChunkLength;
+  let remaining = SEARCH_CONFIG.maxContentLength;
+
+  pages.forEach(({ page, text }) => {
+    let rest = text
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/ ?\n[\s]*/g, '\n')
+      .trim();
+
+    while (rest && remaining > 0) {
+      let end = Math.min(rest.length, chunkLength, remaining);
+      if (end < rest.length) {
+        const boundary = Math.max(rest.lastIndexOf(' ', end), rest.lastIndexOf('\n', end));
+        if (boundary > chunkLength / 2) end = boundary;
+      }
+
+      chunks.push({ page, text: rest.substring(0, end).trim() });
+      remaining -= end;
+      rest = rest.substring(end).trim();
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Extract the searchable text of a file before it is uploaded
+ * Never throws: files that cannot be read are uploaded without content
+ */
+export async function extractFileContent(file: File): Promise<FileContentExtraction> {
+  const type = getFileExtension(file.name) as FileType;
+  if (!TEXT_EXTRACTABLE_TYPES.includes(type)) {
+    return { status: 'unsupported', chunks: [] };
+  }
+
+  try {
+    let pages: ExtractedTextPage[];
+    switch (type) {
+      case 'pdf':
+        pages = await extractPdfText(await file.arrayBuffer());
+        break;
+      case 'docx':
+        pages = await extractDocxText(await file.arrayBuffer());
+        break;
+      case 'pptx':
+        pages = await extractPptxText(await file.arrayBuffer());
+        break;
+      default:
+        pages = [{ page: null, text: await file.text() }];
+    }
+
+    const chunks = chunkExtractedText(pages);
+    return { status: chunks.length > 0 ? 'indexed' : 'empty', chunks };
+  } catch (error) {
+    console.error(`Failed to extract text from ${file.name}:`, error);
+    return { status: 'failed', chunks: [] };
+  }
+}
+
+/**
+ * Store the extracted text chunks of an uploaded file
+ */
+export async function saveFileContent(fileId: string, userId: string, chunks: ExtractedTextPage[]): Promise<void> {
+  const db = getDb();
+
+  for (let start = 0; start < chunks.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+
+    chunks.slice(start, start + MAX_BATCH_SIZE).forEach((chunk, offset) => {
+      const index = start + offset;
+      const chunkData: FileContentChunk = {
+        id: `${fileId}_${index}`,
+        fileId,
+        userId,
+        index,
+        page: chunk.page,
+        text: chunk.text
+      };
+      batch.set(doc(db, FILE_CONTENTS_COLLECTION, chunkData.id), chunkData);
+    });
+
+    await batch.commit();
+  }
+}
+
+/**
+ * Delete the stored text of a file
+ */
+export async function deleteFileContent(fileId: string, userId: string): Promise<void> {
+  const db = getDb();
+  const snapshot = await getDocs(query(
+    collection(db, FILE_CONTENTS_COLLECTION),
+    where('fileId', '==', fileId),
+    where('userId', '==', userId)
+  ));
+
+  for (let start = 0; start < snapshot.docs.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(start, start + MAX_BATCH_SIZE).forEach(docSnapshot => batch.delete(docSnapshot.ref));
+    await batch.commit();
+  }
+}
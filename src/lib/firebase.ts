@@ -5,7 +5,14 @@
 
 import { initializeApp } from "firebase/app";
 import { getAuth, Auth } from "firebase/auth";
-import { Firestore, initializeFirestore, CACHE_SIZE_UNLIMITED } from "firebase/firestore";
+import {
+  Firestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  memoryLocalCache,
+  CACHE_SIZE_UNLIMITED
+} from "firebase/firestore";
 import { getStorage, FirebaseStorage } from "firebase/storage";
 
 // Your web app's Firebase configuration
@@ -51,7 +58,14 @@ throw error;
   if (!db) {
     // Enhanced Firestore initialization for serverless compatibility
     db = initializeFirestore(app, {
-      cacheSizeBytes: CACHE_SIZE_UNLIMITED,
+      // Keep documents in IndexedDB so pages load from the cache without a connection;
+      // IndexedDB only exists in the browser
+      localCache: typeof window !== 'undefined'
+        ? persistentLocalCache({
+            cacheSizeBytes: CACHE_SIZE_UNLIMITED,
+            tabManager: persistentMultipleTabManager()
+          })
+        : memoryLocalCache(),
       experimentalForceLongPolling: true, // Force long polling instead of WebChannel
     });
 
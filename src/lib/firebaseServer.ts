@@ -0,0 +1,173 @@
+/**
+ * Server-side Firebase access for MyStudyHub route handlers
+ * Verifies ID tokens and reads and writes Firestore and auth claims with the Admin SDK
+ * and the service account, so privileged work never depends on the browser
+ */
+
+import { App, cert, getApps, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, Query, Timestamp } from 'firebase-admin/firestore';
+import { VerifiedIdToken } from '@/types/user';
+
+// Kept apart from any default app another library may initialize
+const SERVER_APP_NAME = 'mystudyhub-server';
+
+export interface ServerDocument {
+  id: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * The project tokens must be issued for; there is no default so a misconfigured server refuses every token
+ */
+function getProjectId(): string {
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID is not configured');
+  }
+  return projectId;
+}
+
+function hasServiceAccount(): boolean {
+  return !!process.env.FIREBASE_CLIENT_EMAIL && !!process.env.FIREBASE_PRIVATE_KEY;
+}
+
+/**
+ * Get the Admin SDK app, signed in as the service account when FIREBASE_CLIENT_EMAIL
+ * and FIREBASE_PRIVATE_KEY are set; verifying ID tokens only needs the project ID
+ */
+function getServerApp(): App {
+  const existing = getApps().find(app => app.name === SERVER_APP_NAME);
+  if (existing) {
+    return existing;
+  }
+
+  const projectId = getProjectId();
+  return initializeApp({
+    projectId,
+    ...(hasServiceAccount() && {
+      credential: cert({
+        projectId,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n')
+      })
+    })
+  }, SERVER_APP_NAME);
+}
+
+/**
+ * Get the Admin SDK app for privileged work, which needs the service account
+ */
+function getServiceApp(): App {
+  if (!hasServiceAccount()) {
+    throw new Error('Service account credentials are not configured');
+  }
+  return getServerApp();
+}
+
+/**
+ * Verify a Firebase ID token sent by the browser and return who it belongs to
+ * Throws when the token is malformed, expired, issued for another project or not signed by Firebase
+ */
+export async function verifyIdToken(idToken: string): Promise<VerifiedIdToken> {
+  const decoded = await getAuth(getServerApp()).verifyIdToken(idToken);
+
+  return {
+    uid: decoded.uid,
+    email: decoded.email ?? null,
+    claims: decoded as Record<string, unknown>
+  };
+}
+
+// Timestamps become ISO strings, so route handlers send plain JSON
+function toPlainValue(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlainValue(item)]));
+  }
+  return value;
+}
+
+function toServerDocument(id: string, data: Record<string, unknown> = {}): ServerDocument {
+  return { id, data: toPlainValue(data) as Record<string, unknown> };
+}
+
+/**
+ * Read every document of a collection, optionally only those where a field equals a value
+ * Timestamps come back as ISO strings
+ */
+export async function listDocuments(
+  collectionId: string,
+  where?: { field: string; value: string | number | boolean }
+): Promise<ServerDocument[]> {
+  try {
+    let documents: Query = getFirestore(getServiceApp()).collection(collectionId);
+    if (where) {
+      documents = documents.where(where.field, '==', where.value);
+    }
+
+    const snapshot = await documents.get();
+    return snapshot.docs.map(docSnapshot => toServerDocument(docSnapshot.id, docSnapshot.data()));
+  } catch (error) {
+    console.error(`Error reading ${collectionId}:`, error);
+    throw new Error(`Failed to read ${collectionId}`);
+  }
+}
+
+/**
+ * Read a single document, or null when it does not exist
+ */
+export async function getDocument(collectionId: string, documentId: string): Promise<ServerDocument | null> {
+  try {
+    const docSnapshot = await getFirestore(getServiceApp()).collection(collectionId).doc(documentId).get();
+    return docSnapshot.exists ? toServerDocument(docSnapshot.id, docSnapshot.data()) : null;
+  } catch (error) {
+    console.error(`Error reading ${collectionId}/${documentId}:`, error);
+    throw new Error(`Failed to read ${collectionId}/${documentId}`);
+  }
+}
+
+/**
+ * Write the given top-level fields of a document, creating it if needed and leaving other fields alone
+ */
+export async function mergeDocument(collectionId: string, documentId: string, data: Record<string, unknown>): Promise<void> {
+  try {
+    await getFirestore(getServiceApp()).collection(collectionId).doc(documentId)
+      .set(data, { mergeFields: Object.keys(data) });
+  } catch (error) {
+    console.error(`Error writing ${collectionId}/${documentId}:`, error);
+    throw new Error(`Failed to write ${collectionId}/${documentId}`);
+  }
+}
+
+/**
+ * Change some of a user's custom auth claims, keeping the others
+ * A claim set to null is removed; the user sees the change once their ID token is refreshed
+ */
+export async function updateCustomClaims(uid: string, changes: Record<string, unknown>): Promise<void> {
+  const auth = getAuth(getServiceApp());
+
+  let current: Record<string, unknown>;
+  try {
+    current = (await auth.getUser(uid)).customClaims || {};
+  } catch (error) {
+    console.error('Error reading user account:', error);
+    throw new Error('Failed to read the user account');
+  }
+
+  const claims = Object.fromEntries(
+    Object.entries({ ...current, ...changes }).filter(([, value]) => value !== null)
+  );
+
+  try {
+    await auth.setCustomUserClaims(uid, claims);
+  } catch (error) {
+    console.error('Error updating user claims:', error);
+    throw new Error('Failed to update the user claims');
+  }
+}
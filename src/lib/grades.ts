@@ -0,0 +1,424 @@
+/**
+ * Grade book for MyStudyHub
+ * Stores weighted assessments per subject and custom grading scales, and works out current
+ * grades, what the remaining assessments need, and semester GPA
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import {
+  Assessment,
+  AssessmentFormData,
+  FinalProjection,
+  GradeBand,
+  GradingScale,
+  GradingScaleFormData,
+  SemesterGpa,
+  SubjectGradeSettings,
+  SubjectGradeSummary,
+  BUILT_IN_GRADING_SCALES,
+  GRADE_CONFIG
+} from '@/types/grade';
+import { Subject } from '@/types/subject';
+
+const ASSESSMENTS_COLLECTION = 'assessments';
+const GRADING_SCALES_COLLECTION = 'gradingScales';
+const SUBJECTS_COLLECTION = 'subjects';
+
+function toAssessment(id: string, data: Record<string, any>): Assessment {
+  return {
+    id,
+    userId: data.userId,
+    subjectId: data.subjectId,
+    name: data.name,
+    weight: data.weight ?? 0,
+    maxScore: data.maxScore || 100,
+    score: typeof data.score === 'number' ? data.score : null,
+    date: data.date || Timestamp.now(),
+    createdAt: data.createdAt || Timestamp.now(),
+    updatedAt: data.updatedAt || Timestamp.now()
+  };
+}
+
+function toGradingScale(id: string, data: Record<string, any>): GradingScale {
+  return {
+    id,
+    userId: data.userId,
+    name: data.name,
+    bands: sortBands(data.bands || []),
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt
+  };
+}
+
+function sortBands(bands: GradeBand[]): GradeBand[] {
+  return [...bands].sort((a, b) => b.minPercentage - a.minPercentage);
+}
+
+// ============================================================================
+// ASSESSMENTS
+// ============================================================================
+
+function validateAssessment(data: AssessmentFormData): void {
+  if (!data.name.trim()) {
+    throw new Error('Assessment name is required');
+  }
+  if (!Number.isFinite(data.weight) || data.weight < 0 || data.weight > 100) {
+    throw new Error('Weight must be between 0 and 100%');
+  }
+  if (!Number.isFinite(data.maxScore) || data.maxScore <= 0) {
+    throw new Error('Max score must be more than 0');
+  }
+  if (data.score !== null && (!Number.isFinite(data.score) || data.score < 0)) {
+    throw new Error('Score cannot be negative');
+  }
+  if (!data.date || isNaN(new Date(`${data.date}T00:00`).getTime())) {
+    throw new Error('Assessment date is required');
+  }
+}
+
+function toStoredAssessment(data: AssessmentFormData) {
+  return {
+    name: data.name.trim(),
+    weight: data.weight,
+    maxScore: data.maxScore,
+    score: data.score,
+    date: Timestamp.fromDate(new Date(`${data.date}T00:00`))
+  };
+}
+
+/**
+ * Add an assessment to a subject's grade book
+ */
+export async function createAssessment(userId: string, subjectId: string, data: AssessmentFormData): Promise<string> {
+  validateAssessment(data);
+
+  try {
+    const docRef = await addDoc(collection(getDb(), ASSESSMENTS_COLLECTION), {
+      userId,
+      subjectId,
+      ...toStoredAssessment(data),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    throw new Error('Failed to add assessment');
+  }
+}
+
+/**
+ * Update an assessment, e.g. to enter its score once it is graded
+ */
+export async function updateAssessment(assessmentId: string, data: AssessmentFormData): Promise<void> {
+  validateAssessment(data);
+
+  try {
+    await updateDoc(doc(getDb(), ASSESSMENTS_COLLECTION, assessmentId), {
+      ...toStoredAssessment(data),
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    throw new Error('Failed to update assessment');
+  }
+}
+
+export async function deleteAssessment(assessmentId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(getDb(), ASSESSMENTS_COLLECTION, assessmentId));
+  } catch (error) {
+    throw new Error('Failed to delete assessment');
+  }
+}
+
+/**
+ * Real-time listener for a subject's assessments, by date
+ */
+export function listenToSubjectAssessments(
+  userId: string,
+  subjectId: string,
+  callback: (assessments: Assessment[]) => void
+): () => void {
+  const q = query(
+    collection(getDb(), ASSESSMENTS_COLLECTION),
+    where('userId', '==', userId),
+    where('subjectId', '==', subjectId)
+  );
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs
+      .map(docSnapshot => toAssessment(docSnapshot.id, docSnapshot.data()))
+      .sort((a, b) => a.date.toMillis() - b.date.toMillis()));
+  }, (error) => {
+    console.error('Error in assessments listener:', error);
+  });
+}
+
+/**
+ * Get every assessment of a user, for GPA across subjects
+ */
+export async function getUserAssessments(userId: string): Promise<Assessment[]> {
+  try {
+    const querySnapshot = await getDocs(query(collection(getDb(), ASSESSMENTS_COLLECTION), where('userId', '==', userId)));
+    return querySnapshot.docs.map(docSnapshot => toAssessment(docSnapshot.id, docSnapshot.data()));
+  } catch (error) {
+    throw new Error('Failed to fetch assessments');
+  }
+}
+
+// ============================================================================
+// GRADING SCALES
+// ============================================================================
+
+function validateGradingScale(data: GradingScaleFormData): void {
+  if (!data.name.trim()) {
+    throw new Error('Scale name is required');
+  }
+  if (data.bands.length === 0) {
+    throw new Error('A scale needs at least one grade');
+  }
+  if (data.bands.length > GRADE_CONFIG.maxBandsPerScale) {
+    throw new Error(`A scale can have at most ${GRADE_CONFIG.maxBandsPerScale} grades`);
+  }
+  if (data.bands.some(band => !band.label.trim())) {
+    throw new Error('Every grade needs a label');
+  }
+  if (data.bands.some(band => !Number.isFinite(band.minPercentage) || band.minPercentage < 0 || band.minPercentage > 100)) {
+    throw new Error('Minimum percentages must be between 0 and 100');
+  }
+  if (data.bands.some(band => !Number.isFinite(band.points) || band.points < 0)) {
+    throw new Error('GPA points cannot be negative');
+  }
+  if (new Set(data.bands.map(band => band.minPercentage)).size !== data.bands.length) {
+    throw new Error('Two grades cannot start at the same percentage');
+  }
+  if (!data.bands.some(band => band.minPercentage === 0)) {
+    throw new Error('The lowest grade must start at 0%');
+  }
+}
+
+function toStoredGradingScale(data: GradingScaleFormData) {
+  return {
+    name: data.name.trim(),
+    bands: sortBands(data.bands).map(band => ({
+      label: band.label.trim(),
+      minPercentage: band.minPercentage,
+      points: band.points
+    }))
+  };
+}
+
+export async function createGradingScale(userId: string, data: GradingScaleFormData): Promise<string> {
+  validateGradingScale(data);
+
+  try {
+    const docRef = await addDoc(collection(getDb(), GRADING_SCALES_COLLECTION), {
+      userId,
+      ...toStoredGradingScale(data),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    throw new Error('Failed to create grading scale');
+  }
+}
+
+export async function updateGradingScale(scaleId: string, data: GradingScaleFormData): Promise<void> {
+  validateGradingScale(data);
+
+  try {
+    await updateDoc(doc(getDb(), GRADING_SCALES_COLLECTION, scaleId), {
+      ...toStoredGradingScale(data),
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    throw new Error('Failed to update grading scale');
+  }
+}
+
+/**
+ * Delete a custom scale; subjects using it fall back to the default scale
+ */
+export async function deleteGradingScale(scaleId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(getDb(), GRADING_SCALES_COLLECTION, scaleId));
+  } catch (error) {
+    throw new Error('Failed to delete grading scale');
+  }
+}
+
+/**
+ * Real-time listener for the built-in scales followed by the user's own
+ */
+export function listenToGradingScales(
+  userId: string,
+  callback: (scales: GradingScale[]) => void
+): () => void {
+  const q = query(collection(getDb(), GRADING_SCALES_COLLECTION), where('userId', '==', userId));
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback([
+      ...BUILT_IN_GRADING_SCALES,
+      ...querySnapshot.docs
+        .map(docSnapshot => toGradingScale(docSnapshot.id, docSnapshot.data()))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    ]);
+  }, (error) => {
+    console.error('Error in grading scales listener:', error);
+  });
+}
+
+/**
+ * Get the built-in scales followed by the user's own
+ */
+export async function getGradingScales(userId: string): Promise<GradingScale[]> {
+  try {
+    const querySnapshot = await getDocs(query(collection(getDb(), GRADING_SCALES_COLLECTION), where('userId', '==', userId)));
+    return [
+      ...BUILT_IN_GRADING_SCALES,
+      ...querySnapshot.docs.map(docSnapshot => toGradingScale(docSnapshot.id, docSnapshot.data()))
+    ];
+  } catch (error) {
+    return BUILT_IN_GRADING_SCALES;
+  }
+}
+
+/**
+ * The scale a subject is graded on, falling back to the default when unset or deleted
+ */
+export function getSubjectGradingScale(subject: Pick<Subject, 'gradingScaleId'>, scales: GradingScale[]): GradingScale {
+  return scales.find(scale => scale.id === subject.gradingScaleId)
+    || BUILT_IN_GRADING_SCALES.find(scale => scale.id === GRADE_CONFIG.defaultScaleId)!;
+}
+
+/**
+ * Save a subject's credits, semester and grading scale
+ */
+export async function updateSubjectGradeSettings(subjectId: string, settings: SubjectGradeSettings): Promise<void> {
+  if (settings.credits !== null && (!Number.isFinite(settings.credits) || settings.credits < 0)) {
+    throw new Error('Credits cannot be negative');
+  }
+
+  try {
+    await updateDoc(doc(getDb(), SUBJECTS_COLLECTION, subjectId), {
+      credits: settings.credits,
+      semester: settings.semester.trim(),
+      gradingScaleId: settings.gradingScaleId,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    throw new Error('Failed to save grade settings');
+  }
+}
+
+// ============================================================================
+// CALCULATIONS
+// ============================================================================
+
+/**
+ * The grade a percentage earns on a scale
+ */
+export function getGradeBand(percentage: number, scale: GradingScale): GradeBand | null {
+  return sortBands(scale.bands).find(band => percentage >= band.minPercentage) || null;
+}
+
+/**
+ * Where a subject stands: the weighted average of graded assessments, and how much of the
+ * final grade is still open
+ */
+export function calculateSubjectGrade(assessments: Assessment[], scale: GradingScale): SubjectGradeSummary {
+  let earnedWeight = 0;
+  let gradedWeight = 0;
+  let remainingWeight = 0;
+
+  assessments.forEach(assessment => {
+    if (assessment.score === null) {
+      remainingWeight += assessment.weight;
+    } else {
+      gradedWeight += assessment.weight;
+      earnedWeight += assessment.weight * (assessment.score / assessment.maxScore);
+    }
+  });
+
+  const currentPercentage = gradedWeight > 0 ? (earnedWeight / gradedWeight) * 100 : null;
+
+  return {
+    currentPercentage,
+    earnedWeight,
+    gradedWeight,
+    remainingWeight,
+    totalWeight: gradedWeight + remainingWeight,
+    band: currentPercentage === null ? null : getGradeBand(currentPercentage, scale)
+  };
+}
+
+/**
+ * What the ungraded assessments need to average to finish the subject on a target grade
+ * Weights that do not add up to 100% are treated as shares of their total
+ */
+export function projectRequiredScore(summary: SubjectGradeSummary, targetPercentage: number): FinalProjection {
+  if (summary.remainingWeight <= 0) {
+    return { targetPercentage, requiredPercentage: null, status: 'no_remaining' };
+  }
+
+  const requiredPercentage =
+    ((targetPercentage / 100) * summary.totalWeight - summary.earnedWeight) / summary.remainingWeight * 100;
+
+  return {
+    targetPercentage,
+    requiredPercentage,
+    status: requiredPercentage <= 0 ? 'secured' : requiredPercentage > 100 ? 'out_of_reach' : 'achievable'
+  };
+}
+
+/**
+ * GPA per semester, weighted by credits, over subjects with at least one graded assessment
+ * Subjects without credits count as one credit
+ */
+export function calculateSemesterGpa(
+  subjects: Subject[],
+  assessments: Assessment[],
+  scales: GradingScale[]
+): SemesterGpa[] {
+  const semesters = new Map<string, SemesterGpa>();
+
+  subjects.forEach(subject => {
+    const scale = getSubjectGradingScale(subject, scales);
+    const summary = calculateSubjectGrade(assessments.filter(a => a.subjectId === subject.id), scale);
+    if (summary.currentPercentage === null || !summary.band) return;
+
+    const semester = subject.semester?.trim() || GRADE_CONFIG.unassignedSemester;
+    const entry = semesters.get(semester) || { semester, gpa: 0, credits: 0, subjects: [] };
+    entry.subjects.push({
+      subjectId: subject.id,
+      subjectName: subject.name,
+      credits: subject.credits ?? 1,
+      percentage: summary.currentPercentage,
+      band: summary.band
+    });
+    semesters.set(semester, entry);
+  });
+
+  return Array.from(semesters.values())
+    .map(entry => {
+      const credits = entry.subjects.reduce((sum, s) => sum + s.credits, 0);
+      const points = entry.subjects.reduce((sum, s) => sum + s.credits * s.band.points, 0);
+      return { ...entry, credits, gpa: credits > 0 ? points / credits : 0 };
+    })
+    // Subjects without a semester come last
+    .sort((a, b) => Number(a.semester === GRADE_CONFIG.unassignedSemester) - Number(b.semester === GRADE_CONFIG.unassignedSemester) ||
+      a.semester.localeCompare(b.semester));
+}
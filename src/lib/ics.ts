@@ -0,0 +1,648 @@
+/**
+ * iCalendar utilities for MyStudyHub
+ * Serializes tasks, reminders and weekly classes to .ics files (RFC 5545)
+ * and parses calendar files for import
+ */
+
+import { Task, TaskPriority } from '@/types/task';
+import { Reminder } from '@/types/reminder';
+import { Subject, SubjectSchedule, DAYS_OF_WEEK, SCHEDULE_TYPE_CONFIG } from '@/types/subject';
+import { RecurrenceRule } from '@/types/recurrence';
+import {
+  IcsExportOptions,
+  IcsFrequency,
+  IcsRecurrence,
+  ParsedIcsItem,
+  ICS_PRODUCT_ID
+} from '@/types/ics';
+import { getUserTasks } from './tasks';
+import { getUserReminders } from './reminders';
+import { getUserSubjects } from './storage';
+import { timeToMinutes } from './timetable';
+
+// iCalendar weekday codes indexed by Date.getDay()
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+const TASK_PRIORITY_TO_ICS: Record<TaskPriority, number> = {
+  high: 1,
+  medium: 5,
+  low: 9
+};
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet chunks joined by CRLF + space
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME, e.g. 20261018T140000Z
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a local wall-clock time as a floating DATE-TIME, e.g. 20261019T090000
+ */
+function formatIcsLocalDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+/**
+ * Convert a recurrence rule to an RRULE value
+ */
+export function toIcsRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.frequency === 'weekly' && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(day => ICS_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.until) {
+    // End of the last day, in UTC as required when DTSTART is UTC
+    const [year, month, day] = rule.until.split('-').map(Number);
+    parts.push(`UNTIL=${formatIcsDateTime(new Date(year, month - 1, day, 23, 59, 59))}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Get EXDATE lines for the skipped dates of a rule
+ */
+function getExceptionLines(rule: RecurrenceRule): string[] {
+  const start = new Date(rule.dtstart);
+  return rule.exceptions.map(dateKey => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const skipped = new Date(year, month - 1, day, start.getHours(), start.getMinutes());
+    return `EXDATE:${formatIcsDateTime(skipped)}`;
+  });
+}
+
+/**
+ * Serialize a task as a VTODO or VEVENT component
+ */
+function taskToIcs(task: Task, subjects: Subject[], options: IcsExportOptions, stamp: string): string[] {
+  const due = formatIcsDateTime(task.dueDate.toDate());
+  const subject = task.subjectId ? subjects.find(s => s.id === task.subjectId) : undefined;
+  const isCompleted = task.status === 'completed';
+
+  const lines = [
+    `BEGIN:${options.taskFormat}`,
+    `UID:task-${task.id}@mystudyhub`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeIcsText(task.title)}`
+  ];
+
+  if (options.taskFormat === 'VTODO') {
+    lines.push(`DUE:${due}`);
+    lines.push(`STATUS:${isCompleted ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    lines.push(`PRIORITY:${TASK_PRIORITY_TO_ICS[task.priority] || 0}`);
+    if (isCompleted && task.updatedAt) {
+      lines.push(`COMPLETED:${formatIcsDateTime(task.updatedAt.toDate())}`);
+    }
+  } else {
+    // Deadlines have no duration, so the event starts and ends at the due time
+    lines.push(`DTSTART:${due}`);
+    lines.push(`DTEND:${due}`);
+    lines.push('TRANSP:TRANSPARENT');
+  }
+
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(task.description)}`);
+  }
+  if (subject) {
+    lines.push(`CATEGORIES:${escapeIcsText(subject.name)}`);
+  }
+
+  lines.push(`END:${options.taskFormat}`);
+  return lines;
+}
+
+/**
+ * Serialize a reminder as a VEVENT with a display alarm
+ */
+function reminderToIcs(reminder: Reminder, stamp: string): string[] {
+  const start = reminder.recurrence ? new Date(reminder.recurrence.dtstart) : reminder.dueDate.toDate();
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:reminder-${reminder.id}@mystudyhub`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeIcsText(reminder.title)}`,
+    `DTSTART:${formatIcsDateTime(start)}`,
+    `DTEND:${formatIcsDateTime(start)}`,
+    'TRANSP:TRANSPARENT'
+  ];
+
+  if (reminder.recurrence) {
+    lines.push(`RRULE:${toIcsRRule(reminder.recurrence)}`);
+    lines.push(...getExceptionLines(reminder.recurrence));
+  }
+  if (reminder.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(reminder.description)}`);
+  }
+
+  lines.push(
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeIcsText(reminder.title)}`,
+    'TRIGGER:PT0M',
+    'END:VALARM',
+    'END:VEVENT'
+  );
+  return lines;
+}
+
+/**
+ * Serialize a weekly class as a recurring VEVENT
+ * Class times use floating local time so they stay at the same hour across DST changes
+ */
+function classToIcs(
+  subject: Subject,
+  entry: SubjectSchedule,
+  index: number,
+  options: IcsExportOptions,
+  from: Date,
+  stamp: string
+): string[] {
+  // DAYS_OF_WEEK starts on Monday, Date.getDay() on Sunday
+  const mondayIndex = DAYS_OF_WEEK.indexOf(entry.dayOfWeek as typeof DAYS_OF_WEEK[number]);
+  if (mondayIndex < 0 || !entry.startTime || !entry.endTime) return [];
+  const dayIndex = (mondayIndex + 1) % 7;
+
+  // First occurrence on or after the start of the export week
+  const firstDay = new Date(from.getFullYear(), from.getMonth(), from.getDate() + ((dayIndex - from.getDay() + 7) % 7));
+  const startMinutes = timeToMinutes(entry.startTime);
+  const endMinutes = timeToMinutes(entry.endTime);
+  const start = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate(), Math.floor(startMinutes / 60), startMinutes % 60);
+  const end = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate(), Math.floor(endMinutes / 60), endMinutes % 60);
+
+  let rrule = `FREQ=WEEKLY;BYDAY=${ICS_WEEKDAYS[dayIndex]}`;
+  if (options.classesUntil) {
+    rrule += `;UNTIL=${options.classesUntil.replace(/-/g, '')}T235959`;
+  }
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:class-${subject.id}-${index}@mystudyhub`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeIcsText(entry.type ? `${subject.name} (${SCHEDULE_TYPE_CONFIG[entry.type].label})` : subject.name)}`,
+    `DTSTART:${formatIcsLocalDateTime(start)}`,
+    `DTEND:${formatIcsLocalDateTime(end)}`,
+    `RRULE:${rrule}`,
+    `CATEGORIES:${escapeIcsText(subject.name)}`
+  ];
+
+  const room = entry.room || subject.room;
+  if (room) {
+    lines.push(`LOCATION:${escapeIcsText(room)}`);
+  }
+  if (subject.teacher) {
+    lines.push(`DESCRIPTION:${escapeIcsText(`Teacher: ${subject.teacher}`)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build an .ics calendar from study data
+ */
+export function generateIcsCalendar(
+  data: { tasks: Task[]; reminders: Reminder[]; subjects: Subject[] },
+  options: IcsExportOptions,
+  now: Date = new Date()
+): string {
+  const stamp = formatIcsDateTime(now);
+  const isSubjectIncluded = (subjectId?: string) =>
+    options.subjectIds === null || (!!subjectId && options.subjectIds.includes(subjectId));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:MyStudyHub'
+  ];
+
+  if (options.includeTasks) {
+    data.tasks
+      .filter(task => options.includeCompleted || task.status !== 'completed')
+      .filter(task => isSubjectIncluded(task.subjectId))
+      .forEach(task => lines.push(...taskToIcs(task, data.subjects, options, stamp)));
+  }
+
+  if (options.includeReminders) {
+    data.reminders
+      .filter(reminder => options.includeCompleted || !reminder.isCompleted)
+      .forEach(reminder => lines.push(...reminderToIcs(reminder, stamp)));
+  }
+
+  if (options.includeClasses) {
+    const weekStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
+    data.subjects
+      .filter(subject => subject.isActive && isSubjectIncluded(subject.id))
+      .forEach(subject => {
+        (subject.schedule || []).forEach((entry, index) => {
+          lines.push(...classToIcs(subject, entry, index, options, weekStart, stamp));
+        });
+      });
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Fetch a user's study data and build an .ics calendar
+ */
+export async function exportUserCalendar(userId: string, options: IcsExportOptions): Promise<string> {
+  const [tasks, reminders, subjects] = await Promise.all([
+    options.includeTasks ? getUserTasks(userId) : Promise.resolve([]),
+    options.includeReminders ? getUserReminders(userId) : Promise.resolve([]),
+    getUserSubjects(userId)
+  ]);
+
+  return generateIcsCalendar({ tasks, reminders, subjects }, options);
+}
+
+/**
+ * Download .ics content as a file
+ */
+export function downloadIcsFile(content: string, filename: string = 'mystudyhub.ics'): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ===== PARSING =====
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+// Fixed UTC offsets (minutes) of VTIMEZONE definitions that are not IANA zones
+type TimeZoneOffsets = Record<string, number>;
+
+/**
+ * Join folded lines (CRLF or LF followed by a space or tab)
+ */
+function unfoldIcsLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim());
+}
+
+/**
+ * Split a content line into name, parameters and value
+ */
+function parseIcsProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...paramParts] = line.substring(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.substring(colonIndex + 1) };
+}
+
+/**
+ * Parse content lines into a component tree
+ */
+function parseIcsComponents(lines: string[]): IcsComponent[] {
+  const root: IcsComponent = { name: 'ROOT', properties: [], components: [] };
+  const stack: IcsComponent[] = [root];
+
+  lines.forEach(line => {
+    const property = parseIcsProperty(line);
+    if (!property) return;
+
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  });
+
+  return root.components;
+}
+
+/**
+ * Unescape a TEXT value
+ */
+export function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Get the offset of a time zone from UTC in minutes at an instant
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * Resolve a TZID to an IANA time zone name, if possible
+ * Handles prefixed IDs such as "/mozilla.org/20050126_1/Europe/Berlin"
+ */
+function resolveIanaTimeZone(tzid: string): string | null {
+  const candidates = [tzid, tzid.match(/([A-Za-z_]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/)?.[1]];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: candidate });
+      return candidate;
+    } catch {
+      // Not a zone this browser knows
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert wall-clock time in a time zone to an instant
+ */
+function zonedTimeToDate(fields: number[], tzid: string, offsets: TimeZoneOffsets): Date {
+  const [year, month, day, hour, minute, second] = fields;
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  const timeZone = resolveIanaTimeZone(tzid);
+  if (timeZone) {
+    // Correct the guess once, which is enough except inside DST gaps
+    const firstOffset = getTimeZoneOffset(new Date(wallClockAsUtc), timeZone);
+    const guess = wallClockAsUtc - firstOffset * 60000;
+    const secondOffset = getTimeZoneOffset(new Date(guess), timeZone);
+    return new Date(wallClockAsUtc - secondOffset * 60000);
+  }
+
+  if (offsets[tzid] !== undefined) {
+    return new Date(wallClockAsUtc - offsets[tzid] * 60000);
+  }
+
+  // Unknown zone: treat as local time
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value
+ */
+function parseIcsDate(property: IcsProperty | undefined, offsets: TimeZoneOffsets): { date: Date; isAllDay: boolean } | null {
+  if (!property) return null;
+
+  const value = property.value.split(',')[0].trim();
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const fields = [year, month, day, hour || '0', minute || '0', second || '0'].map(Number);
+
+  if (!hour || property.params.VALUE === 'DATE') {
+    return { date: new Date(fields[0], fields[1] - 1, fields[2]), isAllDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5])), isAllDay: false };
+  }
+  if (property.params.TZID) {
+    return { date: zonedTimeToDate(fields, property.params.TZID, offsets), isAllDay: false };
+  }
+
+  // Floating time
+  return { date: new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]), isAllDay: false };
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D, P2W) into milliseconds
+ */
+function parseIcsDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (Number(weeks || 0) * 7 * 24 * 3600 +
+    Number(days || 0) * 24 * 3600 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0)) * 1000;
+
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * Parse an RRULE value
+ */
+function parseIcsRRule(value: string, offsets: TimeZoneOffsets): IcsRecurrence | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue;
+  });
+
+  const frequency = parts.FREQ?.toLowerCase() as IcsFrequency;
+  if (!['daily', 'weekly', 'monthly', 'yearly'].includes(frequency)) return null;
+
+  const byWeekday = (parts.BYDAY || '')
+    .split(',')
+    .map(day => ICS_WEEKDAYS.indexOf(day.replace(/^[+-]?\d+/, '').toUpperCase()))
+    .filter(day => day >= 0);
+
+  const until = parts.UNTIL
+    ? parseIcsDate({ name: 'UNTIL', params: {}, value: parts.UNTIL }, offsets)?.date || null
+    : null;
+
+  return {
+    frequency,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    byWeekday,
+    until,
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) || null : null
+  };
+}
+
+/**
+ * Read fixed offsets from VTIMEZONE definitions
+ * Only the standard-time offset is used, so custom zones may be off by an hour during DST
+ */
+function getTimeZoneOffsets(components: IcsComponent[]): TimeZoneOffsets {
+  const offsets: TimeZoneOffsets = {};
+
+  components
+    .filter(component => component.name === 'VTIMEZONE')
+    .forEach(timezone => {
+      const tzid = timezone.properties.find(p => p.name === 'TZID')?.value;
+      const standard = timezone.components.find(c => c.name === 'STANDARD') || timezone.components[0];
+      const offset = standard?.properties.find(p => p.name === 'TZOFFSETTO')?.value.match(/^([+-])(\d{2})(\d{2})/);
+      if (tzid && offset) {
+        const minutes = Number(offset[2]) * 60 + Number(offset[3]);
+        offsets[tzid] = offset[1] === '-' ? -minutes : minutes;
+      }
+    });
+
+  return offsets;
+}
+
+/**
+ * Parse the events and to-dos of an .ics file
+ * Overrides of single recurring instances (RECURRENCE-ID) are ignored in favour of the series
+ */
+export function parseIcsCalendar(content: string): ParsedIcsItem[] {
+  const components = parseIcsComponents(unfoldIcsLines(content));
+  const calendars = components.filter(component => component.name === 'VCALENDAR');
+  if (calendars.length === 0) {
+    throw new Error('Not a valid iCalendar file');
+  }
+
+  const items: ParsedIcsItem[] = [];
+  const seenUids = new Set<string>();
+
+  calendars.forEach(calendar => {
+    const offsets = getTimeZoneOffsets(calendar.components);
+
+    calendar.components
+      .filter(component => component.name === 'VEVENT' || component.name === 'VTODO')
+      .forEach((component, index) => {
+        const get = (name: string) => component.properties.find(p => p.name === name);
+        const getText = (name: string) => unescapeIcsText(get(name)?.value || '').trim();
+
+        if (get('RECURRENCE-ID') || get('STATUS')?.value.toUpperCase() === 'CANCELLED') return;
+
+        const uid = get('UID')?.value.trim() || `${component.name}-${index}-${getText('SUMMARY')}`;
+        if (seenUids.has(uid)) return;
+        seenUids.add(uid);
+
+        const start = parseIcsDate(get('DTSTART'), offsets);
+        const due = parseIcsDate(get('DUE'), offsets);
+        let end = parseIcsDate(get('DTEND'), offsets)?.date || null;
+
+        const duration = get('DURATION') ? parseIcsDuration(get('DURATION')!.value) : null;
+        if (!end && start && duration !== null) {
+          end = new Date(start.date.getTime() + duration);
+        }
+
+        const exceptions = component.properties
+          .filter(p => p.name === 'EXDATE')
+          .flatMap(p => p.value.split(',').map(value => parseIcsDate({ ...p, value }, offsets)?.date))
+          .filter((date): date is Date => !!date);
+
+        const rrule = get('RRULE');
+
+        items.push({
+          uid,
+          kind: component.name as ParsedIcsItem['kind'],
+          summary: getText('SUMMARY') || 'Untitled',
+          description: getText('DESCRIPTION'),
+          location: getText('LOCATION'),
+          categories: component.properties
+            .filter(p => p.name === 'CATEGORIES')
+            .flatMap(p => p.value.split(/(?<!\\),/).map(category => unescapeIcsText(category).trim()))
+            .filter(Boolean),
+          start: start?.date || null,
+          end,
+          due: due?.date || null,
+          isAllDay: (start || due)?.isAllDay || false,
+          recurrence: rrule ? parseIcsRRule(rrule.value, offsets) : null,
+          exceptions
+        });
+      });
+  });
+
+  return items;
+}
@@ -0,0 +1,331 @@
+/**
+ * iCalendar import for MyStudyHub
+ * Maps parsed .ics items to subjects and stores them as classes, tasks or reminders
+ */
+
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { getDb } from './firebase';
+import { createTask, updateTaskSeries, deleteTask, getUserTasks } from './tasks';
+import { createReminder, updateReminder, deleteReminder, getUserReminders } from './reminders';
+import { getUserSubjects } from './storage';
+import { toDateKey } from './recurrence';
+import { cleanSchedule } from './timetable';
+import {
+  ParsedIcsItem,
+  IcsImportItem,
+  IcsImportAction,
+  IcsExistingItem,
+  IcsImportResult
+} from '@/types/ics';
+import { Subject, SubjectSchedule, SubjectScheduleType, DAYS_OF_WEEK } from '@/types/subject';
+import { Task } from '@/types/task';
+import { Reminder } from '@/types/reminder';
+import { RecurrenceFormData } from '@/types/recurrence';
+
+// Words that mark a calendar event as a deadline rather than an appointment
+const DEADLINE_KEYWORDS = ['due', 'deadline', 'assignment', 'submission', 'submit', 'exam', 'quiz', 'test', 'homework'];
+
+// Words that identify the kind of class, checked in order
+const CLASS_TYPE_KEYWORDS: { type: SubjectScheduleType; keywords: string[] }[] = [
+  { type: 'lab', keywords: ['lab', 'laboratory', 'practical', 'workshop'] },
+  { type: 'tutorial', keywords: ['tutorial', 'tut', 'recitation', 'exercise'] },
+  { type: 'seminar', keywords: ['seminar', 'colloquium'] },
+  { type: 'lecture', keywords: ['lecture', 'lec', 'class'] }
+];
+
+/**
+ * Check whether a text contains a word, ignoring case
+ */
+function containsWord(text: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Format a date as local 'HH:mm'
+ */
+function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Get the date an item is due or starts at
+ */
+export function getIcsItemDate(item: ParsedIcsItem): Date | null {
+  if (item.kind === 'VTODO') {
+    return item.due || item.start;
+  }
+  return item.start || item.due;
+}
+
+/**
+ * Find the subject an item belongs to
+ * Subject codes are matched first since they are more specific than names
+ */
+export function matchIcsSubject(item: ParsedIcsItem, subjects: Subject[]): Subject | null {
+  const haystacks = [item.summary, ...item.categories, item.location, item.description];
+
+  const byCode = subjects.find(subject =>
+    subject.code && haystacks.some(text => containsWord(text, subject.code!.trim()))
+  );
+  if (byCode) return byCode;
+
+  // Prefer the longest name so "Linear Algebra II" wins over "Linear Algebra"
+  const byName = [...subjects]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(subject => haystacks.some(text => containsWord(text, subject.name.trim())));
+
+  return byName || null;
+}
+
+/**
+ * Guess the class type from an event's title and categories
+ */
+function guessClassType(item: ParsedIcsItem): SubjectScheduleType | undefined {
+  const text = [item.summary, ...item.categories].join(' ');
+  return CLASS_TYPE_KEYWORDS.find(({ keywords }) =>
+    keywords.some(keyword => containsWord(text, keyword))
+  )?.type;
+}
+
+/**
+ * Suggest what an item should become
+ * Weekly timed events are classes; to-dos and deadline-like events are tasks
+ */
+export function suggestIcsAction(item: ParsedIcsItem): IcsImportAction {
+  if (!getIcsItemDate(item)) return 'skip';
+
+  if (item.kind === 'VTODO') return 'task';
+
+  if (item.recurrence?.frequency === 'weekly' && item.recurrence.interval === 1 && !item.isAllDay && item.end) {
+    return 'class';
+  }
+
+  const text = [item.summary, ...item.categories].join(' ');
+  const isPointInTime = !item.end || (item.start && item.end.getTime() === item.start.getTime());
+  if (isPointInTime || DEADLINE_KEYWORDS.some(keyword => containsWord(text, keyword))) {
+    return 'task';
+  }
+
+  return 'reminder';
+}
+
+/**
+ * Check whether an item can be stored as a weekly class
+ */
+export function canImportAsClass(item: ParsedIcsItem): boolean {
+  return !!item.start && !!item.end && !item.isAllDay &&
+    (!item.recurrence || item.recurrence.frequency === 'weekly');
+}
+
+/**
+ * Convert a parsed RRULE to recurrence form data
+ * Yearly rules have no equivalent and import as a single occurrence
+ */
+export function toIcsRecurrenceFormData(item: ParsedIcsItem): RecurrenceFormData | null {
+  const recurrence = item.recurrence;
+  if (!recurrence || recurrence.frequency === 'yearly') return null;
+
+  return {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval,
+    byWeekday: recurrence.frequency === 'weekly' ? recurrence.byWeekday : [],
+    endType: recurrence.until ? 'until' : recurrence.count ? 'count' : 'never',
+    until: recurrence.until ? toDateKey(recurrence.until) : '',
+    count: recurrence.count || 10,
+    exceptions: item.exceptions.map(toDateKey)
+  };
+}
+
+/**
+ * Build the weekly schedule entries for a class
+ * A rule with several BYDAY values becomes one entry per weekday
+ */
+export function toIcsScheduleEntries(item: ParsedIcsItem): SubjectSchedule[] {
+  if (!item.start || !item.end) return [];
+
+  const weekdays = item.recurrence?.byWeekday.length ? item.recurrence.byWeekday : [item.start.getDay()];
+  const type = guessClassType(item);
+
+  return weekdays.map(weekday => ({
+    // DAYS_OF_WEEK starts on Monday, Date.getDay() on Sunday
+    dayOfWeek: DAYS_OF_WEEK[(weekday + 6) % 7],
+    startTime: toTimeString(item.start!),
+    endTime: toTimeString(item.end!),
+    ...(item.location && { room: item.location }),
+    ...(type && { type }),
+    icsUid: item.uid
+  }));
+}
+
+/**
+ * Find where each UID was stored by earlier imports
+ */
+function getExistingIcsItems(tasks: Task[], reminders: Reminder[], subjects: Subject[]): Map<string, IcsExistingItem> {
+  const existing = new Map<string, IcsExistingItem>();
+
+  subjects.forEach(subject => {
+    subject.schedule?.forEach(entry => {
+      if (entry.icsUid) existing.set(entry.icsUid, { type: 'class', id: subject.id });
+    });
+  });
+  reminders.forEach(reminder => {
+    if (reminder.icsUid) existing.set(reminder.icsUid, { type: 'reminder', id: reminder.id });
+  });
+  // Later occurrences of a recurring task share the UID; track the pending one
+  tasks.forEach(task => {
+    if (task.icsUid && (!existing.has(task.icsUid) || task.status !== 'completed')) {
+      existing.set(task.icsUid, { type: 'task', id: task.id });
+    }
+  });
+
+  return existing;
+}
+
+/**
+ * Read an .ics file's items and prepare the import preview for a user
+ */
+export async function prepareIcsImport(userId: string, items: ParsedIcsItem[]): Promise<{ items: IcsImportItem[]; subjects: Subject[] }> {
+  const [tasks, reminders, subjects] = await Promise.all([
+    getUserTasks(userId),
+    getUserReminders(userId),
+    getUserSubjects(userId)
+  ]);
+
+  const existingItems = getExistingIcsItems(tasks, reminders, subjects);
+
+  const importItems = items.map(item => {
+    const existing = existingItems.get(item.uid) || null;
+    const action = existing ? existing.type : suggestIcsAction(item);
+    const subjectId = existing?.type === 'class'
+      ? existing.id
+      : existing?.type === 'task'
+        ? tasks.find(task => task.id === existing.id)?.subjectId || null
+        : matchIcsSubject(item, subjects)?.id || null;
+
+    return { item, action, subjectId, existing };
+  });
+
+  return { items: importItems, subjects };
+}
+
+/**
+ * Replace the classes imported from a UID with new entries
+ * Entries are removed from every subject so a class can move between subjects
+ */
+async function importIcsClass(
+  subjects: Subject[],
+  uid: string,
+  subjectId: string,
+  entries: SubjectSchedule[]
+): Promise<void> {
+  const db = getDb();
+
+  for (const subject of subjects) {
+    const current = subject.schedule || [];
+    const kept = current.filter(entry => entry.icsUid !== uid);
+    const next = subject.id === subjectId ? [...kept, ...entries] : kept;
+
+    if (next.length === current.length && subject.id !== subjectId) continue;
+
+    subject.schedule = cleanSchedule(next);
+    await updateDoc(doc(db, 'subjects', subject.id), {
+      schedule: subject.schedule,
+      updatedAt: serverTimestamp()
+    });
+  }
+}
+
+/**
+ * Store the selected preview items
+ * Items imported before are updated in place; changing an item's type replaces it
+ */
+export async function applyIcsImport(userId: string, items: IcsImportItem[], subjects: Subject[]): Promise<IcsImportResult> {
+  const result: IcsImportResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+  const [tasks, reminders] = await Promise.all([getUserTasks(userId), getUserReminders(userId)]);
+
+  for (const { item, action, subjectId, existing } of items) {
+    const date = getIcsItemDate(item);
+    if (action === 'skip' || !date) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const sameType = existing?.type === action;
+
+      // Remove an earlier import stored as a different type
+      if (existing && !sameType) {
+        if (existing.type === 'task') await deleteTask(userId, existing.id);
+        if (existing.type === 'reminder') await deleteReminder(userId, existing.id);
+        if (existing.type === 'class') await importIcsClass(subjects, item.uid, '', []);
+      }
+
+      if (action === 'class') {
+        if (!subjectId) {
+          throw new Error('Choose a subject for this class');
+        }
+        await importIcsClass(subjects, item.uid, subjectId, toIcsScheduleEntries(item));
+      } else if (action === 'task') {
+        if (sameType) {
+          const task = tasks.find(t => t.id === existing!.id);
+          // The feed's start is where a series starts, while the task may be a later occurrence;
+          // only a moved start shifts the due dates, since that resets them to pending
+          const start = task?.recurrence ? new Date(task.recurrence.dtstart) : task?.dueDate.toDate();
+          const shift = start ? date.getTime() - start.getTime() : 0;
+          await updateTaskSeries(userId, existing!.id, {
+            title: item.summary,
+            description: item.description,
+            subjectId: subjectId || '',
+            recurrence: toIcsRecurrenceFormData(item),
+            ...(task && shift !== 0 && { dueDate: new Date(task.dueDate.toMillis() + shift).toISOString() })
+          });
+        } else {
+          await createTask(userId, {
+            title: item.summary,
+            description: item.description,
+            dueDate: date.toISOString(),
+            priority: 'medium',
+            subjectId: subjectId || undefined,
+            recurrence: toIcsRecurrenceFormData(item),
+            icsUid: item.uid
+          });
+        }
+      } else {
+        if (sameType) {
+          const reminder = reminders.find(r => r.id === existing!.id);
+          // A repeating reminder advances in place, so the feed's start is compared with the
+          // series start; a moved start imports the series again from there
+          const start = reminder?.recurrence
+            ? new Date(reminder.recurrence.dtstart)
+            : (reminder?.occurrenceDate || reminder?.dueDate)?.toDate();
+          const startChanged = start?.getTime() !== date.getTime();
+          await updateReminder(userId, existing!.id, {
+            title: item.summary,
+            description: item.description,
+            recurrence: toIcsRecurrenceFormData(item),
+            ...(startChanged && { dueDate: date.toISOString() })
+          });
+        } else {
+          await createReminder(userId, {
+            title: item.summary,
+            description: item.description,
+            dueDate: date.toISOString(),
+            recurrence: toIcsRecurrenceFormData(item),
+            icsUid: item.uid
+          });
+        }
+      }
+
+      if (sameType) {
+        result.updated++;
+      } else {
+        result.created++;
+      }
+    } catch (error) {
+      result.errors.push(`${item.summary}: ${error instanceof Error ? error.message : 'Failed to import'}`);
+    }
+  }
+
+  return result;
+}
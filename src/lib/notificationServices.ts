@@ -315,7 +315,8 @@ export const getNotificationStats = async (userId: string): Promise<Notification
         reminder_overdue: 0,
         file_uploaded: 0,
         system: 0,
-        timer_complete: 0
+        timer_complete: 0,
+        assignment_reviewed: 0
       },
       byPriority: {
         low: 0,
@@ -0,0 +1,500 @@
+/**
+ * Offline outbox for MyStudyHub
+ * Changes made without a connection are kept in local storage and replayed on reconnect.
+ * Replays check the server first, so changes already made elsewhere are dropped and
+ * edits that clash with newer server values wait for the user to pick a side
+ */
+
+import { doc, getDocFromServer, Timestamp } from 'firebase/firestore';
+import { getDb } from './firebase';
+import { toggleTaskCompletion } from './tasks';
+import { toggleReminderCompletion, updateReminder } from './reminders';
+import { completeTimerSession } from './timers';
+import { createRecurrenceRule, formatRecurrence, getNextOccurrence, toRecurrenceFormData } from './recurrence';
+import { Task } from '@/types/task';
+import { Reminder, ReminderFormData } from '@/types/reminder';
+import { RecurrenceFormData } from '@/types/recurrence';
+import { TimerSession, TIMER_SESSION_CONFIG } from '@/types/timer';
+import {
+  OutboxEntry,
+  OutboxOperation,
+  OutboxConflict,
+  OutboxConflictField,
+  OutboxReminderFields,
+  SyncState,
+  ConflictResolution,
+  OUTBOX_CONFIG
+} from '@/types/offline';
+
+const REMINDER_FIELDS: (keyof OutboxReminderFields)[] = ['title', 'description', 'dueDate', 'recurrence'];
+
+const REMINDER_FIELD_LABELS: Record<keyof OutboxReminderFields, string> = {
+  title: 'Title',
+  description: 'Description',
+  dueDate: 'Due date',
+  recurrence: 'Repeat'
+};
+
+// Firestore error codes meaning the server could not be reached
+const NETWORK_ERROR_CODES = ['unavailable', 'deadline-exceeded'];
+
+// Sync progress per user; the entries themselves live in local storage
+const syncStatus = new Map<string, { isSyncing: boolean; lastSyncedAt: string | null; lastError: string | null }>();
+const listeners = new Set<{ userId: string; onChange: (state: SyncState) => void }>();
+let retryTimeout: NodeJS.Timeout | null = null;
+
+// ===== STORAGE =====
+
+function getStorageKey(userId: string): string {
+  return `${OUTBOX_CONFIG.storageKeyPrefix}:${userId}`;
+}
+
+function readOutbox(userId: string): OutboxEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(userId));
+    return stored ? JSON.parse(stored) as OutboxEntry[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(userId: string, entries: OutboxEntry[]): void {
+  if (entries.length > 0) {
+    window.localStorage.setItem(getStorageKey(userId), JSON.stringify(entries));
+  } else {
+    window.localStorage.removeItem(getStorageKey(userId));
+  }
+  notifyListeners(userId);
+}
+
+function updateEntry(userId: string, entryId: string, update: (entry: OutboxEntry) => OutboxEntry | null): void {
+  const entries = readOutbox(userId)
+    .map(entry => entry.id === entryId ? update(entry) : entry)
+    .filter((entry): entry is OutboxEntry => entry !== null);
+  writeOutbox(userId, entries);
+}
+
+/**
+ * Get the sync state shown by the status indicator
+ */
+export function getSyncState(userId: string): SyncState {
+  const entries = readOutbox(userId);
+  const status = syncStatus.get(userId);
+
+  return {
+    isOnline: !isOffline(),
+    isSyncing: status?.isSyncing || false,
+    pending: entries.filter(entry => !entry.conflict),
+    conflicts: entries.filter(entry => entry.conflict),
+    lastSyncedAt: status?.lastSyncedAt || null,
+    lastError: status?.lastError || null
+  };
+}
+
+function setSyncStatus(userId: string, update: Partial<{ isSyncing: boolean; lastSyncedAt: string | null; lastError: string | null }>): void {
+  const current = syncStatus.get(userId) || { isSyncing: false, lastSyncedAt: null, lastError: null };
+  syncStatus.set(userId, { ...current, ...update });
+  notifyListeners(userId);
+}
+
+function notifyListeners(userId: string): void {
+  const state = getSyncState(userId);
+  listeners.forEach(listener => {
+    if (listener.userId === userId) listener.onChange(state);
+  });
+}
+
+/**
+ * Listen to a user's sync state; the callback is called right away with the current state
+ */
+export function subscribeToOutbox(userId: string, onChange: (state: SyncState) => void): () => void {
+  const listener = { userId, onChange };
+  listeners.add(listener);
+  onChange(getSyncState(userId));
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Whether the browser reports having no connection
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+// ===== QUEUEING =====
+
+function getTargetId(operation: OutboxOperation): string {
+  switch (operation.kind) {
+    case 'toggleTask':
+      return operation.taskId;
+    case 'toggleReminder':
+    case 'updateReminder':
+      return operation.reminderId;
+    case 'completeTimerSession':
+      return operation.sessionId;
+  }
+}
+
+/**
+ * Add a change to the outbox, combining it with a waiting change to the same item
+ * Toggling twice cancels out; reminder edits merge, keeping the values the first edit started from.
+ * Each completion of a repeating reminder is its own occurrence, so those are never combined
+ */
+function addToOutbox(userId: string, label: string, operation: OutboxOperation): void {
+  const entries = readOutbox(userId);
+  const isOccurrence = operation.kind === 'toggleReminder' && operation.occurrenceIndex !== null;
+  const existing = isOccurrence ? undefined : entries.find(entry =>
+    !entry.conflict && entry.operation.kind === operation.kind && getTargetId(entry.operation) === getTargetId(operation)
+  );
+
+  if (existing) {
+    const others = entries.filter(entry => entry !== existing);
+    if (existing.operation.kind === 'updateReminder' && operation.kind === 'updateReminder') {
+      existing.operation = {
+        ...operation,
+        changes: { ...existing.operation.changes, ...operation.changes },
+        base: { ...operation.base, ...existing.operation.base }
+      };
+      writeOutbox(userId, [...others, { ...existing, label }]);
+    } else if ((existing.operation.kind === 'toggleTask' || existing.operation.kind === 'toggleReminder') &&
+      'completed' in operation && existing.operation.completed !== operation.completed) {
+      writeOutbox(userId, others);
+    } else {
+      writeOutbox(userId, [...others, { ...existing, label, operation }]);
+    }
+    return;
+  }
+
+  writeOutbox(userId, [...entries, {
+    id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId,
+    label,
+    queuedAt: new Date().toISOString(),
+    operation,
+    conflict: null
+  }]);
+}
+
+/**
+ * Toggle a task's completion, or queue the toggle while offline
+ * Offline the returned task is the expected result
+ */
+export async function toggleTaskCompletionOrQueue(userId: string, task: Task): Promise<Task> {
+  if (!isOffline()) {
+    return toggleTaskCompletion(userId, task.id);
+  }
+
+  const completed = task.status !== 'completed';
+  addToOutbox(userId, task.title, { kind: 'toggleTask', taskId: task.id, completed });
+  return { ...task, status: completed ? 'completed' : 'pending' };
+}
+
+/**
+ * Toggle a reminder's completion, or queue the toggle while offline
+ * Offline, completing a repeating reminder moves it on to its next occurrence as it would online
+ */
+export async function toggleReminderCompletionOrQueue(userId: string, reminder: Reminder): Promise<Reminder> {
+  if (!isOffline()) {
+    return toggleReminderCompletion(userId, reminder.id);
+  }
+
+  const completed = !reminder.isCompleted;
+  addToOutbox(userId, reminder.title, {
+    kind: 'toggleReminder',
+    reminderId: reminder.id,
+    completed,
+    occurrenceIndex: reminder.recurrence ? reminder.occurrenceIndex || 1 : null
+  });
+
+  if (completed && reminder.recurrence) {
+    const scheduledDate = (reminder.occurrenceDate || reminder.dueDate).toDate();
+    const next = getNextOccurrence(reminder.recurrence, scheduledDate, reminder.occurrenceIndex || 1);
+    return next
+      ? { ...reminder, dueDate: Timestamp.fromDate(next.date), occurrenceDate: Timestamp.fromDate(next.date), occurrenceIndex: next.index, snoozedUntil: null }
+      : { ...reminder, isCompleted: true, snoozedUntil: null };
+  }
+  return { ...reminder, isCompleted: completed };
+}
+
+/**
+ * A reminder's editable fields in form format, for comparing edits with server values
+ */
+function toReminderFields(reminder: Reminder): OutboxReminderFields {
+  return {
+    title: reminder.title,
+    description: reminder.description || '',
+    dueDate: reminder.dueDate.toDate().toISOString(),
+    recurrence: reminder.recurrence ? toRecurrenceFormData(reminder.recurrence) : null
+  };
+}
+
+function isSameFieldValue(field: keyof OutboxReminderFields, a: unknown, b: unknown): boolean {
+  if (field === 'dueDate') {
+    return new Date(a as string).getTime() === new Date(b as string).getTime();
+  }
+  if (field === 'recurrence') {
+    return JSON.stringify(a || null) === JSON.stringify(b || null);
+  }
+  return String(a ?? '').trim() === String(b ?? '').trim();
+}
+
+function formatFieldValue(field: keyof OutboxReminderFields, value: unknown, dueDate: string): string {
+  if (field === 'dueDate') {
+    return new Date(value as string).toLocaleString();
+  }
+  if (field === 'recurrence') {
+    return value ? formatRecurrence(createRecurrenceRule(value as RecurrenceFormData, new Date(dueDate))) : 'Does not repeat';
+  }
+  return String(value || '—');
+}
+
+/**
+ * Update a reminder, or queue the edit while offline
+ * Only fields that differ from the reminder as loaded are queued
+ */
+export async function updateReminderOrQueue(
+  userId: string,
+  reminder: Reminder,
+  reminderData: Partial<ReminderFormData>
+): Promise<Reminder> {
+  if (!isOffline()) {
+    return updateReminder(userId, reminder.id, reminderData);
+  }
+
+  const current = toReminderFields(reminder);
+  const changes: Partial<OutboxReminderFields> = {};
+  const base: Partial<OutboxReminderFields> = {};
+  REMINDER_FIELDS.forEach(field => {
+    const value = reminderData[field];
+    if (value !== undefined && !isSameFieldValue(field, value, current[field])) {
+      (changes as Record<string, unknown>)[field] = value;
+      (base as Record<string, unknown>)[field] = current[field];
+    }
+  });
+
+  if (Object.keys(changes).length === 0) {
+    return reminder;
+  }
+
+  addToOutbox(userId, changes.title || reminder.title, { kind: 'updateReminder', reminderId: reminder.id, changes, base });
+
+  const dueDate = changes.dueDate ? Timestamp.fromDate(new Date(changes.dueDate)) : reminder.dueDate;
+  return {
+    ...reminder,
+    ...(changes.title !== undefined && { title: changes.title.trim() }),
+    ...(changes.description !== undefined && { description: changes.description?.trim() || '' }),
+    dueDate,
+    ...(changes.recurrence !== undefined && {
+      recurrence: changes.recurrence ? createRecurrenceRule(changes.recurrence, dueDate.toDate()) : null
+    })
+  };
+}
+
+/**
+ * Complete a timer session, or queue the completion while offline
+ */
+export async function completeTimerSessionOrQueue(userId: string, session: TimerSession, actualDuration: number): Promise<void> {
+  if (!isOffline()) {
+    return completeTimerSession(session.id, userId, actualDuration);
+  }
+
+  addToOutbox(userId, TIMER_SESSION_CONFIG[session.type].label, { kind: 'completeTimerSession', sessionId: session.id, actualDuration });
+}
+
+// ===== REPLAY =====
+
+function isNetworkError(error: unknown): boolean {
+  return NETWORK_ERROR_CODES.includes((error as { code?: string })?.code || '');
+}
+
+/**
+ * Send one change, checking the server's current version first
+ * Returns a conflict when the user has to decide, or null once the change is done
+ */
+async function replayEntry(userId: string, entry: OutboxEntry): Promise<OutboxConflict | null> {
+  const db = getDb();
+  const { operation } = entry;
+
+  switch (operation.kind) {
+    case 'toggleTask': {
+      const snapshot = await getDocFromServer(doc(db, 'tasks', operation.taskId));
+      if (!snapshot.exists()) {
+        return { reason: 'This task was deleted while you were offline', fields: [], canKeepLocal: false };
+      }
+      // Completed or reopened elsewhere already
+      if ((snapshot.data().status === 'completed') === operation.completed) return null;
+
+      await toggleTaskCompletion(userId, operation.taskId);
+      return null;
+    }
+
+    case 'toggleReminder': {
+      const snapshot = await getDocFromServer(doc(db, 'reminders', operation.reminderId));
+      if (!snapshot.exists()) {
+        return { reason: 'This reminder was deleted while you were offline', fields: [], canKeepLocal: false };
+      }
+      const reminder = snapshot.data() as Reminder;
+      const movedOn = operation.occurrenceIndex !== null && (reminder.occurrenceIndex || 1) > operation.occurrenceIndex;
+      if (movedOn || reminder.isCompleted === operation.completed) return null;
+
+      await toggleReminderCompletion(userId, operation.reminderId);
+      return null;
+    }
+
+    case 'updateReminder': {
+      const snapshot = await getDocFromServer(doc(db, 'reminders', operation.reminderId));
+      if (!snapshot.exists()) {
+        return { reason: 'This reminder was deleted while you were offline', fields: [], canKeepLocal: false };
+      }
+      const server = toReminderFields(snapshot.data() as Reminder);
+
+      // Three-way merge: a field is only a conflict when both sides changed it differently
+      const apply: Partial<OutboxReminderFields> = {};
+      const clashing: Partial<OutboxReminderFields> = {};
+      const fields: OutboxConflictField[] = [];
+      (Object.keys(operation.changes) as (keyof OutboxReminderFields)[]).forEach(field => {
+        const local = operation.changes[field];
+        if (isSameFieldValue(field, server[field], local)) return;
+
+        if (isSameFieldValue(field, server[field], operation.base[field])) {
+          (apply as Record<string, unknown>)[field] = local;
+        } else {
+          (clashing as Record<string, unknown>)[field] = local;
+          fields.push({
+            field: REMINDER_FIELD_LABELS[field],
+            local: formatFieldValue(field, local, operation.changes.dueDate || server.dueDate),
+            server: formatFieldValue(field, server[field], server.dueDate)
+          });
+        }
+      });
+
+      if (Object.keys(apply).length > 0) {
+        await updateReminder(userId, operation.reminderId, apply);
+      }
+      if (fields.length === 0) return null;
+
+      // Only the clashing fields are left for the user to decide on
+      entry.operation = { ...operation, changes: clashing };
+      return { reason: 'Also changed on another device while you were offline', fields, canKeepLocal: true };
+    }
+
+    case 'completeTimerSession': {
+      const snapshot = await getDocFromServer(doc(db, 'timer-sessions', operation.sessionId));
+      // Nothing to complete if the session is gone or was already finished
+      if (!snapshot.exists() || snapshot.data().status === 'completed') return null;
+
+      await completeTimerSession(operation.sessionId, userId, operation.actualDuration);
+      return null;
+    }
+  }
+}
+
+/**
+ * Send every waiting change in the order it was made
+ * Stops at the first network failure and tries again later
+ */
+export async function syncOutbox(userId: string): Promise<void> {
+  if (isOffline() || syncStatus.get(userId)?.isSyncing) return;
+
+  const waiting = readOutbox(userId).filter(entry => !entry.conflict);
+  if (waiting.length === 0) return;
+
+  setSyncStatus(userId, { isSyncing: true, lastError: null });
+  let networkError: string | null = null;
+
+  for (const entry of waiting) {
+    try {
+      const conflict = await replayEntry(userId, entry);
+      updateEntry(userId, entry.id, () => conflict ? { ...entry, conflict } : null);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        networkError = 'Could not reach the server';
+        break;
+      }
+      updateEntry(userId, entry.id, () => ({
+        ...entry,
+        conflict: {
+          reason: error instanceof Error ? error.message : 'Failed to sync this change',
+          fields: [],
+          canKeepLocal: true
+        }
+      }));
+    }
+  }
+
+  setSyncStatus(userId, {
+    isSyncing: false,
+    lastError: networkError,
+    ...(!networkError && { lastSyncedAt: new Date().toISOString() })
+  });
+
+  if (networkError) {
+    if (retryTimeout) clearTimeout(retryTimeout);
+    retryTimeout = setTimeout(() => syncOutbox(userId), OUTBOX_CONFIG.retryDelayMs);
+  }
+}
+
+/**
+ * Settle a conflict by applying the offline change anyway or keeping the server's version
+ */
+export async function resolveOutboxConflict(userId: string, entryId: string, resolution: ConflictResolution): Promise<void> {
+  const entry = readOutbox(userId).find(e => e.id === entryId);
+  if (!entry) return;
+
+  if (resolution === 'local') {
+    const { operation } = entry;
+    try {
+      switch (operation.kind) {
+        case 'updateReminder':
+          await updateReminder(userId, operation.reminderId, operation.changes);
+          break;
+        default: {
+          // Other changes check the server again and only apply when still needed
+          const conflict = await replayEntry(userId, { ...entry, conflict: null });
+          if (conflict) throw new Error(conflict.reason);
+        }
+      }
+    } catch (error) {
+      throw error instanceof Error ? error : new Error('Failed to apply your change');
+    }
+  }
+
+  updateEntry(userId, entryId, () => null);
+}
+
+/**
+ * Sync a user's outbox now and whenever the connection comes back
+ * Returns a function that stops listening
+ */
+export function startOutboxSync(userId: string): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const handleOnline = () => {
+    notifyListeners(userId);
+    syncOutbox(userId);
+  };
+  const handleOffline = () => notifyListeners(userId);
+  // Another tab changed the outbox
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === getStorageKey(userId)) notifyListeners(userId);
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  window.addEventListener('storage', handleStorage);
+  syncOutbox(userId);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    window.removeEventListener('storage', handleStorage);
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+      retryTimeout = null;
+    }
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Recurrence utilities for MyStudyHub
+ * Computes occurrences of RRULE-style series for tasks and reminders
+ */
+
+import {
+  RecurrenceRule,
+  RecurrenceFormData,
+  RecurrenceOccurrence,
+  RECURRENCE_FREQUENCY_CONFIG,
+  RECURRENCE_WEEKDAYS,
+  DEFAULT_RECURRENCE_FORM_DATA
+} from '@/types/recurrence';
+
+// Safety limit when scanning forward for the next occurrence
+const MAX_ITERATIONS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as a local 'YYYY-MM-DD' key
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Get the Sunday that starts the week of a date (local midnight)
+ */
+function startOfWeek(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+}
+
+/**
+ * Build a date on the given day using the time of day of the series start
+ */
+function atStartTime(year: number, month: number, day: number, start: Date): Date {
+  return new Date(year, month, day, start.getHours(), start.getMinutes(), 0, 0);
+}
+
+/**
+ * Get the next raw candidate after a date, ignoring end conditions and exceptions
+ */
+function getNextCandidate(rule: RecurrenceRule, after: Date, start: Date): Date {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return atStartTime(after.getFullYear(), after.getMonth(), after.getDate() + interval, start);
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [start.getDay()];
+      const anchorWeek = startOfWeek(start);
+
+      for (let offset = 1; offset <= 7 * interval; offset++) {
+        const candidate = atStartTime(after.getFullYear(), after.getMonth(), after.getDate() + offset, start);
+        const weeksFromStart = Math.round((startOfWeek(candidate).getTime() - anchorWeek.getTime()) / (7 * DAY_MS));
+
+        if (weeksFromStart % interval === 0 && weekdays.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+
+      // Unreachable with at least one weekday, but keep the series moving forward
+      return atStartTime(after.getFullYear(), after.getMonth(), after.getDate() + 7 * interval, start);
+    }
+
+    case 'monthly': {
+      const monthsFromStart = (after.getFullYear() - start.getFullYear()) * 12 + after.getMonth() - start.getMonth();
+      const nextMonthIndex = (Math.floor(monthsFromStart / interval) + 1) * interval;
+      const year = start.getFullYear() + Math.floor((start.getMonth() + nextMonthIndex) / 12);
+      const month = (start.getMonth() + nextMonthIndex) % 12;
+      // Clamp to the last day for months shorter than the start day (e.g. the 31st)
+      const lastDay = new Date(year, month + 1, 0).getDate();
+      return atStartTime(year, month, Math.min(start.getDate(), lastDay), start);
+    }
+
+    default:
+      return atStartTime(after.getFullYear(), after.getMonth(), after.getDate() + interval, start);
+  }
+}
+
+/**
+ * Get the occurrence that follows a given one in a series
+ * Returns null when the series has ended (until date or count reached)
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+  afterIndex: number
+): RecurrenceOccurrence | null {
+  const start = new Date(rule.dtstart);
+  let current = after;
+  let index = afterIndex;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    current = getNextCandidate(rule, current, start);
+    index++;
+
+    if (rule.count && index > rule.count) {
+      return null;
+    }
+
+    const key = toDateKey(current);
+    if (rule.until && key > rule.until) {
+      return null;
+    }
+
+    // Skipped dates still count towards the series length, as with RRULE EXDATE
+    if (!rule.exceptions.includes(key)) {
+      return { date: current, index };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get all occurrences of a series that fall inside a date range
+ */
+export function getOccurrencesInRange(
+  rule: RecurrenceRule,
+  rangeStart: Date,
+  rangeEnd: Date
+): RecurrenceOccurrence[] {
+  const occurrences: RecurrenceOccurrence[] = [];
+  const start = new Date(rule.dtstart);
+
+  let occurrence: RecurrenceOccurrence | null = rule.exceptions.includes(toDateKey(start))
+    ? getNextOccurrence(rule, start, 1)
+    : { date: start, index: 1 };
+
+  while (occurrence && occurrence.date <= rangeEnd && occurrences.length < MAX_ITERATIONS) {
+    if (occurrence.date >= rangeStart) {
+      occurrences.push(occurrence);
+    }
+    occurrence = getNextOccurrence(rule, occurrence.date, occurrence.index);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Convert recurrence form data into a stored rule anchored at the first occurrence
+ */
+export function createRecurrenceRule(formData: RecurrenceFormData, dtstart: Date): RecurrenceRule {
+  return {
+    frequency: formData.frequency,
+    interval: Math.max(1, Math.floor(formData.interval) || 1),
+    byWeekday: formData.frequency === 'weekly'
+      ? [...formData.byWeekday].sort((a, b) => a - b)
+      : [],
+    dtstart: dtstart.toISOString(),
+    until: formData.endType === 'until' && formData.until ? formData.until : null,
+    count: formData.endType === 'count' ? Math.max(1, Math.floor(formData.count) || 1) : null,
+    exceptions: [...formData.exceptions].sort()
+  };
+}
+
+/**
+ * Whether two rules repeat the same way, ignoring where they are anchored
+ */
+export function isSameRecurrencePattern(a: RecurrenceRule, b: RecurrenceRule): boolean {
+  const sameList = (x: (string | number)[] = [], y: (string | number)[] = []) =>
+    x.length === y.length && x.every((value, i) => value === y[i]);
+
+  return a.frequency === b.frequency &&
+    a.interval === b.interval &&
+    sameList(a.byWeekday, b.byWeekday) &&
+    (a.until || null) === (b.until || null) &&
+    (a.count || null) === (b.count || null) &&
+    sameList(a.exceptions, b.exceptions);
+}
+
+/**
+ * Convert a stored rule back into form data for editing
+ */
+export function toRecurrenceFormData(rule: RecurrenceRule): RecurrenceFormData {
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    byWeekday: rule.byWeekday || [],
+    endType: rule.until ? 'until' : rule.count ? 'count' : 'never',
+    until: rule.until || '',
+    count: rule.count || DEFAULT_RECURRENCE_FORM_DATA.count,
+    exceptions: rule.exceptions || []
+  };
+}
+
+/**
+ * Validate recurrence form data against the first due date
+ * Returns an error message or null when valid
+ */
+export function validateRecurrence(formData: RecurrenceFormData, dueDate: string): string | null {
+  if (!formData.interval || formData.interval < 1) {
+    return 'Repeat interval must be at least 1';
+  }
+
+  if (formData.frequency === 'weekly' && formData.byWeekday.length === 0) {
+    return 'Select at least one day of the week';
+  }
+
+  if (formData.endType === 'until') {
+    if (!formData.until) {
+      return 'End date is required';
+    }
+    if (dueDate && formData.until < dueDate.slice(0, 10)) {
+      return 'End date must be on or after the first due date';
+    }
+  }
+
+  if (formData.endType === 'count' && (!formData.count || formData.count < 1)) {
+    return 'Number of occurrences must be at least 1';
+  }
+
+  return null;
+}
+
+/**
+ * Describe a rule in plain language, e.g. "Every 2 weeks on Mon, Wed until Dec 12"
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const { unit } = RECURRENCE_FREQUENCY_CONFIG[rule.frequency];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.frequency === 'weekly' && rule.byWeekday.length > 0) {
+    text += ` on ${rule.byWeekday.map(day => RECURRENCE_WEEKDAYS[day]).join(', ')}`;
+  }
+
+  if (rule.until) {
+    const [year, month, day] = rule.until.split('-').map(Number);
+    text += ` until ${new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+  }
+
+  return text;
+}
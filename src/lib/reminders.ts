@@ -14,7 +14,14 @@ import {
   serverTimestamp
 } from 'firebase/firestore';
 import { getDb } from './firebase';
-import { Reminder, ReminderFormData } from '@/types/reminder';
+import {
+  Reminder,
+  ReminderFormData,
+  ReminderSnoozeOption,
+  REMINDER_SNOOZE_OPTIONS,
+  SNOOZE_TOMORROW_HOUR
+} from '@/types/reminder';
+import { createRecurrenceRule, getNextOccurrence, isSameRecurrencePattern } from './recurrence';
 
 const REMINDERS_COLLECTION = 'reminders';
 
@@ -25,12 +32,22 @@ export async function createReminder(userId: string, reminderData: ReminderFormD
   const db = getDb();
 
   try {
+    const dueDate = new Date(reminderData.dueDate);
+
     const reminderDoc = {
       userId,
       title: reminderData.title.trim(),
       description: reminderData.description?.trim() || '',
-      dueDate: Timestamp.fromDate(new Date(reminderData.dueDate)),
+      dueDate: Timestamp.fromDate(dueDate),
       isCompleted: false,
+      ...(reminderData.icsUid && { icsUid: reminderData.icsUid }),
+      ...(reminderData.recurrence && {
+        recurrence: createRecurrenceRule(reminderData.recurrence, dueDate),
+        occurrenceIndex: 1,
+        occurrenceDate: Timestamp.fromDate(dueDate),
+        snoozedUntil: null,
+        lastCompletedAt: null
+      }),
       createdAt: serverTimestamp(),
     };
 
@@ -156,7 +173,38 @@ export async function updateReminder(userId: string, reminderId: string, reminde
       updateData.description = reminderData.description?.trim() || '';
     }
     if (reminderData.dueDate !== undefined) {
-      updateData.dueDate = Timestamp.fromDate(new Date(reminderData.dueDate));
+      const dueDate = new Date(reminderData.dueDate);
+      // The form sends the date it was loaded with, to the minute, and for a snoozed reminder that
+      // is the snoozed time; only a changed date replaces the snooze and re-anchors the occurrence
+      const minute = 60 * 1000;
+      if (Math.floor(dueDate.getTime() / minute) !== Math.floor(existingReminder.dueDate.toMillis() / minute)) {
+        updateData.dueDate = Timestamp.fromDate(dueDate);
+        updateData.occurrenceDate = updateData.dueDate;
+        updateData.snoozedUntil = null;
+      }
+    }
+    if (reminderData.recurrence !== undefined) {
+      if (reminderData.recurrence) {
+        if (!existingReminder.recurrence || updateData.dueDate) {
+          // A new series or a new start date begins the count again, at the scheduled time
+          // rather than a snooze
+          const start = updateData.dueDate
+            ? updateData.dueDate.toDate()
+            : (existingReminder.occurrenceDate || existingReminder.dueDate).toDate();
+          updateData.recurrence = createRecurrenceRule(reminderData.recurrence, start);
+          updateData.occurrenceIndex = 1;
+          updateData.occurrenceDate = Timestamp.fromDate(start);
+        } else {
+          // A changed pattern keeps the series start, and with it the time of day, its count
+          // and the current occurrence
+          const recurrence = createRecurrenceRule(reminderData.recurrence, new Date(existingReminder.recurrence.dtstart));
+          if (!isSameRecurrencePattern(existingReminder.recurrence, recurrence)) {
+            updateData.recurrence = recurrence;
+          }
+        }
+      } else {
+        updateData.recurrence = null;
+      }
     }
 
     await updateDoc(docRef, updateData);
@@ -193,7 +241,27 @@ export async function toggleReminderCompletion(userId: string, reminderId: strin
     }
 
     const newCompletionStatus = !existingReminder.isCompleted;
-    await updateDoc(docRef, { isCompleted: newCompletionStatus });
+
+    if (newCompletionStatus && existingReminder.recurrence) {
+      // Completing a repeating reminder moves it on to its next occurrence
+      const scheduledDate = (existingReminder.occurrenceDate || existingReminder.dueDate).toDate();
+      const next = getNextOccurrence(existingReminder.recurrence, scheduledDate, existingReminder.occurrenceIndex || 1);
+
+      await updateDoc(docRef, next ? {
+        dueDate: Timestamp.fromDate(next.date),
+        occurrenceDate: Timestamp.fromDate(next.date),
+        occurrenceIndex: next.index,
+        snoozedUntil: null,
+        lastCompletedAt: serverTimestamp()
+      } : {
+        // Series has ended
+        isCompleted: true,
+        snoozedUntil: null,
+        lastCompletedAt: serverTimestamp()
+      });
+    } else {
+      await updateDoc(docRef, { isCompleted: newCompletionStatus });
+    }
 
     // Return updated document
     const updatedDoc = await getDoc(docRef);
@@ -206,6 +274,59 @@ throw error instanceof Error ? error : new Error('Failed to update reminder');
   }
 }
 
+/**
+ * Get the date a snooze option reschedules to
+ */
+export function getSnoozeDate(option: ReminderSnoozeOption, from: Date = new Date()): Date {
+  if (option === 'tomorrow') {
+    return new Date(from.getFullYear(), from.getMonth(), from.getDate() + 1, SNOOZE_TOMORROW_HOUR, 0, 0, 0);
+  }
+
+  const minutes = REMINDER_SNOOZE_OPTIONS.find(o => o.value === option)?.minutes || 5;
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Snooze a reminder
+ * Only the due date moves; the scheduled occurrence date is kept so a
+ * repeating reminder continues on its original series afterwards
+ */
+export async function snoozeReminder(userId: string, reminderId: string, option: ReminderSnoozeOption): Promise<Reminder> {
+  const db = getDb();
+
+  try {
+    const docRef = doc(db, REMINDERS_COLLECTION, reminderId);
+
+    // First verify ownership
+    const existingDoc = await getDoc(docRef);
+    if (!existingDoc.exists()) {
+      throw new Error('Reminder not found');
+    }
+
+    const existingReminder = existingDoc.data() as Reminder;
+    if (existingReminder.userId !== userId) {
+      throw new Error('Access denied');
+    }
+
+    const snoozedUntil = Timestamp.fromDate(getSnoozeDate(option));
+    await updateDoc(docRef, {
+      dueDate: snoozedUntil,
+      occurrenceDate: existingReminder.occurrenceDate || existingReminder.dueDate,
+      snoozedUntil,
+      isCompleted: false
+    });
+
+    // Return updated document
+    const updatedDoc = await getDoc(docRef);
+    return {
+      id: updatedDoc.id,
+      ...updatedDoc.data()
+    } as Reminder;
+  } catch (error) {
+throw error instanceof Error ? error : new Error('Failed to snooze reminder');
+  }
+}
+
 /**
  * Delete a reminder
  */
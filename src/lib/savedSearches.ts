@@ -0,0 +1,217 @@
+/**
+ * Saved searches for MyStudyHub
+ * Stores named queries and filters as smart lists and runs them against the search index
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  onSnapshot,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import { universalSearch } from './search';
+import { SavedSearch, SearchFilters, SearchResponse, SEARCH_CONFIG } from '@/types/search';
+
+const SAVED_SEARCHES_COLLECTION = 'savedSearches';
+
+type SavedSearchData = Pick<SavedSearch, 'name' | 'query' | 'filters' | 'isPinned'>;
+
+/**
+ * Prepare filters for Firestore, which rejects undefined values
+ */
+function toStoredFilters(filters: SearchFilters): Record<string, unknown> {
+  const stored: Record<string, unknown> = {};
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined) return;
+
+    if (key === 'dateRange' || key === 'dueRange') {
+      stored[key] = Object.fromEntries(
+        Object.entries(value as Record<string, Date | undefined>)
+          .filter(([, date]) => date)
+          .map(([bound, date]) => [bound, Timestamp.fromDate(date!)])
+      );
+    } else {
+      stored[key] = value;
+    }
+  });
+
+  return stored;
+}
+
+/**
+ * Turn the stored date ranges of filters back into Dates
+ */
+function fromStoredFilters(filters: Record<string, any> | undefined): SearchFilters {
+  const toDate = (value: unknown) => value instanceof Timestamp ? value.toDate() : undefined;
+  const result = { types: ['task', 'subject', 'reminder', 'file'], ...filters } as SearchFilters;
+
+  if (filters?.dateRange) {
+    result.dateRange = { start: toDate(filters.dateRange.start)!, end: toDate(filters.dateRange.end)! };
+  }
+  if (filters?.dueRange) {
+    result.dueRange = { start: toDate(filters.dueRange.start), end: toDate(filters.dueRange.end) };
+  }
+  return result;
+}
+
+/**
+ * Convert a Firestore document to a saved search
+ */
+function toSavedSearch(id: string, data: Record<string, any>): SavedSearch {
+  return {
+    id,
+    userId: data.userId,
+    name: data.name,
+    query: data.query || '',
+    filters: fromStoredFilters(data.filters),
+    isPinned: !!data.isPinned,
+    order: data.order || 0,
+    createdAt: data.createdAt || Timestamp.now(),
+    updatedAt: data.updatedAt || Timestamp.now()
+  };
+}
+
+/**
+ * Check that a saved search has a name and something to search for
+ */
+function validateSavedSearch(data: Partial<SavedSearchData>): void {
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error('Smart list name is required');
+  }
+  if (data.filters !== undefined && data.filters.types.length === 0) {
+    throw new Error('Choose at least one type to search');
+  }
+}
+
+/**
+ * Get a user's saved searches in display order
+ */
+export async function getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const db = getDb();
+
+  try {
+    const q = query(collection(db, SAVED_SEARCHES_COLLECTION), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(docSnapshot => toSavedSearch(docSnapshot.id, docSnapshot.data()))
+      .sort((a, b) => a.order - b.order);
+  } catch (error) {
+    throw new Error('Failed to fetch smart lists');
+  }
+}
+
+/**
+ * Get a saved search by ID
+ */
+export async function getSavedSearchById(savedSearchId: string): Promise<SavedSearch | null> {
+  const db = getDb();
+
+  try {
+    const docSnapshot = await getDoc(doc(db, SAVED_SEARCHES_COLLECTION, savedSearchId));
+    return docSnapshot.exists() ? toSavedSearch(docSnapshot.id, docSnapshot.data()) : null;
+  } catch (error) {
+    throw new Error('Failed to fetch smart list');
+  }
+}
+
+/**
+ * Real-time listener for a user's saved searches, in display order
+ */
+export function listenToSavedSearches(
+  userId: string,
+  callback: (savedSearches: SavedSearch[]) => void
+): () => void {
+  const q = query(collection(getDb(), SAVED_SEARCHES_COLLECTION), where('userId', '==', userId));
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs
+      .map(docSnapshot => toSavedSearch(docSnapshot.id, docSnapshot.data()))
+      .sort((a, b) => a.order - b.order));
+  }, (error) => {
+    console.error('Error in smart lists listener:', error);
+  });
+}
+
+/**
+ * Save a query and its filters as a smart list
+ */
+export async function createSavedSearch(userId: string, data: SavedSearchData): Promise<string> {
+  validateSavedSearch(data);
+
+  const existing = await getUserSavedSearches(userId);
+  if (existing.length >= SEARCH_CONFIG.maxSavedSearches) {
+    throw new Error(`You can keep up to ${SEARCH_CONFIG.maxSavedSearches} smart lists`);
+  }
+
+  try {
+    const docRef = await addDoc(collection(getDb(), SAVED_SEARCHES_COLLECTION), {
+      userId,
+      name: data.name.trim(),
+      query: data.query.trim(),
+      filters: toStoredFilters(data.filters),
+      isPinned: data.isPinned,
+      order: existing.reduce((max, savedSearch) => Math.max(max, savedSearch.order + 1), 0),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    throw new Error('Failed to save smart list');
+  }
+}
+
+/**
+ * Rename, pin or change the search of a smart list
+ */
+export async function updateSavedSearch(
+  savedSearchId: string,
+  updates: Partial<SavedSearchData & Pick<SavedSearch, 'order'>>
+): Promise<void> {
+  validateSavedSearch(updates);
+
+  try {
+    await updateDoc(doc(getDb(), SAVED_SEARCHES_COLLECTION, savedSearchId), {
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.query !== undefined && { query: updates.query.trim() }),
+      ...(updates.filters !== undefined && { filters: toStoredFilters(updates.filters) }),
+      ...(updates.isPinned !== undefined && { isPinned: updates.isPinned }),
+      ...(updates.order !== undefined && { order: updates.order }),
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    throw new Error('Failed to update smart list');
+  }
+}
+
+/**
+ * Delete a smart list
+ */
+export async function deleteSavedSearch(savedSearchId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(getDb(), SAVED_SEARCHES_COLLECTION, savedSearchId));
+  } catch (error) {
+    throw new Error('Failed to delete smart list');
+  }
+}
+
+/**
+ * Run a smart list against the search index
+ * Smart lists are not search history, and list everything their filters match
+ */
+export async function runSavedSearch(userId: string, savedSearch: SavedSearch): Promise<SearchResponse> {
+  return universalSearch(userId, savedSearch.query, savedSearch.filters, {
+    recordHistory: false,
+    maxResults: SEARCH_CONFIG.maxSmartListResults,
+    allowEmptyQuery: true
+  });
+}
@@ -5,29 +5,31 @@
 
 import { Timestamp } from 'firebase/firestore';
 import { getDb } from './firebase';
-import {
-  getUserTasks,
-  getTasksByFilter
-} from './tasks';
-import { getUserSubjects } from './storage';
-import { getUserReminders } from './reminders';
-import { getSubjectFiles } from './storage';
+import { getTasksByFilter } from './tasks';
+import { querySearchIndex, tokenizeSearchText, isFuzzyMatch } from './searchIndex';
+import { parseSearchQuery, resolveSubjectQueries } from './searchQuery';
+import { getUserSearchHistory, normalizeSearchQuery, recordSearch } from './searchHistory';
 import {
   SearchResult,
   SearchResultType,
   SearchFilters,
   SearchResponse,
+  SearchOptions,
   SearchSuggestion,
+  SearchContentMatch,
+  ParsedSearchQuery,
   SEARCH_CONFIG,
   SearchableTask,
   SearchableSubject,
   SearchableReminder,
-  SearchableFile
+  SearchableFile,
+  SearchFileSource,
+  getFileSource
 } from '@/types/search';
-import { Task, TaskWithSubject } from '@/types/task';
+import { Task, TaskFile, TaskWithSubject, getTaskStatus } from '@/types/task';
 import { Subject } from '@/types/subject';
 import { Reminder } from '@/types/reminder';
-import { SubjectFile } from '@/types/subject';
+import { SubjectFile, FileContentChunk } from '@/types/subject';
 
 /**
  * Highlights search terms in text
@@ -47,21 +49,16 @@ function escapeRegex(string: string): string {
 }
 
 /**
- * Calculates relevance score for search results
+ * Gets the searchable text of an item, split by how strongly a match counts
  */
-export function calculateRelevance(
-  item: Task | Subject | Reminder | SubjectFile,
-  query: string,
-  subjectMap?: Map<string, Subject>
-): number {
-  const weights = SEARCH_CONFIG.relevanceWeights;
-  const queryLower = query.toLowerCase().trim();
-  let score = 0;
-
-  // Get searchable text based on item type
+function getSearchableFields(
+  item: Task | Subject | Reminder | SubjectFile | TaskFile,
+  subjectMap?: Map<string, Subject>,
+  parentTask?: Task
+): { title: string; description: string; metadata: string[] } {
   let title = '';
   let description = '';
-  let metadata: string[] = [];
+  const metadata: string[] = [];
 
   // Use type guards to determine the item type
   if ('subjectId' in item && 'priority' in item && 'dueDate' in item && 'status' in item) {
@@ -69,6 +66,7 @@ export function calculateRelevance(
     const task = item as Task;
     title = task.title;
     description = task.description || '';
+    metadata.push(...(task.checklist || []).map(checklistItem => checklistItem.title));
     // Add subject name to metadata if available
     if (task.subjectId && subjectMap?.has(task.subjectId)) {
       metadata.push(subjectMap.get(task.subjectId)!.name);
@@ -88,18 +86,42 @@ export function calculateRelevance(
     title = reminder.title;
     description = reminder.description || '';
   } else if ('originalName' in item && 'size' in item && 'url' in item) {
-    // SubjectFile
-    const file = item as SubjectFile;
+    // SubjectFile or TaskFile
+    const file = item as SubjectFile | TaskFile;
     title = file.name;
     description = file.description || '';
     metadata.push(file.originalName);
     metadata.push(file.type);
+    // Task attachments belong to the subject of their task
+    const subjectId = getFileSource(file) === 'task' ? parentTask?.subjectId : (file as SubjectFile).subjectId;
+    if (parentTask) {
+      metadata.push(parentTask.title);
+    }
     // Add subject name to metadata if available
-    if (subjectMap?.has(file.subjectId)) {
-      metadata.push(subjectMap.get(file.subjectId)!.name);
+    if (subjectId && subjectMap?.has(subjectId)) {
+      metadata.push(subjectMap.get(subjectId)!.name);
     }
   }
 
+  return { title, description, metadata };
+}
+
+/**
+ * Calculates relevance score for search results
+ * Falls back to word-by-word and typo-tolerant matching when the query is not found as written
+ */
+export function calculateRelevance(
+  item: Task | Subject | Reminder | SubjectFile | TaskFile,
+  query: string,
+  subjectMap?: Map<string, Subject>,
+  parentTask?: Task
+): number {
+  const weights = SEARCH_CONFIG.relevanceWeights;
+  const queryLower = query.toLowerCase().trim();
+  let score = 0;
+
+  const { title, description, metadata } = getSearchableFields(item, subjectMap, parentTask);
+
   const titleLower = title.toLowerCase();
   const descriptionLower = description.toLowerCase();
   const metadataLower = metadata.join(' ').toLowerCase();
@@ -123,6 +145,34 @@ export function calculateRelevance(
     score += weights.metadataMatch;
   }
 
+  // Words of a multi-word query found separately, e.g. "essay history" for "History Essay"
+  if (score === 0) {
+    const terms = tokenizeSearchText(query);
+    const matchesTerms = (text: string) => {
+      const words = tokenizeSearchText(text);
+      return terms.length > 0 && terms.every(term => words.some(word => word.startsWith(term)));
+    };
+
+    if (matchesTerms(title)) {
+      score += weights.titlePartialMatch;
+    } else if (matchesTerms([title, description, ...metadata].join(' '))) {
+      score += weights.descriptionMatch;
+    }
+  }
+
+  // Typos, e.g. "asignment" for "Assignment"
+  if (score === 0) {
+    const terms = tokenizeSearchText(query);
+    const words = tokenizeSearchText([title, description, ...metadata].join(' '));
+    const matchesFuzzy = terms.length > 0 && terms.every(term =>
+      words.some(word => word.startsWith(term) || isFuzzyMatch(term, word))
+    );
+
+    if (matchesFuzzy) {
+      score += weights.fuzzyMatch;
+    }
+  }
+
   // Recent boost (items from last 7 days)
   const itemDate = getItemDate(item);
   if (itemDate) {
@@ -144,7 +194,7 @@ export function calculateRelevance(
 /**
  * Gets the relevant date for an item (for recent boost calculation)
  */
-function getItemDate(item: Task | Subject | Reminder | SubjectFile): Date | null {
+function getItemDate(item: Task | Subject | Reminder | SubjectFile | TaskFile): Date | null {
   if ('createdAt' in item && item.createdAt instanceof Timestamp) {
     return item.createdAt.toDate();
   } else if ('uploadedAt' in item && item.uploadedAt instanceof Timestamp) {
@@ -158,8 +208,9 @@ function getItemDate(item: Task | Subject | Reminder | SubjectFile): Date | null
  */
 export function createBreadcrumbs(
   type: SearchResultType,
-  item: Task | Subject | Reminder | SubjectFile,
-  subjects: Subject[] = []
+  item: Task | Subject | Reminder | SubjectFile | TaskFile,
+  subjects: Subject[] = [],
+  parentTask?: Task
 ): Array<{ label: string; href: string }> {
   const breadcrumbs: Array<{ label: string; href: string }> = [];
 
@@ -190,6 +241,21 @@ export function createBreadcrumbs(
       break;
 
     case 'file':
+      // Task attachments: Dashboard › Subject › Task › Attachments
+      if (getFileSource(item as TaskFile) === 'task') {
+        const taskFile = item as TaskFile;
+        const taskSubject = subjects.find(s => s.id === parentTask?.subjectId);
+        breadcrumbs.push({ label: 'Dashboard', href: '/dashboard' });
+        if (taskSubject) {
+          breadcrumbs.push({ label: taskSubject.name, href: `/dashboard/subjects/${taskSubject.id}` });
+        }
+        breadcrumbs.push(
+          { label: parentTask?.title || 'Unknown Task', href: `/dashboard/tasks/${taskFile.taskId}` },
+          { label: 'Attachments', href: `/dashboard/tasks/${taskFile.taskId}/edit` }
+        );
+        break;
+      }
+
       const file = item as SubjectFile;
       const parentSubject = subjects.find(s => s.id === file.subjectId);
       breadcrumbs.push(
@@ -209,8 +275,9 @@ export function createBreadcrumbs(
  */
 export function createMetadata(
   type: SearchResultType,
-  item: Task | Subject | Reminder | SubjectFile,
-  subjects: Subject[] = []
+  item: Task | Subject | Reminder | SubjectFile | TaskFile,
+  subjects: Subject[] = [],
+  parentTask?: Task
 ): Record<string, string | number | boolean> {
   const metadata: Record<string, string | number | boolean> = {};
 
@@ -248,13 +315,25 @@ export function createMetadata(
       break;
 
     case 'file':
-      const file = item as SubjectFile;
+      const file = item as SubjectFile | TaskFile;
+      const source = getFileSource(file);
       metadata.type = file.type;
       metadata.size = formatFileSize(file.size);
       metadata.uploadedAt = formatDate(file.uploadedAt.toDate());
-      const parentSubject = subjects.find(s => s.id === file.subjectId);
-      metadata.subjectName = parentSubject?.name || 'Unknown Subject';
-      metadata.subjectColor = parentSubject?.color || '#6B7280';
+      metadata.source = source;
+
+      if (source === 'task') {
+        metadata.taskId = (file as TaskFile).taskId;
+        metadata.taskTitle = parentTask?.title || 'Unknown Task';
+      }
+
+      const fileSubjectId = source === 'task' ? parentTask?.subjectId : (file as SubjectFile).subjectId;
+      if (fileSubjectId) {
+        const parentSubject = subjects.find(s => s.id === fileSubjectId);
+        metadata.subjectId = fileSubjectId;
+        metadata.subjectName = parentSubject?.name || 'Unknown Subject';
+        metadata.subjectColor = parentSubject?.color || '#6B7280';
+      }
       break;
   }
 
@@ -308,158 +387,150 @@ function formatFileSize(bytes: number): string {
 export async function universalSearch(
   userId: string,
   query: string,
-  filters: SearchFilters = { types: ['task', 'subject', 'reminder', 'file'] }
+  filters: SearchFilters = { types: ['task', 'subject', 'reminder', 'file'] },
+  options: SearchOptions = {}
 ): Promise<SearchResponse> {
   const startTime = Date.now();
+  const { recordHistory = true, maxResults = SEARCH_CONFIG.maxResults, allowEmptyQuery = false } = options;
 
   try {
-    if (!query.trim()) {
+    if (!query.trim() && !allowEmptyQuery) {
+      return createEmptyResponse(0);
+    }
+
+    // Operators, phrases and negations typed into the query narrow the filters
+    const parsedQuery = parseSearchQuery(query);
+    const queryFilters = parsedQuery.filters;
+    const types = queryFilters.types
+      ? filters.types.filter(type => queryFilters.types!.includes(type))
+      : filters.types;
+    const searchText = parsedQuery.text.trim();
+
+    // Candidates come from the local index, which Firestore listeners keep current
+    const index = await querySearchIndex(userId, [searchText, ...parsedQuery.phrases].join(' '), types);
+    const userSubjects = index.subjects;
+
+    let subjectIds = filters.subjectIds;
+    if (parsedQuery.subjectQueries.length > 0) {
+      const querySubjectIds = resolveSubjectQueries(parsedQuery, userSubjects);
+      subjectIds = subjectIds && subjectIds.length > 0
+        ? subjectIds.filter(id => querySubjectIds.includes(id))
+        : querySubjectIds;
+    }
+
+    // Invalid operators would silently widen the search, so show the problem instead
+    if (parsedQuery.errors.length > 0) {
       return {
-        results: [],
-        total: 0,
-        hasMore: false,
-        suggestions: [],
-        analytics: {
-          searchTime: 0,
-          totalIndexed: 0,
-          cacheHit: false
-        },
-        facets: {
-          types: [],
-          subjects: [],
-          dates: []
-        }
+        ...createEmptyResponse(Date.now() - startTime),
+        query: parsedQuery
       };
     }
 
-    // Fetch data in parallel following existing patterns
-    const [tasks, subjects, reminders, userSubjects] = await Promise.all([
-      filters.types.includes('task') ? getUserTasks(userId) : Promise.resolve([]),
-      filters.types.includes('subject') ? getUserSubjects(userId) : Promise.resolve([]),
-      filters.types.includes('reminder') ? getUserReminders(userId) : Promise.resolve([]),
-      getUserSubjects(userId) // Always need for metadata
-    ]);
+    const activeFilters: SearchFilters = { ...filters, ...queryFilters, types, subjectIds };
 
     // Create subject map for quick lookups
     const subjectMap = new Map(userSubjects.map(s => [s.id, s]));
 
-    // Gather all files for subjects
-    let files: SubjectFile[] = [];
-    if (filters.types.includes('file')) {
-      const filePromises = userSubjects.map(subject => getSubjectFiles(subject.id));
-      const fileArrays = await Promise.all(filePromises);
-      files = fileArrays.flat();
-    }
-
     // Apply filters and calculate relevance
     const allResults: SearchResult[] = [];
-    const queryLower = query.toLowerCase();
-
-    // Process tasks
-    if (filters.types.includes('task')) {
-      tasks.forEach(task => {
-        if (matchesFilters(task, filters, subjectMap)) {
-          const relevance = calculateRelevance(task, query, subjectMap);
-          if (relevance > 0) {
-            allResults.push(createSearchResult('task', task, relevance, userSubjects));
-          }
-        }
-      });
-    }
 
-    // Process subjects
-    if (filters.types.includes('subject')) {
-      subjects.forEach(subject => {
-        if (matchesFilters(subject, filters)) {
-          const relevance = calculateRelevance(subject, query, subjectMap);
-          if (relevance > 0) {
-            allResults.push(createSearchResult('subject', subject, relevance, userSubjects));
-          }
-        }
-      });
-    }
+    const contentTerms = tokenizeSearchText([searchText, ...parsedQuery.phrases].join(' '));
 
-    // Process reminders
-    if (filters.types.includes('reminder')) {
-      reminders.forEach(reminder => {
-        if (matchesFilters(reminder, filters)) {
-          const relevance = calculateRelevance(reminder, query, subjectMap);
-          if (relevance > 0) {
-            allResults.push(createSearchResult('reminder', reminder, relevance, userSubjects));
-          }
+    index.entries.forEach(({ type, item, content, task }) => {
+      if (matchesFilters(type, item, activeFilters, task) && matchesQueryText(item, parsedQuery, subjectMap, content, task)) {
+        // Filter-only queries such as "is:overdue" list every match equally
+        let relevance = searchText ? calculateRelevance(item, searchText, subjectMap, task) : 1;
+        const contentMatch = content ? createContentMatch(content, contentTerms, item as SubjectFile | TaskFile) : null;
+        if (contentMatch) {
+          relevance += calculateContentRelevance(content!, contentTerms);
         }
-      });
-    }
 
-    // Process files
-    if (filters.types.includes('file')) {
-      files.forEach(file => {
-        if (matchesFilters(file, filters, subjectMap)) {
-          const relevance = calculateRelevance(file, query, subjectMap);
-          if (relevance > 0) {
-            allResults.push(createSearchResult('file', file, relevance, userSubjects));
+        if (relevance > 0) {
+          const result = createSearchResult(type, item, relevance, userSubjects, task);
+          if (contentMatch) {
+            result.contentMatch = contentMatch;
           }
+          allResults.push(result);
         }
-      });
-    }
+      }
+    });
 
     // Sort by relevance and limit results
     const sortedResults = allResults
       .sort((a, b) => b.relevance - a.relevance)
-      .slice(0, SEARCH_CONFIG.maxResults);
+      .slice(0, maxResults);
 
     // Generate suggestions
-    const suggestions = generateSuggestions(query, sortedResults);
+    const suggestions = searchText ? generateSuggestions(searchText, sortedResults) : [];
 
     // Create facets
     const facets = createFacets(sortedResults, userSubjects);
 
     const searchTime = Date.now() - startTime;
 
-    return {
+    const response: SearchResponse = {
       results: sortedResults,
       total: sortedResults.length,
-      hasMore: allResults.length > SEARCH_CONFIG.maxResults,
+      hasMore: allResults.length > maxResults,
       suggestions,
       analytics: {
         searchTime,
-        totalIndexed: tasks.length + subjects.length + reminders.length + files.length,
-        cacheHit: false
+        totalIndexed: index.totalIndexed,
+        cacheHit: index.cacheHit
       },
+      query: parsedQuery,
       facets
     };
 
+    if (recordHistory) {
+      recordSearch(userId, query, response);
+    }
+
+    return response;
+
   } catch (error) {
     // Follow existing silent error handling pattern
     console.error('Search error:', error);
-    return {
-      results: [],
-      total: 0,
-      hasMore: false,
-      suggestions: [],
-      analytics: {
-        searchTime: Date.now() - startTime,
-        totalIndexed: 0,
-        cacheHit: false
-      },
-      facets: {
-        types: [],
-        subjects: [],
-        dates: []
-      }
-    };
+    return createEmptyResponse(Date.now() - startTime);
   }
 }
 
+/**
+ * Creates a response without results
+ */
+function createEmptyResponse(searchTime: number): SearchResponse {
+  return {
+    results: [],
+    total: 0,
+    hasMore: false,
+    suggestions: [],
+    analytics: {
+      searchTime,
+      totalIndexed: 0,
+      cacheHit: false
+    },
+    facets: {
+      types: [],
+      subjects: [],
+      fileSources: [],
+      dates: []
+    }
+  };
+}
+
 /**
  * Checks if an item matches the applied filters
+ * Filters that only apply to some types (e.g. priority) leave out the other types
  */
 function matchesFilters(
-  item: Task | Subject | Reminder | SubjectFile,
+  type: SearchResultType,
+  item: Task | Subject | Reminder | SubjectFile | TaskFile,
   filters: SearchFilters,
-  subjectMap?: Map<string, Subject>
+  parentTask?: Task
 ): boolean {
-  // Type filter is applied at the collection level
+  if (!filters.types.includes(type)) {
+    return false;
+  }
 
   // Date range filter
   if (filters.dateRange) {
@@ -471,52 +542,191 @@ function matchesFilters(
 
   // Subject filter
   if (filters.subjectIds && filters.subjectIds.length > 0) {
-    if ('subjectId' in item) {
-      if (!filters.subjectIds.includes((item as any).subjectId)) {
+    const subjectId = type === 'subject'
+      ? item.id
+      : type === 'task'
+        ? (item as Task).subjectId
+        : type === 'file'
+          ? (getFileSource(item as SubjectFile | TaskFile) === 'task' ? parentTask?.subjectId : (item as SubjectFile).subjectId)
+          : null;
+    if (!subjectId || !filters.subjectIds.includes(subjectId)) {
+      return false;
+    }
+  }
+
+  // Status filter for tasks and reminders, using the derived status so overdue is current
+  if (filters.status && filters.status.length > 0) {
+    if (type === 'task') {
+      if (!filters.status.includes(getTaskStatus(item as Task))) {
         return false;
       }
-    } else if ('code' in item && 'teacher' in item && 'room' in item && 'isActive' in item) {
-      if (!filters.subjectIds.includes(item.id)) {
+    } else if (type === 'reminder') {
+      const reminder = item as Reminder;
+      const status = reminder.isCompleted
+        ? 'completed'
+        : reminder.dueDate.toDate() < new Date() ? 'overdue' : 'pending';
+      if (!filters.status.includes(status) && !filters.status.includes(reminder.isCompleted)) {
         return false;
       }
+    } else {
+      return false;
     }
   }
 
-  // Status filter for tasks and reminders
-  if (filters.status && filters.status.length > 0) {
-    if ('status' in item && filters.status.includes(item.status as any)) {
-      return true;
+  // Due date filter for tasks and reminders
+  if (filters.dueRange) {
+    if (type !== 'task' && type !== 'reminder') {
+      return false;
     }
-    if ('isCompleted' in item && filters.status.includes(item.isCompleted as any)) {
-      return true;
+    const dueDate = (item as Task | Reminder).dueDate.toDate();
+    if ((filters.dueRange.start && dueDate < filters.dueRange.start) ||
+        (filters.dueRange.end && dueDate > filters.dueRange.end)) {
+      return false;
     }
   }
 
   // Priority filter for tasks
   if (filters.priorities && filters.priorities.length > 0) {
-    if ('priority' in item && filters.priorities.includes((item as Task).priority)) {
-      return true;
+    if (type !== 'task' || !filters.priorities.includes((item as Task).priority)) {
+      return false;
     }
   }
 
   // File type filter for files
   if (filters.fileTypes && filters.fileTypes.length > 0) {
-    if ('type' in item && filters.fileTypes.includes((item as SubjectFile).type)) {
-      return true;
+    if (type !== 'file' || !filters.fileTypes.includes((item as SubjectFile).type)) {
+      return false;
+    }
+  }
+
+  // Subject files or task attachments
+  if (filters.fileSources && filters.fileSources.length > 0) {
+    if (type !== 'file' || !filters.fileSources.includes(getFileSource(item as SubjectFile | TaskFile))) {
+      return false;
     }
   }
 
   return true;
 }
 
+/**
+ * Checks quoted phrases and negated words of a query against an item
+ */
+function matchesQueryText(
+  item: Task | Subject | Reminder | SubjectFile | TaskFile,
+  parsedQuery: ParsedSearchQuery,
+  subjectMap: Map<string, Subject>,
+  content?: FileContentChunk,
+  parentTask?: Task
+): boolean {
+  if (parsedQuery.phrases.length === 0 && parsedQuery.excluded.length === 0) {
+    return true;
+  }
+
+  const { title, description, metadata } = getSearchableFields(item, subjectMap, parentTask);
+  const words = tokenizeSearchText([title, description, ...metadata, content?.text || ''].join(' '));
+  // Compare word sequences so punctuation and spacing don't matter
+  const text = ` ${words.join(' ')} `;
+  const containsPhrase = (phrase: string) => text.includes(` ${tokenizeSearchText(phrase).join(' ')} `);
+
+  if (!parsedQuery.phrases.every(containsPhrase)) {
+    return false;
+  }
+
+  return !parsedQuery.excluded.some(excluded => {
+    const excludedWords = tokenizeSearchText(excluded);
+    if (excludedWords.length === 1) {
+      return words.some(word => word.startsWith(excludedWords[0]));
+    }
+    return excludedWords.length > 0 && containsPhrase(excluded);
+  });
+}
+
+/**
+ * Check whether a word of a file's text matches a query word
+ */
+function matchesContentWord(terms: string[], word: string): boolean {
+  return terms.some(term => word.startsWith(term) || isFuzzyMatch(term, word));
+}
+
+/**
+ * Scores a file by the share of query words found in its matching text
+ */
+function calculateContentRelevance(content: FileContentChunk, terms: string[]): number {
+  if (terms.length === 0) return 0;
+
+  const words = tokenizeSearchText(content.text);
+  const found = terms.filter(term => words.some(word => matchesContentWord([term], word)));
+  return SEARCH_CONFIG.relevanceWeights.contentMatch * (found.length / terms.length);
+}
+
+/**
+ * Cuts the passage around the first query word out of a file's text chunk
+ * Highlights are ranges of the snippet, so the text never has to be rendered as HTML
+ */
+function createContentMatch(
+  content: FileContentChunk,
+  terms: string[],
+  file: SubjectFile | TaskFile
+): SearchContentMatch | null {
+  const text = content.text;
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const [word] = tokenizeSearchText(match[0]);
+    if (word && matchesContentWord(terms, word)) {
+      ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  if (ranges.length === 0) return null;
+
+  // Start a little before the first match, at a word boundary
+  const maxLength = SEARCH_CONFIG.maxSnippetLength;
+  let start = Math.max(0, ranges[0].start - Math.floor(maxLength / 3));
+  if (start > 0) {
+    const boundary = text.indexOf(' ', start);
+    start = boundary >= 0 && boundary < ranges[0].start ? boundary + 1 : ranges[0].start;
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const boundary = text.lastIndexOf(' ', end);
+    if (boundary > ranges[0].end) end = boundary;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${text.substring(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+
+  // Whitespace is collapsed above, so recompute offsets against the snippet
+  const highlights: Array<{ start: number; end: number }> = [];
+  let searchFrom = prefix.length;
+  ranges
+    .filter(range => range.start >= start && range.end <= end)
+    .forEach(range => {
+      const word = text.substring(range.start, range.end);
+      const position = snippet.indexOf(word, searchFrom);
+      if (position >= 0) {
+        highlights.push({ start: position, end: position + word.length });
+        searchFrom = position + word.length;
+      }
+    });
+
+  return {
+    snippet,
+    highlights,
+    page: content.page,
+    pageLabel: content.page === null ? null : `${file.type === 'pptx' ? 'Slide' : 'Page'} ${content.page}`
+  };
+}
+
 /**
  * Creates a search result object
  */
 function createSearchResult(
   type: SearchResultType,
-  item: Task | Subject | Reminder | SubjectFile,
+  item: Task | Subject | Reminder | SubjectFile | TaskFile,
   relevance: number,
-  subjects: Subject[] = []
+  subjects: Subject[] = [],
+  parentTask?: Task
 ): SearchResult {
   const result: SearchResult = {
     id: item.id,
@@ -524,8 +734,8 @@ function createSearchResult(
     title: getTitle(item),
     relevance,
     data: item,
-    breadcrumbs: createBreadcrumbs(type, item, subjects),
-    metadata: createMetadata(type, item, subjects)
+    breadcrumbs: createBreadcrumbs(type, item, subjects, parentTask),
+    metadata: createMetadata(type, item, subjects, parentTask)
   };
 
   // Add description if available
@@ -540,7 +750,7 @@ function createSearchResult(
 /**
  * Gets the title for display
  */
-function getTitle(item: Task | Subject | Reminder | SubjectFile): string {
+function getTitle(item: Task | Subject | Reminder | SubjectFile | TaskFile): string {
   // Use type guards to determine the item type
   if ('subjectId' in item && 'priority' in item && 'dueDate' in item && 'status' in item) {
     // Task
@@ -561,7 +771,7 @@ function getTitle(item: Task | Subject | Reminder | SubjectFile): string {
 /**
  * Gets the description for display
  */
-function getDescription(item: Task | Subject | Reminder | SubjectFile): string | undefined {
+function getDescription(item: Task | Subject | Reminder | SubjectFile | TaskFile): string | undefined {
   // Use type guards to determine the item type
   if ('subjectId' in item && 'priority' in item && 'dueDate' in item && 'status' in item) {
     // Task
@@ -616,11 +826,18 @@ function generateSuggestions(query: string, results: SearchResult[]): SearchSugg
 function createFacets(results: SearchResult[], subjects: Subject[]) {
   const typeCounts = new Map<SearchResultType, number>();
   const subjectCounts = new Map<string, { name: string; count: number }>();
+  const fileSourceCounts = new Map<SearchFileSource, number>();
 
   results.forEach(result => {
     // Count by type
     typeCounts.set(result.type, (typeCounts.get(result.type) || 0) + 1);
 
+    // Count files by what they are attached to
+    if (result.type === 'file') {
+      const source = getFileSource(result.data as SubjectFile | TaskFile);
+      fileSourceCounts.set(source, (fileSourceCounts.get(source) || 0) + 1);
+    }
+
     // Count by subject
     const subjectId = getSubjectIdFromResult(result);
     if (subjectId) {
@@ -647,6 +864,11 @@ function createFacets(results: SearchResult[], subjects: Subject[]) {
       name: data.name,
       count: data.count
     })),
+    fileSources: Array.from(fileSourceCounts.entries()).map(([source, count]) => ({
+      source,
+      count,
+      label: SEARCH_CONFIG.fileSourceLabels[source]
+    })),
     dates: [] // TODO: Implement date faceting if needed
   };
 }
@@ -661,7 +883,8 @@ function getSubjectIdFromResult(result: SearchResult): string | null {
     case 'subject':
       return result.data.id;
     case 'file':
-      return (result.data as SubjectFile).subjectId;
+      // Task attachments take the subject of their task
+      return (result.metadata.subjectId as string | undefined) || null;
     case 'reminder':
       return null; // Reminders don't have subjects
     default:
@@ -671,17 +894,91 @@ function getSubjectIdFromResult(result: SearchResult): string | null {
 
 /**
  * Gets search suggestions for autocomplete
+ * Recent and popular queries from the user's history come first,
+ * then completions from the names of their tasks, subjects and files
  */
 export async function getSearchSuggestions(
   userId: string,
   partialQuery: string
 ): Promise<SearchSuggestion[]> {
-  // For now, return basic suggestions
-  // This could be enhanced with search history and popular queries
-  if (!partialQuery.trim()) {
+  try {
+    const partial = normalizeSearchQuery(partialQuery);
+    const history = await getUserSearchHistory(userId);
+    const suggestions: SearchSuggestion[] = [];
+    const seen = new Set<string>([partial]);
+
+    const addSuggestion = (suggestion: SearchSuggestion) => {
+      const key = suggestion.text.toLowerCase();
+      if (seen.has(key) || suggestions.length >= SEARCH_CONFIG.maxSuggestions) return;
+      seen.add(key);
+      suggestions.push(suggestion);
+    };
+
+    // Earlier queries that start with or contain what has been typed, prefix matches first
+    const matchingHistory = history
+      .filter(entry => entry.normalizedQuery.includes(partial))
+      .sort((a, b) =>
+        Number(b.normalizedQuery.startsWith(partial)) - Number(a.normalizedQuery.startsWith(partial))
+      );
+
+    matchingHistory
+      .slice(0, SEARCH_CONFIG.maxRecentSuggestions)
+      .forEach(entry => addSuggestion({ text: entry.query, type: 'recent', category: 'Recent' }));
+
+    // Opened results count double: those queries found what the user wanted
+    matchingHistory
+      .filter(entry => entry.searchCount + entry.clickCount > 1)
+      .sort((a, b) => (b.searchCount + 2 * b.clickCount) - (a.searchCount + 2 * a.clickCount))
+      .filter(entry => !seen.has(entry.normalizedQuery))
+      .slice(0, SEARCH_CONFIG.maxPopularSuggestions)
+      .forEach(entry => addSuggestion({ text: entry.query, type: 'popular', category: 'Popular' }));
+
+    if (!partial) {
+      return suggestions;
+    }
+
+    const index = await querySearchIndex(userId, '', ['subject']);
+
+    // Complete a subject: operator from subject codes and names
+    const subjectOperator = partial.match(/(?:^|\s)subject:(\S*)$/);
+    if (subjectOperator) {
+      const prefix = partial.substring(0, partial.length - subjectOperator[1].length);
+      index.subjects
+        .filter(subject =>
+          subject.code?.toLowerCase().startsWith(subjectOperator[1]) ||
+          subject.name.toLowerCase().startsWith(subjectOperator[1])
+        )
+        .forEach(subject => {
+          const value = subject.code || (subject.name.includes(' ') ? `"${subject.name}"` : subject.name);
+          addSuggestion({ text: `${prefix}${value}`, type: 'completion', category: subject.name });
+        });
+      return suggestions;
+    }
+
+    // Names whose words start with every word typed so far, for plain queries only
+    const terms = tokenizeSearchText(partial);
+    if (terms.length === 0 || /[:"]|(?:^|\s)-/.test(partial)) {
+      return suggestions;
+    }
+
+    const matches = await querySearchIndex(userId, partial, ['task', 'subject', 'file']);
+    matches.entries
+      .map(({ type, item, task }) => createSearchResult(type, item, 0, index.subjects, task))
+      .filter(result => {
+        const words = tokenizeSearchText(result.title);
+        return terms.every(term => words.some(word => word.startsWith(term)));
+      })
+      .sort((a, b) => a.title.length - b.title.length || a.title.localeCompare(b.title))
+      .forEach(result => addSuggestion({
+        text: result.title,
+        type: 'completion',
+        category: SEARCH_CONFIG.typeLabels[result.type],
+        result
+      }));
+
+    return suggestions;
+  } catch (error) {
+    console.error('Error getting search suggestions:', error);
     return [];
   }
-
-  // TODO: Implement search history and analytics-based suggestions
-  return [];
-}
\ No newline at end of file
+}
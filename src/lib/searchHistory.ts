@@ -0,0 +1,307 @@
+/**
+ * Search history for MyStudyHub
+ * Records the queries a user settles on and the results they open,
+ * for suggestions and the admin search analytics
+ */
+
+import {
+  collection,
+  doc,
+  setDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  increment,
+  serverTimestamp,
+  writeBatch,
+  Timestamp,
+  DocumentReference
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import {
+  SearchHistoryEntry,
+  SearchResponse,
+  SearchResult,
+  SEARCH_CONFIG
+} from '@/types/search';
+
+const HISTORY_COLLECTION = 'searchHistory';
+
+// Queries shorter than this are not worth remembering
+const MIN_QUERY_LENGTH = 2;
+
+// Firestore allows 500 writes per batch
+const MAX_BATCH_SIZE = 450;
+
+interface PendingSearch {
+  userId: string;
+  query: string;
+  response: SearchResponse;
+}
+
+// History of the signed-in user, loaded once and kept current by the functions below
+let historyCache: { userId: string; entries: Promise<SearchHistoryEntry[]> } | null = null;
+let pendingSearch: PendingSearch | null = null;
+let pendingTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Normalize a query so repeats with different case or spacing are merged
+ */
+export function normalizeSearchQuery(searchQuery: string): string {
+  return searchQuery.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Hash a query to a fixed-length hex string (64-bit FNV-1a over its UTF-16 code units)
+ */
+function hashQuery(normalizedQuery: string): string {
+  let hash = BigInt('0xcbf29ce484222325');
+  const prime = BigInt('0x100000001b3');
+  const mask = BigInt('0xffffffffffffffff');
+
+  for (let i = 0; i < normalizedQuery.length; i++) {
+    hash = ((hash ^ BigInt(normalizedQuery.charCodeAt(i))) * prime) & mask;
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Get the document ID of a user's query
+ * The query is hashed rather than embedded, so long queries sharing a prefix keep separate entries
+ */
+function getHistoryDocId(userId: string, normalizedQuery: string): string {
+  return `${userId}_${hashQuery(normalizedQuery)}`;
+}
+
+/**
+ * Fill in counters missing from older or partially written documents
+ */
+function toHistoryEntry(id: string, data: Record<string, any>): SearchHistoryEntry {
+  return {
+    id,
+    userId: data.userId,
+    query: data.query,
+    normalizedQuery: data.normalizedQuery,
+    searchCount: data.searchCount || 0,
+    clickCount: data.clickCount || 0,
+    totalResults: data.totalResults || 0,
+    lastResultCount: data.lastResultCount || 0,
+    totalSearchTime: data.totalSearchTime || 0,
+    cacheHits: data.cacheHits || 0,
+    clickedTypes: data.clickedTypes || {},
+    lastSearchedAt: data.lastSearchedAt || Timestamp.now()
+  };
+}
+
+/**
+ * Get a user's search history, most recent first
+ */
+export async function getUserSearchHistory(userId: string): Promise<SearchHistoryEntry[]> {
+  if (historyCache?.userId === userId) {
+    return historyCache.entries;
+  }
+
+  const entries = (async () => {
+    try {
+      const historyQuery = query(
+        collection(getDb(), HISTORY_COLLECTION),
+        where('userId', '==', userId),
+        orderBy('lastSearchedAt', 'desc'),
+        limit(SEARCH_CONFIG.maxHistoryEntries)
+      );
+      const snapshot = await getDocs(historyQuery);
+      return snapshot.docs.map(docSnapshot => toHistoryEntry(docSnapshot.id, docSnapshot.data()));
+    } catch (error) {
+      console.error('Error loading search history:', error);
+      return [];
+    }
+  })();
+
+  historyCache = { userId, entries };
+  return entries;
+}
+
+/**
+ * Update the cached history after a write
+ */
+async function updateCachedEntry(
+  userId: string,
+  searchQuery: string,
+  update: (entry: SearchHistoryEntry) => void
+): Promise<void> {
+  if (historyCache?.userId !== userId) return;
+
+  const entries = await historyCache.entries;
+  const normalizedQuery = normalizeSearchQuery(searchQuery);
+  let entry = entries.find(e => e.normalizedQuery === normalizedQuery);
+
+  if (!entry) {
+    entry = toHistoryEntry(getHistoryDocId(userId, normalizedQuery), { userId, query: searchQuery, normalizedQuery });
+    entries.push(entry);
+  }
+
+  entry.query = searchQuery.trim();
+  entry.lastSearchedAt = Timestamp.now();
+  update(entry);
+  entries.sort((a, b) => b.lastSearchedAt.toMillis() - a.lastSearchedAt.toMillis());
+}
+
+/**
+ * Delete history documents in batches
+ */
+async function deleteInBatches(refs: DocumentReference[]): Promise<void> {
+  const db = getDb();
+  for (let start = 0; start < refs.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    refs.slice(start, start + MAX_BATCH_SIZE).forEach(ref => batch.delete(ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * Drop the least recently searched queries beyond the history a user keeps
+ */
+async function pruneSearchHistory(userId: string): Promise<void> {
+  const snapshot = await getDocs(query(
+    collection(getDb(), HISTORY_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('lastSearchedAt', 'desc')
+  ));
+  await deleteInBatches(snapshot.docs.slice(SEARCH_CONFIG.maxHistoryEntries).map(docSnapshot => docSnapshot.ref));
+
+  if (historyCache?.userId === userId) {
+    const entries = await historyCache.entries;
+    entries.splice(SEARCH_CONFIG.maxHistoryEntries);
+  }
+}
+
+/**
+ * Write the search waiting to be recorded, if any
+ */
+async function flushPendingSearch(): Promise<void> {
+  if (pendingTimeout) {
+    clearTimeout(pendingTimeout);
+    pendingTimeout = null;
+  }
+  if (!pendingSearch) return;
+
+  const { userId, query: searchQuery, response } = pendingSearch;
+  pendingSearch = null;
+
+  const normalizedQuery = normalizeSearchQuery(searchQuery);
+  const resultCount = response.total;
+
+  try {
+    // Only a query not in the history yet can take it past its limit
+    const isKnownQuery = historyCache?.userId === userId &&
+      (await historyCache.entries).some(entry => entry.normalizedQuery === normalizedQuery);
+
+    await setDoc(doc(getDb(), HISTORY_COLLECTION, getHistoryDocId(userId, normalizedQuery)), {
+      userId,
+      query: searchQuery.trim(),
+      normalizedQuery,
+      searchCount: increment(1),
+      totalResults: increment(resultCount),
+      lastResultCount: resultCount,
+      totalSearchTime: increment(response.analytics.searchTime),
+      cacheHits: increment(response.analytics.cacheHit ? 1 : 0),
+      lastSearchedAt: serverTimestamp()
+    }, { merge: true });
+
+    await updateCachedEntry(userId, searchQuery, entry => {
+      entry.searchCount++;
+      entry.totalResults += resultCount;
+      entry.lastResultCount = resultCount;
+      entry.totalSearchTime += response.analytics.searchTime;
+      entry.cacheHits += response.analytics.cacheHit ? 1 : 0;
+    });
+
+    if (!isKnownQuery) {
+      await pruneSearchHistory(userId);
+    }
+  } catch (error) {
+    // History is best effort and must never break searching
+    console.error('Error recording search:', error);
+  }
+}
+
+/**
+ * Record a search once the user stops typing
+ * Each keystroke replaces the pending search, so only settled queries are kept
+ */
+export function recordSearch(userId: string, searchQuery: string, response: SearchResponse): void {
+  if (normalizeSearchQuery(searchQuery).length < MIN_QUERY_LENGTH) return;
+
+  if (pendingSearch && pendingSearch.userId !== userId) {
+    flushPendingSearch();
+  }
+
+  pendingSearch = { userId, query: searchQuery, response };
+  if (pendingTimeout) clearTimeout(pendingTimeout);
+  pendingTimeout = setTimeout(flushPendingSearch, SEARCH_CONFIG.historySettleMs);
+}
+
+/**
+ * Record that a result of a query was opened
+ */
+export async function recordSearchClick(userId: string, searchQuery: string, result: SearchResult): Promise<void> {
+  const normalizedQuery = normalizeSearchQuery(searchQuery);
+  if (normalizedQuery.length < MIN_QUERY_LENGTH) return;
+
+  // The click settles the query, so record the search first
+  await flushPendingSearch();
+
+  try {
+    await setDoc(doc(getDb(), HISTORY_COLLECTION, getHistoryDocId(userId, normalizedQuery)), {
+      userId,
+      query: searchQuery.trim(),
+      normalizedQuery,
+      clickCount: increment(1),
+      clickedTypes: { [result.type]: increment(1) },
+      lastSearchedAt: serverTimestamp()
+    }, { merge: true });
+
+    await updateCachedEntry(userId, searchQuery, entry => {
+      entry.clickCount++;
+      entry.clickedTypes[result.type] = (entry.clickedTypes[result.type] || 0) + 1;
+    });
+  } catch (error) {
+    console.error('Error recording search click:', error);
+  }
+}
+
+/**
+ * Remove one query from a user's history
+ */
+export async function deleteSearchHistoryEntry(userId: string, searchQuery: string): Promise<void> {
+  const normalizedQuery = normalizeSearchQuery(searchQuery);
+  // Matched on the stored query, so entries saved under the older truncated IDs go as well
+  const snapshot = await getDocs(query(
+    collection(getDb(), HISTORY_COLLECTION),
+    where('userId', '==', userId),
+    where('normalizedQuery', '==', normalizedQuery)
+  ));
+  await deleteInBatches(snapshot.docs.map(docSnapshot => docSnapshot.ref));
+
+  if (historyCache?.userId === userId) {
+    const entries = await historyCache.entries;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].normalizedQuery === normalizedQuery) entries.splice(i, 1);
+    }
+  }
+}
+
+/**
+ * Remove a user's whole search history
+ */
+export async function clearSearchHistory(userId: string): Promise<void> {
+  const snapshot = await getDocs(query(collection(getDb(), HISTORY_COLLECTION), where('userId', '==', userId)));
+  await deleteInBatches(snapshot.docs.map(docSnapshot => docSnapshot.ref));
+
+  if (historyCache?.userId === userId) {
+    historyCache = { userId, entries: Promise.resolve([]) };
+  }
+}
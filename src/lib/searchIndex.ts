@@ -0,0 +1,617 @@
+/**
+ * Client-side search index for MyStudyHub
+ * Keeps an inverted index of a user's tasks, subjects, reminders, files and file text in memory,
+ * persisted to IndexedDB and kept up to date by Firestore listeners
+ */
+
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  Timestamp,
+  QuerySnapshot,
+  DocumentData
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import { getEditDistance } from './stringUtils';
+import {
+  SearchResultType,
+  SearchIndexEntry,
+  SearchIndexQueryResult,
+  SEARCH_CONFIG,
+  getFileSource
+} from '@/types/search';
+import { Task, TaskFile } from '@/types/task';
+import { Subject, SubjectFile, FileContentChunk } from '@/types/subject';
+import { Reminder } from '@/types/reminder';
+
+const INDEX_DB_NAME = 'mystudyhub-search';
+const INDEX_DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+
+// Result types, plus the text chunks of files, which match as their file
+type IndexedType = SearchResultType | 'content';
+type IndexedItem = SearchIndexEntry['item'] | FileContentChunk;
+
+// Firestore collection that feeds each indexed type
+const INDEXED_COLLECTIONS: Record<IndexedType, string> = {
+  task: 'tasks',
+  subject: 'subjects',
+  reminder: 'reminders',
+  file: 'subjectFiles',
+  content: 'fileContents'
+};
+
+// Record persisted in IndexedDB for one document
+interface StoredDocument {
+  key: string; // '{userId}/{type}/{id}'
+  userId: string;
+  type: IndexedType;
+  data: unknown; // Item with Timestamps serialized
+  tokens: string[];
+}
+
+interface IndexedDocument {
+  type: IndexedType;
+  item: IndexedItem;
+  tokens: string[];
+}
+
+interface SearchIndexState {
+  userId: string;
+  documents: Map<string, IndexedDocument>; // Keyed by '{type}/{id}'
+  postings: Map<string, Set<string>>; // Token -> document keys
+  sortedTokens: string[] | null; // Rebuilt lazily for prefix lookups
+  isReady: boolean;
+  ready: Promise<void>;
+  releaseReady: () => void; // Lets waiting queries finish when the index is stopped before it is ready
+  unsubscribes: Array<() => void>;
+}
+
+let activeIndex: SearchIndexState | null = null;
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+// Callbacks waiting for changes to a user's data; kept apart from the index so they outlive restarts
+const changeListeners = new Set<{ userId: string; onChange: () => void }>();
+let changeTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Split text into lowercase search tokens, ignoring accents and punctuation
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Get how many typos a query word may contain
+ */
+function getAllowedTypos(term: string): number {
+  if (term.length < SEARCH_CONFIG.fuzzyMinLength) return 0;
+  return term.length < SEARCH_CONFIG.fuzzyTwoTypoLength ? 1 : 2;
+}
+
+/**
+ * Check whether a word matches a query word despite typos
+ * The word's beginning is compared too, so partly typed words still match
+ */
+export function isFuzzyMatch(term: string, word: string): boolean {
+  const allowed = getAllowedTypos(term);
+  if (allowed === 0) return false;
+
+  return getEditDistance(term, word, allowed) <= allowed ||
+    (word.length > term.length && getEditDistance(term, word.substring(0, term.length), allowed) <= allowed);
+}
+
+/**
+ * Get the text of an item that is searchable
+ */
+function getIndexedText(type: IndexedType, item: IndexedItem): string[] {
+  switch (type) {
+    case 'task': {
+      const task = item as Task;
+      return [task.title, task.description || '', ...(task.checklist || []).map(entry => entry.title)];
+    }
+    case 'subject': {
+      const subject = item as Subject;
+      return [subject.name, subject.code || '', subject.description || '', subject.teacher || '', subject.room || ''];
+    }
+    case 'reminder': {
+      const reminder = item as Reminder;
+      return [reminder.title, reminder.description || ''];
+    }
+    case 'file': {
+      const file = item as SubjectFile;
+      return [file.name, file.originalName, file.description || '', file.type];
+    }
+    case 'content':
+      return [(item as FileContentChunk).text];
+  }
+}
+
+// ===== PERSISTENCE =====
+
+/**
+ * Convert Firestore Timestamps to plain values IndexedDB can store
+ */
+function serializeItem(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return { __timestamp: [value.seconds, value.nanoseconds] };
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeItem);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, serializeItem(entry)]));
+  }
+  return value;
+}
+
+/**
+ * Restore Timestamps written by serializeItem
+ */
+function deserializeItem(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(deserializeItem);
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (Array.isArray(record.__timestamp)) {
+      const [seconds, nanoseconds] = record.__timestamp as number[];
+      return new Timestamp(seconds, nanoseconds);
+    }
+    return Object.fromEntries(Object.entries(record).map(([key, entry]) => [key, deserializeItem(entry)]));
+  }
+  return value;
+}
+
+/**
+ * Open the index database, or resolve null where IndexedDB is unavailable
+ */
+function openIndexDatabase(): Promise<IDBDatabase | null> {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(INDEX_DB_NAME, INDEX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(DOCUMENTS_STORE, { keyPath: 'key' });
+      store.createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+  });
+
+  return databasePromise;
+}
+
+/**
+ * Load the persisted documents of a user
+ */
+async function loadStoredDocuments(userId: string): Promise<StoredDocument[]> {
+  const database = await openIndexDatabase();
+  if (!database) return [];
+
+  return new Promise(resolve => {
+    const request = database
+      .transaction(DOCUMENTS_STORE, 'readonly')
+      .objectStore(DOCUMENTS_STORE)
+      .index('userId')
+      .getAll(userId);
+    request.onsuccess = () => resolve(request.result as StoredDocument[]);
+    request.onerror = () => resolve([]);
+  });
+}
+
+/**
+ * Write and delete persisted documents in one transaction
+ * Resolves once the transaction has committed and rejects when it fails or is aborted
+ */
+async function persistChanges(records: StoredDocument[], deletedKeys: string[]): Promise<void> {
+  if (records.length === 0 && deletedKeys.length === 0) return;
+
+  const database = await openIndexDatabase();
+  if (!database) return;
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(DOCUMENTS_STORE, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error || new Error('Failed to update the search index'));
+    transaction.onabort = () => reject(transaction.error || new Error('Search index update was aborted'));
+
+    const store = transaction.objectStore(DOCUMENTS_STORE);
+    records.forEach(record => store.put(record));
+    deletedKeys.forEach(key => store.delete(key));
+  });
+}
+
+/**
+ * Remove everything persisted for a user, e.g. on logout or account deletion
+ */
+export async function clearSearchIndex(userId: string): Promise<void> {
+  if (activeIndex?.userId === userId) {
+    stopSearchIndexSync();
+  }
+
+  const database = await openIndexDatabase();
+  if (!database) return;
+
+  const keys = (await loadStoredDocuments(userId)).map(record => record.key);
+  await persistChanges([], keys);
+}
+
+// ===== INDEX MAINTENANCE =====
+
+/**
+ * Add or replace a document and its postings
+ */
+function upsertDocument(state: SearchIndexState, type: IndexedType, item: IndexedItem, tokens?: string[]): StoredDocument {
+  const key = `${type}/${item.id}`;
+  removeDocument(state, key);
+
+  const documentTokens = tokens || Array.from(new Set(getIndexedText(type, item).flatMap(tokenizeSearchText)));
+  state.documents.set(key, { type, item, tokens: documentTokens });
+
+  documentTokens.forEach(token => {
+    if (!state.postings.has(token)) {
+      state.postings.set(token, new Set());
+      state.sortedTokens = null;
+    }
+    state.postings.get(token)!.add(key);
+  });
+
+  return {
+    key: `${state.userId}/${key}`,
+    userId: state.userId,
+    type,
+    data: serializeItem(item),
+    tokens: documentTokens
+  };
+}
+
+/**
+ * Remove a document and its postings
+ */
+function removeDocument(state: SearchIndexState, key: string): void {
+  const existing = state.documents.get(key);
+  if (!existing) return;
+
+  existing.tokens.forEach(token => {
+    const keys = state.postings.get(token);
+    keys?.delete(key);
+    if (keys && keys.size === 0) {
+      state.postings.delete(token);
+      state.sortedTokens = null;
+    }
+  });
+  state.documents.delete(key);
+}
+
+/**
+ * Apply a Firestore snapshot to the index
+ * The first snapshot from the server also drops documents deleted since the last session
+ */
+function applySnapshot(
+  state: SearchIndexState,
+  type: IndexedType,
+  snapshot: QuerySnapshot<DocumentData>,
+  isFirstSnapshot: boolean
+): void {
+  const records: StoredDocument[] = [];
+  const deletedKeys: string[] = [];
+  const toItem = (docSnapshot: { id: string; data: () => DocumentData }) =>
+    ({ id: docSnapshot.id, ...docSnapshot.data() }) as IndexedItem;
+
+  if (isFirstSnapshot) {
+    if (!snapshot.metadata.fromCache) {
+      const currentIds = new Set(snapshot.docs.map(docSnapshot => docSnapshot.id));
+      Array.from(state.documents.values())
+        .filter(entry => entry.type === type && !currentIds.has(entry.item.id))
+        .forEach(entry => {
+          const key = `${type}/${entry.item.id}`;
+          removeDocument(state, key);
+          deletedKeys.push(`${state.userId}/${key}`);
+        });
+    }
+    snapshot.docs.forEach(docSnapshot => records.push(upsertDocument(state, type, toItem(docSnapshot))));
+  } else {
+    snapshot.docChanges().forEach(change => {
+      if (change.type === 'removed') {
+        const key = `${type}/${change.doc.id}`;
+        removeDocument(state, key);
+        deletedKeys.push(`${state.userId}/${key}`);
+      } else {
+        records.push(upsertDocument(state, type, toItem(change.doc)));
+      }
+    });
+  }
+
+  persistChanges(records, deletedKeys).catch(() => {
+    // The in-memory index stays correct; it is rebuilt from Firestore next session
+  });
+  notifyIndexChange(state.userId);
+}
+
+/**
+ * Tell change listeners about new data, once a burst of snapshots has settled
+ */
+function notifyIndexChange(userId: string): void {
+  if (changeTimeout) clearTimeout(changeTimeout);
+  changeTimeout = setTimeout(() => {
+    changeTimeout = null;
+    changeListeners.forEach(listener => {
+      if (listener.userId === userId) listener.onChange();
+    });
+  }, SEARCH_CONFIG.indexChangeDelayMs);
+}
+
+/**
+ * Be called back whenever a user's indexed data changes, to re-run live searches
+ * Starts the index if needed; unsubscribing leaves it running for other users of it.
+ */
+export function subscribeToSearchIndex(userId: string, onChange: () => void): () => void {
+  startSearchIndexSync(userId);
+
+  const listener = { userId, onChange };
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Start indexing a user's data
+ * Loads the persisted index first, then subscribes to Firestore for changes.
+ * Calling it again for the same user reuses the running index.
+ */
+export function startSearchIndexSync(userId: string): () => void {
+  if (activeIndex?.userId !== userId) {
+    stopSearchIndexSync();
+
+    const state: SearchIndexState = {
+      userId,
+      documents: new Map(),
+      postings: new Map(),
+      sortedTokens: null,
+      isReady: false,
+      ready: Promise.resolve(),
+      releaseReady: () => {},
+      unsubscribes: []
+    };
+    activeIndex = state;
+
+    state.ready = new Promise<void>(resolve => {
+      const markReady = () => {
+        state.isReady = true;
+        resolve();
+      };
+      state.releaseReady = resolve;
+
+      // Listeners are attached after loading so stale stored data cannot overwrite fresh snapshots
+      loadStoredDocuments(userId).then(stored => {
+        // Stopped meanwhile, which already released the queries waiting for this index
+        if (activeIndex !== state) return;
+
+        stored.forEach(record => {
+          upsertDocument(state, record.type, deserializeItem(record.data) as IndexedItem, record.tokens);
+        });
+        if (stored.length > 0) markReady();
+
+        const types = Object.keys(INDEXED_COLLECTIONS) as IndexedType[];
+        const pending = new Set(types);
+        const settle = (type: IndexedType) => {
+          pending.delete(type);
+          if (pending.size === 0) markReady();
+        };
+
+        state.unsubscribes = types.map(type => {
+          let isFirstSnapshot = true;
+          const collectionQuery = query(
+            collection(getDb(), INDEXED_COLLECTIONS[type]),
+            where('userId', '==', userId)
+          );
+
+          return onSnapshot(collectionQuery, snapshot => {
+            applySnapshot(state, type, snapshot, isFirstSnapshot);
+            isFirstSnapshot = false;
+            settle(type);
+          }, error => {
+            console.error(`Search index listener error (${type}):`, error);
+            settle(type);
+          });
+        });
+      });
+    });
+  }
+
+  return () => {
+    if (activeIndex?.userId === userId) {
+      stopSearchIndexSync();
+    }
+  };
+}
+
+/**
+ * Stop listening and drop the in-memory index; queries still waiting for it finish with what was loaded
+ */
+export function stopSearchIndexSync(): void {
+  activeIndex?.unsubscribes.forEach(unsubscribe => unsubscribe());
+  activeIndex?.releaseReady();
+  activeIndex = null;
+}
+
+/**
+ * Find the index tokens starting with a prefix
+ */
+function getTokensWithPrefix(state: SearchIndexState, prefix: string): string[] {
+  if (!state.sortedTokens) {
+    state.sortedTokens = Array.from(state.postings.keys()).sort();
+  }
+  const tokens = state.sortedTokens;
+
+  // Binary search for the first token >= prefix
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < tokens.length && tokens[i].startsWith(prefix); i++) {
+    matches.push(tokens[i]);
+  }
+  return matches;
+}
+
+/**
+ * Find the index tokens matching a query word by prefix or within the typo limit
+ */
+function getMatchingTokens(state: SearchIndexState, term: string): string[] {
+  const matches = new Set(getTokensWithPrefix(state, term));
+
+  if (getAllowedTypos(term) > 0) {
+    state.postings.forEach((_, token) => {
+      if (!matches.has(token) && isFuzzyMatch(term, token)) {
+        matches.add(token);
+      }
+    });
+  }
+
+  return Array.from(matches);
+}
+
+/**
+ * Get the task a task attachment belongs to, if it is indexed
+ */
+function getAttachmentTask(state: SearchIndexState, file: SubjectFile | TaskFile): Task | null {
+  if (getFileSource(file) !== 'task') return null;
+  return (state.documents.get(`task/${(file as TaskFile).taskId}`)?.item as Task | undefined) || null;
+}
+
+/**
+ * Get the subject of a task or file; task attachments take their task's subject
+ */
+function getEntrySubjectId(state: SearchIndexState, entry: IndexedDocument): string | null {
+  if (entry.type === 'task') return (entry.item as Task).subjectId || null;
+  if (entry.type !== 'file') return null;
+
+  const file = entry.item as SubjectFile | TaskFile;
+  if (getFileSource(file) === 'task') return getAttachmentTask(state, file)?.subjectId || null;
+  return (file as SubjectFile).subjectId;
+}
+
+/**
+ * Find the documents containing every query term (as a word prefix or with a typo)
+ * Tasks and files also match through the name or code of their subject,
+ * and files through their text, returned with the chunk matching the most terms.
+ * Task attachments are returned with their task, and hidden once it is deleted.
+ * A query without words returns every document, for filter-only searches.
+ */
+export async function querySearchIndex(
+  userId: string,
+  searchQuery: string,
+  types: SearchResultType[]
+): Promise<SearchIndexQueryResult> {
+  startSearchIndexSync(userId);
+  const state = activeIndex!;
+  const cacheHit = state.isReady;
+  await state.ready;
+
+  const subjects = Array.from(state.documents.values())
+    .filter(entry => entry.type === 'subject' && (entry.item as Subject).isActive)
+    .map(entry => entry.item as Subject)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const activeSubjectIds = new Set(subjects.map(subject => subject.id));
+
+  const terms = Array.from(new Set(tokenizeSearchText(searchQuery)));
+  let matchingKeys = new Set<string>(terms.length === 0 ? state.documents.keys() : []);
+  // File key -> content chunk key -> number of terms the chunk matched
+  const contentHits = new Map<string, Map<string, number>>();
+
+  terms.forEach((term, termIndex) => {
+    const termKeys = new Set<string>();
+    getMatchingTokens(state, term).forEach(token => {
+      state.postings.get(token)!.forEach(key => termKeys.add(key));
+    });
+
+    // A chunk of text matches as its file
+    Array.from(termKeys)
+      .filter(key => key.startsWith('content/'))
+      .forEach(key => {
+        const fileKey = `file/${(state.documents.get(key)!.item as FileContentChunk).fileId}`;
+        termKeys.add(fileKey);
+        if (!contentHits.has(fileKey)) contentHits.set(fileKey, new Map());
+        const hits = contentHits.get(fileKey)!;
+        hits.set(key, (hits.get(key) || 0) + 1);
+      });
+
+    // Pull in the tasks and files of subjects matching this term
+    const matchedSubjectIds = new Set(
+      Array.from(termKeys)
+        .filter(key => key.startsWith('subject/'))
+        .map(key => key.substring('subject/'.length))
+    );
+    if (matchedSubjectIds.size > 0) {
+      state.documents.forEach((entry, key) => {
+        const subjectId = getEntrySubjectId(state, entry);
+        if (subjectId && matchedSubjectIds.has(subjectId)) {
+          termKeys.add(key);
+        }
+      });
+    }
+
+    const previousKeys = matchingKeys;
+    matchingKeys = termIndex === 0 ? termKeys : new Set(Array.from(termKeys).filter(key => previousKeys.has(key)));
+  });
+
+  const entries: SearchIndexEntry[] = [];
+  matchingKeys.forEach(key => {
+    // Chunks of a file that is no longer indexed point at a missing key
+    const document = state.documents.get(key);
+    if (!document) return;
+    const { type, item } = document;
+    if (type === 'content' || !types.includes(type)) return;
+
+    // Match the subject list: inactive subjects and their files are hidden
+    if (type === 'subject' && !activeSubjectIds.has(item.id)) return;
+
+    const entry: SearchIndexEntry = { type, item: item as SearchIndexEntry['item'] };
+    if (type === 'file') {
+      const file = item as SubjectFile | TaskFile;
+      if (getFileSource(file) === 'task') {
+        const task = getAttachmentTask(state, file);
+        if (!task) return;
+        entry.task = task;
+      } else if (!activeSubjectIds.has((file as SubjectFile).subjectId)) {
+        return;
+      }
+    }
+
+    const hits = contentHits.get(key);
+    if (hits) {
+      const best = Array.from(hits.entries())
+        .map(([chunkKey, count]) => ({ chunk: state.documents.get(chunkKey)!.item as FileContentChunk, count }))
+        .sort((a, b) => b.count - a.count || a.chunk.index - b.chunk.index)[0];
+      entry.content = best.chunk;
+    }
+    entries.push(entry);
+  });
+
+  return {
+    entries,
+    subjects,
+    totalIndexed: Array.from(state.documents.values()).filter(entry => entry.type !== 'content').length,
+    cacheHit
+  };
+}
@@ -0,0 +1,271 @@
+/**
+ * Search query language for MyStudyHub
+ * Parses operators such as type:, subject:, priority:, due: and is:,
+ * quoted phrases and negation into search filters
+ */
+
+import {
+  ParsedSearchQuery,
+  SearchFilters,
+  SearchResultType,
+  SearchOperator,
+  SEARCH_OPERATORS
+} from '@/types/search';
+import { TaskPriority, TaskStatus } from '@/types/task';
+import { Subject } from '@/types/subject';
+
+const ALL_TYPES: SearchResultType[] = ['task', 'subject', 'reminder', 'file'];
+const ALL_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+const ALL_STATUSES: TaskStatus[] = ['pending', 'overdue', 'completed'];
+
+// Accepted values of is:, as derived task statuses
+const IS_VALUES: Record<string, TaskStatus[]> = {
+  overdue: ['overdue'],
+  pending: ['pending', 'overdue'],
+  open: ['pending', 'overdue'],
+  completed: ['completed'],
+  done: ['completed']
+};
+
+// Operator or word: optional '-', optional 'key:', then a quoted or plain value
+const QUERY_TOKEN_PATTERN = /(-?)(?:([A-Za-z]+):)?(?:"([^"]*)"?|(\S+))/g;
+
+/**
+ * Keep the values two lists share, or the new list when there is none yet
+ */
+function intersect<T>(existing: T[] | undefined, next: T[]): T[] {
+  return existing ? existing.filter(value => next.includes(value)) : next;
+}
+
+/**
+ * Parse 'YYYY-MM-DD', 'today' or 'tomorrow' to local midnight
+ */
+function parseDay(value: string, now: Date): Date | null {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (value === 'today') return today;
+  if (value === 'tomorrow') return new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+/**
+ * Parse a due: value such as '<2026-11-01', '>=today' or 'week'
+ */
+function parseDueRange(value: string, now: Date): SearchFilters['dueRange'] | null {
+  if (value === 'week') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 8, 0, 0, 0, -1) };
+  }
+
+  const match = value.match(/^(<=|>=|<|>|=)?(.+)$/);
+  const day = match ? parseDay(match[2].toLowerCase(), now) : null;
+  if (!match || !day) return null;
+
+  const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1, 0, 0, 0, -1);
+
+  switch (match[1]) {
+    case '<':
+      return { end: new Date(day.getTime() - 1) };
+    case '<=':
+      return { end: dayEnd };
+    case '>':
+      return { start: new Date(dayEnd.getTime() + 1) };
+    case '>=':
+      return { start: day };
+    default:
+      return { start: day, end: dayEnd };
+  }
+}
+
+/**
+ * Parse a plural or singular result type name
+ */
+function parseType(value: string): SearchResultType | null {
+  const singular = value.toLowerCase().replace(/s$/, '');
+  return ALL_TYPES.includes(singular as SearchResultType) ? singular as SearchResultType : null;
+}
+
+/**
+ * Apply one operator to the parsed query
+ */
+function applyOperator(
+  parsed: ParsedSearchQuery,
+  operator: SearchOperator,
+  value: string,
+  isNegated: boolean,
+  now: Date
+): void {
+  const values = value.split(',').map(part => part.trim()).filter(Boolean);
+  const filters = parsed.filters;
+
+  if (values.length === 0) {
+    parsed.errors.push(`Add a value after ${operator}:`);
+    return;
+  }
+
+  switch (operator) {
+    case 'type': {
+      const types = values.map(parseType);
+      if (types.includes(null)) {
+        parsed.errors.push(`Unknown type "${value}". Use task, subject, reminder or file`);
+        return;
+      }
+      const selected = types as SearchResultType[];
+      filters.types = intersect(filters.types, isNegated ? ALL_TYPES.filter(type => !selected.includes(type)) : selected);
+      break;
+    }
+
+    case 'priority': {
+      const priorities = values.map(part => part.toLowerCase()) as TaskPriority[];
+      if (priorities.some(priority => !ALL_PRIORITIES.includes(priority))) {
+        parsed.errors.push(`Unknown priority "${value}". Use low, medium or high`);
+        return;
+      }
+      filters.priorities = intersect(
+        filters.priorities,
+        isNegated ? ALL_PRIORITIES.filter(priority => !priorities.includes(priority)) : priorities
+      );
+      break;
+    }
+
+    case 'is': {
+      if (values.some(part => !IS_VALUES[part.toLowerCase()])) {
+        parsed.errors.push(`Unknown status "${value}". Use overdue, pending or completed`);
+        return;
+      }
+      const selected = Array.from(new Set(values.flatMap(part => IS_VALUES[part.toLowerCase()])));
+      const statusFilter = isNegated ? ALL_STATUSES.filter(status => !selected.includes(status)) : selected;
+      filters.status = intersect(filters.status as TaskStatus[] | undefined, statusFilter);
+      break;
+    }
+
+    case 'due': {
+      if (isNegated) {
+        parsed.errors.push('due: cannot be negated; use < or > instead');
+        return;
+      }
+      const range = parseDueRange(value.toLowerCase(), now);
+      if (!range) {
+        parsed.errors.push(`Invalid date "${value}". Use YYYY-MM-DD, today, tomorrow or week`);
+        return;
+      }
+      filters.dueRange = {
+        start: [filters.dueRange?.start, range.start].filter((d): d is Date => !!d).sort((a, b) => b.getTime() - a.getTime())[0],
+        end: [filters.dueRange?.end, range.end].filter((d): d is Date => !!d).sort((a, b) => a.getTime() - b.getTime())[0]
+      };
+      break;
+    }
+
+    case 'subject':
+      if (isNegated) {
+        parsed.errors.push('subject: cannot be negated');
+        return;
+      }
+      parsed.subjectQueries.push(...values);
+      break;
+  }
+}
+
+/**
+ * Parse a search box query
+ * Unknown operators (e.g. "10:30") are kept as text
+ */
+export function parseSearchQuery(query: string, now: Date = new Date()): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    text: '',
+    phrases: [],
+    excluded: [],
+    filters: {},
+    subjectQueries: [],
+    errors: []
+  };
+  const words: string[] = [];
+
+  for (const match of query.matchAll(QUERY_TOKEN_PATTERN)) {
+    const [raw, negation, key, quoted, plain] = match;
+    const value = quoted !== undefined ? quoted : plain || '';
+    const operator = key?.toLowerCase() as SearchOperator | undefined;
+    const isNegated = negation === '-';
+
+    if (operator && SEARCH_OPERATORS.includes(operator)) {
+      applyOperator(parsed, operator, value, isNegated, now);
+    } else if (key) {
+      // Not an operator: keep the whole token as text
+      words.push(raw.replace(/^-/, ''));
+    } else if (isNegated && value.trim()) {
+      parsed.excluded.push(value.trim());
+    } else if (quoted !== undefined) {
+      if (value.trim()) parsed.phrases.push(value.trim());
+    } else if (value) {
+      words.push(value);
+    }
+  }
+
+  parsed.text = words.join(' ');
+  return parsed;
+}
+
+/**
+ * Check whether a query uses any operator, phrase or negation
+ */
+export function hasSearchSyntax(parsed: ParsedSearchQuery): boolean {
+  return parsed.phrases.length > 0 ||
+    parsed.excluded.length > 0 ||
+    parsed.subjectQueries.length > 0 ||
+    Object.keys(parsed.filters).length > 0;
+}
+
+/**
+ * Resolve subject: values to subject IDs
+ * A value matches a code or name exactly, or else the start of one
+ */
+export function resolveSubjectQueries(parsed: ParsedSearchQuery, subjects: Subject[]): string[] {
+  const subjectIds = new Set<string>();
+
+  parsed.subjectQueries.forEach(subjectQuery => {
+    const value = subjectQuery.toLowerCase();
+    const exact = subjects.filter(subject =>
+      subject.code?.toLowerCase() === value || subject.name.toLowerCase() === value
+    );
+    const matches = exact.length > 0
+      ? exact
+      : subjects.filter(subject =>
+        subject.code?.toLowerCase().startsWith(value) || subject.name.toLowerCase().startsWith(value)
+      );
+
+    if (matches.length === 0) {
+      parsed.errors.push(`No subject matches "${subjectQuery}"`);
+    }
+    matches.forEach(subject => subjectIds.add(subject.id));
+  });
+
+  return Array.from(subjectIds);
+}
+
+/**
+ * Describe the filters of a parsed query as short labels for display
+ */
+export function describeSearchQuery(parsed: ParsedSearchQuery): string[] {
+  const labels: string[] = [];
+  const { types, priorities, status, dueRange } = parsed.filters;
+  const formatDay = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  if (types) labels.push(`Type: ${types.join(', ') || 'none'}`);
+  parsed.subjectQueries.forEach(subject => labels.push(`Subject: ${subject}`));
+  if (priorities) labels.push(`Priority: ${priorities.join(', ') || 'none'}`);
+  if (status) labels.push(`Status: ${status.join(', ') || 'none'}`);
+  if (dueRange) {
+    if (dueRange.start && dueRange.end) labels.push(`Due ${formatDay(dueRange.start)} – ${formatDay(dueRange.end)}`);
+    else if (dueRange.end) labels.push(`Due by ${formatDay(dueRange.end)}`);
+    else if (dueRange.start) labels.push(`Due from ${formatDay(dueRange.start)}`);
+  }
+  parsed.phrases.forEach(phrase => labels.push(`"${phrase}"`));
+  parsed.excluded.forEach(word => labels.push(`Not: ${word}`));
+
+  return labels;
+}
@@ -31,13 +31,16 @@ import { getStorageInstance, getDb } from '@/lib/firebase';
 import {
   SubjectFile,
   FileType,
-  Subject
+  Subject,
+  CreateSubjectFormData
 } from '@/types/subject';
 import {
   generateSafeFilename,
   getStoragePath,
   createSubjectFileData
 } from '@/lib/fileUtils';
+import { cleanSchedule } from '@/lib/timetable';
+import { extractFileContent, saveFileContent, deleteFileContent } from '@/lib/fileContent';
 
 /**
  * Uploads a file to Firebase Storage and creates Firestore record
@@ -59,6 +62,9 @@ export async function uploadFile(
   // Create storage reference
   const storageRef = ref(storage, storagePath);
 
+  // Read the text for search while the file uploads
+  const contentPromise = extractFileContent(file);
+
   try {
     // Upload file with metadata
     const snapshot = await uploadBytes(storageRef, file, {
@@ -73,6 +79,7 @@ export async function uploadFile(
 
     // Get download URL
     const downloadURL = await getDownloadURL(snapshot.ref);
+    const content = await contentPromise;
 
     // Create file data
     const fileData = createSubjectFileData(
@@ -87,10 +94,13 @@ export async function uploadFile(
     const fileDoc = {
       ...fileData,
       id: fileId,
+      contentStatus: content.status,
+      contentChunkCount: content.chunks.length,
       uploadedAt: serverTimestamp()
     } as Omit<SubjectFile, 'uploadedAt'> & { uploadedAt: any };
 
     await setDoc(doc(db, 'subjectFiles', fileId), fileDoc);
+    await saveFileContent(fileId, userId, content.chunks);
 
     // Get the complete document with timestamp
     const fileDocSnapshot = await getDoc(doc(db, 'subjectFiles', fileId));
@@ -134,7 +144,8 @@ export async function deleteFile(fileId: string, subjectId: string): Promise<voi
     const storageRef = ref(storage, fileData.storagePath);
     await deleteObject(storageRef);
 
-    // Delete from Firestore
+    // Delete from Firestore, the extracted text first so it never outlives its file
+    await deleteFileContent(fileId, fileData.userId);
     await deleteDoc(doc(db, 'subjectFiles', fileId));
 
     // Update subject file count
@@ -340,8 +351,9 @@ export async function deleteAllSubjectFiles(subjectId: string): Promise<void> {
       } catch (error) {
 }
 
-      // Delete from Firestore
-      return deleteDoc(docSnapshot.ref);
+      // Delete from Firestore, the extracted text first so it never outlives its file
+      await deleteFileContent(docSnapshot.id, fileData.userId);
+      await deleteDoc(docSnapshot.ref);
     });
 
     await Promise.all(deletePromises);
@@ -394,4 +406,34 @@ export async function getUserSubjects(userId: string): Promise<Subject[]> {
   } catch (error) {
 return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create a subject for a user
+ * Files are uploaded separately once the subject exists
+ */
+export async function createSubject(userId: string, subjectData: CreateSubjectFormData): Promise<string> {
+  const db = getDb();
+
+  try {
+    const subjectRef = doc(collection(db, 'subjects'));
+    await setDoc(subjectRef, {
+      userId,
+      name: subjectData.name,
+      code: subjectData.code || '',
+      description: subjectData.description || '',
+      color: subjectData.color,
+      teacher: subjectData.teacher || '',
+      room: subjectData.room || '',
+      schedule: cleanSchedule(subjectData.schedule || []),
+      isActive: true,
+      fileCount: 0, // Updated as files are uploaded
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+
+    return subjectRef.id;
+  } catch (error) {
+throw new Error('Failed to create subject');
+  }
+}
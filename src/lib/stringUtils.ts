@@ -96,4 +96,47 @@ export function handleAutoCapitalize(
  */
 export function capitalizeText(text: string): string {
   return autoCapitalize(text);
-}
\ No newline at end of file
+}
+/**
+ * Calculates the edit distance between two strings
+ * Counts insertions, deletions, substitutions and swaps of adjacent characters
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @param maxDistance - Stop early once the distance exceeds this value
+ * @returns Number of edits, or maxDistance + 1 when the limit is exceeded
+ */
+export function getEditDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  // Rows for the two previous prefixes of a, needed to detect swaps
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, twoBack[j - 2] + 1);
+      }
+
+      current.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    twoBack = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+}
@@ -34,6 +34,7 @@ import {
   getStoragePath,
   getFileExtension
 } from '@/lib/fileUtils';
+import { extractFileContent, saveFileContent, deleteFileContent } from '@/lib/fileContent';
 
 const SUBJECT_FILES_COLLECTION = 'subjectFiles';
 
@@ -58,6 +59,9 @@ export async function uploadSubjectFile(
   // Create storage reference
   const storageRef = ref(storage, storagePath);
 
+  // Read the text for search while the file uploads
+  const contentPromise = extractFileContent(file);
+
   try {
     // Upload file with metadata
     const snapshot = await uploadBytes(storageRef, file, {
@@ -72,6 +76,7 @@ export async function uploadSubjectFile(
 
     // Get download URL
     const downloadURL = await getDownloadURL(snapshot.ref);
+    const content = await contentPromise;
 
     // Create file data using SubjectFile structure
     const fileData = {
@@ -85,11 +90,14 @@ export async function uploadSubjectFile(
       url: downloadURL,
       storagePath,
       isVerified: false,
+      contentStatus: content.status,
+      contentChunkCount: content.chunks.length,
       uploadedAt: serverTimestamp()
     } as Omit<SubjectFile, 'uploadedAt'> & { uploadedAt: any };
 
     // Save to Firestore
     await setDoc(doc(db, SUBJECT_FILES_COLLECTION, fileId), fileData);
+    await saveFileContent(fileId, userId, content.chunks);
 
     // Get the complete document with timestamp
     const fileDocSnapshot = await getDoc(doc(db, SUBJECT_FILES_COLLECTION, fileId));
@@ -200,7 +208,9 @@ export async function deleteSubjectFile(userId: string, fileId: string): Promise
       }
     }
 
-    // Delete from Firestore (this will succeed even if file doesn't exist)
+    // Delete from Firestore (this will succeed even if file doesn't exist),
+    // the extracted text first so it never outlives its file
+    await deleteFileContent(fileId, userId);
     const docRef = doc(db, SUBJECT_FILES_COLLECTION, fileId);
     await deleteDoc(docRef);
   } catch (error) {
@@ -0,0 +1,193 @@
+/**
+ * Assignment submissions for MyStudyHub
+ * Students hand in the task they received for an assignment with its attachments;
+ * the course's teacher grades the hand-in and the student is notified
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  query,
+  where,
+  onSnapshot,
+  writeBatch,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import { Course, Submission, SubmissionReviewData, COURSE_CONFIG } from '@/types/course';
+import { Task } from '@/types/task';
+import { User } from '@/types/user';
+
+const SUBMISSIONS_COLLECTION = 'submissions';
+const ASSIGNMENTS_COLLECTION = 'assignments';
+const TASKS_COLLECTION = 'tasks';
+const NOTIFICATIONS_COLLECTION = 'notifications';
+
+function toSubmission(id: string, data: Record<string, any>): Submission {
+  return {
+    id,
+    taskId: data.taskId,
+    assignmentId: data.assignmentId,
+    courseId: data.courseId,
+    teacherId: data.teacherId,
+    userId: data.userId,
+    studentName: data.studentName || '',
+    files: data.files || [],
+    submittedAt: data.submittedAt || Timestamp.now(),
+    isLate: data.isLate === true,
+    status: data.status || 'submitted',
+    grade: data.grade || undefined,
+    feedback: data.feedback || undefined,
+    reviewedAt: data.reviewedAt || undefined
+  };
+}
+
+/**
+ * Hand in a task received from a course assignment
+ * Its attachments are recorded as they are now and stay locked until it is taken back
+ */
+export async function submitAssignment(student: User, task: Task): Promise<void> {
+  if (!task.assignmentId || !task.courseId || !task.teacherId) {
+    throw new Error('Only tasks from a course assignment can be handed in');
+  }
+  if (task.submittedAt) {
+    throw new Error('This assignment is already handed in');
+  }
+
+  const db = getDb();
+  const assignmentSnapshot = await getDoc(doc(db, ASSIGNMENTS_COLLECTION, task.assignmentId));
+  if (!assignmentSnapshot.exists()) {
+    throw new Error('Your teacher has withdrawn this assignment');
+  }
+  const dueDate = assignmentSnapshot.data().dueDate as Timestamp;
+
+  try {
+    const batch = writeBatch(db);
+    batch.set(doc(db, SUBMISSIONS_COLLECTION, task.id), {
+      taskId: task.id,
+      assignmentId: task.assignmentId,
+      courseId: task.courseId,
+      teacherId: task.teacherId,
+      userId: student.userId,
+      studentName: student.displayName,
+      files: task.attachedFiles || [],
+      submittedAt: serverTimestamp(),
+      isLate: Date.now() > dueDate.toMillis(),
+      status: 'submitted'
+    });
+    batch.update(doc(db, TASKS_COLLECTION, task.id), {
+      submittedAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    await batch.commit();
+  } catch (error) {
+    throw new Error('Failed to hand in assignment');
+  }
+}
+
+/**
+ * Take back a hand-in so its attachments can be changed
+ * Only possible until the teacher has reviewed it
+ */
+export async function unsubmitAssignment(submission: Submission): Promise<void> {
+  if (submission.status === 'reviewed') {
+    throw new Error('Your teacher has already reviewed this assignment');
+  }
+
+  try {
+    const db = getDb();
+    const batch = writeBatch(db);
+    batch.delete(doc(db, SUBMISSIONS_COLLECTION, submission.id));
+    batch.update(doc(db, TASKS_COLLECTION, submission.taskId), {
+      submittedAt: null,
+      updatedAt: serverTimestamp()
+    });
+    await batch.commit();
+  } catch (error) {
+    throw new Error('Failed to take back assignment');
+  }
+}
+
+/**
+ * Grade a hand-in and let the student know
+ */
+export async function reviewSubmission(
+  submission: Submission,
+  assignmentTitle: string,
+  data: SubmissionReviewData
+): Promise<void> {
+  const grade = data.grade.trim();
+  const feedback = data.feedback.trim();
+
+  if (!grade) {
+    throw new Error('Grade is required');
+  }
+  if (grade.length > COURSE_CONFIG.maxGradeLength) {
+    throw new Error(`Grade must be at most ${COURSE_CONFIG.maxGradeLength} characters`);
+  }
+  if (feedback.length > COURSE_CONFIG.maxFeedbackLength) {
+    throw new Error(`Feedback must be at most ${COURSE_CONFIG.maxFeedbackLength} characters`);
+  }
+
+  try {
+    const db = getDb();
+    const batch = writeBatch(db);
+    batch.update(doc(db, SUBMISSIONS_COLLECTION, submission.id), {
+      status: 'reviewed',
+      grade,
+      feedback,
+      reviewedAt: serverTimestamp()
+    });
+    batch.set(doc(collection(db, NOTIFICATIONS_COLLECTION)), {
+      userId: submission.userId,
+      type: 'assignment_reviewed',
+      title: `${assignmentTitle} was reviewed`,
+      message: feedback ? `Grade: ${grade}. ${feedback}` : `Grade: ${grade}`,
+      priority: 'medium',
+      sourceEntity: { type: 'task', id: submission.taskId },
+      metadata: { submissionId: submission.id, grade },
+      timestamp: Timestamp.now(),
+      isRead: false,
+      isDismissed: false
+    });
+    await batch.commit();
+  } catch (error) {
+    throw new Error('Failed to save review');
+  }
+}
+
+/**
+ * Real-time listener for the hand-in of one of the student's tasks
+ */
+export function listenToTaskSubmission(
+  taskId: string,
+  callback: (submission: Submission | null) => void
+): () => void {
+  return onSnapshot(doc(getDb(), SUBMISSIONS_COLLECTION, taskId), (docSnapshot) => {
+    callback(docSnapshot.exists() ? toSubmission(docSnapshot.id, docSnapshot.data()) : null);
+  }, (error) => {
+    console.error('Error in submission listener:', error);
+  });
+}
+
+/**
+ * Real-time listener for every hand-in to a course, for its teacher
+ */
+export function listenToCourseSubmissions(
+  course: Pick<Course, 'id' | 'teacherId'>,
+  callback: (submissions: Submission[]) => void
+): () => void {
+  const q = query(
+    collection(getDb(), SUBMISSIONS_COLLECTION),
+    where('courseId', '==', course.id),
+    where('teacherId', '==', course.teacherId)
+  );
+
+  return onSnapshot(q, (querySnapshot) => {
+    callback(querySnapshot.docs.map(docSnapshot => toSubmission(docSnapshot.id, docSnapshot.data())));
+  }, (error) => {
+    console.error('Error in course submissions listener:', error);
+  });
+}
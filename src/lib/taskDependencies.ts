@@ -0,0 +1,84 @@
+/**
+ * Task dependency utilities for MyStudyHub
+ * Resolves blockers and detects cycles in the dependsOn graph
+ */
+
+import { Task, TaskDerivedStatus } from '@/types/task';
+
+/**
+ * Get the unfinished tasks that a task depends on
+ * Dependencies that no longer exist are ignored
+ */
+export function getBlockingTasks(task: Pick<Task, 'dependsOn'>, tasks: Task[]): Task[] {
+  if (!task.dependsOn || task.dependsOn.length === 0) {
+    return [];
+  }
+
+  return tasks.filter(t => task.dependsOn!.includes(t.id) && t.status !== 'completed');
+}
+
+/**
+ * Check if a task cannot start yet because of unfinished dependencies
+ */
+export function isTaskBlocked(task: Task, tasks: Task[]): boolean {
+  return task.status !== 'completed' && getBlockingTasks(task, tasks).length > 0;
+}
+
+/**
+ * Get the status to display for a task, including the derived blocked state
+ * Overdue takes precedence so missed deadlines stay visible
+ */
+export function getDerivedTaskStatus(task: Task, tasks: Task[]): TaskDerivedStatus {
+  if (task.status === 'completed') return 'completed';
+  if (task.status === 'overdue' || task.dueDate.toDate() < new Date()) return 'overdue';
+  if (isTaskBlocked(task, tasks)) return 'blocked';
+  return 'pending';
+}
+
+/**
+ * Find a dependency cycle that would be created by giving a task these dependencies
+ * Returns the task IDs forming the cycle (starting and ending with taskId), or null
+ */
+export function findDependencyCycle(taskId: string, dependsOn: string[], tasks: Task[]): string[] | null {
+  const graph = new Map<string, string[]>();
+  tasks.forEach(task => graph.set(task.id, task.dependsOn || []));
+  graph.set(taskId, dependsOn);
+
+  const visited = new Set<string>();
+
+  // Depth-first search from the task's dependencies back to the task itself
+  const visit = (currentId: string, path: string[]): string[] | null => {
+    if (currentId === taskId) {
+      return [...path, currentId];
+    }
+    if (visited.has(currentId)) {
+      return null;
+    }
+    visited.add(currentId);
+
+    for (const nextId of graph.get(currentId) || []) {
+      const cycle = visit(nextId, [...path, currentId]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const dependencyId of dependsOn) {
+    const cycle = visit(dependencyId, [taskId]);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+/**
+ * Describe a dependency cycle using task titles, e.g. "A → B → A"
+ */
+export function formatDependencyCycle(cycle: string[], tasks: Task[], currentTitle: string = 'This task'): string {
+  return cycle
+    .map((id, index) => {
+      if (index === 0 || index === cycle.length - 1) return currentTitle;
+      return tasks.find(t => t.id === id)?.title || 'Unknown task';
+    })
+    .join(' → ');
+}
@@ -40,8 +40,10 @@ import {
   createTaskFileData,
   getFileExtension
 } from '@/lib/fileUtils';
+import { extractFileContent, saveFileContent, deleteFileContent } from '@/lib/fileContent';
 
-const TASK_FILES_COLLECTION = 'taskFiles';
+// Task files share the subject files collection and are told apart by taskId
+const TASK_FILES_COLLECTION = 'subjectFiles';
 const TASK_FILES_STORAGE_PATH = 'taskFiles';
 
 /**
@@ -65,6 +67,9 @@ export async function uploadTaskFile(
   // Create storage reference
   const storageRef = ref(storage, storagePath);
 
+  // Read the text for search while the file uploads
+  const contentPromise = extractFileContent(file);
+
   try {
     // Upload file with metadata
     const snapshot = await uploadBytes(storageRef, file, {
@@ -79,6 +84,7 @@ export async function uploadTaskFile(
 
     // Get download URL
     const downloadURL = await getDownloadURL(snapshot.ref);
+    const content = await contentPromise;
 
     // Create file data using SubjectFile structure but with taskId
     const fileData = {
@@ -91,14 +97,17 @@ export async function uploadTaskFile(
       size: file.size,
       url: downloadURL,
       storagePath,
+      contentStatus: content.status,
+      contentChunkCount: content.chunks.length,
       uploadedAt: serverTimestamp()
     } as Omit<TaskFile, 'uploadedAt'> & { uploadedAt: any };
 
     // Save to Firestore in the same collection as subject files
-    await setDoc(doc(db, 'subjectFiles', fileId), fileData);
+    await setDoc(doc(db, TASK_FILES_COLLECTION, fileId), fileData);
+    await saveFileContent(fileId, userId, content.chunks);
 
     // Get the complete document with timestamp
-    const fileDocSnapshot = await getDoc(doc(db, 'subjectFiles', fileId));
+    const fileDocSnapshot = await getDoc(doc(db, TASK_FILES_COLLECTION, fileId));
 
     if (!fileDocSnapshot.exists()) {
       throw new Error('Failed to save file metadata');
@@ -124,7 +133,7 @@ export async function getTaskFiles(taskId: string, userId: string): Promise<Task
 
   try {
     const q = query(
-      collection(db, 'subjectFiles'), // Use same collection as subject files
+      collection(db, TASK_FILES_COLLECTION),
       where('taskId', '==', taskId),
       where('userId', '==', userId),
       orderBy('uploadedAt', 'desc')
@@ -177,15 +186,25 @@ export async function deleteTaskFile(userId: string, fileId: string): Promise<vo
   try {
     // First try to get the file metadata to get storage path
     let storagePath: string | null = null;
+    let taskId: string | null = null;
 
     try {
       const file = await getTaskFileById(userId, fileId);
       storagePath = file.storagePath;
+      taskId = file.taskId;
     } catch (getFileError) {
       // File might not exist in Firestore, but we should still try to clean up
       console.warn('File not found in Firestore, proceeding with cleanup:', fileId);
     }
 
+    // Files of a handed-in assignment stay as the teacher received them
+    if (taskId) {
+      const taskDoc = await getDoc(doc(db, 'tasks', taskId));
+      if (taskDoc.exists() && (taskDoc.data() as Task).submittedAt) {
+        throw new Error('Take back the handed-in assignment to change its attachments');
+      }
+    }
+
     // Delete from Storage if we have a storage path
     if (storagePath) {
       try {
@@ -197,7 +216,9 @@ export async function deleteTaskFile(userId: string, fileId: string): Promise<vo
       }
     }
 
-    // Delete from Firestore (this will succeed even if file doesn't exist)
+    // Delete from Firestore (this will succeed even if file doesn't exist),
+    // the extracted text first so it never outlives its file
+    await deleteFileContent(fileId, userId);
     const docRef = doc(db, TASK_FILES_COLLECTION, fileId);
     await deleteDoc(docRef);
   } catch (error) {
@@ -305,6 +326,9 @@ export async function updateTaskAttachedFiles(
     if (task.userId !== userId) {
       throw new Error('Access denied');
     }
+    if (task.submittedAt) {
+      throw new Error('Take back the handed-in assignment to change its attachments');
+    }
 
     
     // Update task with attached files
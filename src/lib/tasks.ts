@@ -6,7 +6,7 @@
 import {
   collection,
   doc,
-  addDoc,
+  setDoc,
   updateDoc,
   deleteDoc,
   getDoc,
@@ -16,14 +16,53 @@ import {
   orderBy,
   limit,
   Timestamp,
-  serverTimestamp
+  serverTimestamp,
+  writeBatch,
+  arrayRemove
 } from 'firebase/firestore';
 import { getDb } from './firebase';
-import { Task, TaskFormData, TaskStatus, TaskFilter, TaskWithSubject, TaskStats } from '@/types/task';
+import {
+  Task,
+  TaskFormData,
+  TaskStatus,
+  TaskFilter,
+  TaskWithSubject,
+  TaskStats,
+  TaskChecklistItem,
+  TaskChecklistItemFormData
+} from '@/types/task';
 import { getUserSubjects } from './storage';
+import { createRecurrenceRule, getNextOccurrence } from './recurrence';
+import { findDependencyCycle, isTaskBlocked } from './taskDependencies';
 
 const TASKS_COLLECTION = 'tasks';
 
+/**
+ * Generate an ID for a checklist item
+ */
+export function generateChecklistItemId(): string {
+  return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Convert checklist form data into stored checklist items
+ * Completion timestamps of items that were already done are preserved
+ */
+function toChecklistItems(items: TaskChecklistItemFormData[], existing: TaskChecklistItem[] = []): TaskChecklistItem[] {
+  return items
+    .filter(item => item.title.trim())
+    .map(item => {
+      const previous = existing.find(e => e.id === item.id);
+      return {
+        id: item.id || generateChecklistItemId(),
+        title: item.title.trim(),
+        isCompleted: item.isCompleted,
+        dueDate: item.dueDate ? Timestamp.fromDate(new Date(`${item.dueDate}T23:59:00`)) : null,
+        completedAt: item.isCompleted ? previous?.completedAt || Timestamp.now() : null
+      };
+    });
+}
+
 /**
  * Create a new task
  */
@@ -31,20 +70,34 @@ export async function createTask(userId: string, taskData: TaskFormData): Promis
   const db = getDb();
 
   try {
+    const docRef = doc(collection(db, TASKS_COLLECTION));
+    const dueDate = new Date(taskData.dueDate);
+
     const taskDoc = {
       userId,
       title: taskData.title.trim(),
       description: taskData.description?.trim() || '',
-      dueDate: Timestamp.fromDate(new Date(taskData.dueDate)),
+      dueDate: Timestamp.fromDate(dueDate),
       priority: taskData.priority,
       status: 'pending' as TaskStatus,
       subjectId: taskData.subjectId || null,
       attachedFiles: [],
+      checklist: toChecklistItems(taskData.checklist || []),
+      dependsOn: taskData.dependsOn || [],
+      ...(taskData.icsUid && { icsUid: taskData.icsUid }),
+      // The first occurrence of a recurring task doubles as the series ID
+      ...(taskData.recurrence && {
+        recurrence: createRecurrenceRule(taskData.recurrence, dueDate),
+        seriesId: docRef.id,
+        occurrenceIndex: 1,
+        occurrenceDate: Timestamp.fromDate(dueDate),
+        nextOccurrenceId: null
+      }),
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
     };
 
-    const docRef = await addDoc(collection(db, TASKS_COLLECTION), taskDoc);
+    await setDoc(docRef, taskDoc);
     const newDoc = await getDoc(docRef);
 
     if (!newDoc.exists()) {
@@ -260,6 +313,26 @@ export async function updateTask(userId: string, taskId: string, taskData: Parti
     if (taskData.subjectId !== undefined) {
       updateData.subjectId = taskData.subjectId || null;
     }
+    if (taskData.checklist !== undefined) {
+      updateData.checklist = toChecklistItems(taskData.checklist, existingTask.checklist);
+    }
+    if (taskData.dependsOn !== undefined) {
+      await assertNoDependencyCycle(userId, taskId, taskData.dependsOn);
+      updateData.dependsOn = taskData.dependsOn.filter(id => id !== taskId);
+    }
+    if (taskData.recurrence !== undefined) {
+      if (taskData.recurrence) {
+        // Turning a one-off task into a series anchors the series at this task
+        const dueDate = updateData.dueDate ? updateData.dueDate.toDate() : existingTask.dueDate.toDate();
+        updateData.recurrence = createRecurrenceRule(taskData.recurrence, dueDate);
+        updateData.seriesId = existingTask.seriesId || taskId;
+        updateData.occurrenceIndex = existingTask.occurrenceIndex || 1;
+        updateData.occurrenceDate = Timestamp.fromDate(dueDate);
+      } else {
+        updateData.recurrence = null;
+        updateData.seriesId = null;
+      }
+    }
 
     await updateDoc(docRef, updateData);
 
@@ -274,6 +347,153 @@ throw error instanceof Error ? error : new Error('Failed to update task');
   }
 }
 
+/**
+ * Update every occurrence of a recurring task's series
+ * Pending occurrences are shifted by the same amount as the edited one;
+ * completed occurrences keep their original due dates
+ */
+export async function updateTaskSeries(userId: string, taskId: string, taskData: Partial<TaskFormData>): Promise<Task> {
+  const db = getDb();
+
+  try {
+    const existingTask = await getTaskById(userId, taskId);
+
+    if (!existingTask.seriesId) {
+      return await updateTask(userId, taskId, taskData);
+    }
+
+    if (taskData.dependsOn !== undefined) {
+      await assertNoDependencyCycle(userId, taskId, taskData.dependsOn);
+    }
+
+    const q = query(
+      collection(db, TASKS_COLLECTION),
+      where('userId', '==', userId),
+      where('seriesId', '==', existingTask.seriesId)
+    );
+    const querySnapshot = await getDocs(q);
+
+    const oldDueDate = existingTask.dueDate.toDate();
+    const newDueDate = taskData.dueDate !== undefined ? new Date(taskData.dueDate) : oldDueDate;
+    const shift = newDueDate.getTime() - oldDueDate.getTime();
+
+    // Keep the series anchor in step with the edited occurrence
+    const oldStart = existingTask.recurrence ? new Date(existingTask.recurrence.dtstart) : oldDueDate;
+    const recurrence = taskData.recurrence
+      ? createRecurrenceRule(taskData.recurrence, new Date(oldStart.getTime() + shift))
+      : taskData.recurrence === null ? null : undefined;
+
+    const batch = writeBatch(db);
+
+    querySnapshot.docs.forEach(taskDoc => {
+      const task = taskDoc.data() as Task;
+      const updateData: any = {
+        updatedAt: serverTimestamp()
+      };
+
+      if (taskData.title !== undefined) {
+        updateData.title = taskData.title.trim();
+      }
+      if (taskData.description !== undefined) {
+        updateData.description = taskData.description?.trim() || '';
+      }
+      if (taskData.priority !== undefined) {
+        updateData.priority = taskData.priority;
+      }
+      if (taskData.subjectId !== undefined) {
+        updateData.subjectId = taskData.subjectId || null;
+      }
+      // Checklist progress and dependencies belong to a single occurrence
+      if (taskData.checklist !== undefined && taskDoc.id === taskId) {
+        updateData.checklist = toChecklistItems(taskData.checklist, task.checklist);
+      }
+      if (taskData.dependsOn !== undefined && taskDoc.id === taskId) {
+        updateData.dependsOn = taskData.dependsOn.filter(id => id !== taskId);
+      }
+      if (recurrence !== undefined) {
+        updateData.recurrence = recurrence;
+        if (recurrence === null) {
+          updateData.seriesId = null;
+        }
+      }
+      if (shift !== 0 && task.status !== 'completed') {
+        updateData.dueDate = Timestamp.fromMillis(task.dueDate.toMillis() + shift);
+        updateData.occurrenceDate = Timestamp.fromMillis((task.occurrenceDate || task.dueDate).toMillis() + shift);
+        updateData.status = 'pending';
+      }
+
+      batch.update(taskDoc.ref, updateData);
+    });
+
+    await batch.commit();
+
+    return await getTaskById(userId, taskId);
+  } catch (error) {
+throw error instanceof Error ? error : new Error('Failed to update task series');
+  }
+}
+
+/**
+ * Throw if giving a task these dependencies would create a cycle
+ */
+async function assertNoDependencyCycle(userId: string, taskId: string, dependsOn: string[]): Promise<void> {
+  if (dependsOn.length === 0) {
+    return;
+  }
+
+  const tasks = await getUserTasks(userId);
+  if (findDependencyCycle(taskId, dependsOn, tasks)) {
+    throw new Error('Dependency cycle detected');
+  }
+}
+
+/**
+ * Create the occurrence that follows a completed recurring task
+ * Returns the new task ID, or null when the series has ended
+ */
+async function createNextOccurrence(task: Task): Promise<string | null> {
+  const db = getDb();
+
+  if (!task.recurrence) {
+    return null;
+  }
+
+  const scheduledDate = (task.occurrenceDate || task.dueDate).toDate();
+  const next = getNextOccurrence(task.recurrence, scheduledDate, task.occurrenceIndex || 1);
+  if (!next) {
+    return null;
+  }
+
+  const docRef = doc(collection(db, TASKS_COLLECTION));
+  await setDoc(docRef, {
+    userId: task.userId,
+    title: task.title,
+    description: task.description || '',
+    dueDate: Timestamp.fromDate(next.date),
+    priority: task.priority,
+    status: 'pending' as TaskStatus,
+    subjectId: task.subjectId || null,
+    attachedFiles: [],
+    // Each occurrence starts with a fresh copy of the checklist
+    checklist: (task.checklist || []).map(item => ({
+      ...item,
+      isCompleted: false,
+      completedAt: null
+    })),
+    recurrence: task.recurrence,
+    seriesId: task.seriesId || task.id,
+    occurrenceIndex: next.index,
+    occurrenceDate: Timestamp.fromDate(next.date),
+    nextOccurrenceId: null,
+    // Re-importing the calendar finds the pending occurrence by its UID
+    ...(task.icsUid && { icsUid: task.icsUid }),
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  return docRef.id;
+}
+
 /**
  * Update task status
  */
@@ -331,10 +551,20 @@ export async function toggleTaskCompletion(userId: string, taskId: string): Prom
     }
 
     const newStatus = existingTask.status === 'completed' ? 'pending' : 'completed';
-    await updateDoc(docRef, {
+    const updateData: any = {
       status: newStatus,
       updatedAt: serverTimestamp()
-    });
+    };
+
+    // Completing an occurrence of a series schedules the next one (only once)
+    if (newStatus === 'completed' && existingTask.recurrence && !existingTask.nextOccurrenceId) {
+      const nextOccurrenceId = await createNextOccurrence({ ...existingTask, id: taskId });
+      if (nextOccurrenceId) {
+        updateData.nextOccurrenceId = nextOccurrenceId;
+      }
+    }
+
+    await updateDoc(docRef, updateData);
 
     // Return updated document
     const updatedDoc = await getDoc(docRef);
@@ -347,6 +577,52 @@ throw error instanceof Error ? error : new Error('Failed to update task');
   }
 }
 
+/**
+ * Toggle completion of a single checklist item
+ */
+export async function toggleChecklistItem(userId: string, taskId: string, itemId: string): Promise<Task> {
+  const db = getDb();
+
+  try {
+    const docRef = doc(db, TASKS_COLLECTION, taskId);
+
+    // First verify ownership
+    const existingDoc = await getDoc(docRef);
+    if (!existingDoc.exists()) {
+      throw new Error('Task not found');
+    }
+
+    const existingTask = existingDoc.data() as Task;
+    if (existingTask.userId !== userId) {
+      throw new Error('Access denied');
+    }
+
+    const checklist = (existingTask.checklist || []).map(item =>
+      item.id === itemId
+        ? {
+            ...item,
+            isCompleted: !item.isCompleted,
+            completedAt: item.isCompleted ? null : Timestamp.now()
+          }
+        : item
+    );
+
+    await updateDoc(docRef, {
+      checklist,
+      updatedAt: serverTimestamp()
+    });
+
+    // Return updated document
+    const updatedDoc = await getDoc(docRef);
+    return {
+      id: updatedDoc.id,
+      ...updatedDoc.data()
+    } as Task;
+  } catch (error) {
+throw error instanceof Error ? error : new Error('Failed to update checklist item');
+  }
+}
+
 /**
  * Delete a task
  */
@@ -368,6 +644,25 @@ export async function deleteTask(userId: string, taskId: string): Promise<void>
     }
 
     await deleteDoc(docRef);
+
+    // Drop the deleted task from other tasks' dependencies so they are no longer blocked by it
+    const dependentsQuery = query(
+      collection(db, TASKS_COLLECTION),
+      where('userId', '==', userId),
+      where('dependsOn', 'array-contains', taskId)
+    );
+    const dependentsSnapshot = await getDocs(dependentsQuery);
+
+    if (!dependentsSnapshot.empty) {
+      const batch = writeBatch(db);
+      dependentsSnapshot.docs.forEach(dependentDoc => {
+        batch.update(dependentDoc.ref, {
+          dependsOn: arrayRemove(taskId),
+          updatedAt: serverTimestamp()
+        });
+      });
+      await batch.commit();
+    }
   } catch (error) {
 throw error instanceof Error ? error : new Error('Failed to delete task');
   }
@@ -414,17 +709,32 @@ export async function getTaskStats(userId: string): Promise<TaskStats> {
         acc.pending++;
       }
 
+      // Blocked tasks are also counted as pending or overdue
+      if (isTaskBlocked(task, tasks)) {
+        acc.blocked++;
+      }
+
       if (dueDate <= weekFromNow && task.status !== 'completed') {
         acc.dueThisWeek++;
       }
 
+      // Checklist items of completed tasks count as done
+      const items = task.checklist || [];
+      acc.checklistItemsTotal += items.length;
+      acc.checklistItemsCompleted += task.status === 'completed'
+        ? items.length
+        : items.filter(item => item.isCompleted).length;
+
       return acc;
     }, {
       total: 0,
       pending: 0,
       completed: 0,
       overdue: 0,
-      dueThisWeek: 0
+      blocked: 0,
+      dueThisWeek: 0,
+      checklistItemsTotal: 0,
+      checklistItemsCompleted: 0
     });
 
     return stats;
@@ -462,6 +772,10 @@ export async function getTasksByFilter(userId: string, filter: TaskFilter): Prom
         return await getTasksByStatus(userId, 'completed');
       case 'overdue':
         return await getTasksByStatus(userId, 'overdue');
+      case 'blocked': {
+        const tasks = await getUserTasks(userId);
+        return tasks.filter(task => isTaskBlocked(task, tasks));
+      }
       default:
         return await getUserTasks(userId);
     }
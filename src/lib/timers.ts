@@ -77,6 +77,40 @@ export async function createTimerSession(
   }
 }
 
+/**
+ * Store a finished session from a backup, keeping its original times
+ */
+export async function importTimerSession(
+  userId: string,
+  sessionData: Pick<TimerSession, 'type' | 'duration' | 'actualDuration' | 'startTime' | 'status' | 'sessionNumber' | 'completedSessions'> & {
+    taskId?: string | null;
+    endTime?: Timestamp | null;
+  }
+): Promise<string> {
+  const db = getDb();
+
+  try {
+    const docRef = await addDoc(collection(db, TIMER_SESSIONS_COLLECTION), {
+      userId,
+      type: sessionData.type,
+      duration: sessionData.duration,
+      actualDuration: sessionData.actualDuration,
+      taskId: sessionData.taskId || null,
+      startTime: sessionData.startTime,
+      endTime: sessionData.endTime || null,
+      status: sessionData.status,
+      sessionNumber: sessionData.sessionNumber,
+      completedSessions: sessionData.completedSessions,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    return docRef.id;
+  } catch (error) {
+    throw error instanceof Error ? error : new Error('Failed to import timer session');
+  }
+}
+
 /**
  * Update an existing timer session
  */
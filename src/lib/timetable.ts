@@ -0,0 +1,195 @@
+/**
+ * Timetable utilities for MyStudyHub
+ * Validates subject schedules, detects clashes and lays out the weekly timetable
+ */
+
+import {
+  Subject,
+  SubjectSchedule,
+  TimetableEntry,
+  ScheduleClash,
+  DAYS_OF_WEEK
+} from '@/types/subject';
+
+/**
+ * Convert a 'HH:mm' time to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Check if two classes overlap (touching end/start times do not clash)
+ */
+export function schedulesOverlap(a: SubjectSchedule, b: SubjectSchedule): boolean {
+  if (a.dayOfWeek !== b.dayOfWeek) return false;
+
+  return timeToMinutes(a.startTime) < timeToMinutes(b.endTime) &&
+    timeToMinutes(b.startTime) < timeToMinutes(a.endTime);
+}
+
+/**
+ * Sort classes by weekday and start time
+ */
+export function sortSchedule<T extends SubjectSchedule>(schedule: T[]): T[] {
+  const dayIndex = (day: string) => DAYS_OF_WEEK.indexOf(day as typeof DAYS_OF_WEEK[number]);
+
+  return [...schedule].sort((a, b) =>
+    dayIndex(a.dayOfWeek) - dayIndex(b.dayOfWeek) ||
+    timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+  );
+}
+
+/**
+ * Validate schedule entries on their own
+ * Returns an error message per entry index
+ */
+export function validateSchedule(schedule: SubjectSchedule[]): Record<number, string> {
+  const errors: Record<number, string> = {};
+
+  schedule.forEach((entry, index) => {
+    if (!entry.dayOfWeek || !entry.startTime || !entry.endTime) {
+      errors[index] = 'Day, start and end time are required';
+    } else if (timeToMinutes(entry.endTime) <= timeToMinutes(entry.startTime)) {
+      errors[index] = 'End time must be after start time';
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Find clashes between a subject's schedule and itself or other subjects
+ * Pass the subject's own ID to skip its saved schedule when editing
+ */
+export function findScheduleClashes(
+  schedule: SubjectSchedule[],
+  subjects: Subject[],
+  excludeSubjectId?: string
+): ScheduleClash[] {
+  const clashes: ScheduleClash[] = [];
+
+  schedule.forEach((entry, index) => {
+    // Classes of the same subject
+    schedule.slice(index + 1).forEach(other => {
+      if (schedulesOverlap(entry, other)) {
+        clashes.push({ entry, other });
+      }
+    });
+
+    // Classes of other active subjects
+    subjects
+      .filter(subject => subject.id !== excludeSubjectId && subject.isActive)
+      .forEach(subject => {
+        (subject.schedule || []).forEach(other => {
+          if (schedulesOverlap(entry, other)) {
+            clashes.push({ entry, other, otherSubject: subject });
+          }
+        });
+      });
+  });
+
+  return clashes;
+}
+
+/**
+ * Describe a clash, e.g. "Monday 09:00–10:30 overlaps Physics (09:30–11:00)"
+ */
+export function formatScheduleClash(clash: ScheduleClash, subjectName: string = 'this subject'): string {
+  const { entry, other, otherSubject } = clash;
+  return `${entry.dayOfWeek} ${entry.startTime}–${entry.endTime} overlaps ` +
+    `${otherSubject ? otherSubject.name : `another ${subjectName} class`} (${other.startTime}–${other.endTime})`;
+}
+
+/**
+ * Remove empty optional fields so entries can be stored in Firestore
+ */
+export function cleanSchedule(schedule: SubjectSchedule[]): SubjectSchedule[] {
+  return sortSchedule(schedule).map(entry => ({
+    dayOfWeek: entry.dayOfWeek,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+    ...(entry.room?.trim() ? { room: entry.room.trim() } : {}),
+    ...(entry.type ? { type: entry.type } : {}),
+    ...(entry.icsUid ? { icsUid: entry.icsUid } : {})
+  }));
+}
+
+/**
+ * Collect the classes of all active subjects, grouped by weekday
+ */
+export function getTimetableEntries(subjects: Subject[]): Record<string, TimetableEntry[]> {
+  const entriesByDay: Record<string, TimetableEntry[]> = {};
+  DAYS_OF_WEEK.forEach(day => {
+    entriesByDay[day] = [];
+  });
+
+  subjects
+    .filter(subject => subject.isActive)
+    .forEach(subject => {
+      (subject.schedule || []).forEach(entry => {
+        entriesByDay[entry.dayOfWeek]?.push({ ...entry, subject });
+      });
+    });
+
+  Object.keys(entriesByDay).forEach(day => {
+    entriesByDay[day] = sortSchedule(entriesByDay[day]);
+  });
+
+  return entriesByDay;
+}
+
+/**
+ * Check whether a timetable entry overlaps another entry on the same day
+ */
+export function hasTimetableClash(entry: TimetableEntry, dayEntries: TimetableEntry[]): boolean {
+  return dayEntries.some(other => other !== entry && schedulesOverlap(entry, other));
+}
+
+/**
+ * Assign overlapping classes of one day to side-by-side lanes
+ * Classes in the same overlap group share the group's lane count
+ */
+export function layoutDayEntries(
+  dayEntries: TimetableEntry[]
+): { entry: TimetableEntry; lane: number; laneCount: number }[] {
+  const sorted = sortSchedule(dayEntries);
+  const layout: { entry: TimetableEntry; lane: number; laneCount: number }[] = [];
+
+  let group: { entry: TimetableEntry; lane: number; laneCount: number }[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    group.forEach(item => {
+      item.laneCount = laneEnds.length;
+    });
+    layout.push(...group);
+    group = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach(entry => {
+    const start = timeToMinutes(entry.startTime);
+    const end = timeToMinutes(entry.endTime);
+
+    if (start >= groupEnd) {
+      closeGroup();
+    }
+
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+
+    group.push({ entry, lane, laneCount: 1 });
+    groupEnd = Math.max(groupEnd, end);
+  });
+  closeGroup();
+
+  return layout;
+}
@@ -1,5 +1,6 @@
 import { Timestamp } from "firebase/firestore";
 import { FileType } from "./subject";
+import { SearchAnalytics } from "./search";
 
 export interface AdminFileConfig {
   allowedFileTypes: FileType[];
@@ -27,6 +28,27 @@ export interface AdminDashboardStats {
   }>;
 }
 
+export interface FileTypeDistributionEntry {
+  type: string;
+  count: number;
+  size: number;
+}
+
+// Everything the admin dashboard shows, computed on the server
+export interface AdminDashboardData {
+  stats: AdminDashboardStats;
+  fileTypeDistribution: FileTypeDistributionEntry[];
+  searchAnalytics: SearchAnalytics;
+}
+
+// Custom auth claim that grants the admin area; set on the server from users/{uid}.role
+export const ADMIN_CLAIM = "admin";
+
+// Outcome of checking the caller of an admin route handler
+export type AdminAuthorization =
+  | { authorized: true; uid: string; email: string | null }
+  | { authorized: false; status: 401 | 403; error: string };
+
 export interface AdminConfigFormData extends AdminFileConfig {
   // Form data extends the file config with any additional form-specific fields
 }
@@ -0,0 +1,145 @@
+/**
+ * Course types for MyStudyHub
+ * Teachers run courses that students join by code; assignments published to a course
+ * turn into tasks in every enrolled student's hub
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { TaskFile, TaskPriority } from './task';
+
+export interface Course {
+  id: string;
+  teacherId: string;
+  teacherName: string;
+  name: string;
+  code?: string;
+  description?: string;
+  color: string; // Suggested color for the subject students link the course to
+  joinCode: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CourseFormData {
+  name: string;
+  code?: string;
+  description?: string;
+  color: string;
+}
+
+// What a join code reveals before a student joins; stored under the code itself
+export interface CourseInvite {
+  joinCode: string;
+  courseId: string;
+  teacherId: string;
+  teacherName: string;
+  courseName: string;
+  courseCode?: string;
+  color: string;
+}
+
+// A student in a course; owned by the student
+export interface Enrollment {
+  id: string; // `${courseId}_${userId}`
+  courseId: string;
+  userId: string; // The student
+  teacherId: string;
+  teacherName: string;
+  courseName: string;
+  studentName: string;
+  studentEmail: string;
+  subjectId: string; // The student's subject that assignments are filed under
+  joinCode: string; // Code the student joined with
+  receivedAssignmentIds: string[]; // Assignments already turned into tasks, so deleted tasks stay deleted
+  joinedAt: Timestamp;
+}
+
+export interface Assignment {
+  id: string;
+  courseId: string;
+  teacherId: string;
+  title: string;
+  description?: string;
+  dueDate: Timestamp;
+  priority: TaskPriority;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface AssignmentFormData {
+  title: string;
+  description?: string;
+  dueDate: string; // datetime-local value
+  priority: TaskPriority;
+}
+
+// Handed in, then graded by the teacher
+export type SubmissionStatus = 'submitted' | 'reviewed';
+
+// A student's hand-in for an assignment; keyed by the student's task ID
+export interface Submission {
+  id: string; // Same as the task it was handed in from
+  taskId: string;
+  assignmentId: string;
+  courseId: string;
+  teacherId: string;
+  userId: string; // The student
+  studentName: string;
+  files: TaskFile[]; // Attachments as they were when handed in
+  submittedAt: Timestamp;
+  isLate: boolean; // Handed in after the assignment's due date
+  status: SubmissionStatus;
+  grade?: string;
+  feedback?: string;
+  reviewedAt?: Timestamp;
+}
+
+export interface SubmissionReviewData {
+  grade: string;
+  feedback: string;
+}
+
+// Where a student is with an assignment, as seen by the teacher
+export type AssignmentProgressStatus =
+  | 'reviewed'
+  | 'submitted'
+  | 'completed'
+  | 'pending'
+  | 'overdue'
+  | 'not_received' // The student has not opened MyStudyHub since it was published
+  | 'removed'; // The student deleted the task
+
+export interface AssignmentProgress {
+  enrollment: Enrollment;
+  status: AssignmentProgressStatus;
+  taskId: string | null;
+  submission: Submission | null;
+}
+
+export const ASSIGNMENT_PROGRESS_LABELS: Record<AssignmentProgressStatus, string> = {
+  reviewed: 'Reviewed',
+  submitted: 'Handed in',
+  completed: 'Completed',
+  pending: 'In progress',
+  overdue: 'Overdue',
+  not_received: 'Not received yet',
+  removed: 'Removed by student'
+};
+
+export const ASSIGNMENT_PROGRESS_COLORS: Record<AssignmentProgressStatus, string> = {
+  reviewed: 'var(--ok)',
+  submitted: 'var(--brand)',
+  completed: 'var(--ok)',
+  pending: 'var(--text-2)',
+  overdue: 'var(--danger)',
+  not_received: 'var(--text-3)',
+  removed: 'var(--warn)'
+};
+
+export const COURSE_CONFIG = {
+  joinCodeLength: 6,
+  maxGradeLength: 50,
+  maxFeedbackLength: 5000,
+  // No 0/O or 1/I so codes can be read out loud
+  joinCodeAlphabet: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+} as const;
@@ -0,0 +1,157 @@
+/**
+ * Data export types for MyStudyHub
+ * Versioned backup of a user's study hub as JSON, CSV and a ZIP of uploaded files
+ */
+
+// Identifies MyStudyHub backups; bump the version when the layout of the data changes
+export const EXPORT_FORMAT = 'mystudyhub-export';
+export const EXPORT_FORMAT_VERSION = 2;
+
+// Names of the backup document and the file manifest inside an export ZIP
+export const EXPORT_JSON_FILENAME = 'mystudyhub-export.json';
+export const EXPORT_MANIFEST_FILENAME = 'manifest.json';
+
+// Entities of a backup, in the order they are written
+export const EXPORT_ENTITIES = [
+  'subjects',
+  'schedules',
+  'tasks',
+  'reminders',
+  'timerSessions',
+  'timerSettings',
+  'notifications',
+  'gradingScales',
+  'assessments',
+  'files'
+] as const;
+export type ExportEntity = typeof EXPORT_ENTITIES[number];
+
+// Format version that added an entity; older backups restore without it
+export const EXPORT_ENTITY_SINCE_VERSION: Partial<Record<ExportEntity, number>> = {
+  gradingScales: 2,
+  assessments: 2
+};
+
+export const EXPORT_ENTITY_LABELS: Record<ExportEntity, string> = {
+  subjects: 'Subjects',
+  schedules: 'Class schedules',
+  tasks: 'Tasks',
+  reminders: 'Reminders',
+  timerSessions: 'Timer sessions',
+  timerSettings: 'Timer settings',
+  notifications: 'Notifications',
+  gradingScales: 'Grading scales',
+  assessments: 'Assessments',
+  files: 'Files'
+};
+
+// A Firestore document as written to JSON
+// Timestamps become { "__timestamp": "<ISO date>" } so they survive a restore
+export interface ExportRecord {
+  id: string;
+  [field: string]: unknown;
+}
+
+// One class of a subject's weekly schedule; subjects are exported without their schedule
+export interface ExportScheduleRecord extends ExportRecord {
+  subjectId: string;
+  index: number; // Position in the subject's schedule
+}
+
+export interface StudyHubExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date
+  user: {
+    userId: string;
+    email: string;
+    displayName: string;
+  };
+  counts: Record<ExportEntity, number>;
+  data: Record<ExportEntity, ExportRecord[]>;
+}
+
+// Where an uploaded file was stored and where it is in the ZIP
+export interface ExportManifestEntry {
+  fileId: string;
+  source: 'subject' | 'task';
+  subjectId: string | null;
+  taskId: string | null;
+  name: string;
+  type: string;
+  size: number;
+  storagePath: string;
+  zipPath: string | null; // null when the file could not be downloaded
+  error?: string;
+}
+
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  files: ExportManifestEntry[];
+}
+
+export interface DataExportOptions {
+  includeCsv: boolean; // One CSV per entity, next to the JSON
+  includeFiles: boolean; // Uploaded subject and task files, with a manifest
+}
+
+export const DEFAULT_DATA_EXPORT_OPTIONS: DataExportOptions = {
+  includeCsv: false,
+  includeFiles: false
+};
+
+export type DataExportStage = 'collecting' | 'downloading' | 'packaging';
+
+export interface DataExportProgress {
+  stage: DataExportStage;
+  completed: number;
+  total: number;
+}
+
+export interface DataExportResult {
+  blob: Blob;
+  filename: string;
+  counts: Record<ExportEntity, number>;
+  missingFiles: number; // Files listed in the manifest without content
+}
+
+// How a backup record compares with the account it is restored into
+export type RestoreStatus = 'new' | 'conflict' | 'skipped';
+
+export const RESTORE_STATUS_LABELS: Record<RestoreStatus, string> = {
+  new: 'New',
+  conflict: 'Already exists',
+  skipped: 'Skipped'
+};
+
+// A backup read from a JSON or ZIP file
+export interface RestoreSource {
+  backup: StudyHubExport;
+  fileIds: string[]; // Files whose content is in the ZIP
+  readFile: (fileId: string) => Promise<Blob | null>;
+}
+
+// One row of the restore preview
+export interface RestoreItem {
+  entity: ExportEntity;
+  record: ExportRecord;
+  label: string;
+  status: RestoreStatus;
+  reason: string | null; // Why the item conflicts or is skipped
+  existingId: string | null; // Matching record in the account; references to a conflict that is not restored point here
+  restore: boolean; // Selected in the preview; new items start selected, conflicts do not
+}
+
+export interface RestoreProgress {
+  entity: ExportEntity;
+  completed: number;
+  total: number;
+}
+
+export interface RestoreResult {
+  created: number;
+  skipped: number;
+  errors: string[];
+}
@@ -0,0 +1,141 @@
+/**
+ * Grade book types for MyStudyHub
+ * Weighted assessments per subject, grading scales that turn percentages into letters
+ * and GPA points, and semester GPA built from them
+ */
+
+import { Timestamp } from 'firebase/firestore';
+
+export interface Assessment {
+  id: string;
+  userId: string;
+  subjectId: string;
+  name: string;
+  weight: number; // Share of the subject's final grade, in percent
+  maxScore: number;
+  score: number | null; // Null until the assessment is graded
+  date: Timestamp;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface AssessmentFormData {
+  name: string;
+  weight: number;
+  maxScore: number;
+  score: number | null;
+  date: string; // yyyy-mm-dd
+}
+
+// Lowest percentage that earns a grade, with the GPA points it is worth
+export interface GradeBand {
+  label: string;
+  minPercentage: number;
+  points: number;
+}
+
+export interface GradingScale {
+  id: string;
+  userId?: string; // Unset for the built-in scales
+  name: string;
+  bands: GradeBand[]; // Highest first
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export interface GradingScaleFormData {
+  name: string;
+  bands: GradeBand[];
+}
+
+// Grade book settings stored on the subject
+export interface SubjectGradeSettings {
+  credits: number | null; // Weight in the GPA; subjects without credits count once
+  semester: string; // e.g. "Fall 2026"; subjects are grouped by it for GPA
+  gradingScaleId: string;
+}
+
+export interface SubjectGradeSummary {
+  currentPercentage: number | null; // Over graded assessments only; null before anything is graded
+  earnedWeight: number; // Points of the final grade already earned
+  gradedWeight: number;
+  remainingWeight: number; // Weight of assessments not graded yet
+  totalWeight: number;
+  band: GradeBand | null;
+}
+
+// What the ungraded assessments need to average to reach a target grade
+export type FinalProjectionStatus = 'secured' | 'achievable' | 'out_of_reach' | 'no_remaining';
+
+export interface FinalProjection {
+  targetPercentage: number;
+  requiredPercentage: number | null;
+  status: FinalProjectionStatus;
+}
+
+export interface SubjectGpaEntry {
+  subjectId: string;
+  subjectName: string;
+  credits: number;
+  percentage: number;
+  band: GradeBand;
+}
+
+export interface SemesterGpa {
+  semester: string;
+  gpa: number;
+  credits: number;
+  subjects: SubjectGpaEntry[];
+}
+
+export const GRADE_CONFIG = {
+  defaultScaleId: 'us-4',
+  defaultTargetPercentage: 90,
+  unassignedSemester: 'No semester',
+  maxAssessmentsPerSubject: 100,
+  maxBandsPerScale: 20
+} as const;
+
+// Scales everyone can use; custom scales are stored per user
+export const BUILT_IN_GRADING_SCALES: GradingScale[] = [
+  {
+    id: 'us-4',
+    name: 'US letter grades (4.0)',
+    bands: [
+      { label: 'A', minPercentage: 93, points: 4.0 },
+      { label: 'A-', minPercentage: 90, points: 3.7 },
+      { label: 'B+', minPercentage: 87, points: 3.3 },
+      { label: 'B', minPercentage: 83, points: 3.0 },
+      { label: 'B-', minPercentage: 80, points: 2.7 },
+      { label: 'C+', minPercentage: 77, points: 2.3 },
+      { label: 'C', minPercentage: 73, points: 2.0 },
+      { label: 'C-', minPercentage: 70, points: 1.7 },
+      { label: 'D+', minPercentage: 67, points: 1.3 },
+      { label: 'D', minPercentage: 63, points: 1.0 },
+      { label: 'D-', minPercentage: 60, points: 0.7 },
+      { label: 'F', minPercentage: 0, points: 0 }
+    ]
+  },
+  {
+    id: 'simple-letter',
+    name: 'Letter grades (A–F)',
+    bands: [
+      { label: 'A', minPercentage: 90, points: 4 },
+      { label: 'B', minPercentage: 80, points: 3 },
+      { label: 'C', minPercentage: 70, points: 2 },
+      { label: 'D', minPercentage: 60, points: 1 },
+      { label: 'F', minPercentage: 0, points: 0 }
+    ]
+  },
+  {
+    id: 'uk-honours',
+    name: 'UK honours classes',
+    bands: [
+      { label: 'First', minPercentage: 70, points: 4 },
+      { label: '2:1', minPercentage: 60, points: 3.3 },
+      { label: '2:2', minPercentage: 50, points: 2.7 },
+      { label: 'Third', minPercentage: 40, points: 2 },
+      { label: 'Fail', minPercentage: 0, points: 0 }
+    ]
+  }
+];
@@ -0,0 +1,91 @@
+/**
+ * iCalendar (.ics) data types for MyStudyHub
+ */
+
+// How tasks are written to the calendar file
+export type IcsTaskFormat = 'VTODO' | 'VEVENT';
+
+export interface IcsExportOptions {
+  includeTasks: boolean;
+  includeReminders: boolean;
+  includeClasses: boolean;
+  includeCompleted: boolean;
+  taskFormat: IcsTaskFormat;
+  subjectIds: string[] | null; // null = all subjects; otherwise tasks without a subject are left out
+  classesUntil: string | null; // 'YYYY-MM-DD' last day of weekly classes, e.g. end of semester
+}
+
+export const DEFAULT_ICS_EXPORT_OPTIONS: IcsExportOptions = {
+  includeTasks: true,
+  includeReminders: true,
+  includeClasses: true,
+  includeCompleted: false,
+  taskFormat: 'VTODO',
+  subjectIds: null,
+  classesUntil: null
+};
+
+// Product identifier written to every exported calendar
+export const ICS_PRODUCT_ID = '-//MyStudyHub//Study Calendar//EN';
+
+// ===== IMPORT TYPES =====
+
+export type IcsComponentKind = 'VEVENT' | 'VTODO';
+
+export type IcsFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Parsed RRULE, limited to the parts MyStudyHub can represent
+export interface IcsRecurrence {
+  frequency: IcsFrequency;
+  interval: number;
+  byWeekday: number[]; // 0 = Sunday ... 6 = Saturday
+  until: Date | null;
+  count: number | null;
+}
+
+// A VEVENT or VTODO read from an .ics file
+export interface ParsedIcsItem {
+  uid: string;
+  kind: IcsComponentKind;
+  summary: string;
+  description: string;
+  location: string;
+  categories: string[];
+  start: Date | null;
+  end: Date | null;
+  due: Date | null;
+  isAllDay: boolean;
+  recurrence: IcsRecurrence | null;
+  exceptions: Date[];
+}
+
+// What an imported item becomes
+export type IcsImportAction = 'class' | 'task' | 'reminder' | 'skip';
+
+// Where an item was stored by a previous import with the same UID
+export interface IcsExistingItem {
+  type: 'task' | 'reminder' | 'class';
+  id: string; // Task, reminder or subject ID
+}
+
+// One row of the import preview
+export interface IcsImportItem {
+  item: ParsedIcsItem;
+  action: IcsImportAction;
+  subjectId: string | null;
+  existing: IcsExistingItem | null; // Set for re-imports, which update instead of duplicating
+}
+
+export interface IcsImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+export const ICS_IMPORT_ACTION_CONFIG: Record<IcsImportAction, { label: string }> = {
+  class: { label: 'Weekly class' },
+  task: { label: 'Task' },
+  reminder: { label: 'Reminder' },
+  skip: { label: "Don't import" }
+};
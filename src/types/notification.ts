@@ -14,7 +14,8 @@ export type NotificationType =
   | 'reminder_overdue'   // Reminder became overdue
   | 'file_uploaded'      // File attached to task/subject
   | 'system'             // System announcements
-  | 'timer_complete';    // Study timer session completed
+  | 'timer_complete'     // Study timer session completed
+  | 'assignment_reviewed'; // Teacher graded a handed-in assignment
 
 // Priority levels for notifications
 export type NotificationPriority = 'low' | 'medium' | 'high';
@@ -165,6 +166,12 @@ export const NOTIFICATION_TYPE_CONFIG = {
     icon: 'Clock',
     color: '#06B6D4',
     priority: 'medium' as NotificationPriority
+  },
+  assignment_reviewed: {
+    label: 'Assignment Reviewed',
+    icon: 'GraduationCap',
+    color: '#10B981',
+    priority: 'medium' as NotificationPriority
   }
 } as const;
 
@@ -0,0 +1,75 @@
+/**
+ * Offline mode types for MyStudyHub
+ * Changes made without a connection wait in an outbox and are replayed on reconnect
+ */
+
+import { ReminderFormData } from './reminder';
+
+// Reminder fields that can be edited offline
+export type OutboxReminderFields = Pick<ReminderFormData, 'title' | 'description' | 'dueDate' | 'recurrence'>;
+
+// A change waiting for the connection to come back
+export type OutboxOperation =
+  | {
+      kind: 'toggleTask';
+      taskId: string;
+      completed: boolean; // Status the user set
+    }
+  | {
+      kind: 'toggleReminder';
+      reminderId: string;
+      completed: boolean;
+      occurrenceIndex: number | null; // Occurrence a repeating reminder was on, to spot one completed elsewhere
+    }
+  | {
+      kind: 'updateReminder';
+      reminderId: string;
+      changes: Partial<OutboxReminderFields>;
+      base: Partial<OutboxReminderFields>; // Values the edit started from, for a three-way merge
+    }
+  | {
+      kind: 'completeTimerSession';
+      sessionId: string;
+      actualDuration: number;
+    };
+
+export type OutboxOperationKind = OutboxOperation['kind'];
+
+// A field changed both offline and on the server
+export interface OutboxConflictField {
+  field: string;
+  local: string; // Display values
+  server: string;
+}
+
+export interface OutboxConflict {
+  reason: string;
+  fields: OutboxConflictField[];
+  canKeepLocal: boolean; // False when the item no longer exists
+}
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  label: string; // Shown in the sync status, e.g. the task title
+  queuedAt: string; // ISO date
+  operation: OutboxOperation;
+  conflict: OutboxConflict | null; // Set when replaying needs the user to decide
+}
+
+export interface SyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pending: OutboxEntry[]; // Waiting to be sent
+  conflicts: OutboxEntry[]; // Waiting for the user
+  lastSyncedAt: string | null; // ISO date
+  lastError: string | null;
+}
+
+export type ConflictResolution = 'local' | 'server';
+
+export const OUTBOX_CONFIG = {
+  storageKeyPrefix: 'mystudyhub-outbox',
+  // Flaky connections report online before requests go through, so retry failed syncs
+  retryDelayMs: 15000
+} as const;
@@ -0,0 +1,70 @@
+/**
+ * Recurrence data types for MyStudyHub
+ * RRULE-style repetition shared by recurring tasks and reminders
+ */
+
+// Supported repetition frequencies
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// How a series ends
+export type RecurrenceEndType = 'never' | 'until' | 'count';
+
+// Stored recurrence rule (kept on every occurrence of a series)
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N days/weeks/months
+  byWeekday: number[]; // Weekly only: 0 = Sunday ... 6 = Saturday
+  dtstart: string; // ISO date-time of the first occurrence, anchors interval and time of day
+  until: string | null; // 'YYYY-MM-DD', last day an occurrence may fall on (inclusive)
+  count: number | null; // Total number of occurrences in the series
+  exceptions: string[]; // 'YYYY-MM-DD' dates that are skipped
+}
+
+// Form data for the recurrence editor
+export interface RecurrenceFormData {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday: number[];
+  endType: RecurrenceEndType;
+  until: string;
+  count: number;
+  exceptions: string[];
+}
+
+// Scope of an edit made to one occurrence of a series
+export type RecurrenceEditScope = 'occurrence' | 'series';
+
+// Next occurrence computed from a rule
+export interface RecurrenceOccurrence {
+  date: Date;
+  index: number; // 1-based position in the series
+}
+
+// Frequency configuration
+export const RECURRENCE_FREQUENCY_CONFIG = {
+  daily: {
+    label: 'Daily',
+    unit: 'day'
+  },
+  weekly: {
+    label: 'Weekly',
+    unit: 'week'
+  },
+  monthly: {
+    label: 'Monthly',
+    unit: 'month'
+  }
+} as const;
+
+// Short weekday labels indexed like Date.getDay()
+export const RECURRENCE_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export const DEFAULT_RECURRENCE_FORM_DATA: RecurrenceFormData = {
+  frequency: 'weekly',
+  interval: 1,
+  byWeekday: [],
+  endType: 'never',
+  until: '',
+  count: 10,
+  exceptions: []
+};
@@ -1,4 +1,5 @@
 import { Timestamp } from "firebase/firestore";
+import { RecurrenceRule, RecurrenceFormData } from "./recurrence";
 
 export interface Reminder {
   id: string;
@@ -7,6 +8,13 @@ export interface Reminder {
   description?: string;
   dueDate: Timestamp;
   isCompleted: boolean;
+  // A repeating reminder is a single document that advances to its next occurrence
+  recurrence?: RecurrenceRule | null;
+  occurrenceIndex?: number;
+  occurrenceDate?: Timestamp; // Date the rule scheduled the current occurrence for
+  snoozedUntil?: Timestamp | null;
+  lastCompletedAt?: Timestamp | null;
+  icsUid?: string | null; // UID of the calendar item this reminder was imported from
   createdAt: Timestamp;
 }
 
@@ -14,4 +22,18 @@ export interface ReminderFormData {
   title: string;
   description?: string;
   dueDate: string;
-}
\ No newline at end of file
+  recurrence?: RecurrenceFormData | null; // null = one-off reminder
+  icsUid?: string; // Set by the .ics importer
+}
+
+export type ReminderSnoozeOption = '5m' | '15m' | '60m' | 'tomorrow';
+
+// Hour used for the "tomorrow morning" snooze option
+export const SNOOZE_TOMORROW_HOUR = 8;
+
+export const REMINDER_SNOOZE_OPTIONS: { value: ReminderSnoozeOption; label: string; minutes?: number }[] = [
+  { value: '5m', label: '5 min', minutes: 5 },
+  { value: '15m', label: '15 min', minutes: 15 },
+  { value: '60m', label: '1 hour', minutes: 60 },
+  { value: 'tomorrow', label: 'Tomorrow morning' }
+];
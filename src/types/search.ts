@@ -4,14 +4,17 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
-import { Task, TaskStatus, TaskPriority } from './task';
+import { Task, TaskFile, TaskStatus, TaskPriority } from './task';
 import { Subject } from './subject';
 import { Reminder } from './reminder';
-import { SubjectFile, FileType } from './subject';
+import { SubjectFile, FileType, FileContentChunk } from './subject';
 
 // Search result types
 export type SearchResultType = 'task' | 'subject' | 'reminder' | 'file';
 
+// Where a file result is attached: to a subject, or to a task
+export type SearchFileSource = 'subject' | 'task';
+
 // Main search result interface
 export interface SearchResult {
   id: string;
@@ -24,7 +27,8 @@ export interface SearchResult {
     description?: string;
     metadata?: string[];
   };
-  data: Task | Subject | Reminder | SubjectFile;
+  data: Task | Subject | Reminder | SubjectFile | TaskFile;
+  contentMatch?: SearchContentMatch; // Set when a file matched inside its text
   breadcrumbs: {
     label: string;
     href: string;
@@ -34,6 +38,14 @@ export interface SearchResult {
   };
 }
 
+// Passage of a file's text that matched a query
+export interface SearchContentMatch {
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>; // Ranges of the snippet matching the query
+  page: number | null;
+  pageLabel: string | null; // e.g. 'Page 4' or 'Slide 2'
+}
+
 // Search filters configuration
 export interface SearchFilters {
   types: SearchResultType[];
@@ -44,9 +56,38 @@ export interface SearchFilters {
   subjectIds?: string[];
   status?: (TaskStatus | boolean)[];
   fileTypes?: FileType[];
+  fileSources?: SearchFileSource[];
   priorities?: TaskPriority[];
+  dueRange?: {
+    start?: Date;
+    end?: Date;
+  };
 }
 
+// A search box query split into text and filters, e.g. 'essay subject:CS101 -draft'
+export interface ParsedSearchQuery {
+  text: string; // Free text without operators, phrases or negations
+  phrases: string[]; // Quoted text that must appear as written
+  excluded: string[]; // Words and phrases prefixed with '-'
+  filters: Partial<SearchFilters>;
+  subjectQueries: string[]; // Raw subject: values, resolved to subjectIds against the user's subjects
+  errors: string[];
+}
+
+// Keywords of the search query language
+export const SEARCH_OPERATORS = ['type', 'subject', 'priority', 'due', 'is'] as const;
+export type SearchOperator = typeof SEARCH_OPERATORS[number];
+
+export const SEARCH_SYNTAX_HELP: Array<{ example: string; description: string }> = [
+  { example: 'type:task', description: 'Only tasks (or subject, reminder, file)' },
+  { example: 'subject:CS101', description: 'Items of a subject, by code or name' },
+  { example: 'priority:high', description: 'Tasks with a priority' },
+  { example: 'due:<2026-11-01', description: 'Due before a date (also >, today, tomorrow, week)' },
+  { example: 'is:overdue', description: 'Overdue items (also pending, completed)' },
+  { example: '"lab report"', description: 'Exact phrase' },
+  { example: '-draft', description: 'Leave out items containing a word' }
+];
+
 // Search state management
 export interface SearchState {
   query: string;
@@ -78,6 +119,7 @@ export interface SearchResponse {
     totalIndexed: number;
     cacheHit: boolean;
   };
+  query?: ParsedSearchQuery;
   facets: {
     types: Array<{
       type: SearchResultType;
@@ -89,6 +131,11 @@ export interface SearchResponse {
       name: string;
       count: number;
     }>;
+    fileSources: Array<{
+      source: SearchFileSource;
+      count: number;
+      label: string;
+    }>;
     dates: Array<{
       period: string;
       count: number;
@@ -104,6 +151,8 @@ export const SEARCH_CONFIG = {
     titlePartialMatch: 5,
     descriptionMatch: 3,
     metadataMatch: 1,
+    fuzzyMatch: 2,
+    contentMatch: 2,
     recentBoost: 1.5,
     priorityBoost: {
       high: 1.3,
@@ -117,17 +166,39 @@ export const SEARCH_CONFIG = {
   maxSuggestions: 8,
   searchDebounceMs: 300,
 
+  // History: a query is recorded once the user stops typing for this long
+  historySettleMs: 2000,
+  maxHistoryEntries: 100,
+  maxRecentSuggestions: 3,
+  maxPopularSuggestions: 3,
+
+  // Smart lists: at most this many per user, counted up to maxSmartListResults
+  maxSavedSearches: 50,
+  maxSmartListResults: 500,
+  // Index changes are batched for this long before smart lists are refreshed
+  indexChangeDelayMs: 250,
+  // Smart lists are also refreshed this often, as due dates pass
+  smartListRefreshMs: 60000,
+
+  // Typos tolerated per word: none below 4 letters, one up to 7, two from 8
+  fuzzyMinLength: 4,
+  fuzzyTwoTypoLength: 8,
+
   // Highlighting configuration
   highlightTag: 'mark',
   highlightClassName: 'search-highlight',
   maxSnippetLength: 150,
 
+  // Text extracted from uploaded files is stored in chunks of about this many characters
+  contentChunkLength: 1000,
+  maxContentLength: 200000,
+
   // Type-specific search fields
   searchableFields: {
     task: ['title', 'description'],
     subject: ['name', 'code', 'description', 'teacher'],
     reminder: ['title', 'description'],
-    file: ['name', 'originalName', 'description']
+    file: ['name', 'originalName', 'description', 'content']
   },
 
   // Type labels for display
@@ -138,6 +209,12 @@ export const SEARCH_CONFIG = {
     file: 'File'
   },
 
+  // File source labels for display
+  fileSourceLabels: {
+    subject: 'Subject files',
+    task: 'Task attachments'
+  },
+
   // Type icons (using Lucide icon names)
   typeIcons: {
     task: 'CheckCircle',
@@ -172,6 +249,60 @@ export interface SearchableFile extends SubjectFile {
   searchFrequency?: number;
 }
 
+// A document held by the client-side search index
+export interface SearchIndexEntry {
+  type: SearchResultType;
+  item: Task | Subject | Reminder | SubjectFile | TaskFile;
+  content?: FileContentChunk; // For files, the chunk of their text matching the most query words
+  task?: Task; // For task attachments, the task they are attached to
+}
+
+// Candidates returned by the search index for a query
+export interface SearchIndexQueryResult {
+  entries: SearchIndexEntry[];
+  subjects: Subject[]; // Active subjects, for metadata and breadcrumbs
+  totalIndexed: number;
+  cacheHit: boolean; // The index was ready without waiting for Firestore
+}
+
+// One distinct query of a user, with usage counters
+// Stored in the 'searchHistory' collection, one document per user and query
+export interface SearchHistoryEntry {
+  id: string;
+  userId: string;
+  query: string; // As last typed
+  normalizedQuery: string; // Trimmed and lowercased, used to merge repeats
+  searchCount: number;
+  clickCount: number;
+  totalResults: number; // Summed over searches, for averages
+  lastResultCount: number;
+  totalSearchTime: number; // Milliseconds, summed over searches
+  cacheHits: number;
+  clickedTypes: Partial<Record<SearchResultType, number>>;
+  lastSearchedAt: Timestamp;
+}
+
+// A query and filters saved under a name, shown as a smart list
+// Stored in the 'savedSearches' collection; operators such as due:week are re-evaluated on every run
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  isPinned: boolean; // Shown in the sidebar with a live count
+  order: number; // Position among the user's smart lists
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Options of searches run by the app rather than typed, such as smart lists
+export interface SearchOptions {
+  recordHistory?: boolean; // Defaults to true
+  maxResults?: number; // Defaults to SEARCH_CONFIG.maxResults
+  allowEmptyQuery?: boolean; // An empty query lists everything matching the filters
+}
+
 // Search analytics for admin dashboard
 export interface SearchAnalytics {
   totalSearches: number;
@@ -204,4 +335,12 @@ export interface SearchValidationState {
 // Helper function types
 export type HighlightFunction = (text: string, query: string) => string;
 export type RelevanceCalculator = (item: any, query: string) => number;
-export type FilterFunction = (item: any, filters: SearchFilters) => boolean;
\ No newline at end of file
+export type FilterFunction = (item: any, filters: SearchFilters) => boolean;
+
+/**
+ * Tell task attachments from subject files
+ * Both are stored in the 'subjectFiles' collection; task attachments carry a taskId
+ */
+export function getFileSource(file: SubjectFile | TaskFile): SearchFileSource {
+  return 'taskId' in file && file.taskId ? 'task' : 'subject';
+}
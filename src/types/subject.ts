@@ -16,6 +16,10 @@ export interface Subject {
   schedule?: SubjectSchedule[];
   isActive: boolean;
   fileCount?: number; // Optional field to track attached files
+  // Grade book settings
+  credits?: number | null;
+  semester?: string;
+  gradingScaleId?: string;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -25,7 +29,22 @@ export interface SubjectSchedule {
   startTime: string; // '09:00', '14:30', etc.
   endTime: string;
   room?: string;
-  type?: 'lecture' | 'lab' | 'tutorial' | 'seminar';
+  type?: SubjectScheduleType;
+  icsUid?: string; // UID of the calendar series this class was imported from
+}
+
+export type SubjectScheduleType = 'lecture' | 'lab' | 'tutorial' | 'seminar';
+
+// A scheduled class together with the subject it belongs to
+export interface TimetableEntry extends SubjectSchedule {
+  subject: Subject;
+}
+
+// Two classes that overlap in the weekly timetable
+export interface ScheduleClash {
+  entry: SubjectSchedule;
+  other: SubjectSchedule;
+  otherSubject?: Subject; // Undefined when both classes belong to the same subject
 }
 
 export interface CreateSubjectFormData {
@@ -35,6 +54,7 @@ export interface CreateSubjectFormData {
   color: string;
   teacher?: string;
   room?: string;
+  schedule?: SubjectSchedule[];
   selectedFiles?: File[]; // Files to be uploaded during subject creation
 }
 
@@ -91,6 +111,14 @@ export const TIME_SLOTS = [
   '20:00', '20:30', '21:00'
 ] as const;
 
+// Class types for schedule entries
+export const SCHEDULE_TYPE_CONFIG: Record<SubjectScheduleType, { label: string }> = {
+  lecture: { label: 'Lecture' },
+  lab: { label: 'Lab' },
+  tutorial: { label: 'Tutorial' },
+  seminar: { label: 'Seminar' }
+};
+
 // ===== FILE MANAGEMENT TYPES =====
 
 export type FileType =
@@ -116,9 +144,39 @@ export interface SubjectFile {
   storagePath: string;
   description?: string;
   isVerified: boolean;
+  contentStatus?: FileContentStatus; // Set at upload for files whose text is searchable
+  contentChunkCount?: number;
   uploadedAt: Timestamp;
 }
 
+// Outcome of extracting the text of an uploaded file for search
+export type FileContentStatus = 'indexed' | 'empty' | 'unsupported' | 'failed';
+
+// File types whose text is extracted at upload
+export const TEXT_EXTRACTABLE_TYPES: FileType[] = ['pdf', 'txt', 'md', 'docx', 'pptx'];
+
+// Text of one page of a file; page is null where the format has no pages
+export interface ExtractedTextPage {
+  page: number | null; // PDF page, PPTX slide, or DOCX page as last laid out by Word
+  text: string;
+}
+
+// Text read from a file at upload, split into chunks ready to store
+export interface FileContentExtraction {
+  status: FileContentStatus;
+  chunks: ExtractedTextPage[];
+}
+
+// A piece of a file's extracted text, stored in the 'fileContents' collection
+export interface FileContentChunk {
+  id: string; // '{fileId}_{index}'
+  fileId: string;
+  userId: string;
+  index: number;
+  page: number | null;
+  text: string;
+}
+
 export interface FileUploadState {
   isUploading: boolean;
   progress: number;
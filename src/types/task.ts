@@ -3,7 +3,8 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
-import { FileType } from './subject';
+import { FileType, FileContentStatus } from './subject';
+import { RecurrenceRule, RecurrenceFormData } from './recurrence';
 
 // Task priority levels
 export type TaskPriority = 'low' | 'medium' | 'high';
@@ -11,6 +12,9 @@ export type TaskPriority = 'low' | 'medium' | 'high';
 // Task status types
 export type TaskStatus = 'pending' | 'completed' | 'overdue';
 
+// Status shown to the user; 'blocked' is derived from unfinished dependencies and never stored
+export type TaskDerivedStatus = TaskStatus | 'blocked';
+
 // Main task interface
 export interface Task {
   id: string;
@@ -22,6 +26,20 @@ export interface Task {
   status: TaskStatus;
   subjectId?: string; // Optional link to a subject
   attachedFiles: TaskFile[];
+  checklist?: TaskChecklistItem[]; // Ordered steps of a larger task
+  dependsOn?: string[]; // IDs of tasks that must be completed before this one can start
+  recurrence?: RecurrenceRule | null; // Set on every occurrence of a recurring series
+  seriesId?: string | null; // ID of the first task in the series
+  occurrenceIndex?: number; // 1-based position in the series
+  occurrenceDate?: Timestamp; // Date the rule scheduled this occurrence for
+  nextOccurrenceId?: string | null; // Set once the following occurrence has been generated
+  icsUid?: string | null; // UID of the calendar item this task was imported from
+  // Set on tasks published by a teacher to a course the student joined
+  assignmentId?: string;
+  courseId?: string;
+  teacherId?: string; // Lets the teacher follow completion
+  assignmentUpdatedAt?: Timestamp; // Version of the assignment the task was last updated from
+  submittedAt?: Timestamp | null; // Set while the assignment is handed in; attachments are locked
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -38,9 +56,35 @@ export interface TaskFile {
   url: string;
   storagePath: string;
   description?: string;
+  contentStatus?: FileContentStatus; // Set at upload for files whose text is searchable
+  contentChunkCount?: number;
   uploadedAt: Timestamp;
 }
 
+// Checklist item (subtask) embedded in a task
+export interface TaskChecklistItem {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  dueDate?: Timestamp | null;
+  completedAt?: Timestamp | null;
+}
+
+// Form data for a checklist item
+export interface TaskChecklistItemFormData {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  dueDate: string; // 'YYYY-MM-DD' or empty
+}
+
+// Checklist progress summary
+export interface TaskChecklistProgress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
 // Form data for task creation/editing
 export interface TaskFormData {
   title: string;
@@ -48,6 +92,10 @@ export interface TaskFormData {
   dueDate: string;
   priority: TaskPriority;
   subjectId?: string;
+  recurrence?: RecurrenceFormData | null; // null = one-off task
+  checklist?: TaskChecklistItemFormData[];
+  dependsOn?: string[];
+  icsUid?: string; // Set by the .ics importer
 }
 
 // Validation interfaces
@@ -66,7 +114,7 @@ export interface TaskValidationState {
 export type TaskManagementState = 'idle' | 'loading' | 'success' | 'error';
 
 // Task filter options for listing
-export type TaskFilter = 'all' | 'pending' | 'completed' | 'overdue';
+export type TaskFilter = 'all' | 'pending' | 'completed' | 'overdue' | 'blocked';
 
 // Task sort options
 export type TaskSortOption = 'dueDate' | 'priority' | 'createdAt' | 'title';
@@ -77,7 +125,10 @@ export interface TaskStats {
   pending: number;
   completed: number;
   overdue: number;
+  blocked: number;
   dueThisWeek: number;
+  checklistItemsTotal: number;
+  checklistItemsCompleted: number;
 }
 
 // Priority configuration
@@ -121,6 +172,12 @@ export const TASK_STATUS_CONFIG = {
     color: '#EF4444',
     bg: '#FEE2E2',
     icon: '⚠️'
+  },
+  blocked: {
+    label: 'Blocked',
+    color: '#8B5CF6',
+    bg: '#EDE9FE',
+    icon: '🔒'
   }
 } as const;
 
@@ -204,6 +261,22 @@ export const getTaskStatus = (task: Task): TaskStatus => {
   return 'pending';
 };
 
+// Helper function to get checklist progress for a task
+export const getChecklistProgress = (task: Pick<Task, 'checklist'>): TaskChecklistProgress => {
+  const items = task.checklist || [];
+  const completed = items.filter(item => item.isCompleted).length;
+  return {
+    completed,
+    total: items.length,
+    percentage: items.length > 0 ? Math.round((completed / items.length) * 100) : 0
+  };
+};
+
+// Helper function to check if every checklist item is done
+export const isChecklistComplete = (task: Pick<Task, 'checklist'>): boolean => {
+  return !!task.checklist && task.checklist.length > 0 && task.checklist.every(item => item.isCompleted);
+};
+
 // Helper function to sort tasks by priority
 export const sortTasksByPriority = (tasks: Task[]): Task[] => {
   const priorityOrder = { high: 3, medium: 2, low: 1 };
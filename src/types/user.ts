@@ -171,4 +171,47 @@ export interface LoginResponse {
   success: boolean;
   user?: User;
   error?: AuthError;
-}
\ No newline at end of file
+}
+// Account deletion steps, in the order they run
+export type AccountDeletionStage = 'authenticating' | 'files' | 'data' | 'verifying' | 'account';
+
+export interface AccountDeletionProgress {
+  stage: AccountDeletionStage;
+  label: string; // What is being deleted right now
+  completed: number;
+  total: number;
+}
+
+// What was erased from one collection, and what verification still found
+export interface AccountDeletionReportEntry {
+  collection: string;
+  label: string;
+  deleted: number;
+  remaining: number;
+}
+
+export interface AccountDeletionReport {
+  collections: AccountDeletionReportEntry[];
+  storage: {
+    deleted: number;
+    remaining: string[]; // Storage paths still present after cleanup
+  };
+  isComplete: boolean; // Nothing of the user's data was found during verification
+  verifiedAt: string; // ISO date
+}
+
+export interface AccountDeletionResponse {
+  success: boolean;
+  report?: AccountDeletionReport;
+  error?: AuthError;
+}
+
+// Session storage key used to show the deletion report after signing out
+export const ACCOUNT_DELETION_REPORT_KEY = 'accountDeletionReport';
+
+// Firebase ID token after its signature and expiry were checked on the server
+export interface VerifiedIdToken {
+  uid: string;
+  email: string | null;
+  claims: Record<string, unknown>; // Includes custom claims such as admin
+}
@@ -0,0 +1,89 @@
+/**
+ * Profiles and admin access: roles are chosen at registration and afterwards only changed by
+ * holders of the admin custom claim; app-wide settings are written by the server only
+ */
+
+import { afterAll, afterEach, beforeAll, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { seed, setupRulesEnvironment } from './helpers';
+
+let env: RulesTestEnvironment;
+
+function profile(userId: string, role: string) {
+  return { userId, role, accountStatus: 'active', email: `${userId}@example.com`, displayName: userId };
+}
+
+beforeAll(async () => {
+  env = await setupRulesEnvironment();
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+describe('user profiles', () => {
+  it('lets people register themselves as students or teachers', async () => {
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(setDoc(doc(alice, 'users/alice'), profile('alice', 'student')));
+    await assertSucceeds(setDoc(doc(alice, 'users/alice'), profile('alice', 'teacher')));
+    await assertFails(setDoc(doc(alice, 'users/alice'), profile('alice', 'admin')));
+    await assertFails(setDoc(doc(alice, 'users/bob'), profile('bob', 'student')));
+  });
+
+  it('lets users edit their profile but not their role or account status', async () => {
+    await seed(env, { 'users/alice': profile('alice', 'student') });
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(updateDoc(doc(alice, 'users/alice'), { displayName: 'Alice' }));
+    await assertFails(updateDoc(doc(alice, 'users/alice'), { role: 'admin' }));
+    await assertFails(updateDoc(doc(alice, 'users/alice'), { accountStatus: 'suspended' }));
+  });
+
+  it('keeps profiles private', async () => {
+    await seed(env, { 'users/alice': profile('alice', 'student') });
+    const bob = env.authenticatedContext('bob').firestore();
+
+    await assertFails(getDoc(doc(bob, 'users/alice')));
+    await assertFails(updateDoc(doc(bob, 'users/alice'), { displayName: 'Bob' }));
+  });
+
+  it('lets admins read profiles and change roles', async () => {
+    await seed(env, { 'users/alice': profile('alice', 'student') });
+    const admin = env.authenticatedContext('root', { admin: true }).firestore();
+
+    await assertSucceeds(getDoc(doc(admin, 'users/alice')));
+    await assertSucceeds(updateDoc(doc(admin, 'users/alice'), { role: 'teacher' }));
+    await assertFails(updateDoc(doc(admin, 'users/alice'), { role: 'owner' }));
+  });
+
+  it('does not treat an admin role in the profile as admin access', async () => {
+    await seed(env, {
+      'users/mallory': profile('mallory', 'admin'),
+      'users/alice': profile('alice', 'student')
+    });
+    const mallory = env.authenticatedContext('mallory').firestore();
+
+    await assertFails(getDoc(doc(mallory, 'users/alice')));
+    await assertFails(updateDoc(doc(mallory, 'users/alice'), { role: 'admin' }));
+  });
+});
+
+describe('admin settings', () => {
+  it('can be read by everyone signed in and written by no client', async () => {
+    await seed(env, { 'adminSettings/global': { fileConfig: { maxFileSizeBytes: 1024 } } });
+    const alice = env.authenticatedContext('alice').firestore();
+    const admin = env.authenticatedContext('root', { admin: true }).firestore();
+    const anonymous = env.unauthenticatedContext().firestore();
+
+    await assertSucceeds(getDoc(doc(alice, 'adminSettings/global')));
+    await assertFails(getDoc(doc(anonymous, 'adminSettings/global')));
+    await assertFails(setDoc(doc(alice, 'adminSettings/global'), { fileConfig: {} }));
+    await assertFails(setDoc(doc(admin, 'adminSettings/global'), { fileConfig: {} }));
+  });
+});
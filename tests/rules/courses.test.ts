@@ -0,0 +1,309 @@
+/**
+ * Courses: teachers run courses and hand out join codes, students join with a code,
+ * receive assignments, hand them in, and teachers review the hand-ins
+ */
+
+import { afterAll, afterEach, beforeAll, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { daysFromNow, seed, setupRulesEnvironment, validTask } from './helpers';
+
+let env: RulesTestEnvironment;
+
+const course = { teacherId: 'teacher', teacherName: 'Ms. Frizzle', name: 'Biology', code: 'BIO101', joinCode: 'ABC123' };
+const invite = { joinCode: 'ABC123', courseId: 'c1', teacherId: 'teacher', teacherName: 'Ms. Frizzle', name: 'Biology' };
+const enrollment = {
+  userId: 'student',
+  courseId: 'c1',
+  teacherId: 'teacher',
+  joinCode: 'ABC123',
+  studentName: 'Sam',
+  receivedAssignmentIds: []
+};
+const assignment = { teacherId: 'teacher', courseId: 'c1', title: 'Lab report', dueDate: daysFromNow(7), priority: 'high' };
+
+function profile(userId: string, role: string) {
+  return { userId, role, accountStatus: 'active' };
+}
+
+function submission(taskId: string, fields: Record<string, unknown> = {}) {
+  return {
+    taskId,
+    assignmentId: 'a1',
+    courseId: 'c1',
+    teacherId: 'teacher',
+    userId: 'student',
+    studentName: 'Sam',
+    files: [],
+    isLate: false,
+    status: 'submitted',
+    ...fields
+  };
+}
+
+// A teacher with a course, a join code and a published assignment
+async function seedCourse(): Promise<void> {
+  await seed(env, {
+    'users/teacher': profile('teacher', 'teacher'),
+    'users/other-teacher': profile('other-teacher', 'teacher'),
+    'users/student': profile('student', 'student'),
+    'courses/c1': course,
+    'courses/c2': { ...course, teacherId: 'other-teacher', name: 'Physics', joinCode: 'XYZ789' },
+    'joinCodes/ABC123': invite,
+    'assignments/a1': assignment
+  });
+}
+
+// The student has joined and received the assignment as a task
+async function seedEnrolledStudent(): Promise<void> {
+  await seedCourse();
+  await seed(env, {
+    'enrollments/c1_student': enrollment,
+    'tasks/t1': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher', submittedAt: null })
+  });
+}
+
+beforeAll(async () => {
+  env = await setupRulesEnvironment();
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+describe('courses', () => {
+  it('can only be created by teachers', async () => {
+    await seedCourse();
+    const teacher = env.authenticatedContext('teacher').firestore();
+    const student = env.authenticatedContext('student').firestore();
+
+    const batch = writeBatch(teacher);
+    batch.set(doc(teacher, 'courses/c3'), { ...course, joinCode: 'NEW456' });
+    batch.set(doc(teacher, 'joinCodes/NEW456'), { ...invite, joinCode: 'NEW456', courseId: 'c3' });
+    await assertSucceeds(batch.commit());
+
+    await assertFails(setDoc(doc(student, 'courses/c4'), { ...course, teacherId: 'student' }));
+  });
+
+  it('are visible to their teacher and enrolled students only', async () => {
+    await seedCourse();
+    const student = env.authenticatedContext('student').firestore();
+
+    await assertSucceeds(getDoc(doc(env.authenticatedContext('teacher').firestore(), 'courses/c1')));
+    await assertFails(getDoc(doc(student, 'courses/c1')));
+
+    await seed(env, { 'enrollments/c1_student': enrollment });
+    await assertSucceeds(getDoc(doc(student, 'courses/c1')));
+  });
+});
+
+describe('join codes', () => {
+  it('can be looked up one at a time but only listed by their teacher', async () => {
+    await seedCourse();
+    const teacher = env.authenticatedContext('teacher').firestore();
+    const student = env.authenticatedContext('student').firestore();
+
+    await assertSucceeds(getDoc(doc(student, 'joinCodes/ABC123')));
+    await assertFails(getDocs(query(collection(student, 'joinCodes'), where('teacherId', '==', 'teacher'))));
+    await assertSucceeds(getDocs(query(collection(teacher, 'joinCodes'), where('teacherId', '==', 'teacher'))));
+  });
+
+  it('cannot be taken over by another teacher', async () => {
+    await seedCourse();
+    const otherTeacher = env.authenticatedContext('other-teacher').firestore();
+
+    await assertFails(setDoc(doc(otherTeacher, 'joinCodes/ABC123'), {
+      ...invite,
+      courseId: 'c2',
+      teacherId: 'other-teacher'
+    }));
+    await assertFails(deleteDoc(doc(otherTeacher, 'joinCodes/ABC123')));
+  });
+
+  it('keep pointing at the course they were issued for', async () => {
+    await seedCourse();
+    await seed(env, { 'courses/c3': { ...course, name: 'Chemistry', joinCode: 'NEW456' } });
+    const teacher = env.authenticatedContext('teacher').firestore();
+
+    await assertSucceeds(setDoc(doc(teacher, 'joinCodes/ABC123'), { ...invite, name: 'Biology II' }));
+    await assertFails(setDoc(doc(teacher, 'joinCodes/ABC123'), { ...invite, courseId: 'c3' }));
+  });
+});
+
+describe('enrollments', () => {
+  it('need a join code for the course', async () => {
+    await seedCourse();
+    const student = env.authenticatedContext('student').firestore();
+
+    await assertFails(setDoc(doc(student, 'enrollments/c2_student'), { ...enrollment, courseId: 'c2' }));
+    await assertFails(setDoc(doc(student, 'enrollments/c1_student'), { ...enrollment, teacherId: 'other-teacher' }));
+    await assertFails(setDoc(doc(student, 'enrollments/c1_someone'), enrollment));
+    await assertSucceeds(setDoc(doc(student, 'enrollments/c1_student'), enrollment));
+  });
+
+  it('can be removed by the course\'s teacher', async () => {
+    await seedEnrolledStudent();
+
+    await assertFails(deleteDoc(doc(env.authenticatedContext('other-teacher').firestore(), 'enrollments/c1_student')));
+    await assertSucceeds(deleteDoc(doc(env.authenticatedContext('teacher').firestore(), 'enrollments/c1_student')));
+  });
+});
+
+describe('assignments', () => {
+  it('are published by the course\'s teacher', async () => {
+    await seedCourse();
+
+    await assertSucceeds(setDoc(doc(env.authenticatedContext('teacher').firestore(), 'assignments/a2'), assignment));
+    await assertFails(setDoc(doc(env.authenticatedContext('other-teacher').firestore(), 'assignments/a3'), {
+      ...assignment,
+      teacherId: 'other-teacher'
+    }));
+  });
+
+  it('are read by enrolled students only', async () => {
+    await seedCourse();
+    const student = env.authenticatedContext('student').firestore();
+
+    await assertFails(getDoc(doc(student, 'assignments/a1')));
+    await seed(env, { 'enrollments/c1_student': enrollment });
+    await assertSucceeds(getDoc(doc(student, 'assignments/a1')));
+  });
+});
+
+describe('submissions', () => {
+  it('are handed in together with the task they come from', async () => {
+    await seedEnrolledStudent();
+    const student = env.authenticatedContext('student').firestore();
+
+    const batch = writeBatch(student);
+    batch.set(doc(student, 'submissions/t1'), { ...submission('t1'), submittedAt: serverTimestamp() });
+    batch.update(doc(student, 'tasks/t1'), { submittedAt: serverTimestamp() });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('are marked late after the due date', async () => {
+    await seedEnrolledStudent();
+    await seed(env, { 'assignments/a1': { ...assignment, dueDate: daysFromNow(-1) } });
+    const student = env.authenticatedContext('student').firestore();
+
+    const onTime = writeBatch(student);
+    onTime.set(doc(student, 'submissions/t1'), { ...submission('t1'), submittedAt: serverTimestamp() });
+    onTime.update(doc(student, 'tasks/t1'), { submittedAt: serverTimestamp() });
+    await assertFails(onTime.commit());
+
+    const late = writeBatch(student);
+    late.set(doc(student, 'submissions/t1'), { ...submission('t1', { isLate: true }), submittedAt: serverTimestamp() });
+    late.update(doc(student, 'tasks/t1'), { submittedAt: serverTimestamp() });
+    await assertSucceeds(late.commit());
+  });
+
+  it('lock the task\'s attachments while handed in', async () => {
+    await seedEnrolledStudent();
+    await seed(env, {
+      'tasks/t1': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher', submittedAt: Timestamp.now() }),
+      'submissions/t1': { ...submission('t1'), submittedAt: Timestamp.now() }
+    });
+    const student = env.authenticatedContext('student').firestore();
+
+    await assertFails(updateDoc(doc(student, 'tasks/t1'), { attachedFiles: ['f1'] }));
+  });
+
+  it('keep the handed-in task\'s files until the hand-in is taken back', async () => {
+    await seedEnrolledStudent();
+    const file = {
+      userId: 'student',
+      taskId: 't1',
+      name: 'report.pdf',
+      originalName: 'report.pdf',
+      storagePath: 'tasks/student/t1/report.pdf',
+      url: 'https://example.com/report.pdf',
+      size: 1024
+    };
+    await seed(env, {
+      'tasks/t1': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher', submittedAt: Timestamp.now() }),
+      'submissions/t1': { ...submission('t1'), submittedAt: Timestamp.now() },
+      'subjectFiles/f1': file
+    });
+    const student = env.authenticatedContext('student').firestore();
+
+    await assertFails(updateDoc(doc(student, 'subjectFiles/f1'), { name: 'final.pdf' }));
+    await assertFails(deleteDoc(doc(student, 'subjectFiles/f1')));
+
+    await seed(env, {
+      'tasks/t1': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher', submittedAt: null })
+    });
+    await assertSucceeds(updateDoc(doc(student, 'subjectFiles/f1'), { name: 'final.pdf' }));
+    await assertSucceeds(deleteDoc(doc(student, 'subjectFiles/f1')));
+  });
+
+  it('can only be reviewed by the course\'s teacher', async () => {
+    await seedEnrolledStudent();
+    await seed(env, { 'submissions/t1': { ...submission('t1'), submittedAt: Timestamp.now() } });
+    const review = { status: 'reviewed', grade: 'A', feedback: 'Well argued', reviewedAt: serverTimestamp() };
+
+    await assertFails(updateDoc(doc(env.authenticatedContext('student').firestore(), 'submissions/t1'), review));
+    await assertFails(updateDoc(doc(env.authenticatedContext('other-teacher').firestore(), 'submissions/t1'), review));
+    await assertSucceeds(updateDoc(doc(env.authenticatedContext('teacher').firestore(), 'submissions/t1'), review));
+  });
+
+  it('let the teacher notify the student of a review', async () => {
+    await seedEnrolledStudent();
+    await seed(env, { 'submissions/t1': { ...submission('t1'), submittedAt: Timestamp.now() } });
+    const teacher = env.authenticatedContext('teacher').firestore();
+    const notification = {
+      userId: 'student',
+      type: 'assignment_reviewed',
+      title: 'Lab report was reviewed',
+      metadata: { submissionId: 't1' }
+    };
+
+    await assertFails(setDoc(doc(teacher, 'notifications/n1'), notification));
+
+    const batch = writeBatch(teacher);
+    batch.update(doc(teacher, 'submissions/t1'), { status: 'reviewed', grade: 'A', feedback: '', reviewedAt: serverTimestamp() });
+    batch.set(doc(teacher, 'notifications/n1'), notification);
+    await assertSucceeds(batch.commit());
+  });
+
+  it('can only be taken back until they are reviewed', async () => {
+    await seedEnrolledStudent();
+    await seed(env, {
+      'submissions/t1': { ...submission('t1'), submittedAt: Timestamp.now() },
+      'tasks/t2': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher' }),
+      'submissions/t2': { ...submission('t2', { status: 'reviewed', grade: 'B' }), submittedAt: Timestamp.now() }
+    });
+    const student = env.authenticatedContext('student').firestore();
+
+    await assertSucceeds(deleteDoc(doc(student, 'submissions/t1')));
+    await assertFails(deleteDoc(doc(student, 'submissions/t2')));
+  });
+
+  it('can be removed by the teacher once the course is deleted', async () => {
+    await seedEnrolledStudent();
+    await seed(env, { 'submissions/t1': { ...submission('t1', { status: 'reviewed', grade: 'A' }), submittedAt: Timestamp.now() } });
+    const teacher = env.authenticatedContext('teacher').firestore();
+
+    await assertFails(deleteDoc(doc(env.authenticatedContext('other-teacher').firestore(), 'submissions/t1')));
+    await assertFails(deleteDoc(doc(teacher, 'submissions/t1')));
+
+    await assertSucceeds(deleteDoc(doc(teacher, 'courses/c1')));
+    await assertSucceeds(deleteDoc(doc(teacher, 'submissions/t1')));
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Grade book: assessments and custom grading scales belong to their user,
+ * and subjects only take sensible credits
+ */
+
+import { afterAll, afterEach, beforeAll, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { daysFromNow, seed, setupRulesEnvironment, validSubject } from './helpers';
+
+let env: RulesTestEnvironment;
+
+function assessment(userId: string, fields: Record<string, unknown> = {}) {
+  return {
+    userId,
+    subjectId: 's1',
+    name: 'Midterm',
+    weight: 30,
+    maxScore: 100,
+    score: null,
+    date: daysFromNow(14),
+    ...fields
+  };
+}
+
+function gradingScale(userId: string, fields: Record<string, unknown> = {}) {
+  return {
+    userId,
+    name: 'Pass/fail',
+    bands: [
+      { label: 'Pass', minPercentage: 50, points: 4 },
+      { label: 'Fail', minPercentage: 0, points: 0 }
+    ],
+    ...fields
+  };
+}
+
+beforeAll(async () => {
+  env = await setupRulesEnvironment();
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+describe('assessments', () => {
+  it('belong to their user', async () => {
+    await seed(env, { 'assessments/a1': assessment('alice') });
+    const alice = env.authenticatedContext('alice').firestore();
+    const bob = env.authenticatedContext('bob').firestore();
+
+    await assertSucceeds(getDoc(doc(alice, 'assessments/a1')));
+    await assertSucceeds(updateDoc(doc(alice, 'assessments/a1'), { score: 87 }));
+    await assertFails(getDoc(doc(bob, 'assessments/a1')));
+    await assertFails(updateDoc(doc(bob, 'assessments/a1'), { score: 100 }));
+    await assertFails(setDoc(doc(bob, 'assessments/a2'), assessment('alice')));
+  });
+
+  it('need a weight between 0 and 100, a positive maximum and no negative score', async () => {
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(setDoc(doc(alice, 'assessments/a1'), assessment('alice', { score: 42.5 })));
+    await assertFails(setDoc(doc(alice, 'assessments/a2'), assessment('alice', { weight: 120 })));
+    await assertFails(setDoc(doc(alice, 'assessments/a3'), assessment('alice', { maxScore: 0 })));
+    await assertFails(setDoc(doc(alice, 'assessments/a4'), assessment('alice', { score: -1 })));
+    await assertFails(setDoc(doc(alice, 'assessments/a5'), assessment('alice', { date: '2026-10-18' })));
+  });
+});
+
+describe('grading scales', () => {
+  it('belong to their user', async () => {
+    await seed(env, { 'gradingScales/g1': gradingScale('alice') });
+    const alice = env.authenticatedContext('alice').firestore();
+    const bob = env.authenticatedContext('bob').firestore();
+
+    await assertSucceeds(updateDoc(doc(alice, 'gradingScales/g1'), { name: 'Pass or fail' }));
+    await assertFails(getDoc(doc(bob, 'gradingScales/g1')));
+    await assertFails(updateDoc(doc(bob, 'gradingScales/g1'), { name: 'Mine now' }));
+  });
+
+  it('need between 1 and 20 grades', async () => {
+    const alice = env.authenticatedContext('alice').firestore();
+    const band = { label: 'A', minPercentage: 0, points: 4 };
+
+    await assertSucceeds(setDoc(doc(alice, 'gradingScales/g1'), gradingScale('alice')));
+    await assertFails(setDoc(doc(alice, 'gradingScales/g2'), gradingScale('alice', { bands: [] })));
+    await assertFails(setDoc(doc(alice, 'gradingScales/g3'), gradingScale('alice', { bands: Array(21).fill(band) })));
+  });
+});
+
+describe('subject grade settings', () => {
+  it('accept credits, a semester and a grading scale', async () => {
+    await seed(env, { 'subjects/s1': validSubject('alice') });
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(updateDoc(doc(alice, 'subjects/s1'), { credits: 4, semester: 'Fall 2026', gradingScaleId: 'us-4' }));
+    await assertSucceeds(updateDoc(doc(alice, 'subjects/s1'), { credits: null }));
+    await assertFails(updateDoc(doc(alice, 'subjects/s1'), { credits: -1 }));
+    await assertFails(updateDoc(doc(alice, 'subjects/s1'), { semester: 'x'.repeat(101) }));
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Shared setup for the Firestore and Storage rules specs
+ * Runs against the emulators started by `npm test`, loading firestore.rules and storage.rules
+ * from the repository root
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { doc, setDoc, Timestamp } from 'firebase/firestore';
+
+export const PROJECT_ID = 'demo-mystudyhub';
+
+export function setupRulesEnvironment(): Promise<RulesTestEnvironment> {
+  return initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(resolve(process.cwd(), 'firestore.rules'), 'utf8')
+    },
+    storage: {
+      rules: readFileSync(resolve(process.cwd(), 'storage.rules'), 'utf8')
+    }
+  });
+}
+
+/**
+ * Write documents as they would already be stored, without going through the rules
+ */
+export async function seed(env: RulesTestEnvironment, documents: Record<string, Record<string, unknown>>): Promise<void> {
+  await env.withSecurityRulesDisabled(async context => {
+    for (const [path, data] of Object.entries(documents)) {
+      await setDoc(doc(context.firestore(), path), data);
+    }
+  });
+}
+
+/**
+ * Upload files as they would already be stored, without going through the rules
+ */
+export async function seedFiles(env: RulesTestEnvironment, paths: string[]): Promise<void> {
+  await env.withSecurityRulesDisabled(async context => {
+    for (const path of paths) {
+      await context.storage().ref(path).putString('file content');
+    }
+  });
+}
+
+export function daysFromNow(days: number): Timestamp {
+  return Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+export function validTask(userId: string, fields: Record<string, unknown> = {}) {
+  return {
+    userId,
+    title: 'Essay draft',
+    dueDate: daysFromNow(7),
+    priority: 'medium',
+    status: 'pending',
+    attachedFiles: [],
+    ...fields
+  };
+}
+
+export function validSubject(userId: string, fields: Record<string, unknown> = {}) {
+  return {
+    userId,
+    name: 'Biology',
+    color: '#22c55e',
+    isActive: true,
+    ...fields
+  };
+}
+
+export function validReminder(userId: string, fields: Record<string, unknown> = {}) {
+  return {
+    userId,
+    title: 'Library books',
+    dueDate: daysFromNow(1),
+    isCompleted: false,
+    ...fields
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Per-owner access: documents belong to the user in their userId field, are checked for the
+ * fields the app relies on, and collections without a rule are closed
+ */
+
+import { afterAll, afterEach, beforeAll, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, updateDoc, where } from 'firebase/firestore';
+import { seed, setupRulesEnvironment, validReminder, validSubject, validTask } from './helpers';
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await setupRulesEnvironment();
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+describe('owned documents', () => {
+  it('lets users create documents for themselves only', async () => {
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(setDoc(doc(alice, 'tasks/t1'), validTask('alice')));
+    await assertSucceeds(setDoc(doc(alice, 'subjects/s1'), validSubject('alice')));
+    await assertSucceeds(setDoc(doc(alice, 'reminders/r1'), validReminder('alice')));
+    await assertFails(setDoc(doc(alice, 'tasks/t2'), validTask('bob')));
+  });
+
+  it('keeps documents private to their owner', async () => {
+    await seed(env, { 'tasks/t1': validTask('alice') });
+    const alice = env.authenticatedContext('alice').firestore();
+    const bob = env.authenticatedContext('bob').firestore();
+    const anonymous = env.unauthenticatedContext().firestore();
+
+    await assertSucceeds(getDoc(doc(alice, 'tasks/t1')));
+    await assertFails(getDoc(doc(bob, 'tasks/t1')));
+    await assertFails(getDoc(doc(anonymous, 'tasks/t1')));
+    await assertFails(updateDoc(doc(bob, 'tasks/t1'), { title: 'Taken over' }));
+    await assertFails(deleteDoc(doc(bob, 'tasks/t1')));
+  });
+
+  it('lets owners change and delete their documents but not hand them over', async () => {
+    await seed(env, { 'subjects/s1': validSubject('alice') });
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(updateDoc(doc(alice, 'subjects/s1'), { name: 'Chemistry' }));
+    await assertFails(updateDoc(doc(alice, 'subjects/s1'), { userId: 'bob' }));
+    await assertSucceeds(deleteDoc(doc(alice, 'subjects/s1')));
+  });
+
+  it('lets users tell a deleted document from one that is not theirs', async () => {
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(getDoc(doc(alice, 'tasks/missing')));
+  });
+
+  it('only allows queries limited to the user\'s own documents', async () => {
+    await seed(env, { 'tasks/t1': validTask('alice'), 'tasks/t2': validTask('bob') });
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertSucceeds(getDocs(query(collection(alice, 'tasks'), where('userId', '==', 'alice'))));
+    await assertFails(getDocs(collection(alice, 'tasks')));
+  });
+
+  it('rejects documents missing the fields the app relies on', async () => {
+    const alice = env.authenticatedContext('alice').firestore();
+    const { title, ...untitled } = validTask('alice');
+
+    await assertFails(setDoc(doc(alice, 'tasks/t1'), untitled));
+    await assertFails(setDoc(doc(alice, 'tasks/t2'), validTask('alice', { priority: 'urgent' })));
+    await assertFails(setDoc(doc(alice, 'reminders/r1'), validReminder('alice', { isCompleted: 'no' })));
+    await assertFails(setDoc(doc(alice, 'subjects/s1'), validSubject('alice', { name: '' })));
+  });
+
+  it('only lets users add extracted text to their own files', async () => {
+    const file = (userId: string) => ({
+      userId,
+      subjectId: 's1',
+      name: 'notes.pdf',
+      originalName: 'notes.pdf',
+      storagePath: 'subjects/s1/files/f1/notes.pdf',
+      url: 'https://example.com/notes.pdf',
+      size: 1024
+    });
+    await seed(env, { 'subjectFiles/f1': file('alice'), 'subjectFiles/f2': file('bob') });
+    const alice = env.authenticatedContext('alice').firestore();
+    const chunk = (fileId: string) => ({ userId: 'alice', fileId, index: 0, text: 'mitochondria' });
+
+    await assertSucceeds(setDoc(doc(alice, 'fileContents/f1_0'), chunk('f1')));
+    await assertFails(setDoc(doc(alice, 'fileContents/f2_0'), chunk('f2')));
+    await assertFails(setDoc(doc(alice, 'fileContents/missing_0'), chunk('missing')));
+    await assertFails(updateDoc(doc(alice, 'fileContents/f1_0'), { fileId: 'f2' }));
+  });
+
+  it('keeps timer settings under the owner\'s user ID', async () => {
+    const settings = { focusDuration: 25, shortBreakDuration: 5, longBreakDuration: 15, longBreakInterval: 4 };
+    const alice = env.authenticatedContext('alice').firestore();
+    const bob = env.authenticatedContext('bob').firestore();
+
+    await assertSucceeds(setDoc(doc(alice, 'timer-settings/alice'), settings));
+    await assertFails(getDoc(doc(bob, 'timer-settings/alice')));
+    await assertFails(setDoc(doc(bob, 'timer-settings/alice'), settings));
+  });
+});
+
+describe('collections without a rule', () => {
+  it('are closed', async () => {
+    await seed(env, { 'anything/x': { userId: 'alice' } });
+    const alice = env.authenticatedContext('alice').firestore();
+
+    await assertFails(getDoc(doc(alice, 'anything/x')));
+    await assertFails(setDoc(doc(alice, 'anything/y'), { userId: 'alice' }));
+  });
+});
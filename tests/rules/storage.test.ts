@@ -0,0 +1,97 @@
+/**
+ * Uploaded files: stored under their owner's folder or subject, readable by the teacher of the
+ * course an attachment's task came from, and locked while the task is handed in
+ */
+
+import { afterAll, afterEach, beforeAll, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { Timestamp } from 'firebase/firestore';
+import { seed, seedFiles, setupRulesEnvironment, validSubject, validTask } from './helpers';
+
+let env: RulesTestEnvironment;
+
+const attachment = 'tasks/student/t1/report.pdf';
+
+function storageOf(userId: string) {
+  return env.authenticatedContext(userId).storage();
+}
+
+function upload(userId: string, path: string) {
+  return storageOf(userId).ref(path).putString('new content').then(() => undefined);
+}
+
+beforeAll(async () => {
+  env = await setupRulesEnvironment();
+});
+
+afterEach(async () => {
+  await env.clearFirestore();
+  await env.clearStorage();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+describe('profile and subject files', () => {
+  it('can only be uploaded and read by their owner', async () => {
+    await seed(env, { 'subjects/s1': validSubject('alice') });
+    await seedFiles(env, ['users/alice/avatar.png', 'subjects/s1/files/f1/notes.pdf']);
+
+    await assertSucceeds(upload('alice', 'users/alice/avatar.png'));
+    await assertSucceeds(upload('alice', 'subjects/s1/files/f2/summary.pdf'));
+    await assertSucceeds(storageOf('alice').ref('subjects/s1/files/f1/notes.pdf').getMetadata());
+
+    await assertFails(upload('bob', 'users/alice/avatar.png'));
+    await assertFails(upload('bob', 'subjects/s1/files/f3/notes.pdf'));
+    await assertFails(storageOf('bob').ref('subjects/s1/files/f1/notes.pdf').getMetadata());
+    await assertFails(storageOf('bob').ref('subjects/s1/files/f1/notes.pdf').delete());
+  });
+
+  it('cannot be stored under a subject that does not exist', async () => {
+    await assertFails(upload('alice', 'subjects/missing/files/f1/notes.pdf'));
+  });
+});
+
+describe('task attachments', () => {
+  it('are written by their owner only', async () => {
+    await seed(env, { 'tasks/t1': validTask('student') });
+    await seedFiles(env, [attachment]);
+
+    await assertSucceeds(upload('student', 'tasks/student/t1/draft.pdf'));
+    await assertFails(upload('mallory', 'tasks/student/t1/draft.pdf'));
+    await assertFails(storageOf('mallory').ref(attachment).delete());
+  });
+
+  it('are read by their owner and the teacher of the task\'s course', async () => {
+    await seed(env, { 'tasks/t1': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher' }) });
+    await seedFiles(env, [attachment]);
+
+    await assertSucceeds(storageOf('student').ref(attachment).getMetadata());
+    await assertSucceeds(storageOf('teacher').ref(attachment).getMetadata());
+    await assertFails(storageOf('other-teacher').ref(attachment).getMetadata());
+    await assertFails(storageOf('mallory').ref(attachment).getMetadata());
+  });
+
+  it('stay as they were while the task is handed in', async () => {
+    await seed(env, {
+      'tasks/t1': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher', submittedAt: Timestamp.now() })
+    });
+    await seedFiles(env, [attachment]);
+
+    await assertFails(upload('student', attachment));
+    await assertFails(upload('student', 'tasks/student/t1/extra.pdf'));
+    await assertFails(storageOf('student').ref(attachment).delete());
+
+    await seed(env, {
+      'tasks/t1': validTask('student', { assignmentId: 'a1', courseId: 'c1', teacherId: 'teacher', submittedAt: null })
+    });
+    await assertSucceeds(storageOf('student').ref(attachment).delete());
+  });
+
+  it('can be removed once their task is deleted', async () => {
+    await seedFiles(env, [attachment]);
+
+    await assertSucceeds(storageOf('student').ref(attachment).delete());
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Every spec talks to the same emulator and clears it between tests
+    fileParallelism: false,
+    testTimeout: 15000,
+    hookTimeout: 30000
+  }
+});